@@ -0,0 +1,248 @@
+/**
+ * Command history
+ * Undo/redo stack for level edits, with grouping of compound operations
+ */
+
+import { Level } from './Level.js';
+import { LevelCommand, CompositeCommand } from './LevelCommands.js';
+
+/** Default maximum number of undoable steps */
+export const DEFAULT_HISTORY_SIZE = 100;
+
+/**
+ * Callback type for history change notifications
+ */
+export type HistoryChangeCallback = (history: CommandHistory) => void;
+
+/**
+ * A named step in the history, as shown in the history panel
+ */
+export interface HistoryEntry {
+    /** Position in the combined undo/redo timeline (0 = oldest step) */
+    index: number;
+    label: string;
+    /** True if the step is currently applied (undoable), false if redoable */
+    applied: boolean;
+}
+
+/**
+ * Command history class - executes commands and keeps them for undo/redo
+ */
+export class CommandHistory {
+    private level: Level;
+    private maxSize: number;
+    private undoStack: LevelCommand[] = [];
+    private redoStack: LevelCommand[] = [];
+    private openGroup: CompositeCommand | null = null;
+    private groupDepth: number = 0;
+    private changeCallbacks: HistoryChangeCallback[] = [];
+
+    constructor(level: Level, maxSize: number = DEFAULT_HISTORY_SIZE) {
+        this.level = level;
+        this.maxSize = Math.max(1, maxSize);
+    }
+
+    /**
+     * Executes a command and records it as an undoable step
+     */
+    execute(command: LevelCommand): void {
+        command.execute(this.level);
+
+        if (this.openGroup) {
+            this.openGroup.add(command);
+            return;
+        }
+
+        this.push(command);
+    }
+
+    /**
+     * Starts grouping subsequent commands into one step
+     * Groups may be nested; only the outermost label is kept
+     */
+    beginGroup(label: string): void {
+        if (this.groupDepth === 0) {
+            this.openGroup = new CompositeCommand(label);
+        }
+        this.groupDepth++;
+    }
+
+    /**
+     * Closes the current group and records it if it contains any commands
+     */
+    endGroup(): void {
+        if (this.groupDepth === 0) return;
+
+        this.groupDepth--;
+        if (this.groupDepth > 0 || !this.openGroup) return;
+
+        const group = this.openGroup;
+        this.openGroup = null;
+
+        if (group.size() > 0) {
+            this.push(group);
+        }
+    }
+
+    /**
+     * Runs a function with all commands it executes grouped into one step
+     */
+    group(label: string, fn: () => void): void {
+        this.beginGroup(label);
+        try {
+            fn();
+        } finally {
+            this.endGroup();
+        }
+    }
+
+    /**
+     * Reverts the most recent step
+     */
+    undo(): boolean {
+        if (this.openGroup) return false;
+
+        const command = this.undoStack.pop();
+        if (!command) return false;
+
+        command.undo(this.level);
+        this.redoStack.push(command);
+        this.notifyChange();
+        return true;
+    }
+
+    /**
+     * Re-applies the most recently undone step
+     */
+    redo(): boolean {
+        if (this.openGroup) return false;
+
+        const command = this.redoStack.pop();
+        if (!command) return false;
+
+        command.execute(this.level);
+        this.undoStack.push(command);
+        this.notifyChange();
+        return true;
+    }
+
+    /**
+     * Undoes or redoes until exactly `count` steps are applied
+     */
+    jumpTo(count: number): void {
+        const target = Math.max(0, Math.min(count, this.undoStack.length + this.redoStack.length));
+
+        while (this.undoStack.length > target && this.undo()) { /* step back */ }
+        while (this.undoStack.length < target && this.redo()) { /* step forward */ }
+    }
+
+    /**
+     * Checks if there is a step to undo
+     */
+    canUndo(): boolean {
+        return this.undoStack.length > 0 && !this.openGroup;
+    }
+
+    /**
+     * Checks if there is a step to redo
+     */
+    canRedo(): boolean {
+        return this.redoStack.length > 0 && !this.openGroup;
+    }
+
+    /**
+     * Gets the number of currently applied steps
+     */
+    getAppliedCount(): number {
+        return this.undoStack.length;
+    }
+
+    /**
+     * Gets all steps in chronological order, applied ones first
+     */
+    getEntries(): HistoryEntry[] {
+        const applied = this.undoStack.map((command, index) => ({
+            index,
+            label: command.label,
+            applied: true
+        }));
+
+        const undone = [...this.redoStack].reverse().map((command, i) => ({
+            index: this.undoStack.length + i,
+            label: command.label,
+            applied: false
+        }));
+
+        return [...applied, ...undone];
+    }
+
+    /**
+     * Gets the maximum number of undoable steps
+     */
+    getMaxSize(): number {
+        return this.maxSize;
+    }
+
+    /**
+     * Sets the maximum number of undoable steps, dropping the oldest if needed
+     */
+    setMaxSize(size: number): void {
+        this.maxSize = Math.max(1, size);
+        this.trim();
+        this.notifyChange();
+    }
+
+    /**
+     * Forgets all steps (e.g. after loading a different level)
+     */
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.openGroup = null;
+        this.groupDepth = 0;
+        this.notifyChange();
+    }
+
+    /**
+     * Registers a callback for history changes
+     */
+    onChange(callback: HistoryChangeCallback): void {
+        this.changeCallbacks.push(callback);
+    }
+
+    /**
+     * Removes a change callback
+     */
+    offChange(callback: HistoryChangeCallback): void {
+        const index = this.changeCallbacks.indexOf(callback);
+        if (index !== -1) {
+            this.changeCallbacks.splice(index, 1);
+        }
+    }
+
+    /**
+     * Records a finished step and discards the redo branch
+     */
+    private push(command: LevelCommand): void {
+        this.undoStack.push(command);
+        this.redoStack = [];
+        this.trim();
+        this.notifyChange();
+    }
+
+    /**
+     * Drops the oldest steps beyond the size limit
+     */
+    private trim(): void {
+        if (this.undoStack.length > this.maxSize) {
+            this.undoStack.splice(0, this.undoStack.length - this.maxSize);
+        }
+    }
+
+    /**
+     * Notifies all registered callbacks of a change
+     */
+    private notifyChange(): void {
+        this.changeCallbacks.forEach(callback => callback(this));
+    }
+}
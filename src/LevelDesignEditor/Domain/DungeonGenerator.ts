@@ -0,0 +1,524 @@
+/**
+ * Dungeon Generator - Procedural blockouts to start a level from
+ * Carves open cells into a grid with one of several algorithms, then turns them into floors,
+ * surrounding walls and player, enemy and item spawns
+ *
+ * Deterministic: the same seed, options and grid size give the same layout (element IDs differ)
+ */
+
+import { Level } from './Level.js';
+import {
+    AnyLevelElement,
+    DEFAULT_ELEVATION,
+    DEFAULT_FLOOR_THICKNESS,
+    DEFAULT_WALL_HEIGHT,
+    SpawnType,
+    createFloorElement,
+    createSpawnElement,
+    createWallElement
+} from './LevelElement.js';
+import { PLAYER_WIDTH } from './PlayerMetrics.js';
+import { GridRect, mergeGridCells } from './GridSystem.js';
+import { SeededRandom } from './SeededRandom.js';
+
+/**
+ * Generation algorithms
+ * - `bsp`: rectangular rooms in a binary space partition, joined by corridors
+ * - `caves`: cellular-automata caves (only the largest connected cave is kept)
+ * - `drunkard`: a random walk carving winding tunnels
+ */
+export type DungeonAlgorithm = 'bsp' | 'caves' | 'drunkard';
+
+/**
+ * Generation options
+ */
+export interface DungeonOptions {
+    algorithm: DungeonAlgorithm;
+    seed: number;
+    /** Room side length range in cells (bsp) */
+    minRoomSize: number;
+    maxRoomSize: number;
+    /** Corridor and tunnel width in cells (bsp, drunkard); never narrower than the player */
+    corridorWidth: number;
+    wallHeight: number;
+    enemyCount: number;
+    itemCount: number;
+    /** Share of cells that start as rock (caves) */
+    caveFillRatio: number;
+    /** Smoothing passes (caves) */
+    caveSmoothingSteps: number;
+    /** Share of the grid to carve out (drunkard) */
+    walkCoverage: number;
+}
+
+/**
+ * Default generation options
+ */
+export const DEFAULT_DUNGEON_OPTIONS: DungeonOptions = {
+    algorithm: 'bsp',
+    seed: 1,
+    minRoomSize: 4,
+    maxRoomSize: 8,
+    corridorWidth: 2,
+    wallHeight: DEFAULT_WALL_HEIGHT,
+    enemyCount: 4,
+    itemCount: 3,
+    caveFillRatio: 0.45,
+    caveSmoothingSteps: 5,
+    walkCoverage: 0.4
+};
+
+/**
+ * Display names of the algorithms
+ */
+export const DUNGEON_ALGORITHM_NAMES: Record<DungeonAlgorithm, string> = {
+    bsp: 'Rooms and corridors (BSP)',
+    caves: 'Caves (cellular automata)',
+    drunkard: "Tunnels (drunkard's walk)"
+};
+
+/**
+ * Smallest grid side the generator works on
+ */
+const MIN_GRID_SIZE = 5;
+
+/**
+ * Grid of open (carved) and solid cells
+ */
+class CellGrid {
+    readonly width: number;
+    readonly height: number;
+    private open: boolean[];
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.open = new Array(width * height).fill(false);
+    }
+
+    isOpen(x: number, y: number): boolean {
+        return this.inBounds(x, y) && this.open[y * this.width + x];
+    }
+
+    setOpen(x: number, y: number, open: boolean): void {
+        if (this.inBounds(x, y)) {
+            this.open[y * this.width + x] = open;
+        }
+    }
+
+    inBounds(x: number, y: number): boolean {
+        return x >= 0 && y >= 0 && x < this.width && y < this.height;
+    }
+
+    /**
+     * Whether a cell lies inside the one-cell solid border
+     */
+    isInterior(x: number, y: number): boolean {
+        return x >= 1 && y >= 1 && x < this.width - 1 && y < this.height - 1;
+    }
+
+    /**
+     * Opens a rectangle, clipped to the interior
+     */
+    carve(rect: GridRect): void {
+        for (let y = rect.y; y < rect.y + rect.height; y++) {
+            for (let x = rect.x; x < rect.x + rect.width; x++) {
+                if (this.isInterior(x, y)) this.setOpen(x, y, true);
+            }
+        }
+    }
+
+    /**
+     * Gets all open cells, row by row
+     */
+    getOpenCells(): Array<[number, number]> {
+        const cells: Array<[number, number]> = [];
+        for (let y = 0; y < this.height; y++) {
+            for (let x = 0; x < this.width; x++) {
+                if (this.isOpen(x, y)) cells.push([x, y]);
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * Counts the solid cells around a cell (8 neighbours; outside the grid counts as solid)
+     */
+    countSolidNeighbours(x: number, y: number): number {
+        let count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                if ((dx !== 0 || dy !== 0) && !this.isOpen(x + dx, y + dy)) count++;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * Walking distance (4 neighbours) from a cell to every open cell; -1 where unreachable
+     */
+    getDistances(startX: number, startY: number): number[] {
+        const distances = new Array(this.width * this.height).fill(-1);
+        if (!this.isOpen(startX, startY)) return distances;
+
+        const queue: Array<[number, number]> = [[startX, startY]];
+        distances[startY * this.width + startX] = 0;
+        for (let head = 0; head < queue.length; head++) {
+            const [x, y] = queue[head];
+            const distance = distances[y * this.width + x];
+            for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (this.isOpen(nx, ny) && distances[ny * this.width + nx] === -1) {
+                    distances[ny * this.width + nx] = distance + 1;
+                    queue.push([nx, ny]);
+                }
+            }
+        }
+        return distances;
+    }
+}
+
+/**
+ * Dungeon Generator class
+ */
+export class DungeonGenerator {
+    /**
+     * Generates a blockout the size of the level's grid
+     * The level is not changed; add the elements with a command so the step can be undone
+     */
+    static generate(level: Level, options: Partial<DungeonOptions> = {}): AnyLevelElement[] {
+        const settings = this.normalizeOptions({ ...DEFAULT_DUNGEON_OPTIONS, ...options });
+        const { width, height } = level.getGridSize();
+        if (width < MIN_GRID_SIZE || height < MIN_GRID_SIZE) {
+            throw new Error(`The grid must be at least ${MIN_GRID_SIZE} x ${MIN_GRID_SIZE} cells to generate a dungeon`);
+        }
+
+        const random = new SeededRandom(settings.seed);
+        const grid = new CellGrid(width, height);
+
+        let start: [number, number];
+        switch (settings.algorithm) {
+            case 'bsp':
+                start = this.generateRooms(grid, settings, random);
+                break;
+            case 'caves':
+                start = this.generateCaves(grid, settings, random);
+                break;
+            case 'drunkard':
+                start = this.generateTunnels(grid, settings, random);
+                break;
+        }
+
+        return [
+            ...this.createFloors(grid),
+            ...this.createWalls(grid, settings.wallHeight),
+            ...this.createSpawns(grid, start, settings, random)
+        ];
+    }
+
+    /**
+     * Clamps options to workable values
+     */
+    private static normalizeOptions(options: DungeonOptions): DungeonOptions {
+        const minRoomSize = Math.max(2, Math.round(options.minRoomSize));
+        return {
+            ...options,
+            minRoomSize,
+            maxRoomSize: Math.max(minRoomSize, Math.round(options.maxRoomSize)),
+            corridorWidth: Math.max(Math.ceil(PLAYER_WIDTH), Math.round(options.corridorWidth)),
+            wallHeight: options.wallHeight > 0 ? options.wallHeight : DEFAULT_WALL_HEIGHT,
+            enemyCount: Math.max(0, Math.round(options.enemyCount)),
+            itemCount: Math.max(0, Math.round(options.itemCount)),
+            caveFillRatio: Math.min(0.7, Math.max(0.3, options.caveFillRatio)),
+            caveSmoothingSteps: Math.max(0, Math.round(options.caveSmoothingSteps)),
+            walkCoverage: Math.min(0.8, Math.max(0.05, options.walkCoverage))
+        };
+    }
+
+    // ========== Algorithms ==========
+
+    /**
+     * Splits the grid into a BSP tree, puts a room in each leaf and joins sibling subtrees with
+     * corridors
+     * @returns Cell for the player spawn (center of the first room)
+     */
+    private static generateRooms(grid: CellGrid, options: DungeonOptions, random: SeededRandom): [number, number] {
+        const interior: GridRect = { x: 1, y: 1, width: grid.width - 2, height: grid.height - 2 };
+        const rooms = this.splitNode(interior, grid, options, random);
+        return this.getRectCenter(rooms[0]);
+    }
+
+    /**
+     * Builds the rooms of one BSP node and connects its two halves
+     * @returns Rooms in the node
+     */
+    private static splitNode(node: GridRect, grid: CellGrid, options: DungeonOptions, random: SeededRandom): GridRect[] {
+        // Leaves keep a one-cell margin around their room, so neighbouring rooms have a wall between them
+        const minLeaf = options.minRoomSize + 2;
+        const canSplitX = node.width >= minLeaf * 2;
+        const canSplitY = node.height >= minLeaf * 2;
+        const tooBig = node.width > options.maxRoomSize + 2 || node.height > options.maxRoomSize + 2;
+
+        if (!tooBig || (!canSplitX && !canSplitY)) {
+            const room = this.placeRoom(node, options, random);
+            grid.carve(room);
+            return [room];
+        }
+
+        // Split across the longer side, at random when the node is roughly square
+        const splitX = canSplitX && (!canSplitY
+            || node.width > node.height * 1.25
+            || (node.height <= node.width * 1.25 && random.chance(0.5)));
+
+        let first: GridRect;
+        let second: GridRect;
+        if (splitX) {
+            const at = random.int(minLeaf, node.width - minLeaf);
+            first = { ...node, width: at };
+            second = { ...node, x: node.x + at, width: node.width - at };
+        } else {
+            const at = random.int(minLeaf, node.height - minLeaf);
+            first = { ...node, height: at };
+            second = { ...node, y: node.y + at, height: node.height - at };
+        }
+
+        const firstRooms = this.splitNode(first, grid, options, random);
+        const secondRooms = this.splitNode(second, grid, options, random);
+
+        // Join the closest pair of rooms across the split
+        let best: [GridRect, GridRect] = [firstRooms[0], secondRooms[0]];
+        let bestDistance = Infinity;
+        firstRooms.forEach(a => secondRooms.forEach(b => {
+            const [ax, ay] = this.getRectCenter(a);
+            const [bx, by] = this.getRectCenter(b);
+            const distance = Math.abs(ax - bx) + Math.abs(ay - by);
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = [a, b];
+            }
+        }));
+        this.carveCorridor(grid, this.getRectCenter(best[0]), this.getRectCenter(best[1]), options.corridorWidth, random);
+
+        return [...firstRooms, ...secondRooms];
+    }
+
+    /**
+     * Picks a room of random size and position inside a BSP leaf
+     */
+    private static placeRoom(leaf: GridRect, options: DungeonOptions, random: SeededRandom): GridRect {
+        const maxWidth = Math.max(1, Math.min(options.maxRoomSize, leaf.width - 2));
+        const maxHeight = Math.max(1, Math.min(options.maxRoomSize, leaf.height - 2));
+        const width = random.int(Math.min(options.minRoomSize, maxWidth), maxWidth);
+        const height = random.int(Math.min(options.minRoomSize, maxHeight), maxHeight);
+
+        return {
+            x: leaf.x + random.int(1, Math.max(1, leaf.width - width - 1)),
+            y: leaf.y + random.int(1, Math.max(1, leaf.height - height - 1)),
+            width,
+            height
+        };
+    }
+
+    /**
+     * Carves an L-shaped corridor between two cells
+     */
+    private static carveCorridor(
+        grid: CellGrid,
+        [x0, y0]: [number, number],
+        [x1, y1]: [number, number],
+        width: number,
+        random: SeededRandom
+    ): void {
+        // The corridor's cells are centered on the line between the rooms
+        const offset = Math.floor((width - 1) / 2);
+        const horizontal = (y: number, fromX: number, toX: number) => grid.carve({
+            x: Math.min(fromX, toX) - offset, y: y - offset, width: Math.abs(toX - fromX) + width, height: width
+        });
+        const vertical = (x: number, fromY: number, toY: number) => grid.carve({
+            x: x - offset, y: Math.min(fromY, toY) - offset, width, height: Math.abs(toY - fromY) + width
+        });
+
+        if (random.chance(0.5)) {
+            horizontal(y0, x0, x1);
+            vertical(x1, y0, y1);
+        } else {
+            vertical(x0, y0, y1);
+            horizontal(y1, x0, x1);
+        }
+    }
+
+    /**
+     * Fills the grid with random rock, smooths it into caves and keeps the largest cave
+     * @returns Cell for the player spawn (a random cell of the cave)
+     */
+    private static generateCaves(grid: CellGrid, options: DungeonOptions, random: SeededRandom): [number, number] {
+        for (let y = 1; y < grid.height - 1; y++) {
+            for (let x = 1; x < grid.width - 1; x++) {
+                grid.setOpen(x, y, !random.chance(options.caveFillRatio));
+            }
+        }
+
+        // Rock with many rock neighbours stays, open cells surrounded by rock fill in
+        for (let step = 0; step < options.caveSmoothingSteps; step++) {
+            // Counted before changing any cell, so each pass sees the previous state
+            const counts = this.getInteriorCells(grid)
+                .map(([x, y]) => [x, y, grid.countSolidNeighbours(x, y)] as [number, number, number]);
+            counts.forEach(([x, y, count]) => {
+                if (count >= 5) grid.setOpen(x, y, false);
+                else if (count <= 3) grid.setOpen(x, y, true);
+            });
+        }
+
+        // Seal off every cave but the largest, so every spawn is reachable
+        const regions = this.getRegions(grid);
+        if (regions.length === 0) {
+            const size = Math.max(1, Math.min(options.minRoomSize, grid.width - 2, grid.height - 2));
+            const room = {
+                x: Math.floor((grid.width - size) / 2),
+                y: Math.floor((grid.height - size) / 2),
+                width: size,
+                height: size
+            };
+            grid.carve(room);
+            return this.getRectCenter(room);
+        }
+
+        regions.sort((a, b) => b.length - a.length);
+        regions.slice(1).forEach(region => region.forEach(([x, y]) => grid.setOpen(x, y, false)));
+        return regions[0][random.int(0, regions[0].length - 1)];
+    }
+
+    /**
+     * Walks randomly from the center of the grid, carving until enough of it is open
+     * @returns Cell for the player spawn (where the walk started)
+     */
+    private static generateTunnels(grid: CellGrid, options: DungeonOptions, random: SeededRandom): [number, number] {
+        const brush = Math.min(options.corridorWidth, grid.width - 2, grid.height - 2);
+        const maxX = grid.width - 1 - brush;
+        const maxY = grid.height - 1 - brush;
+        const target = Math.floor((grid.width - 2) * (grid.height - 2) * options.walkCoverage);
+        const maxSteps = (grid.width - 2) * (grid.height - 2) * 50;
+        const directions = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+        const start: [number, number] = [Math.floor(grid.width / 2), Math.floor(grid.height / 2)];
+        let x = Math.min(maxX, Math.max(1, start[0]));
+        let y = Math.min(maxY, Math.max(1, start[1]));
+        grid.carve({ x, y, width: brush, height: brush });
+
+        let carved = grid.getOpenCells().length;
+        for (let step = 0; step < maxSteps && carved < target; step++) {
+            const [dx, dy] = directions[random.int(0, directions.length - 1)];
+            x = Math.min(maxX, Math.max(1, x + dx));
+            y = Math.min(maxY, Math.max(1, y + dy));
+
+            for (let cy = y; cy < y + brush; cy++) {
+                for (let cx = x; cx < x + brush; cx++) {
+                    if (!grid.isOpen(cx, cy)) {
+                        grid.setOpen(cx, cy, true);
+                        carved++;
+                    }
+                }
+            }
+        }
+
+        return grid.isOpen(start[0], start[1]) ? start : grid.getOpenCells()[0];
+    }
+
+    // ========== Elements ==========
+
+    /**
+     * Covers the open cells with as few floors as possible
+     */
+    private static createFloors(grid: CellGrid): AnyLevelElement[] {
+        return mergeGridCells(grid.width, grid.height, (x, y) => grid.isOpen(x, y))
+            .map(rect => createFloorElement(rect.x, rect.y, rect.width, rect.height));
+    }
+
+    /**
+     * Walls off the open cells: every solid cell next to an open one (including diagonally)
+     */
+    private static createWalls(grid: CellGrid, wallHeight: number): AnyLevelElement[] {
+        const isWall = (x: number, y: number) =>
+            !grid.isOpen(x, y) && grid.countSolidNeighbours(x, y) < 8;
+
+        return mergeGridCells(grid.width, grid.height, isWall)
+            .map(rect => createWallElement(rect.x, rect.y, rect.width, rect.height, wallHeight));
+    }
+
+    /**
+     * Places the player spawn, then enemies away from it and items anywhere but right next to it
+     */
+    private static createSpawns(
+        grid: CellGrid,
+        [startX, startY]: [number, number],
+        options: DungeonOptions,
+        random: SeededRandom
+    ): AnyLevelElement[] {
+        // Spawns stand on the floors
+        const elevation = DEFAULT_ELEVATION + DEFAULT_FLOOR_THICKNESS;
+        const spawn = (x: number, y: number, type: SpawnType) => createSpawnElement(x, y, type, elevation);
+
+        const distances = grid.getDistances(startX, startY);
+        const cells = random.shuffle(grid.getOpenCells())
+            .map(([x, y]) => ({ x, y, distance: distances[y * grid.width + x] }))
+            .filter(cell => cell.distance > 0);
+        const farthest = Math.max(0, ...cells.map(cell => cell.distance));
+
+        const enemyDistance = Math.max(3, Math.floor(farthest / 3));
+        const enemies = cells.filter(cell => cell.distance >= enemyDistance).slice(0, options.enemyCount);
+        const taken = new Set(enemies);
+        const items = cells.filter(cell => cell.distance >= 2 && !taken.has(cell)).slice(0, options.itemCount);
+
+        return [
+            spawn(startX, startY, 'player'),
+            ...enemies.map(cell => spawn(cell.x, cell.y, 'enemy')),
+            ...items.map(cell => spawn(cell.x, cell.y, 'item'))
+        ];
+    }
+
+    // ========== Helpers ==========
+
+    /**
+     * Groups the open cells into 4-connected regions
+     */
+    private static getRegions(grid: CellGrid): Array<Array<[number, number]>> {
+        const seen = new Set<number>();
+        const regions: Array<Array<[number, number]>> = [];
+
+        grid.getOpenCells().forEach(([x, y]) => {
+            if (seen.has(y * grid.width + x)) return;
+
+            const distances = grid.getDistances(x, y);
+            const region: Array<[number, number]> = [];
+            distances.forEach((distance, index) => {
+                if (distance >= 0) {
+                    seen.add(index);
+                    region.push([index % grid.width, Math.floor(index / grid.width)]);
+                }
+            });
+            regions.push(region);
+        });
+        return regions;
+    }
+
+    /**
+     * Gets the cells inside the grid's border
+     */
+    private static getInteriorCells(grid: CellGrid): Array<[number, number]> {
+        const cells: Array<[number, number]> = [];
+        for (let y = 1; y < grid.height - 1; y++) {
+            for (let x = 1; x < grid.width - 1; x++) {
+                cells.push([x, y]);
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * Gets the cell at the center of a rectangle
+     */
+    private static getRectCenter(rect: GridRect): [number, number] {
+        return [rect.x + Math.floor(rect.width / 2), rect.y + Math.floor(rect.height / 2)];
+    }
+}
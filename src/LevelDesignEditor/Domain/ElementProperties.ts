@@ -0,0 +1,204 @@
+/**
+ * Element properties
+ * Typed custom properties and tags on level elements, checked against a per-project schema
+ * that lists the allowed keys for each element type
+ */
+
+import { AnyLevelElement, ElementType, PropertyValue } from './LevelElement.js';
+import { isNumber, isOneOf, isRecord, isString } from './JsonGuards.js';
+
+/**
+ * Property value types
+ */
+export type PropertyType = 'string' | 'number' | 'integer' | 'boolean' | 'enum';
+
+/**
+ * An allowed property of an element type
+ */
+export interface PropertyDefinition {
+    key: string;
+    type: PropertyType;
+    /** Shown in the inspector (defaults to the key) */
+    label?: string;
+    /** Allowed values of an enum property */
+    options?: string[];
+    /** Range of a number or integer property */
+    min?: number;
+    max?: number;
+    /** Value used when an element does not set the property */
+    default?: PropertyValue;
+}
+
+/**
+ * Which properties and tags elements may carry
+ */
+export interface PropertySchema {
+    /** Allowed properties per element type */
+    elementTypes: Partial<Record<ElementType, PropertyDefinition[]>>;
+    /** Allowed tags; empty allows any tag */
+    tags: string[];
+}
+
+/**
+ * Schema new projects start with
+ */
+export const DEFAULT_PROPERTY_SCHEMA: PropertySchema = {
+    elementTypes: {
+        spawn: [
+            { key: 'archetype', type: 'string', label: 'Archetype' },
+            { key: 'wave', type: 'integer', label: 'Wave', min: 0 },
+            { key: 'respawns', type: 'boolean', label: 'Respawns', default: false }
+        ],
+        door: [
+            { key: 'locked', type: 'boolean', label: 'Locked', default: false },
+            { key: 'keyId', type: 'string', label: 'Key' }
+        ]
+    },
+    tags: []
+};
+
+const PROPERTY_TYPES: PropertyType[] = ['string', 'number', 'integer', 'boolean', 'enum'];
+
+/**
+ * Gets the properties an element type may carry
+ */
+export function getPropertyDefinitions(schema: PropertySchema, type: ElementType): PropertyDefinition[] {
+    return schema.elementTypes[type] ?? [];
+}
+
+/**
+ * Checks a value against a property definition
+ * Returns an error message, or null if the value is allowed
+ */
+export function getPropertyError(definition: PropertyDefinition, value: unknown): string | null {
+    switch (definition.type) {
+        case 'string':
+            return typeof value === 'string' ? null : 'Must be text';
+        case 'boolean':
+            return typeof value === 'boolean' ? null : 'Must be true or false';
+        case 'enum':
+            return (definition.options ?? []).includes(value as string)
+                ? null
+                : `Must be one of ${(definition.options ?? []).join(', ')}`;
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || !isFinite(value)) return 'Must be a number';
+            if (definition.type === 'integer' && !Number.isInteger(value)) return 'Must be a whole number';
+            if (definition.min !== undefined && value < definition.min) return `Must be at least ${definition.min}`;
+            if (definition.max !== undefined && value > definition.max) return `Must be at most ${definition.max}`;
+            return null;
+    }
+}
+
+/**
+ * Lists what an element carries that the schema does not allow
+ */
+export function getElementPropertyIssues(element: AnyLevelElement, schema: PropertySchema): string[] {
+    const definitions = getPropertyDefinitions(schema, element.type);
+    const issues: string[] = [];
+
+    Object.entries(element.properties ?? {}).forEach(([key, value]) => {
+        const definition = definitions.find(d => d.key === key);
+        if (!definition) {
+            issues.push(`Property "${key}" is not in the schema for ${element.type}s`);
+            return;
+        }
+        const error = getPropertyError(definition, value);
+        if (error) {
+            issues.push(`Property "${key}": ${error.toLowerCase()}`);
+        }
+    });
+
+    if (schema.tags.length > 0) {
+        (element.tags ?? [])
+            .filter(tag => !schema.tags.includes(tag))
+            .forEach(tag => issues.push(`Tag "${tag}" is not in the schema`));
+    }
+
+    return issues;
+}
+
+/**
+ * Gets an element's properties with schema defaults filled in (as exported)
+ */
+export function getResolvedProperties(
+    element: AnyLevelElement,
+    schema: PropertySchema
+): Record<string, PropertyValue> {
+    const properties: Record<string, PropertyValue> = {};
+    getPropertyDefinitions(schema, element.type).forEach(definition => {
+        if (definition.default !== undefined) {
+            properties[definition.key] = definition.default;
+        }
+    });
+    return { ...properties, ...element.properties };
+}
+
+/**
+ * Parses a comma-separated tag list, dropping blanks and duplicates
+ */
+export function parseTags(text: string): string[] {
+    const tags = text.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+    return Array.from(new Set(tags));
+}
+
+/**
+ * Reads a property schema from plain data
+ * Throws if the data is not a valid schema
+ */
+export function parsePropertySchema(data: unknown): PropertySchema {
+    if (!isRecord(data) || !isRecord(data.elementTypes)) {
+        throw new Error('Invalid property schema: missing "elementTypes"');
+    }
+
+    const elementTypes: PropertySchema['elementTypes'] = {};
+    Object.entries(data.elementTypes).forEach(([type, definitions]) => {
+        if (!Array.isArray(definitions)) {
+            throw new Error(`Invalid property schema: "${type}" must be a list of properties`);
+        }
+        elementTypes[type as ElementType] = definitions.map((definition: unknown) => parseDefinition(type, definition));
+    });
+
+    const tags = data.tags ?? [];
+    if (!Array.isArray(tags) || !tags.every(isString)) {
+        throw new Error('Invalid property schema: "tags" must be a list of strings');
+    }
+
+    return { elementTypes, tags };
+}
+
+/**
+ * Reads one property definition, checking its type, options and default
+ */
+function parseDefinition(elementType: string, data: unknown): PropertyDefinition {
+    if (!isRecord(data) || !isString(data.key) || data.key.length === 0) {
+        throw new Error(`Invalid property schema: a "${elementType}" property has no key`);
+    }
+    const key = data.key;
+    if (!isOneOf(data.type, PROPERTY_TYPES)) {
+        throw new Error(`Invalid property schema: "${elementType}.${key}" has unknown type "${data.type}"`);
+    }
+
+    const definition: PropertyDefinition = { key, type: data.type };
+    if (isString(data.label)) definition.label = data.label;
+    if (isNumber(data.min)) definition.min = data.min;
+    if (isNumber(data.max)) definition.max = data.max;
+
+    if (definition.type === 'enum') {
+        if (!Array.isArray(data.options) || data.options.length === 0) {
+            throw new Error(`Invalid property schema: enum "${elementType}.${key}" needs options`);
+        }
+        definition.options = data.options.map(String);
+    }
+
+    if (data.default !== undefined) {
+        const error = getPropertyError(definition, data.default);
+        if (error) {
+            throw new Error(`Invalid property schema: default of "${elementType}.${key}": ${error.toLowerCase()}`);
+        }
+        // Checked against the definition above
+        definition.default = data.default as PropertyValue;
+    }
+
+    return definition;
+}
@@ -117,3 +117,53 @@ export class GridSystem {
         ];
     }
 }
+
+/**
+ * A rectangle of grid cells
+ */
+export interface GridRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Merges the matching cells of a grid into as few rectangles as it greedily can, row by row
+ * (e.g. to turn a cell map into floor and wall elements)
+ */
+export function mergeGridCells(
+    width: number,
+    height: number,
+    matches: (x: number, y: number) => boolean
+): GridRect[] {
+    const used = new Array(width * height).fill(false);
+    const free = (x: number, y: number) => matches(x, y) && !used[y * width + x];
+    const rowFree = (y: number, x0: number, x1: number) => {
+        for (let x = x0; x < x1; x++) {
+            if (!free(x, y)) return false;
+        }
+        return true;
+    };
+    const rects: GridRect[] = [];
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!free(x, y)) continue;
+
+            let rectWidth = 1;
+            while (x + rectWidth < width && free(x + rectWidth, y)) rectWidth++;
+
+            let rectHeight = 1;
+            while (y + rectHeight < height && rowFree(y + rectHeight, x, x + rectWidth)) rectHeight++;
+
+            for (let cy = y; cy < y + rectHeight; cy++) {
+                for (let cx = x; cx < x + rectWidth; cx++) {
+                    used[cy * width + cx] = true;
+                }
+            }
+            rects.push({ x, y, width: rectWidth, height: rectHeight });
+        }
+    }
+    return rects;
+}
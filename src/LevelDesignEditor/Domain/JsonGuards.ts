@@ -0,0 +1,38 @@
+/**
+ * JSON guards
+ * Narrow parsed JSON from files, browser storage and the clipboard (typed `unknown`) before
+ * its values are read
+ */
+
+/**
+ * A parsed JSON object whose values are not checked yet
+ */
+export type JsonRecord = Record<string, unknown>;
+
+/**
+ * Checks whether a value is a plain JSON object
+ */
+export function isRecord(value: unknown): value is JsonRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a value is a finite number
+ */
+export function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Checks whether a value is a string
+ */
+export function isString(value: unknown): value is string {
+    return typeof value === 'string';
+}
+
+/**
+ * Checks whether a value is one of the allowed options
+ */
+export function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+    return typeof value === 'string' && (options as readonly string[]).includes(value);
+}
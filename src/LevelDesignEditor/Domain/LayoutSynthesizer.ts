@@ -0,0 +1,632 @@
+/**
+ * Layout Synthesizer - Wave Function Collapse (overlapping model) for tile layouts
+ * Learns which N x N patterns of cells occur in an example area of a level and extrapolates a
+ * new layout of any size from them
+ *
+ * Levels are rasterised into GridSystem cells of one tile each (empty, floor, wall, enemy or
+ * item). Synthesis never hangs: every step either collapses a cell or hits a contradiction, and
+ * a failed run is retried with the next seed a fixed number of times before giving up with the
+ * cell that could not be filled. Examples and outputs too large to solve are rejected up front,
+ * and a run that exceeds its time budget gives up with a reported failure
+ */
+
+import { Level } from './Level.js';
+import {
+    AnyLevelElement,
+    DEFAULT_ELEVATION,
+    DEFAULT_FLOOR_THICKNESS,
+    DEFAULT_WALL_HEIGHT,
+    createFloorElement,
+    createSpawnElement,
+    createWallElement,
+    elementContainsPoint,
+    isDoorElement,
+    isFloorElement,
+    isSlopeElement,
+    isSpawnElement,
+    isWallElement
+} from './LevelElement.js';
+import { GridRect, GridSystem, mergeGridCells } from './GridSystem.js';
+import { SeededRandom } from './SeededRandom.js';
+
+/**
+ * What a cell holds
+ * Player spawns count as floor (a layout needs one, placed by hand); door cells count as floor
+ */
+export type LayoutTile = 'empty' | 'floor' | 'wall' | 'enemy' | 'item';
+
+const LAYOUT_TILES: LayoutTile[] = ['empty', 'floor', 'wall', 'enemy', 'item'];
+
+/**
+ * A grid of tiles, row by row
+ */
+export interface TileMap {
+    width: number;
+    height: number;
+    tiles: LayoutTile[];
+}
+
+/**
+ * Synthesis options
+ */
+export interface SynthesisOptions {
+    /** Output size in cells */
+    width: number;
+    height: number;
+    /** Side of the learned patterns in cells (2-4; larger copies the example more closely) */
+    patternSize: number;
+    /** Also learn the example's rotations and reflections */
+    symmetry: boolean;
+    seed: number;
+    /** Runs (with seed, seed + 1, ...) before giving up */
+    maxAttempts: number;
+    /** Time budget for all runs together, in seconds */
+    maxSeconds: number;
+    /** Cells that must hold a given tile (row by row; null where free) */
+    locked?: Array<LayoutTile | null>;
+}
+
+/**
+ * Default synthesis options
+ */
+export const DEFAULT_SYNTHESIS_OPTIONS: SynthesisOptions = {
+    width: 20,
+    height: 20,
+    patternSize: 3,
+    symmetry: true,
+    seed: 1,
+    maxAttempts: 10,
+    maxSeconds: 5
+};
+
+/**
+ * Outcome of a synthesis
+ */
+export type SynthesisResult =
+    | { success: true; map: TileMap; patternCount: number; attempts: number }
+    | {
+        success: false;
+        /** Why no layout was found, for showing to the user */
+        error: string;
+        /** Output cell where the last contradiction happened */
+        cell?: { x: number; y: number };
+        attempts: number;
+    };
+
+/**
+ * Options for rasterising a level
+ */
+export interface RasterizeOptions {
+    /** Cell size to sample at (1 unit cells if unset) */
+    gridSystem?: GridSystem;
+    /** Layers to read (all visible layers if unset) */
+    layerIds?: string[];
+}
+
+/**
+ * Options for turning a tile map into elements
+ */
+export interface TileElementOptions {
+    gridSystem?: GridSystem;
+    wallHeight: number;
+    /** Cells to leave out, e.g. locked cells that already hold elements */
+    skip?: (x: number, y: number) => boolean;
+}
+
+/**
+ * Largest output (in cells) and pattern size accepted
+ */
+const MAX_OUTPUT_CELLS = 128 * 128;
+const MAX_PATTERN_SIZE = 4;
+
+/**
+ * Most distinct patterns learned from an example (comparing every pair takes time quadratic in
+ * the count), and most patterns times output positions the solver tracks (about 17 bytes each)
+ */
+const MAX_PATTERNS = 2000;
+const MAX_SOLVER_STATES = 4000000;
+
+/**
+ * Neighbour directions (left, down, right, up) and their opposites
+ */
+const DX = [-1, 0, 1, 0];
+const DY = [0, 1, 0, -1];
+const OPPOSITE = [2, 3, 0, 1];
+
+/**
+ * One run of the solver over the output
+ * Positions are pattern origins: (width - N + 1) x (height - N + 1) of them, so every pattern
+ * lies inside the output
+ */
+class Wave {
+    readonly width: number;
+    readonly height: number;
+    /** Position where the run failed (-1 while consistent) */
+    contradiction: number = -1;
+
+    private patterns: number[][];
+    private weights: number[];
+    private propagator: number[][][];
+    private size: number;
+    private allowed: Uint8Array;
+    private compatible: Int32Array;
+    private sumsOfOnes: Int32Array;
+    private sumsOfWeights: Float64Array;
+    private sumsOfWeightLogWeights: Float64Array;
+    private stack: number[] = [];
+
+    constructor(width: number, height: number, patterns: number[][], weights: number[], propagator: number[][][]) {
+        this.width = width;
+        this.height = height;
+        this.patterns = patterns;
+        this.weights = weights;
+        this.propagator = propagator;
+
+        const count = patterns.length;
+        this.size = width * height;
+        this.allowed = new Uint8Array(this.size * count).fill(1);
+        this.compatible = new Int32Array(this.size * count * 4);
+        this.sumsOfOnes = new Int32Array(this.size).fill(count);
+
+        const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+        const totalWeightLogWeight = weights.reduce((sum, w) => sum + w * Math.log(w), 0);
+        this.sumsOfWeights = new Float64Array(this.size).fill(totalWeight);
+        this.sumsOfWeightLogWeights = new Float64Array(this.size).fill(totalWeightLogWeight);
+
+        for (let i = 0; i < this.size; i++) {
+            for (let t = 0; t < count; t++) {
+                for (let d = 0; d < 4; d++) {
+                    this.compatible[(i * count + t) * 4 + d] = propagator[OPPOSITE[d]][t].length;
+                }
+            }
+        }
+    }
+
+    /**
+     * Removes a pattern from a position
+     */
+    ban(i: number, t: number): void {
+        const count = this.patterns.length;
+        if (!this.allowed[i * count + t]) return;
+
+        this.allowed[i * count + t] = 0;
+        for (let d = 0; d < 4; d++) {
+            this.compatible[(i * count + t) * 4 + d] = 0;
+        }
+        this.stack.push(i, t);
+
+        this.sumsOfOnes[i]--;
+        this.sumsOfWeights[i] -= this.weights[t];
+        this.sumsOfWeightLogWeights[i] -= this.weights[t] * Math.log(this.weights[t]);
+        if (this.sumsOfOnes[i] === 0 && this.contradiction === -1) {
+            this.contradiction = i;
+        }
+    }
+
+    /**
+     * Removes patterns that have no possible neighbour on a side where the output continues,
+     * then propagates (a wave where every position has one pattern left is never observed)
+     * @returns Whether the wave is still consistent
+     */
+    banDeadEnds(): boolean {
+        const count = this.patterns.length;
+        for (let i = 0; i < this.size; i++) {
+            const x = i % this.width;
+            const y = Math.floor(i / this.width);
+            for (let d = 0; d < 4; d++) {
+                const x2 = x - DX[d];
+                const y2 = y - DY[d];
+                if (x2 < 0 || y2 < 0 || x2 >= this.width || y2 >= this.height) continue;
+
+                for (let t = 0; t < count; t++) {
+                    if (this.compatible[(i * count + t) * 4 + d] === 0) {
+                        this.ban(i, t);
+                    }
+                }
+            }
+        }
+        return this.propagate();
+    }
+
+    /**
+     * Removes patterns that no longer fit next to their neighbours, until nothing changes
+     * @returns Whether the wave is still consistent
+     */
+    propagate(): boolean {
+        const count = this.patterns.length;
+        while (this.stack.length > 0 && this.contradiction === -1) {
+            const t1 = this.stack.pop()!;
+            const i1 = this.stack.pop()!;
+            const x1 = i1 % this.width;
+            const y1 = Math.floor(i1 / this.width);
+
+            for (let d = 0; d < 4; d++) {
+                const x2 = x1 + DX[d];
+                const y2 = y1 + DY[d];
+                if (x2 < 0 || y2 < 0 || x2 >= this.width || y2 >= this.height) continue;
+
+                const i2 = y2 * this.width + x2;
+                for (const t2 of this.propagator[d][t1]) {
+                    const index = (i2 * count + t2) * 4 + d;
+                    this.compatible[index]--;
+                    if (this.compatible[index] === 0) {
+                        this.ban(i2, t2);
+                    }
+                }
+            }
+        }
+        this.stack = [];
+        return this.contradiction === -1;
+    }
+
+    /**
+     * Collapses the undecided position with the lowest entropy to one pattern
+     * @returns False once every position is decided
+     */
+    observe(random: SeededRandom): boolean {
+        let best = -1;
+        let bestEntropy = Infinity;
+        for (let i = 0; i < this.size; i++) {
+            if (this.sumsOfOnes[i] <= 1) continue;
+
+            const sum = this.sumsOfWeights[i];
+            const entropy = Math.log(sum) - this.sumsOfWeightLogWeights[i] / sum + random.next() * 1e-6;
+            if (entropy < bestEntropy) {
+                bestEntropy = entropy;
+                best = i;
+            }
+        }
+        if (best === -1) return false;
+
+        const count = this.patterns.length;
+        let pick = random.next() * this.sumsOfWeights[best];
+        let chosen = -1;
+        for (let t = 0; t < count; t++) {
+            if (!this.allowed[best * count + t]) continue;
+            chosen = t;
+            pick -= this.weights[t];
+            if (pick < 0) break;
+        }
+        for (let t = 0; t < count; t++) {
+            if (t !== chosen) this.ban(best, t);
+        }
+        return true;
+    }
+
+    /**
+     * Checks whether a pattern is still possible at a position
+     */
+    isAllowed(i: number, t: number): boolean {
+        return this.allowed[i * this.patterns.length + t] === 1;
+    }
+}
+
+/**
+ * Layout Synthesizer class
+ */
+export class LayoutSynthesizer {
+    /**
+     * Rasterises an area of a level into tiles, one per GridSystem cell (tested at the cell
+     * center; layers are flattened)
+     * @param area Cells to read, in GridSystem cells
+     */
+    static rasterize(level: Level, area: GridRect, options: RasterizeOptions = {}): TileMap {
+        const gridSystem = options.gridSystem ?? new GridSystem();
+        const layerIds = new Set(options.layerIds
+            ?? level.getLayers().filter(layer => layer.visible).map(layer => layer.id));
+        const elements = level.getAllElements().filter(element => layerIds.has(level.getElementLayerId(element)));
+        const openings = level.getAllElements().filter(isDoorElement);
+
+        const tiles: LayoutTile[] = [];
+        for (let y = 0; y < area.height; y++) {
+            for (let x = 0; x < area.width; x++) {
+                const [px, py] = gridSystem.gridToWorld(area.x + x + 0.5, area.y + y + 0.5);
+                const here = elements.filter(element => elementContainsPoint(element, px, py, level.getElementFrame(element)));
+
+                // Walls block unless a door is cut through them here
+                const blocked = here.filter(isWallElement).some(wall => !openings.some(door =>
+                    door.wallId === wall.id && elementContainsPoint(door, px, py, wall)
+                ));
+                const spawn = here.filter(isSpawnElement).find(element => element.spawnType !== 'player');
+
+                if (blocked) {
+                    tiles.push('wall');
+                } else if (spawn) {
+                    tiles.push(spawn.spawnType as LayoutTile);
+                } else if (here.some(element => isFloorElement(element) || isSlopeElement(element) || isSpawnElement(element) || isWallElement(element))) {
+                    tiles.push('floor');
+                } else {
+                    tiles.push('empty');
+                }
+            }
+        }
+
+        return { width: area.width, height: area.height, tiles };
+    }
+
+    /**
+     * Synthesizes a layout from the patterns in an example
+     * Throws if the example or options are unusable; contradictions are reported in the result
+     */
+    static synthesize(sample: TileMap, options: Partial<SynthesisOptions> = {}): SynthesisResult {
+        const settings = { ...DEFAULT_SYNTHESIS_OPTIONS, ...options };
+        const n = Math.round(settings.patternSize);
+        const width = Math.round(settings.width);
+        const height = Math.round(settings.height);
+
+        if (n < 2 || n > MAX_PATTERN_SIZE) {
+            throw new Error(`Pattern size must be between 2 and ${MAX_PATTERN_SIZE}`);
+        }
+        if (sample.width < n || sample.height < n) {
+            throw new Error(`The example must be at least ${n} x ${n} cells for a pattern size of ${n}`);
+        }
+        if (width < n || height < n) {
+            throw new Error(`The output must be at least ${n} x ${n} cells for a pattern size of ${n}`);
+        }
+        if (width * height > MAX_OUTPUT_CELLS) {
+            throw new Error(`The output must be at most ${MAX_OUTPUT_CELLS} cells`);
+        }
+        if (settings.locked && settings.locked.length !== width * height) {
+            throw new Error('Locked cells must match the output size');
+        }
+
+        const { patterns, weights } = this.learnPatterns(sample, n, settings.symmetry);
+        const waveWidth = width - n + 1;
+        const waveHeight = height - n + 1;
+        if (patterns.length > MAX_PATTERNS) {
+            throw new Error(
+                `The example has ${patterns.length} different ${n} x ${n} patterns, more than the ${MAX_PATTERNS} `
+                + 'that can be compared; use a smaller example or pattern size'
+            );
+        }
+        if (patterns.length * waveWidth * waveHeight > MAX_SOLVER_STATES) {
+            throw new Error(
+                `${patterns.length} patterns over a ${width} x ${height} output is too large to solve; use a `
+                + `smaller output, example or pattern size (patterns x cells must stay below ${MAX_SOLVER_STATES})`
+            );
+        }
+        const propagator = this.buildPropagator(patterns, n);
+
+        // Locked tiles the example never shows can never be matched
+        const sampleTiles = new Set(sample.tiles);
+        const locked = settings.locked ?? [];
+        const missing = locked.findIndex(tile => tile !== null && !sampleTiles.has(tile));
+        if (missing !== -1) {
+            const cell = { x: missing % width, y: Math.floor(missing / width) };
+            return {
+                success: false,
+                error: `Locked cell (${cell.x}, ${cell.y}) is ${locked[missing]}, which the example does not contain`,
+                cell,
+                attempts: 0
+            };
+        }
+
+        const deadline = Date.now() + settings.maxSeconds * 1000;
+        let cell: { x: number; y: number } | undefined;
+
+        for (let attempt = 0; attempt < Math.max(1, settings.maxAttempts); attempt++) {
+            const random = new SeededRandom(settings.seed + attempt);
+            const wave = new Wave(waveWidth, waveHeight, patterns, weights, propagator);
+
+            // Depends only on the example and output size, so the same on every attempt
+            if (!wave.banDeadEnds()) {
+                const position = this.toCell(wave.contradiction, waveWidth);
+                return {
+                    success: false,
+                    error: `No pattern in the example fits at cell (${position.x}, ${position.y}) next to its `
+                        + 'neighbours; use a larger example or a smaller pattern size',
+                    cell: position,
+                    attempts: attempt + 1
+                };
+            }
+
+            // Locked cells are applied first; they are the same on every attempt
+            if (!this.applyLocked(wave, patterns, n, width, locked)) {
+                const position = this.toCell(wave.contradiction, waveWidth);
+                return {
+                    success: false,
+                    error: `The locked cells around (${position.x}, ${position.y}) cannot be combined with `
+                        + 'the patterns in the example; unlock some cells or use a larger example',
+                    cell: position,
+                    attempts: attempt + 1
+                };
+            }
+
+            // Each pass decides one position; the loop ends after at most one pass per position
+            while (wave.observe(random) && wave.propagate()) {
+                if (Date.now() > deadline) {
+                    return {
+                        success: false,
+                        error: `No layout found within ${settings.maxSeconds} s (gave up during attempt ${attempt + 1}); `
+                            + 'try a smaller output, a smaller pattern size or a smaller example',
+                        attempts: attempt + 1
+                    };
+                }
+            }
+
+            if (wave.contradiction === -1) {
+                return {
+                    success: true,
+                    map: this.readMap(wave, patterns, n, width, height),
+                    patternCount: patterns.length,
+                    attempts: attempt + 1
+                };
+            }
+            cell = this.toCell(wave.contradiction, waveWidth);
+        }
+
+        return {
+            success: false,
+            error: `No layout found in ${Math.max(1, settings.maxAttempts)} attempts: the last one reached a `
+                + `contradiction at cell (${cell!.x}, ${cell!.y}), where no pattern fits its neighbours. `
+                + 'Try another seed, a smaller pattern size or a larger example',
+            cell,
+            attempts: Math.max(1, settings.maxAttempts)
+        };
+    }
+
+    /**
+     * Turns a tile map into floors, walls and spawns
+     * @param originX Grid cell of the map's top-left corner
+     */
+    static toElements(map: TileMap, originX: number, originY: number, options: TileElementOptions): AnyLevelElement[] {
+        const gridSystem = options.gridSystem ?? new GridSystem();
+        const skip = options.skip ?? (() => false);
+        const tileAt = (x: number, y: number) => map.tiles[y * map.width + x];
+        const isFloor = (x: number, y: number) => !skip(x, y) && ['floor', 'enemy', 'item'].includes(tileAt(x, y));
+        const isWall = (x: number, y: number) => !skip(x, y) && tileAt(x, y) === 'wall';
+        const cellSize = gridSystem.getCellSize();
+
+        const toWorld = (rect: GridRect) => {
+            const [x, y] = gridSystem.gridToWorld(originX + rect.x, originY + rect.y);
+            return [x, y, rect.width * cellSize, rect.height * cellSize];
+        };
+
+        const elements: AnyLevelElement[] = [
+            ...mergeGridCells(map.width, map.height, isFloor).map(rect => {
+                const [x, y, width, depth] = toWorld(rect);
+                return createFloorElement(x, y, width, depth);
+            }),
+            ...mergeGridCells(map.width, map.height, isWall).map(rect => {
+                const [x, y, width, depth] = toWorld(rect);
+                return createWallElement(x, y, width, depth, options.wallHeight > 0 ? options.wallHeight : DEFAULT_WALL_HEIGHT);
+            })
+        ];
+
+        // Spawns stand on the floors
+        const elevation = DEFAULT_ELEVATION + DEFAULT_FLOOR_THICKNESS;
+        for (let y = 0; y < map.height; y++) {
+            for (let x = 0; x < map.width; x++) {
+                const tile = tileAt(x, y);
+                if ((tile === 'enemy' || tile === 'item') && !skip(x, y)) {
+                    const [px, py] = gridSystem.gridToWorld(originX + x, originY + y);
+                    elements.push(createSpawnElement(px, py, tile, elevation));
+                }
+            }
+        }
+
+        return elements;
+    }
+
+    /**
+     * Collects the N x N patterns of the example (and their rotations and reflections), weighted
+     * by how often they occur
+     */
+    private static learnPatterns(sample: TileMap, n: number, symmetry: boolean): { patterns: number[][]; weights: number[] } {
+        const tileIndex = (x: number, y: number) => LAYOUT_TILES.indexOf(sample.tiles[y * sample.width + x]);
+        const rotate = (p: number[]) => p.map((_, i) => p[(n - 1 - (i % n)) * n + Math.floor(i / n)]);
+        const reflect = (p: number[]) => p.map((_, i) => p[Math.floor(i / n) * n + (n - 1 - (i % n))]);
+
+        const indices = new Map<string, number>();
+        const patterns: number[][] = [];
+        const weights: number[] = [];
+        const add = (pattern: number[]) => {
+            const key = pattern.join(',');
+            const index = indices.get(key);
+            if (index !== undefined) {
+                weights[index]++;
+            } else {
+                indices.set(key, patterns.length);
+                patterns.push(pattern);
+                weights.push(1);
+            }
+        };
+
+        for (let y = 0; y <= sample.height - n; y++) {
+            for (let x = 0; x <= sample.width - n; x++) {
+                const pattern: number[] = [];
+                for (let dy = 0; dy < n; dy++) {
+                    for (let dx = 0; dx < n; dx++) {
+                        pattern.push(tileIndex(x + dx, y + dy));
+                    }
+                }
+
+                if (!symmetry) {
+                    add(pattern);
+                    continue;
+                }
+                let variant = pattern;
+                for (let turn = 0; turn < 4; turn++) {
+                    add(variant);
+                    add(reflect(variant));
+                    variant = rotate(variant);
+                }
+            }
+        }
+
+        return { patterns, weights };
+    }
+
+    /**
+     * For each direction and pattern, lists the patterns that may sit next to it: those whose
+     * overlapping cells agree
+     */
+    private static buildPropagator(patterns: number[][], n: number): number[][][] {
+        const agrees = (a: number[], b: number[], dx: number, dy: number) => {
+            for (let y = Math.max(0, dy); y < Math.min(n, n + dy); y++) {
+                for (let x = Math.max(0, dx); x < Math.min(n, n + dx); x++) {
+                    if (a[y * n + x] !== b[(y - dy) * n + (x - dx)]) return false;
+                }
+            }
+            return true;
+        };
+
+        return DX.map((dx, d) => patterns.map(a =>
+            patterns.map((b, t) => agrees(a, b, dx, DY[d]) ? t : -1).filter(t => t !== -1)
+        ));
+    }
+
+    /**
+     * Removes every pattern that would put another tile on a locked cell
+     * @returns Whether the wave is still consistent
+     */
+    private static applyLocked(
+        wave: Wave,
+        patterns: number[][],
+        n: number,
+        width: number,
+        locked: Array<LayoutTile | null>
+    ): boolean {
+        locked.forEach((tile, index) => {
+            if (tile === null) return;
+
+            const tileIndex = LAYOUT_TILES.indexOf(tile);
+            const x = index % width;
+            const y = Math.floor(index / width);
+            for (let py = Math.max(0, y - n + 1); py <= Math.min(y, wave.height - 1); py++) {
+                for (let px = Math.max(0, x - n + 1); px <= Math.min(x, wave.width - 1); px++) {
+                    patterns.forEach((pattern, t) => {
+                        if (pattern[(y - py) * n + (x - px)] !== tileIndex) {
+                            wave.ban(py * wave.width + px, t);
+                        }
+                    });
+                }
+            }
+        });
+        return wave.propagate();
+    }
+
+    /**
+     * Reads the tiles of a fully collapsed wave
+     */
+    private static readMap(wave: Wave, patterns: number[][], n: number, width: number, height: number): TileMap {
+        const tiles: LayoutTile[] = [];
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                // Cells past the last pattern origin are read from the last pattern
+                const px = Math.min(x, wave.width - 1);
+                const py = Math.min(y, wave.height - 1);
+                const t = patterns.findIndex((_, index) => wave.isAllowed(py * wave.width + px, index));
+                tiles.push(LAYOUT_TILES[patterns[t][(y - py) * n + (x - px)]]);
+            }
+        }
+        return { width, height, tiles };
+    }
+
+    /**
+     * Converts a wave position to an output cell
+     */
+    private static toCell(position: number, waveWidth: number): { x: number; y: number } {
+        return { x: position % waveWidth, y: Math.floor(position / waveWidth) };
+    }
+}
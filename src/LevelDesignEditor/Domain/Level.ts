@@ -6,8 +6,12 @@
 import {
     AnyLevelElement,
     LevelElement,
-    DEFAULT_WALL_HEIGHT
+    DEFAULT_WALL_HEIGHT,
+    getElevationOffsetUpdates,
+    isOpeningElement,
+    elementContainsPoint
 } from './LevelElement.js';
+import { PropertySchema, DEFAULT_PROPERTY_SCHEMA } from './ElementProperties.js';
 
 /**
  * Callback type for level change notifications
@@ -25,6 +29,33 @@ export interface LevelMetadata {
     description: string;
 }
 
+/**
+ * A named layer (storey) of the level
+ */
+export interface LevelLayer {
+    id: string;
+    name: string;
+    /** Base elevation in meters; new elements on the layer start here */
+    baseElevation: number;
+    /** Shown in the editor and preview */
+    visible: boolean;
+    /** Elements on a locked layer cannot be edited */
+    locked: boolean;
+}
+
+/** ID of the layer every level starts with */
+export const DEFAULT_LAYER_ID = 'layer_ground';
+
+/** Default storey height used when adding layers */
+export const DEFAULT_STOREY_HEIGHT = 3.0;
+
+/**
+ * Generates a unique layer ID
+ */
+export function generateLayerId(): string {
+    return `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 /**
  * Level class - main container for level data
  */
@@ -33,7 +64,10 @@ export class Level {
     private gridWidth: number;
     private gridHeight: number;
     private elements: Map<string, AnyLevelElement>;
+    private layers: LevelLayer[];
     private defaultWallHeight: number;
+    /** Shared by all levels of a project (see LevelStorage.loadPropertySchema), so not saved with the level */
+    private propertySchema: PropertySchema;
     private changeCallbacks: LevelChangeCallback[];
 
     constructor(
@@ -44,7 +78,9 @@ export class Level {
         this.gridWidth = gridWidth;
         this.gridHeight = gridHeight;
         this.elements = new Map();
+        this.layers = [Level.createDefaultLayer()];
         this.defaultWallHeight = DEFAULT_WALL_HEIGHT;
+        this.propertySchema = JSON.parse(JSON.stringify(DEFAULT_PROPERTY_SCHEMA));
         this.changeCallbacks = [];
 
         const now = new Date().toISOString();
@@ -124,6 +160,23 @@ export class Level {
         this.notifyChange();
     }
 
+    /**
+     * Gets the schema of custom element properties and tags
+     */
+    getPropertySchema(): PropertySchema {
+        return this.propertySchema;
+    }
+
+    /**
+     * Sets the schema of custom element properties and tags
+     * Elements keep their values; ones the schema no longer allows are reported by the validator.
+     * The schema belongs to the project, so the level does not count as modified
+     */
+    setPropertySchema(schema: PropertySchema): void {
+        this.propertySchema = schema;
+        this.notifyChange();
+    }
+
     /**
      * Adds an element to the level
      */
@@ -133,6 +186,17 @@ export class Level {
         this.notifyChange();
     }
 
+    /**
+     * Adds several elements with a single change notification
+     */
+    addElements(elements: AnyLevelElement[]): void {
+        if (elements.length === 0) return;
+
+        elements.forEach(element => this.elements.set(element.id, element));
+        this.metadata.modifiedAt = new Date().toISOString();
+        this.notifyChange();
+    }
+
     /**
      * Removes an element from the level
      */
@@ -145,6 +209,17 @@ export class Level {
         return removed;
     }
 
+    /**
+     * Removes several elements with a single change notification
+     */
+    removeElements(elementIds: string[]): void {
+        const removed = elementIds.filter(elementId => this.elements.delete(elementId));
+        if (removed.length === 0) return;
+
+        this.metadata.modifiedAt = new Date().toISOString();
+        this.notifyChange();
+    }
+
     /**
      * Gets an element by ID
      */
@@ -160,19 +235,32 @@ export class Level {
     }
 
     /**
-     * Gets elements at a specific grid position
+     * Gets elements at a specific grid position (covering the cell center)
      */
     getElementsAt(gridX: number, gridY: number): AnyLevelElement[] {
+        return this.getElementsAtPoint(gridX + 0.5, gridY + 0.5);
+    }
+
+    /**
+     * Gets elements whose (rotated) footprint contains a grid-space point
+     */
+    getElementsAtPoint(x: number, y: number): AnyLevelElement[] {
         return this.getAllElements().filter(element => {
-            return (
-                gridX >= element.gridX &&
-                gridX < element.gridX + element.width &&
-                gridY >= element.gridY &&
-                gridY < element.gridY + element.depth
-            );
+            return elementContainsPoint(element, x, y, this.getElementFrame(element));
         });
     }
 
+    /**
+     * Gets the element whose rotation and center position another element:
+     * the wall for doors and windows, otherwise the element itself
+     */
+    getElementFrame(element: AnyLevelElement): AnyLevelElement {
+        if (isOpeningElement(element)) {
+            return this.elements.get(element.wallId) ?? element;
+        }
+        return element;
+    }
+
     /**
      * Gets elements of a specific type
      */
@@ -198,6 +286,107 @@ export class Level {
         return false;
     }
 
+    // ========== Layers ==========
+
+    /**
+     * Gets all layers, ordered by base elevation (lowest first)
+     */
+    getLayers(): LevelLayer[] {
+        return [...this.layers]
+            .sort((a, b) => a.baseElevation - b.baseElevation)
+            .map(layer => ({ ...layer }));
+    }
+
+    /**
+     * Gets a layer by ID
+     */
+    getLayer(layerId: string): LevelLayer | undefined {
+        const layer = this.layers.find(l => l.id === layerId);
+        return layer ? { ...layer } : undefined;
+    }
+
+    /**
+     * Gets the ID of the layer an element belongs to
+     * Elements without a (known) layer belong to the first layer
+     */
+    getElementLayerId(element: LevelElement): string {
+        if (element.layerId && this.layers.some(layer => layer.id === element.layerId)) {
+            return element.layerId;
+        }
+        return this.layers[0].id;
+    }
+
+    /**
+     * Gets all elements on a layer
+     */
+    getElementsOnLayer(layerId: string): AnyLevelElement[] {
+        return this.getAllElements().filter(element => this.getElementLayerId(element) === layerId);
+    }
+
+    /**
+     * Adds a layer
+     */
+    addLayer(layer: LevelLayer): void {
+        if (this.layers.some(l => l.id === layer.id)) return;
+
+        this.layers.push({ ...layer });
+        this.metadata.modifiedAt = new Date().toISOString();
+        this.notifyChange();
+    }
+
+    /**
+     * Removes a layer together with its elements
+     * The last remaining layer cannot be removed
+     * @returns The removed elements, or null if nothing was removed
+     */
+    removeLayer(layerId: string): AnyLevelElement[] | null {
+        if (this.layers.length <= 1 || !this.layers.some(l => l.id === layerId)) {
+            return null;
+        }
+
+        const removed = this.getElementsOnLayer(layerId);
+        removed.forEach(element => this.elements.delete(element.id));
+        this.layers = this.layers.filter(l => l.id !== layerId);
+
+        this.metadata.modifiedAt = new Date().toISOString();
+        this.notifyChange();
+        return removed;
+    }
+
+    /**
+     * Updates layer properties
+     * Changing the base elevation moves the layer's elements by the same amount
+     */
+    updateLayer(layerId: string, updates: Partial<Omit<LevelLayer, 'id'>>): boolean {
+        const layer = this.layers.find(l => l.id === layerId);
+        if (!layer) return false;
+
+        if (updates.baseElevation !== undefined && updates.baseElevation !== layer.baseElevation) {
+            const delta = updates.baseElevation - layer.baseElevation;
+            this.getElementsOnLayer(layerId).forEach(element => {
+                Object.assign(element, getElevationOffsetUpdates(element, delta));
+            });
+        }
+
+        Object.assign(layer, updates);
+        this.metadata.modifiedAt = new Date().toISOString();
+        this.notifyChange();
+        return true;
+    }
+
+    /**
+     * Creates the layer every new level starts with
+     */
+    private static createDefaultLayer(): LevelLayer {
+        return {
+            id: DEFAULT_LAYER_ID,
+            name: 'Ground Floor',
+            baseElevation: 0,
+            visible: true,
+            locked: false
+        };
+    }
+
     /**
      * Clears all elements from the level
      */
@@ -207,6 +396,24 @@ export class Level {
         this.notifyChange();
     }
 
+    /**
+     * Replaces this level's content with a copy of another level's
+     * (keeps registered change callbacks and the property schema, notifies once)
+     */
+    copyFrom(source: Level): void {
+        const data = source.toJSON() as any;
+        const copy = Level.fromJSON(JSON.parse(JSON.stringify(data)));
+
+        this.metadata = copy.metadata;
+        this.gridWidth = copy.gridWidth;
+        this.gridHeight = copy.gridHeight;
+        this.defaultWallHeight = copy.defaultWallHeight;
+        this.layers = copy.layers;
+        this.elements = copy.elements;
+
+        this.notifyChange();
+    }
+
     /**
      * Gets the total element count
      */
@@ -247,6 +454,7 @@ export class Level {
             gridWidth: this.gridWidth,
             gridHeight: this.gridHeight,
             defaultWallHeight: this.defaultWallHeight,
+            layers: this.layers,
             elements: this.getAllElements()
         };
     }
@@ -269,6 +477,16 @@ export class Level {
             level.defaultWallHeight = data.defaultWallHeight;
         }
 
+        if (Array.isArray(data.layers) && data.layers.length > 0) {
+            level.layers = data.layers.map((layer: Partial<LevelLayer>, i: number) => ({
+                id: layer.id || generateLayerId(),
+                name: layer.name || `Layer ${i + 1}`,
+                baseElevation: layer.baseElevation ?? 0,
+                visible: layer.visible ?? true,
+                locked: layer.locked ?? false
+            }));
+        }
+
         if (Array.isArray(data.elements)) {
             data.elements.forEach((element: AnyLevelElement) => {
                 level.elements.set(element.id, element);
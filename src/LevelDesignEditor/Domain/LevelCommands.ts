@@ -0,0 +1,439 @@
+/**
+ * Level commands
+ * Reversible operations on a Level, used by the command history for undo/redo
+ */
+
+import { Level, LevelLayer } from './Level.js';
+import { AnyLevelElement, getElementCenter, getElevationOffsetUpdates } from './LevelElement.js';
+import { Prefab, getInstancePlacement, getPrefabInstances, instantiatePrefab } from './Prefab.js';
+import { PrefabLibrary } from './PrefabLibrary.js';
+import { PropertySchema } from './ElementProperties.js';
+
+/**
+ * An area of the grid, in grid units
+ */
+export interface ElementArea {
+    gridX: number;
+    gridY: number;
+    width: number;
+    depth: number;
+}
+
+/**
+ * Copies the given fields of an object (to remember the values an update replaces)
+ */
+function pick<T extends object>(source: T, keys: string[]): Partial<T> {
+    const picked: Partial<T> = {};
+    keys.forEach(key => {
+        picked[key as keyof T] = source[key as keyof T];
+    });
+    return picked;
+}
+
+/**
+ * A reversible operation on a level
+ */
+export interface LevelCommand {
+    /** Human-readable step name shown in the history panel */
+    readonly label: string;
+    /** Applies the operation */
+    execute(level: Level): void;
+    /** Reverts the operation */
+    undo(level: Level): void;
+}
+
+/**
+ * Adds a single element
+ */
+export class AddElementCommand implements LevelCommand {
+    readonly label: string;
+    private element: AnyLevelElement;
+
+    constructor(element: AnyLevelElement, label: string = `Add ${element.type}`) {
+        this.element = element;
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        level.addElement(this.element);
+    }
+
+    undo(level: Level): void {
+        level.removeElement(this.element.id);
+    }
+}
+
+/**
+ * Removes a single element, keeping a copy so it can be restored
+ */
+export class RemoveElementCommand implements LevelCommand {
+    readonly label: string;
+    private elementId: string;
+    private removed: AnyLevelElement | null = null;
+
+    constructor(elementId: string, label: string = 'Remove element') {
+        this.elementId = elementId;
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        const element = level.getElement(this.elementId);
+        this.removed = element ? { ...element } : null;
+        level.removeElement(this.elementId);
+    }
+
+    undo(level: Level): void {
+        if (this.removed) {
+            level.addElement({ ...this.removed });
+        }
+    }
+}
+
+/**
+ * Updates fields of an element, remembering the previous values
+ */
+export class UpdateElementCommand implements LevelCommand {
+    readonly label: string;
+    private elementId: string;
+    private updates: Partial<AnyLevelElement>;
+    private previous: Partial<AnyLevelElement> = {};
+
+    constructor(
+        elementId: string,
+        updates: Partial<AnyLevelElement>,
+        label: string = 'Update element'
+    ) {
+        this.elementId = elementId;
+        this.updates = { ...updates };
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        const element = level.getElement(this.elementId);
+        if (!element) return;
+
+        this.previous = pick(element, Object.keys(this.updates));
+        level.updateElement(this.elementId, this.updates);
+    }
+
+    undo(level: Level): void {
+        level.updateElement(this.elementId, this.previous);
+    }
+}
+
+/**
+ * Removes every element from the level
+ */
+export class ClearLevelCommand implements LevelCommand {
+    readonly label: string;
+    private removed: AnyLevelElement[] = [];
+
+    constructor(label: string = 'Clear level') {
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        this.removed = level.getAllElements().map(element => ({ ...element }));
+        level.clear();
+    }
+
+    undo(level: Level): void {
+        level.addElements(this.removed.map(element => ({ ...element })));
+    }
+}
+
+/**
+ * Replaces everything on a layer, or in an area of it, with new elements (e.g. a generated
+ * blockout). The new elements are moved onto the layer and raised by its base elevation
+ */
+export class ReplaceLayerElementsCommand implements LevelCommand {
+    readonly label: string;
+    private layerId: string;
+    private elements: AnyLevelElement[];
+    private area: ElementArea | null;
+    private removed: AnyLevelElement[] = [];
+    private added: AnyLevelElement[] | null = null;
+
+    /**
+     * @param area Only elements centered in this area are replaced (openings go with their wall)
+     */
+    constructor(
+        layerId: string,
+        elements: AnyLevelElement[],
+        label: string = 'Replace layer elements',
+        area: ElementArea | null = null
+    ) {
+        this.layerId = layerId;
+        this.elements = elements;
+        this.label = label;
+        this.area = area;
+    }
+
+    execute(level: Level): void {
+        this.removed = level.getElementsOnLayer(this.layerId)
+            .filter(element => this.isInArea(level.getElementFrame(element)))
+            .map(element => ({ ...element }));
+
+        if (!this.added) {
+            const baseElevation = level.getLayer(this.layerId)?.baseElevation ?? 0;
+            this.added = this.elements.map(element => ({
+                ...element,
+                ...getElevationOffsetUpdates(element, baseElevation),
+                layerId: this.layerId
+            }) as AnyLevelElement);
+        }
+
+        level.removeElements(this.removed.map(element => element.id));
+        level.addElements(this.added.map(element => ({ ...element })));
+    }
+
+    undo(level: Level): void {
+        level.removeElements((this.added ?? []).map(element => element.id));
+        level.addElements(this.removed.map(element => ({ ...element })));
+    }
+
+    /**
+     * Checks whether an element's center lies in the replaced area
+     */
+    private isInArea(element: AnyLevelElement): boolean {
+        if (!this.area) return true;
+
+        const [x, y] = getElementCenter(element);
+        return x >= this.area.gridX && x < this.area.gridX + this.area.width
+            && y >= this.area.gridY && y < this.area.gridY + this.area.depth;
+    }
+}
+
+/**
+ * Groups several commands into a single history step
+ */
+export class CompositeCommand implements LevelCommand {
+    readonly label: string;
+    private commands: LevelCommand[];
+
+    constructor(label: string, commands: LevelCommand[] = []) {
+        this.label = label;
+        this.commands = [...commands];
+    }
+
+    /**
+     * Appends a command that has already been executed
+     */
+    add(command: LevelCommand): void {
+        this.commands.push(command);
+    }
+
+    /**
+     * Gets the number of grouped commands
+     */
+    size(): number {
+        return this.commands.length;
+    }
+
+    execute(level: Level): void {
+        this.commands.forEach(command => command.execute(level));
+    }
+
+    undo(level: Level): void {
+        // Revert in reverse order so dependent steps unwind correctly
+        for (let i = this.commands.length - 1; i >= 0; i--) {
+            this.commands[i].undo(level);
+        }
+    }
+}
+
+/**
+ * Adds a layer
+ */
+export class AddLayerCommand implements LevelCommand {
+    readonly label: string;
+    private layer: LevelLayer;
+
+    constructor(layer: LevelLayer, label: string = `Add layer "${layer.name}"`) {
+        this.layer = { ...layer };
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        level.addLayer(this.layer);
+    }
+
+    undo(level: Level): void {
+        level.removeLayer(this.layer.id);
+    }
+}
+
+/**
+ * Removes a layer and its elements, keeping copies so both can be restored
+ */
+export class RemoveLayerCommand implements LevelCommand {
+    readonly label: string;
+    private layerId: string;
+    private removedLayer: LevelLayer | null = null;
+    private removedElements: AnyLevelElement[] = [];
+
+    constructor(layerId: string, label: string = 'Remove layer') {
+        this.layerId = layerId;
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        this.removedLayer = level.getLayer(this.layerId) ?? null;
+        const removed = level.removeLayer(this.layerId);
+        this.removedElements = (removed ?? []).map(element => ({ ...element, layerId: this.layerId }));
+        if (!removed) {
+            this.removedLayer = null;
+        }
+    }
+
+    undo(level: Level): void {
+        if (!this.removedLayer) return;
+
+        level.addLayer(this.removedLayer);
+        level.addElements(this.removedElements.map(element => ({ ...element })));
+    }
+}
+
+/**
+ * Updates layer properties, remembering the previous values
+ */
+export class UpdateLayerCommand implements LevelCommand {
+    readonly label: string;
+    private layerId: string;
+    private updates: Partial<Omit<LevelLayer, 'id'>>;
+    private previous: Partial<Omit<LevelLayer, 'id'>> = {};
+
+    constructor(
+        layerId: string,
+        updates: Partial<Omit<LevelLayer, 'id'>>,
+        label: string = 'Update layer'
+    ) {
+        this.layerId = layerId;
+        this.updates = { ...updates };
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        const layer = level.getLayer(this.layerId);
+        if (!layer) return;
+
+        this.previous = pick(layer, Object.keys(this.updates));
+        level.updateLayer(this.layerId, this.updates);
+    }
+
+    undo(level: Level): void {
+        level.updateLayer(this.layerId, this.previous);
+    }
+}
+
+/**
+ * Renames the level, remembering the previous name
+ */
+export class RenameLevelCommand implements LevelCommand {
+    readonly label: string;
+    private name: string;
+    private previous: string | null = null;
+
+    constructor(name: string, label: string = `Rename level to "${name}"`) {
+        this.name = name;
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        this.previous = level.getName();
+        level.setName(this.name);
+    }
+
+    undo(level: Level): void {
+        if (this.previous !== null) {
+            level.setName(this.previous);
+        }
+    }
+}
+
+/**
+ * Replaces the project's property schema (held by the level), remembering the previous one
+ */
+export class SetPropertySchemaCommand implements LevelCommand {
+    readonly label: string;
+    private schema: PropertySchema;
+    private previous: PropertySchema | null = null;
+
+    constructor(schema: PropertySchema, label: string = 'Change property schema') {
+        this.schema = schema;
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        this.previous = level.getPropertySchema();
+        level.setPropertySchema(this.schema);
+    }
+
+    undo(level: Level): void {
+        if (this.previous) {
+            level.setPropertySchema(this.previous);
+        }
+    }
+}
+
+/**
+ * Replaces a prefab definition and rebuilds every instance of it in the level
+ * Instances keep their placement; elements edited in an instance are replaced too
+ */
+export class UpdatePrefabCommand implements LevelCommand {
+    readonly label: string;
+    private library: PrefabLibrary;
+    private prefab: Prefab;
+    private previous: Prefab | null = null;
+    private removed: AnyLevelElement[] = [];
+    private added: AnyLevelElement[] | null = null;
+
+    constructor(library: PrefabLibrary, prefab: Prefab, label: string = `Update prefab "${prefab.name}"`) {
+        this.library = library;
+        this.prefab = prefab;
+        this.label = label;
+    }
+
+    execute(level: Level): void {
+        this.previous = this.library.get(this.prefab.id) ?? null;
+
+        // Rebuilt once, so redo restores the same element IDs
+        if (!this.added) {
+            const definition = this.previous ?? this.prefab;
+            const instances = getPrefabInstances(level.getAllElements());
+            this.removed = [];
+            this.added = [];
+
+            instances.forEach((members, instanceId) => {
+                if (members[0].prefab!.prefabId !== this.prefab.id) return;
+
+                const layerId = level.getElementLayerId(members[0]);
+                const baseElevation = level.getLayer(layerId)?.baseElevation ?? 0;
+                const placement = getInstancePlacement(definition, members);
+
+                this.removed.push(...members.map(member => ({ ...member })));
+                instantiatePrefab(this.prefab, placement, instanceId).forEach(element => {
+                    this.added!.push({
+                        ...element,
+                        ...getElevationOffsetUpdates(element, baseElevation),
+                        layerId
+                    } as AnyLevelElement);
+                });
+            });
+        }
+
+        this.library.save(this.prefab);
+        level.removeElements(this.removed.map(element => element.id));
+        level.addElements(this.added.map(element => ({ ...element })));
+    }
+
+    undo(level: Level): void {
+        level.removeElements((this.added ?? []).map(element => element.id));
+        level.addElements(this.removed.map(element => ({ ...element })));
+        if (this.previous) {
+            this.library.save(this.previous);
+        } else {
+            this.library.remove(this.prefab.id);
+        }
+    }
+}
@@ -1,18 +1,52 @@
 /**
  * Level element types and interfaces
- * Defines the building blocks of a level: walls, floors, and spawn points
+ * Defines the building blocks of a level: walls, floors, ramps, stairs, openings, and spawn points
  */
 
 /**
  * Supported element types
  */
-export type ElementType = 'wall' | 'floor' | 'spawn';
+export type ElementType = 'wall' | 'floor' | 'spawn' | 'ramp' | 'stair' | 'door' | 'window';
+
+/**
+ * Direction a ramp or stair ascends towards (north = -Y in the 2D view, -Z in 3D)
+ */
+export type SlopeDirection = 'north' | 'east' | 'south' | 'west';
 
 /**
  * Spawn point types
  */
 export type SpawnType = 'player' | 'enemy' | 'item';
 
+/**
+ * Where a prefab instance was stamped: mirrored across the pivot's vertical axis (if set),
+ * then rotated clockwise about the pivot, then moved to (x, y)
+ */
+export interface PrefabPlacement {
+    x: number;
+    y: number;
+    /** Degrees, clockwise in the 2D view */
+    rotation: number;
+    mirrored: boolean;
+}
+
+/**
+ * Link from a stamped element back to the prefab it came from
+ */
+export interface PrefabLink {
+    prefabId: string;
+    /** Shared by all elements stamped together */
+    instanceId: string;
+    /** ID of the element inside the prefab */
+    sourceId: string;
+    placement: PrefabPlacement;
+}
+
+/**
+ * Value of a custom element property
+ */
+export type PropertyValue = string | number | boolean;
+
 /**
  * Base interface for all level elements
  */
@@ -29,6 +63,19 @@ export interface LevelElement {
     width: number;
     /** Depth in grid units (height in 2D view) */
     depth: number;
+    /** Layer (storey) the element belongs to; defaults to the level's first layer */
+    layerId?: string;
+    /**
+     * Rotation in degrees about the footprint center, clockwise in the 2D view (0 if unset)
+     * Only walls, floors, ramps and stairs rotate; openings use their wall's frame
+     */
+    rotation?: number;
+    /** Set on elements stamped from a prefab */
+    prefab?: PrefabLink;
+    /** Custom gameplay properties, with keys from the project's property schema */
+    properties?: Record<string, PropertyValue>;
+    /** Gameplay tags (e.g. "boss", "secret") */
+    tags?: string[];
 }
 
 /**
@@ -64,10 +111,83 @@ export interface SpawnElement extends LevelElement {
     elevation: number;
 }
 
+/**
+ * Ramp element - continuous slope between two elevations
+ */
+export interface RampElement extends LevelElement {
+    type: 'ramp';
+    /** Direction the ramp ascends towards */
+    direction: SlopeDirection;
+    /** Elevation at the low (start) edge in meters */
+    startElevation: number;
+    /** Elevation at the high (end) edge in meters */
+    endElevation: number;
+}
+
+/**
+ * Stair element - stepped slope between two elevations
+ */
+export interface StairElement extends LevelElement {
+    type: 'stair';
+    /** Direction the stairs ascend towards */
+    direction: SlopeDirection;
+    /** Elevation at the start edge in meters */
+    startElevation: number;
+    /** Elevation at the end edge (top of the last step) in meters */
+    endElevation: number;
+    /** Number of steps */
+    stepCount: number;
+}
+
+/**
+ * Elements that connect two elevations
+ */
+export type SlopeElement = RampElement | StairElement;
+
+/**
+ * Opening cut into a wall
+ * The footprint (gridX/gridY/width/depth) lies inside the host wall and spans its full thickness
+ */
+export interface OpeningElement extends LevelElement {
+    type: 'door' | 'window';
+    /** ID of the wall the opening is cut into */
+    wallId: string;
+    /** Opening height in meters */
+    height: number;
+    /** Height of the opening's bottom edge above the wall base in meters */
+    sillHeight: number;
+}
+
+/**
+ * Door element - walkable opening starting at the wall base
+ */
+export interface DoorElement extends OpeningElement {
+    type: 'door';
+}
+
+/**
+ * Window element - opening above a sill
+ */
+export interface WindowElement extends OpeningElement {
+    type: 'window';
+}
+
+/**
+ * Union type for all opening types
+ */
+export type AnyOpeningElement = DoorElement | WindowElement;
+
 /**
  * Union type for all element types
  */
-export type AnyLevelElement = WallElement | FloorElement | SpawnElement;
+export type AnyLevelElement =
+    | WallElement
+    | FloorElement
+    | SpawnElement
+    | RampElement
+    | StairElement
+    | DoorElement
+    | WindowElement;
 
 /**
  * Default values for element creation
@@ -75,6 +195,12 @@ export type AnyLevelElement = WallElement | FloorElement | SpawnElement;
 export const DEFAULT_WALL_HEIGHT = 3.0;
 export const DEFAULT_FLOOR_THICKNESS = 0.1;
 export const DEFAULT_ELEVATION = 0;
+export const DEFAULT_SLOPE_RISE = 1.0;
+export const DEFAULT_STEP_RISE = 0.2;
+export const DEFAULT_DOOR_HEIGHT = 2.1;
+export const DEFAULT_WINDOW_HEIGHT = 1.2;
+export const DEFAULT_WINDOW_SILL_HEIGHT = 1.0;
+export const DEFAULT_WALL_THICKNESS = 1.0;
 
 /**
  * Generates a unique element ID
@@ -83,6 +209,13 @@ export function generateElementId(): string {
     return `elem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Generates a unique prefab instance ID
+ */
+export function generatePrefabInstanceId(): string {
+    return `instance_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 /**
  * Creates a new wall element
  */
@@ -106,6 +239,34 @@ export function createWallElement(
     };
 }
 
+/**
+ * Creates a wall running from one grid point to another, rotated to match
+ * The wall's width is the distance between the points and its depth the thickness
+ */
+export function createWallBetween(
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+    thickness: number = DEFAULT_WALL_THICKNESS,
+    wallHeight: number = DEFAULT_WALL_HEIGHT,
+    elevation: number = DEFAULT_ELEVATION
+): WallElement {
+    const length = Math.max(thickness, Math.hypot(x1 - x0, y1 - y0));
+    const centerX = (x0 + x1) / 2;
+    const centerY = (y0 + y1) / 2;
+    const wall = createWallElement(
+        centerX - length / 2,
+        centerY - thickness / 2,
+        length,
+        thickness,
+        wallHeight,
+        elevation
+    );
+    wall.rotation = normalizeRotation(Math.atan2(y1 - y0, x1 - x0) * 180 / Math.PI);
+    return wall;
+}
+
 /**
  * Creates a new floor element
  */
@@ -150,6 +311,104 @@ export function createSpawnElement(
     };
 }
 
+/**
+ * Creates a new ramp element
+ */
+export function createRampElement(
+    gridX: number,
+    gridY: number,
+    width: number,
+    depth: number,
+    direction: SlopeDirection = 'north',
+    startElevation: number = DEFAULT_ELEVATION,
+    endElevation: number = DEFAULT_ELEVATION + DEFAULT_SLOPE_RISE
+): RampElement {
+    return {
+        id: generateElementId(),
+        type: 'ramp',
+        gridX,
+        gridY,
+        width,
+        depth,
+        direction,
+        startElevation,
+        endElevation
+    };
+}
+
+/**
+ * Creates a new stair element
+ * The step count defaults to steps of roughly DEFAULT_STEP_RISE
+ */
+export function createStairElement(
+    gridX: number,
+    gridY: number,
+    width: number,
+    depth: number,
+    direction: SlopeDirection = 'north',
+    startElevation: number = DEFAULT_ELEVATION,
+    endElevation: number = DEFAULT_ELEVATION + DEFAULT_SLOPE_RISE,
+    stepCount?: number
+): StairElement {
+    const steps = stepCount ?? Math.round(Math.abs(endElevation - startElevation) / DEFAULT_STEP_RISE);
+
+    return {
+        id: generateElementId(),
+        type: 'stair',
+        gridX,
+        gridY,
+        width,
+        depth,
+        direction,
+        startElevation,
+        endElevation,
+        stepCount: Math.max(1, Math.floor(steps))
+    };
+}
+
+/**
+ * Creates a new door element in a wall
+ * The position is clamped so the door lies within the wall
+ */
+export function createDoorElement(
+    wall: WallElement,
+    gridX: number,
+    gridY: number,
+    span: number = 1,
+    height: number = DEFAULT_DOOR_HEIGHT
+): DoorElement {
+    return {
+        id: generateElementId(),
+        type: 'door',
+        ...fitOpeningToWall(wall, gridX, gridY, span),
+        wallId: wall.id,
+        height,
+        sillHeight: 0
+    };
+}
+
+/**
+ * Creates a new window element in a wall
+ * The position is clamped so the window lies within the wall
+ */
+export function createWindowElement(
+    wall: WallElement,
+    gridX: number,
+    gridY: number,
+    span: number = 1,
+    height: number = DEFAULT_WINDOW_HEIGHT,
+    sillHeight: number = DEFAULT_WINDOW_SILL_HEIGHT
+): WindowElement {
+    return {
+        id: generateElementId(),
+        type: 'window',
+        ...fitOpeningToWall(wall, gridX, gridY, span),
+        wallId: wall.id,
+        height,
+        sillHeight
+    };
+}
+
 /**
  * Type guard for WallElement
  */
@@ -170,3 +429,508 @@ export function isFloorElement(element: LevelElement): element is FloorElement {
 export function isSpawnElement(element: LevelElement): element is SpawnElement {
     return element.type === 'spawn';
 }
+
+/**
+ * Type guard for RampElement
+ */
+export function isRampElement(element: LevelElement): element is RampElement {
+    return element.type === 'ramp';
+}
+
+/**
+ * Type guard for StairElement
+ */
+export function isStairElement(element: LevelElement): element is StairElement {
+    return element.type === 'stair';
+}
+
+/**
+ * Type guard for ramps and stairs
+ */
+export function isSlopeElement(element: LevelElement): element is SlopeElement {
+    return element.type === 'ramp' || element.type === 'stair';
+}
+
+/**
+ * Gets the horizontal run of a slope along its direction, in grid units
+ */
+export function getSlopeLength(element: SlopeElement): number {
+    return element.direction === 'north' || element.direction === 'south'
+        ? element.depth
+        : element.width;
+}
+
+/**
+ * Gets how far along a slope a point lies, from 0 (start edge) to 1 (end edge)
+ * @param x Grid-space X coordinate (may be fractional)
+ * @param y Grid-space Y coordinate (may be fractional)
+ */
+export function getSlopeProgress(element: SlopeElement, x: number, y: number): number {
+    let progress: number;
+    switch (element.direction) {
+        case 'north':
+            progress = (element.gridY + element.depth - y) / element.depth;
+            break;
+        case 'south':
+            progress = (y - element.gridY) / element.depth;
+            break;
+        case 'east':
+            progress = (x - element.gridX) / element.width;
+            break;
+        case 'west':
+            progress = (element.gridX + element.width - x) / element.width;
+            break;
+    }
+    return Math.max(0, Math.min(1, progress));
+}
+
+/**
+ * Gets the walkable surface height of a slope at a point
+ * Stairs return the top of the step under the point
+ */
+export function getSlopeElevationAt(element: SlopeElement, x: number, y: number): number {
+    const [localX, localY] = toElementLocal(element, x, y);
+    const progress = getSlopeProgress(element, localX, localY);
+    const rise = element.endElevation - element.startElevation;
+
+    if (isStairElement(element)) {
+        const step = Math.min(element.stepCount - 1, Math.floor(progress * element.stepCount));
+        return element.startElevation + (rise * (step + 1)) / element.stepCount;
+    }
+
+    return element.startElevation + rise * progress;
+}
+
+/**
+ * Type guard for DoorElement
+ */
+export function isDoorElement(element: LevelElement): element is DoorElement {
+    return element.type === 'door';
+}
+
+/**
+ * Type guard for WindowElement
+ */
+export function isWindowElement(element: LevelElement): element is WindowElement {
+    return element.type === 'window';
+}
+
+/**
+ * Type guard for doors and windows
+ */
+export function isOpeningElement(element: LevelElement): element is AnyOpeningElement {
+    return element.type === 'door' || element.type === 'window';
+}
+
+/**
+ * Gets the axis a wall runs along: 'x' if it is at least as wide as it is deep, otherwise 'y'
+ */
+export function getWallAxis(wall: WallElement): 'x' | 'y' {
+    return wall.width >= wall.depth ? 'x' : 'y';
+}
+
+/**
+ * Type guard for elements that can be rotated (walls, floors, ramps and stairs)
+ */
+export function isRotatableElement(element: LevelElement): boolean {
+    return element.type === 'wall' || element.type === 'floor' || isSlopeElement(element);
+}
+
+/**
+ * Wraps an angle in degrees into [0, 360)
+ */
+export function normalizeRotation(degrees: number): number {
+    const wrapped = degrees % 360;
+    return wrapped < 0 ? wrapped + 360 : wrapped;
+}
+
+/**
+ * Gets an element's rotation in degrees (0 for elements that don't rotate)
+ */
+export function getElementRotation(element: LevelElement): number {
+    return isRotatableElement(element) ? element.rotation ?? 0 : 0;
+}
+
+/**
+ * Gets the center of an element's footprint in grid space
+ */
+export function getElementCenter(element: LevelElement): [number, number] {
+    return [element.gridX + element.width / 2, element.gridY + element.depth / 2];
+}
+
+/**
+ * Converts a grid-space point into the unrotated frame of an element
+ * @param frame Element whose rotation and center define the frame (the wall for openings)
+ */
+export function toElementLocal(
+    element: LevelElement,
+    x: number,
+    y: number,
+    frame: LevelElement = element
+): [number, number] {
+    const angle = getElementRotation(frame) * Math.PI / 180;
+    if (angle === 0) return [x, y];
+
+    const [centerX, centerY] = getElementCenter(frame);
+    const dx = x - centerX;
+    const dy = y - centerY;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return [centerX + dx * cos + dy * sin, centerY - dx * sin + dy * cos];
+}
+
+/**
+ * Converts a point in the unrotated frame of an element back into grid space
+ */
+export function fromElementLocal(
+    element: LevelElement,
+    x: number,
+    y: number,
+    frame: LevelElement = element
+): [number, number] {
+    const angle = getElementRotation(frame) * Math.PI / 180;
+    if (angle === 0) return [x, y];
+
+    const [centerX, centerY] = getElementCenter(frame);
+    const dx = x - centerX;
+    const dy = y - centerY;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return [centerX + dx * cos - dy * sin, centerY + dx * sin + dy * cos];
+}
+
+/**
+ * Checks whether a grid-space point lies inside an element's (rotated) footprint
+ */
+export function elementContainsPoint(
+    element: LevelElement,
+    x: number,
+    y: number,
+    frame: LevelElement = element
+): boolean {
+    const [localX, localY] = toElementLocal(element, x, y, frame);
+    return (
+        localX >= element.gridX &&
+        localX < element.gridX + element.width &&
+        localY >= element.gridY &&
+        localY < element.gridY + element.depth
+    );
+}
+
+/**
+ * Checks whether an element covers a grid cell (tested at the cell center)
+ */
+export function elementCoversCell(
+    element: LevelElement,
+    gridX: number,
+    gridY: number,
+    frame: LevelElement = element
+): boolean {
+    return elementContainsPoint(element, gridX + 0.5, gridY + 0.5, frame);
+}
+
+/**
+ * Gets the corners of an element's (rotated) footprint in grid space, clockwise from top-left
+ */
+export function getElementCorners(
+    element: LevelElement,
+    frame: LevelElement = element
+): Array<[number, number]> {
+    const x0 = element.gridX;
+    const y0 = element.gridY;
+    const x1 = element.gridX + element.width;
+    const y1 = element.gridY + element.depth;
+    return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]].map(
+        ([x, y]) => fromElementLocal(element, x, y, frame)
+    );
+}
+
+/**
+ * Gets the axis-aligned bounding box of an element's (rotated) footprint
+ */
+export function getElementBounds(
+    element: LevelElement,
+    frame: LevelElement = element
+): { gridX: number; gridY: number; width: number; depth: number } {
+    // Rounded so that quarter turns produce exact grid-aligned bounds
+    const round = (value: number) => Math.round(value * 1e6) / 1e6;
+    const corners = getElementCorners(element, frame);
+    const xs = corners.map(([x]) => round(x));
+    const ys = corners.map(([, y]) => round(y));
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return {
+        gridX: minX,
+        gridY: minY,
+        width: Math.max(...xs) - minX,
+        depth: Math.max(...ys) - minY
+    };
+}
+
+/**
+ * Computes the footprint of an opening of `span` cells inside a wall, centered on a grid cell
+ * Coordinates are in the wall's unrotated frame (see toElementLocal)
+ */
+export function fitOpeningToWall(
+    wall: WallElement,
+    gridX: number,
+    gridY: number,
+    span: number
+): { gridX: number; gridY: number; width: number; depth: number } {
+    if (getWallAxis(wall) === 'x') {
+        const width = Math.max(1, Math.min(span, wall.width));
+        const start = Math.round(gridX + 0.5 - width / 2);
+        return {
+            gridX: Math.max(wall.gridX, Math.min(start, wall.gridX + wall.width - width)),
+            gridY: wall.gridY,
+            width,
+            depth: wall.depth
+        };
+    }
+
+    const depth = Math.max(1, Math.min(span, wall.depth));
+    const start = Math.round(gridY + 0.5 - depth / 2);
+    return {
+        gridX: wall.gridX,
+        gridY: Math.max(wall.gridY, Math.min(start, wall.gridY + wall.depth - depth)),
+        width: wall.width,
+        depth
+    };
+}
+
+/**
+ * A solid box of an element in its unrotated frame (X/Z from the grid, Y up), e.g. a piece of
+ * a wall split around its openings or a stair step
+ */
+export interface ElementBox {
+    x0: number;
+    x1: number;
+    y0: number;
+    y1: number;
+    z0: number;
+    z1: number;
+}
+
+/**
+ * Splits a wall volume into solid boxes around its openings, in the wall's unrotated frame
+ * Works in (u, v) wall space: u along the wall axis, v vertical
+ */
+export function splitWallAroundOpenings(wall: WallElement, openings: AnyOpeningElement[]): ElementBox[] {
+    const alongX = getWallAxis(wall) === 'x';
+    const uStart = alongX ? wall.gridX : wall.gridY;
+    const uEnd = uStart + (alongX ? wall.width : wall.depth);
+    const vStart = wall.elevation;
+    const vEnd = wall.elevation + wall.wallHeight;
+
+    const cuts = openings.map(opening => {
+        const u0 = alongX ? opening.gridX : opening.gridY;
+        const u1 = u0 + (alongX ? opening.width : opening.depth);
+        const v0 = vStart + opening.sillHeight;
+        return {
+            u0: Math.max(uStart, u0),
+            u1: Math.min(uEnd, u1),
+            v0: Math.max(vStart, v0),
+            v1: Math.min(vEnd, v0 + opening.height)
+        };
+    }).filter(cut => cut.u1 > cut.u0 && cut.v1 > cut.v0);
+
+    // Breakpoints along the wall
+    const breaks = Array.from(new Set([
+        uStart,
+        uEnd,
+        ...cuts.flatMap(cut => [cut.u0, cut.u1])
+    ])).sort((a, b) => a - b);
+
+    const pieces: ElementBox[] = [];
+
+    for (let i = 0; i < breaks.length - 1; i++) {
+        const u0 = breaks[i];
+        const u1 = breaks[i + 1];
+        const mid = (u0 + u1) / 2;
+
+        // Vertical solid ranges in this column, with covering cuts removed
+        const covering = cuts
+            .filter(cut => cut.u0 <= mid && cut.u1 >= mid)
+            .sort((a, b) => a.v0 - b.v0);
+
+        let v = vStart;
+        const solids: Array<[number, number]> = [];
+        covering.forEach(cut => {
+            if (cut.v0 > v) solids.push([v, cut.v0]);
+            v = Math.max(v, cut.v1);
+        });
+        if (v < vEnd) solids.push([v, vEnd]);
+
+        solids.forEach(([y0, y1]) => {
+            pieces.push(alongX
+                ? { x0: u0, x1: u1, y0, y1, z0: wall.gridY, z1: wall.gridY + wall.depth }
+                : { x0: wall.gridX, x1: wall.gridX + wall.width, y0, y1, z0: u0, z1: u1 });
+        });
+    }
+
+    return pieces;
+}
+
+/**
+ * Splits a stair into a box per step, in its unrotated frame, each standing on the stair's
+ * lowest elevation (steps are at least 1cm high, so a stair that descends still has a first step)
+ */
+export function getStairSteps(stair: StairElement): ElementBox[] {
+    const base = Math.min(stair.startElevation, stair.endElevation);
+    const rise = stair.endElevation - stair.startElevation;
+    const alongZ = stair.direction === 'north' || stair.direction === 'south';
+    const run = (alongZ ? stair.depth : stair.width) / stair.stepCount;
+
+    const steps: ElementBox[] = [];
+    for (let i = 0; i < stair.stepCount; i++) {
+        const top = stair.startElevation + (rise * (i + 1)) / stair.stepCount;
+        const step: ElementBox = {
+            x0: stair.gridX,
+            x1: stair.gridX + stair.width,
+            y0: base,
+            y1: base + Math.max(0.01, top - base),
+            z0: stair.gridY,
+            z1: stair.gridY + stair.depth
+        };
+
+        // Steps climb from the start edge in the stair's direction
+        switch (stair.direction) {
+            case 'north': [step.z0, step.z1] = [step.z1 - run * (i + 1), step.z1 - run * i]; break;
+            case 'south': [step.z0, step.z1] = [step.z0 + run * i, step.z0 + run * (i + 1)]; break;
+            case 'east': [step.x0, step.x1] = [step.x0 + run * i, step.x0 + run * (i + 1)]; break;
+            case 'west': [step.x0, step.x1] = [step.x1 - run * (i + 1), step.x1 - run * i]; break;
+        }
+        steps.push(step);
+    }
+
+    return steps;
+}
+
+/**
+ * Faces of a ramp wedge as indices into getRampCorners: top (sloped), bottom, then the west,
+ * south, east and north sides
+ */
+export const RAMP_FACES: number[][] = [[4, 5, 6, 7], [3, 2, 1, 0], [0, 1, 5, 4], [1, 2, 6, 5], [2, 3, 7, 6], [3, 0, 4, 7]];
+
+/**
+ * Gets the corners of a ramp wedge in its unrotated frame (X/Z from the grid, Y up): the
+ * footprint on the ramp's lowest elevation (0-3, counter-clockwise seen from above), then the
+ * same corners on the slope (4-7); at the low end the top corners repeat the bottom ones
+ */
+export function getRampCorners(ramp: RampElement): Array<[number, number, number]> {
+    const base = Math.min(ramp.startElevation, ramp.endElevation);
+    const x0 = ramp.gridX;
+    const x1 = ramp.gridX + ramp.width;
+    const z0 = ramp.gridY;
+    const z1 = ramp.gridY + ramp.depth;
+
+    const footprint: Array<[number, number]> = [[x0, z0], [x0, z1], [x1, z1], [x1, z0]];
+    return [
+        ...footprint.map(([x, z]): [number, number, number] => [x, base, z]),
+        ...footprint.map(([x, z]): [number, number, number] => [x, getSlopeElevationAt(ramp, x, z), z])
+    ];
+}
+
+/**
+ * Gets the solid vertical spans of a wall at a grid cell, with openings cut out
+ * Rotated walls are sampled at the cell center in the wall's frame
+ * @returns Array of [bottom, top] elevations in meters
+ */
+export function getWallSolidSpans(
+    wall: WallElement,
+    openings: AnyOpeningElement[],
+    gridX: number,
+    gridY: number
+): Array<[number, number]> {
+    const wallTop = wall.elevation + wall.wallHeight;
+    let spans: Array<[number, number]> = [[wall.elevation, wallTop]];
+
+    openings
+        .filter(opening =>
+            opening.wallId === wall.id &&
+            elementCoversCell(opening, gridX, gridY, wall)
+        )
+        .forEach(opening => {
+            const cutBottom = wall.elevation + opening.sillHeight;
+            const cutTop = Math.min(wallTop, cutBottom + opening.height);
+
+            spans = spans.flatMap(([bottom, top]): Array<[number, number]> => {
+                if (cutTop <= bottom || cutBottom >= top) return [[bottom, top]];
+                const pieces: Array<[number, number]> = [];
+                if (cutBottom > bottom) pieces.push([bottom, cutBottom]);
+                if (cutTop < top) pieces.push([cutTop, top]);
+                return pieces;
+            });
+        });
+
+    return spans;
+}
+
+/**
+ * Gets the updates that move an element vertically by `delta` meters
+ * Openings are positioned relative to their wall and need no update
+ */
+export function getElevationOffsetUpdates(element: AnyLevelElement, delta: number): Partial<AnyLevelElement> {
+    switch (element.type) {
+        case 'wall':
+        case 'floor':
+        case 'spawn':
+            return { elevation: element.elevation + delta };
+        case 'ramp':
+        case 'stair':
+            return {
+                startElevation: element.startElevation + delta,
+                endElevation: element.endElevation + delta
+            };
+        default:
+            return {};
+    }
+}
+
+/**
+ * Gets the base elevation of an element: its elevation, or the lower end of a ramp/stair
+ * Returns null for openings, which are positioned relative to their wall
+ */
+export function getElementElevation(element: AnyLevelElement): number | null {
+    switch (element.type) {
+        case 'wall':
+        case 'floor':
+        case 'spawn':
+            return element.elevation;
+        case 'ramp':
+        case 'stair':
+            return Math.min(element.startElevation, element.endElevation);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Copies elements with fresh IDs, pointing openings at the copies of their walls
+ * Openings whose wall is not among the elements are dropped; copied prefab instances
+ * become new instances of the same prefab
+ */
+export function cloneElementsWithNewIds(elements: AnyLevelElement[]): AnyLevelElement[] {
+    const idMap = new Map<string, string>();
+    elements.forEach(element => idMap.set(element.id, generateElementId()));
+
+    const instanceMap = new Map<string, string>();
+    elements.forEach(element => {
+        if (element.prefab && !instanceMap.has(element.prefab.instanceId)) {
+            instanceMap.set(element.prefab.instanceId, generatePrefabInstanceId());
+        }
+    });
+
+    return elements
+        .filter(element => !isOpeningElement(element) || idMap.has(element.wallId))
+        .map(element => {
+            const copy = { ...element, id: idMap.get(element.id)! };
+            if (isOpeningElement(copy)) {
+                copy.wallId = idMap.get(copy.wallId)!;
+            }
+            if (copy.prefab) {
+                copy.prefab = { ...copy.prefab, instanceId: instanceMap.get(copy.prefab.instanceId)! };
+            }
+            return copy;
+        });
+}
@@ -0,0 +1,715 @@
+/**
+ * Level Validator - Checks a level layout against player metrics
+ * Reports walls the player can get over, unclimbable ledges, gaps too wide to jump,
+ * narrow corridors, badly placed spawns and custom properties the level's schema does not allow
+ */
+
+import { Level } from './Level.js';
+import {
+    AnyLevelElement,
+    WallElement,
+    FloorElement,
+    SpawnElement,
+    SlopeElement,
+    AnyOpeningElement,
+    isWallElement,
+    isFloorElement,
+    isSpawnElement,
+    isSlopeElement,
+    isOpeningElement,
+    isDoorElement,
+    getWallAxis,
+    getWallSolidSpans,
+    isStairElement,
+    getSlopeLength,
+    getSlopeElevationAt,
+    getElementRotation,
+    getElementBounds,
+    elementCoversCell,
+    getElementCorners,
+    toElementLocal,
+    fromElementLocal
+} from './LevelElement.js';
+import { PlayerMetrics, DEFAULT_PLAYER_METRICS, getWallTraversal, getJumpDistance } from './PlayerMetrics.js';
+import { PropertySchema, getElementPropertyIssues } from './ElementProperties.js';
+
+/**
+ * Severity levels for validation issues
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Rule identifiers
+ */
+export type ValidationRule =
+    | 'wall-walkable'
+    | 'wall-jumpable'
+    | 'wall-low'
+    | 'step-too-high'
+    | 'ledge-too-high'
+    | 'gap-too-wide'
+    | 'slope-too-steep'
+    | 'corridor-too-narrow'
+    | 'opening-orphaned'
+    | 'door-too-small'
+    | 'spawn-embedded'
+    | 'spawn-floating'
+    | 'property-invalid';
+
+/**
+ * Grid-space rectangle an issue refers to
+ */
+export interface IssueBounds {
+    gridX: number;
+    gridY: number;
+    width: number;
+    depth: number;
+}
+
+/**
+ * A problem found in the level
+ */
+export interface ValidationIssue {
+    rule: ValidationRule;
+    severity: ValidationSeverity;
+    message: string;
+    elementIds: string[];  // Affected element(s)
+    bounds: IssueBounds;   // Where to draw the overlay
+}
+
+/**
+ * Validator options
+ */
+export interface ValidationOptions {
+    /** Treat the ground plane at elevation 0 as a walkable surface */
+    groundIsWalkable: boolean;
+}
+
+/**
+ * Default validator options
+ */
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
+    groundIsWalkable: true
+};
+
+/**
+ * Buckets rectangles by grid area, so pairwise rules only compare elements near each other
+ * instead of every pair in the level
+ */
+class BoundsIndex {
+    private static readonly BUCKET_SIZE = 8;
+    private buckets = new Map<string, number[]>();
+
+    /**
+     * @param bounds Rectangles to index; pairs refer to them by index
+     */
+    constructor(private bounds: IssueBounds[]) {
+        bounds.forEach((rect, i) => {
+            this.forEachBucket(rect, 0, key => {
+                const bucket = this.buckets.get(key);
+                if (bucket) {
+                    bucket.push(i);
+                } else {
+                    this.buckets.set(key, [i]);
+                }
+            });
+        });
+    }
+
+    /**
+     * Gets the pairs of rectangles (i < j, in order) that touch or lie within `reach` cells of each other
+     */
+    getNearbyPairs(reach: number): [number, number][] {
+        const pairs: [number, number][] = [];
+
+        this.bounds.forEach((rect, i) => {
+            this.getNearby(rect, reach)
+                .filter(j => j > i)
+                .forEach(j => pairs.push([i, j]));
+        });
+
+        return pairs;
+    }
+
+    /**
+     * Gets the indexed rectangles (in order) that may lie within `reach` cells of a rectangle
+     */
+    getNearby(rect: IssueBounds, reach: number = 0): number[] {
+        const nearby = new Set<number>();
+        this.forEachBucket(rect, reach, key => {
+            this.buckets.get(key)?.forEach(i => nearby.add(i));
+        });
+        return [...nearby].sort((a, b) => a - b);
+    }
+
+    /**
+     * Visits the buckets a rectangle grown by `margin` covers, including those its edges lie on
+     */
+    private forEachBucket(rect: IssueBounds, margin: number, visit: (key: string) => void): void {
+        const size = BoundsIndex.BUCKET_SIZE;
+        const x0 = Math.floor((rect.gridX - margin) / size);
+        const x1 = Math.floor((rect.gridX + rect.width + margin) / size);
+        const y0 = Math.floor((rect.gridY - margin) / size);
+        const y1 = Math.floor((rect.gridY + rect.depth + margin) / size);
+
+        for (let x = x0; x <= x1; x++) {
+            for (let y = y0; y <= y1; y++) {
+                visit(`${x},${y}`);
+            }
+        }
+    }
+}
+
+/**
+ * Level Validator class
+ */
+export class LevelValidator {
+    /** Tolerance for comparing heights in meters */
+    private static readonly EPSILON = 0.001;
+
+    /**
+     * Validates a level and returns all issues found
+     */
+    static validate(
+        level: Level,
+        metrics: PlayerMetrics = DEFAULT_PLAYER_METRICS,
+        options: Partial<ValidationOptions> = {}
+    ): ValidationIssue[] {
+        const opts: ValidationOptions = { ...DEFAULT_VALIDATION_OPTIONS, ...options };
+        const elements = level.getAllElements();
+
+        const walls = elements.filter(isWallElement);
+        const floors = elements.filter(isFloorElement);
+        const spawns = elements.filter(isSpawnElement);
+        const slopes = elements.filter(isSlopeElement);
+        const openings = elements.filter(isOpeningElement);
+
+        const issues: ValidationIssue[] = [];
+
+        this.checkWallHeights(walls, metrics, issues);
+        this.checkFloorSteps(floors, slopes, metrics, issues);
+        this.checkFloorGaps(floors, slopes, walls, metrics, opts, issues);
+        this.checkSlopes(slopes, metrics, issues);
+        this.checkCorridorWidths(walls, metrics, issues);
+        this.checkOpenings(openings, walls, metrics, issues);
+        this.checkSpawns(spawns, walls, floors, slopes, openings, metrics, opts, issues);
+        this.checkProperties(level, level.getPropertySchema(), issues);
+
+        return issues;
+    }
+
+    /**
+     * Counts issues by severity
+     */
+    static summarize(issues: ValidationIssue[]): Record<ValidationSeverity, number> {
+        const summary: Record<ValidationSeverity, number> = { error: 0, warning: 0, info: 0 };
+        issues.forEach(issue => summary[issue.severity]++);
+        return summary;
+    }
+
+    /**
+     * Walls that do not fully block the player
+     */
+    private static checkWallHeights(
+        walls: WallElement[],
+        metrics: PlayerMetrics,
+        issues: ValidationIssue[]
+    ): void {
+        walls.forEach(wall => {
+            const height = wall.wallHeight;
+            const traversal = getWallTraversal(height, metrics);
+
+            if (traversal === 'step') {
+                issues.push({
+                    rule: 'wall-walkable',
+                    severity: 'warning',
+                    message: `Wall is ${height}m high - players can step over it (step height ${metrics.stepHeight}m)`,
+                    elementIds: [wall.id],
+                    bounds: this.boundsOf(wall)
+                });
+            } else if (traversal === 'jump') {
+                issues.push({
+                    rule: 'wall-jumpable',
+                    severity: 'warning',
+                    message: `Wall is ${height}m high - players can jump over it (jump height ${metrics.jumpHeight}m)`,
+                    elementIds: [wall.id],
+                    bounds: this.boundsOf(wall)
+                });
+            } else if (traversal === 'mantle') {
+                issues.push({
+                    rule: 'wall-low',
+                    severity: 'info',
+                    message: `Wall is ${height}m high - players can see over and may mantle it (player height ${metrics.height}m)`,
+                    elementIds: [wall.id],
+                    bounds: this.boundsOf(wall)
+                });
+            }
+        });
+    }
+
+    /**
+     * Elevation changes between touching floors that no ramp or stair connects
+     */
+    private static checkFloorSteps(
+        floors: FloorElement[],
+        slopes: SlopeElement[],
+        metrics: PlayerMetrics,
+        issues: ValidationIssue[]
+    ): void {
+        const aligned = floors.filter(floor => this.isAxisAligned(floor));
+        const bounds = aligned.map(floor => this.boundsOf(floor));
+
+        // Only touching floors can share an edge
+        for (const [i, j] of new BoundsIndex(bounds).getNearbyPairs(0)) {
+            const a = aligned[i];
+            const b = aligned[j];
+
+            const edge = this.sharedEdge(bounds[i], bounds[j]);
+            if (!edge) continue;
+
+            const diff = Math.abs(this.floorTop(a) - this.floorTop(b));
+            if (diff <= metrics.stepHeight + this.EPSILON) continue;
+            if (slopes.some(slope => this.connects(slope, a, b, metrics))) continue;
+
+            const rounded = Math.round(diff * 100) / 100;
+
+            if (diff <= metrics.jumpHeight + this.EPSILON) {
+                issues.push({
+                    rule: 'step-too-high',
+                    severity: 'warning',
+                    message: `${rounded}m elevation change exceeds step height (${metrics.stepHeight}m) - needs stairs or a jump`,
+                    elementIds: [a.id, b.id],
+                    bounds: edge
+                });
+            } else {
+                issues.push({
+                    rule: 'ledge-too-high',
+                    severity: 'error',
+                    message: `${rounded}m elevation change exceeds jump height (${metrics.jumpHeight}m) - the upper floor is unreachable from here`,
+                    elementIds: [a.id, b.id],
+                    bounds: edge
+                });
+            }
+        }
+    }
+
+    /**
+     * Gaps between raised floors, with nothing between them, that are too wide to jump across
+     */
+    private static checkFloorGaps(
+        floors: FloorElement[],
+        slopes: SlopeElement[],
+        walls: WallElement[],
+        metrics: PlayerMetrics,
+        options: ValidationOptions,
+        issues: ValidationIssue[]
+    ): void {
+        const aligned = floors.filter(floor => this.isAxisAligned(floor));
+        const bounds = aligned.map(floor => this.boundsOf(floor));
+
+        // Anything in a gap bridges it or blocks the jump
+        const obstacles = [...floors, ...slopes, ...walls].map(element => this.boundsOf(element));
+        const obstacleIndex = new BoundsIndex(obstacles);
+
+        // Floors further apart than two jumps are separate areas rather than a jump
+        const reach = Math.ceil(2 * getJumpDistance(metrics));
+
+        for (const [i, j] of new BoundsIndex(bounds).getNearbyPairs(reach)) {
+            const a = aligned[i];
+            const b = aligned[j];
+
+            const gap = this.gapBetween(bounds[i], bounds[j]);
+            if (!gap) continue;
+
+            // Over walkable ground the player can walk across instead
+            const [lowTop, highTop] = [this.floorTop(a), this.floorTop(b)].sort((x, y) => x - y);
+            if (options.groundIsWalkable && highTop <= metrics.jumpHeight + this.EPSILON) continue;
+
+            // Floors too far apart in height are separate storeys (the ledge rule covers touching ones)
+            const rise = highTop - lowTop;
+            if (rise > metrics.jumpHeight + this.EPSILON) continue;
+
+            const jumpUp = getJumpDistance(metrics, rise);
+            if (gap.size <= jumpUp + this.EPSILON) continue;
+            if (obstacleIndex.getNearby(gap.bounds).some(k => this.rectsOverlap(obstacles[k], gap.bounds))) continue;
+
+            const size = Math.round(gap.size * 100) / 100;
+            const jumpDown = getJumpDistance(metrics, -rise);
+
+            if (gap.size <= jumpDown + this.EPSILON) {
+                issues.push({
+                    rule: 'gap-too-wide',
+                    severity: 'warning',
+                    message: `${size}m gap between floors can only be jumped down - the jump up reaches ${Math.round(jumpUp * 10) / 10}m`,
+                    elementIds: [a.id, b.id],
+                    bounds: gap.bounds
+                });
+            } else {
+                issues.push({
+                    rule: 'gap-too-wide',
+                    severity: 'error',
+                    message: `${size}m gap between floors is wider than the jump distance (${Math.round(jumpDown * 10) / 10}m)`,
+                    elementIds: [a.id, b.id],
+                    bounds: gap.bounds
+                });
+            }
+        }
+    }
+
+    /**
+     * Stairs with steps too high to walk, and ramps too steep to walk up
+     */
+    private static checkSlopes(
+        slopes: SlopeElement[],
+        metrics: PlayerMetrics,
+        issues: ValidationIssue[]
+    ): void {
+        slopes.forEach(slope => {
+            const rise = Math.abs(slope.endElevation - slope.startElevation);
+
+            if (isStairElement(slope)) {
+                const stepRise = rise / slope.stepCount;
+                if (stepRise > metrics.stepHeight + this.EPSILON) {
+                    issues.push({
+                        rule: 'slope-too-steep',
+                        severity: 'warning',
+                        message: `Steps are ${Math.round(stepRise * 100) / 100}m high - above step height (${metrics.stepHeight}m), add more steps`,
+                        elementIds: [slope.id],
+                        bounds: this.boundsOf(slope)
+                    });
+                }
+                return;
+            }
+
+            const angle = Math.atan2(rise, getSlopeLength(slope)) * 180 / Math.PI;
+            if (angle > metrics.maxSlopeAngle + this.EPSILON) {
+                issues.push({
+                    rule: 'slope-too-steep',
+                    severity: 'warning',
+                    message: `Ramp is ${Math.round(angle)}° steep - above the walkable ${metrics.maxSlopeAngle}°, make it longer`,
+                    elementIds: [slope.id],
+                    bounds: this.boundsOf(slope)
+                });
+            }
+        });
+    }
+
+    /**
+     * Gaps between parallel walls that are narrower than the player, measured across the walls'
+     * actual footprints (angled walls drawn between grid points can leave less than a cell)
+     */
+    private static checkCorridorWidths(
+        walls: WallElement[],
+        metrics: PlayerMetrics,
+        issues: ValidationIssue[]
+    ): void {
+        const bounds = walls.map(wall => this.boundsOf(wall));
+
+        // Only walls closer than the player's width can leave too narrow a gap
+        for (const [i, j] of new BoundsIndex(bounds).getNearbyPairs(metrics.width)) {
+            const a = walls[i];
+            const b = walls[j];
+
+            // Only walls that overlap in the vertical band the player occupies
+            if (!this.rangesOverlap(
+                a.elevation, a.elevation + a.wallHeight,
+                b.elevation, b.elevation + b.wallHeight
+            )) {
+                continue;
+            }
+
+            const gap = this.gapBetweenWalls(a, b);
+            if (gap && gap.size > this.EPSILON && gap.size < metrics.width - this.EPSILON) {
+                issues.push({
+                    rule: 'corridor-too-narrow',
+                    severity: 'error',
+                    message: `Gap of ${Math.round(gap.size * 100) / 100}m between walls is narrower than the player (${metrics.width}m)`,
+                    elementIds: [a.id, b.id],
+                    bounds: gap.bounds
+                });
+            }
+        }
+    }
+
+    /**
+     * Openings whose wall is gone, and doors the player cannot fit through
+     */
+    private static checkOpenings(
+        openings: AnyOpeningElement[],
+        walls: WallElement[],
+        metrics: PlayerMetrics,
+        issues: ValidationIssue[]
+    ): void {
+        openings.forEach(opening => {
+            const wall = walls.find(w => w.id === opening.wallId);
+            if (!wall) {
+                issues.push({
+                    rule: 'opening-orphaned',
+                    severity: 'error',
+                    message: `${this.capitalize(opening.type)} is not attached to an existing wall`,
+                    elementIds: [opening.id],
+                    bounds: this.boundsOf(opening)
+                });
+                return;
+            }
+
+            if (!isDoorElement(opening)) return;
+
+            const span = getWallAxis(wall) === 'x' ? opening.width : opening.depth;
+            const clearHeight = Math.min(opening.height, wall.wallHeight - opening.sillHeight);
+
+            if (clearHeight < metrics.height || span < metrics.width) {
+                issues.push({
+                    rule: 'door-too-small',
+                    severity: clearHeight < metrics.crouchHeight || span < metrics.width ? 'error' : 'warning',
+                    message: `Door is ${span}m x ${Math.round(clearHeight * 100) / 100}m - the player (${metrics.width}m x ${metrics.height}m) does not fit upright`,
+                    elementIds: [opening.id, wall.id],
+                    bounds: this.boundsOf(opening, wall)
+                });
+            }
+        });
+    }
+
+    /**
+     * Spawns inside walls or without ground under them
+     */
+    private static checkSpawns(
+        spawns: SpawnElement[],
+        walls: WallElement[],
+        floors: FloorElement[],
+        slopes: SlopeElement[],
+        openings: AnyOpeningElement[],
+        metrics: PlayerMetrics,
+        options: ValidationOptions,
+        issues: ValidationIssue[]
+    ): void {
+        spawns.forEach(spawn => {
+            const bounds = this.boundsOf(spawn);
+            const bodyBottom = spawn.elevation;
+            const bodyTop = spawn.elevation + metrics.height;
+
+            const blockingWall = walls.find(wall =>
+                elementCoversCell(wall, spawn.gridX, spawn.gridY) &&
+                getWallSolidSpans(wall, openings, spawn.gridX, spawn.gridY).some(([bottom, top]) =>
+                    this.rangesOverlap(bottom, top, bodyBottom, bodyTop)
+                )
+            );
+
+            const blockingFloor = floors.find(floor =>
+                elementCoversCell(floor, spawn.gridX, spawn.gridY) &&
+                this.floorTop(floor) > bodyBottom + metrics.stepHeight &&
+                floor.elevation < bodyTop
+            );
+
+            if (blockingWall || blockingFloor) {
+                const blocker = (blockingWall || blockingFloor) as AnyLevelElement;
+                issues.push({
+                    rule: 'spawn-embedded',
+                    severity: 'error',
+                    message: `${this.capitalize(spawn.spawnType)} spawn is embedded in a ${blocker.type}`,
+                    elementIds: [spawn.id, blocker.id],
+                    bounds
+                });
+                return;
+            }
+
+            const onGround = options.groundIsWalkable && Math.abs(bodyBottom) <= metrics.stepHeight;
+            const onFloor = floors.some(floor =>
+                elementCoversCell(floor, spawn.gridX, spawn.gridY) &&
+                Math.abs(this.floorTop(floor) - bodyBottom) <= metrics.stepHeight
+            );
+
+            const onSlope = slopes.some(slope =>
+                elementCoversCell(slope, spawn.gridX, spawn.gridY) &&
+                Math.abs(getSlopeElevationAt(slope, spawn.gridX + 0.5, spawn.gridY + 0.5) - bodyBottom) <= metrics.stepHeight
+            );
+
+            if (!onGround && !onFloor && !onSlope) {
+                issues.push({
+                    rule: 'spawn-floating',
+                    severity: spawn.spawnType === 'item' ? 'warning' : 'error',
+                    message: `${this.capitalize(spawn.spawnType)} spawn at ${spawn.elevation}m has no floor under it`,
+                    elementIds: [spawn.id],
+                    bounds
+                });
+            }
+        });
+    }
+
+    // ========== Geometry helpers ==========
+
+    /**
+     * Custom properties and tags the schema does not allow (unknown keys, wrong types)
+     */
+    private static checkProperties(level: Level, schema: PropertySchema, issues: ValidationIssue[]): void {
+        level.getAllElements().forEach(element => {
+            getElementPropertyIssues(element, schema).forEach(message => {
+                issues.push({
+                    rule: 'property-invalid',
+                    severity: 'warning',
+                    message: `${this.capitalize(element.type)}: ${message}`,
+                    elementIds: [element.id],
+                    bounds: this.boundsOf(element, level.getElementFrame(element))
+                });
+            });
+        });
+    }
+
+    /**
+     * Axis-aligned bounds of an element (openings pass their wall as the frame)
+     */
+    private static boundsOf(element: AnyLevelElement, frame: AnyLevelElement = element): IssueBounds {
+        return getElementBounds(element, frame);
+    }
+
+    /**
+     * Edge and gap rules compare rectangles, so they only apply to elements
+     * rotated by a multiple of 90°
+     */
+    private static isAxisAligned(element: AnyLevelElement): boolean {
+        return getElementRotation(element) % 90 === 0;
+    }
+
+    private static floorTop(floor: FloorElement): number {
+        return floor.elevation + floor.thickness;
+    }
+
+    /**
+     * Checks if a slope touches both floors and spans their height difference
+     */
+    private static connects(slope: SlopeElement, a: FloorElement, b: FloorElement, metrics: PlayerMetrics): boolean {
+        if (!this.isAxisAligned(slope)) return false;
+
+        const slopeBounds = this.boundsOf(slope);
+        const touches = (floor: FloorElement) => {
+            const floorBounds = this.boundsOf(floor);
+            return this.rectsOverlap(slopeBounds, floorBounds) || this.sharedEdge(slopeBounds, floorBounds) !== null;
+        };
+        if (!touches(a) || !touches(b)) return false;
+
+        const low = Math.min(slope.startElevation, slope.endElevation);
+        const high = Math.max(slope.startElevation, slope.endElevation);
+        const [lowTop, highTop] = [this.floorTop(a), this.floorTop(b)].sort((x, y) => x - y);
+
+        return (
+            Math.abs(low - lowTop) <= metrics.stepHeight + this.EPSILON &&
+            Math.abs(high - highTop) <= metrics.stepHeight + this.EPSILON
+        );
+    }
+
+    private static rangesOverlap(aMin: number, aMax: number, bMin: number, bMax: number): boolean {
+        return aMin < bMax && bMin < aMax;
+    }
+
+    private static rectsOverlap(a: IssueBounds, b: IssueBounds): boolean {
+        return (
+            this.rangesOverlap(a.gridX, a.gridX + a.width, b.gridX, b.gridX + b.width) &&
+            this.rangesOverlap(a.gridY, a.gridY + a.depth, b.gridY, b.gridY + b.depth)
+        );
+    }
+
+    /**
+     * Returns the shared boundary of two touching rectangles as a thin strip,
+     * or null if they do not share an edge
+     */
+    private static sharedEdge(a: IssueBounds, b: IssueBounds): IssueBounds | null {
+        const overlapX0 = Math.max(a.gridX, b.gridX);
+        const overlapX1 = Math.min(a.gridX + a.width, b.gridX + b.width);
+        const overlapY0 = Math.max(a.gridY, b.gridY);
+        const overlapY1 = Math.min(a.gridY + a.depth, b.gridY + b.depth);
+
+        // Touching along a vertical edge
+        if ((a.gridX + a.width === b.gridX || b.gridX + b.width === a.gridX) && overlapY1 > overlapY0) {
+            const x = a.gridX + a.width === b.gridX ? b.gridX : a.gridX;
+            return { gridX: x - 0.5, gridY: overlapY0, width: 1, depth: overlapY1 - overlapY0 };
+        }
+
+        // Touching along a horizontal edge
+        if ((a.gridY + a.depth === b.gridY || b.gridY + b.depth === a.gridY) && overlapX1 > overlapX0) {
+            const y = a.gridY + a.depth === b.gridY ? b.gridY : a.gridY;
+            return { gridX: overlapX0, gridY: y - 0.5, width: overlapX1 - overlapX0, depth: 1 };
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the free space between two facing rectangles, if they face each other
+     */
+    private static gapBetween(
+        a: IssueBounds,
+        b: IssueBounds
+    ): { size: number; bounds: IssueBounds } | null {
+        const overlapX0 = Math.max(a.gridX, b.gridX);
+        const overlapX1 = Math.min(a.gridX + a.width, b.gridX + b.width);
+        const overlapY0 = Math.max(a.gridY, b.gridY);
+        const overlapY1 = Math.min(a.gridY + a.depth, b.gridY + b.depth);
+
+        // Side by side along X, facing across a vertical gap
+        if (overlapY1 > overlapY0) {
+            const [left, right] = a.gridX < b.gridX ? [a, b] : [b, a];
+            const size = right.gridX - (left.gridX + left.width);
+            if (size > 0) {
+                return {
+                    size,
+                    bounds: { gridX: left.gridX + left.width, gridY: overlapY0, width: size, depth: overlapY1 - overlapY0 }
+                };
+            }
+        }
+
+        // Stacked along Y, facing across a horizontal gap
+        if (overlapX1 > overlapX0) {
+            const [top, bottom] = a.gridY < b.gridY ? [a, b] : [b, a];
+            const size = bottom.gridY - (top.gridY + top.depth);
+            if (size > 0) {
+                return {
+                    size,
+                    bounds: { gridX: overlapX0, gridY: top.gridY + top.depth, width: overlapX1 - overlapX0, depth: size }
+                };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the free space between two walls whose directions differ by a multiple of 90°,
+     * measured in the first wall's frame; the bounds are in grid space
+     */
+    private static gapBetweenWalls(
+        a: WallElement,
+        b: WallElement
+    ): { size: number; bounds: IssueBounds } | null {
+        const turn = ((getElementRotation(b) - getElementRotation(a)) % 90 + 90) % 90;
+        if (turn > this.EPSILON && turn < 90 - this.EPSILON) return null;
+
+        const localB = this.boundsOfPoints(getElementCorners(b).map(([x, y]) => toElementLocal(a, x, y)));
+        const gap = this.gapBetween({ gridX: a.gridX, gridY: a.gridY, width: a.width, depth: a.depth }, localB);
+        if (!gap) return null;
+
+        const { gridX, gridY, width, depth } = gap.bounds;
+        const corners: Array<[number, number]> = [
+            [gridX, gridY], [gridX + width, gridY], [gridX + width, gridY + depth], [gridX, gridY + depth]
+        ];
+        return {
+            size: gap.size,
+            bounds: this.boundsOfPoints(corners.map(([x, y]) => fromElementLocal(a, x, y)))
+        };
+    }
+
+    /**
+     * Axis-aligned bounds of points, rounded so that quarter turns give exact grid bounds
+     */
+    private static boundsOfPoints(points: Array<[number, number]>): IssueBounds {
+        const round = (value: number) => Math.round(value * 1e6) / 1e6;
+        const xs = points.map(([x]) => round(x));
+        const ys = points.map(([, y]) => round(y));
+        const minX = Math.min(...xs);
+        const minY = Math.min(...ys);
+        return { gridX: minX, gridY: minY, width: Math.max(...xs) - minX, depth: Math.max(...ys) - minY };
+    }
+
+    private static capitalize(text: string): string {
+        return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+}
@@ -0,0 +1,527 @@
+/**
+ * Navigation Grid - Walkable graph built from level geometry
+ * Each grid cell can hold several stacked walkable surfaces (ground, floors, wall tops,
+ * ramps and stairs); doors and windows cut through walls; links between neighbouring surfaces respect the player's step and jump height
+ */
+
+import { Level } from './Level.js';
+import {
+    LevelElement,
+    WallElement,
+    FloorElement,
+    SlopeElement,
+    AnyOpeningElement,
+    isWallElement,
+    isFloorElement,
+    isSlopeElement,
+    isOpeningElement,
+    getWallSolidSpans,
+    elementCoversCell,
+    getElementBounds,
+    isStairElement,
+    getSlopeLength,
+    getSlopeElevationAt
+} from './LevelElement.js';
+import { PlayerMetrics, DEFAULT_PLAYER_METRICS } from './PlayerMetrics.js';
+
+/**
+ * How a link between two surfaces is traversed
+ */
+export type NavMoveType = 'walk' | 'jump' | 'drop';
+
+/**
+ * A walkable surface in one grid cell
+ */
+export interface NavNode {
+    /** Index into the grid's node list */
+    index: number;
+    gridX: number;
+    gridY: number;
+    /** Height of the walkable surface at the cell center in meters */
+    height: number;
+    /** Ramp or stair this surface lies on, if any */
+    slope?: SlopeElement;
+}
+
+/**
+ * A directed link to a neighbouring surface
+ */
+export interface NavLink {
+    to: number;
+    /** 3D distance in meters */
+    distance: number;
+    move: NavMoveType;
+}
+
+/**
+ * A point along a path
+ */
+export interface PathPoint {
+    gridX: number;
+    gridY: number;
+    height: number;
+    move: NavMoveType;
+}
+
+/**
+ * Result of a path search
+ */
+export interface PathResult {
+    points: PathPoint[];
+    /** Total 3D length in meters */
+    length: number;
+    /** Number of jumps along the path */
+    jumps: number;
+}
+
+/**
+ * Navigation grid options
+ */
+export interface NavigationOptions {
+    /** Treat the ground plane at elevation 0 as walkable */
+    groundIsWalkable: boolean;
+    /** Maximum height the player may drop down */
+    maxDropHeight: number;
+    /** Allow diagonal moves (only where neither side cell is blocked) */
+    allowDiagonals: boolean;
+}
+
+/**
+ * Default navigation options
+ */
+export const DEFAULT_NAVIGATION_OPTIONS: NavigationOptions = {
+    groundIsWalkable: true,
+    maxDropHeight: 6,
+    allowDiagonals: true
+};
+
+/**
+ * Navigation Grid class
+ */
+export class NavigationGrid {
+    /** Surfaces closer than this are merged */
+    private static readonly SURFACE_TOLERANCE = 0.01;
+
+    /** Extra cost factor applied to jumps so paths prefer walking */
+    private static readonly JUMP_COST = 1.5;
+
+    private readonly width: number;
+    private readonly height: number;
+    private readonly metrics: PlayerMetrics;
+    private readonly options: NavigationOptions;
+    private readonly nodes: NavNode[] = [];
+    private readonly links: NavLink[][] = [];
+    /** Node indices per cell, keyed by `y * width + x` */
+    private readonly cells: number[][] = [];
+
+    private constructor(width: number, height: number, metrics: PlayerMetrics, options: NavigationOptions) {
+        this.width = width;
+        this.height = height;
+        this.metrics = metrics;
+        this.options = options;
+
+        for (let i = 0; i < width * height; i++) {
+            this.cells.push([]);
+        }
+    }
+
+    /**
+     * Builds a navigation grid from the level's walls, floors, ramps and stairs
+     */
+    static build(
+        level: Level,
+        metrics: PlayerMetrics = DEFAULT_PLAYER_METRICS,
+        options: Partial<NavigationOptions> = {}
+    ): NavigationGrid {
+        const opts: NavigationOptions = { ...DEFAULT_NAVIGATION_OPTIONS, ...options };
+        const gridSize = level.getGridSize();
+        const grid = new NavigationGrid(gridSize.width, gridSize.height, metrics, opts);
+
+        const elements = level.getAllElements();
+        const walls = elements.filter(isWallElement);
+        const floors = elements.filter(isFloorElement);
+        const slopes = elements.filter(isSlopeElement);
+        const openings = elements.filter(isOpeningElement);
+
+        grid.createNodes(walls, floors, slopes, openings);
+        grid.createLinks();
+
+        return grid;
+    }
+
+    /**
+     * Gets all nodes
+     */
+    getNodes(): NavNode[] {
+        return this.nodes;
+    }
+
+    /**
+     * Gets the outgoing links of a node
+     */
+    getLinks(nodeIndex: number): NavLink[] {
+        return this.links[nodeIndex] || [];
+    }
+
+    /**
+     * Gets the walkable surfaces in a cell
+     */
+    getNodesAt(gridX: number, gridY: number): NavNode[] {
+        if (!this.inBounds(gridX, gridY)) return [];
+        return this.cells[gridY * this.width + gridX].map(index => this.nodes[index]);
+    }
+
+    /**
+     * Finds the surface in a cell that someone standing at `elevation` is on
+     */
+    findNode(gridX: number, gridY: number, elevation: number): NavNode | null {
+        let best: NavNode | null = null;
+        let bestDiff = Infinity;
+
+        this.getNodesAt(gridX, gridY).forEach(node => {
+            const diff = Math.abs(node.height - elevation);
+            if (diff <= this.metrics.stepHeight + NavigationGrid.SURFACE_TOLERANCE && diff < bestDiff) {
+                best = node;
+                bestDiff = diff;
+            }
+        });
+
+        return best;
+    }
+
+    /**
+     * A* search between two nodes; returns null if the goal is unreachable
+     */
+    findPath(startIndex: number, goalIndex: number): PathResult | null {
+        const goal = this.nodes[goalIndex];
+        const gScore = new Map<number, number>([[startIndex, 0]]);
+        const cameFrom = new Map<number, { from: number; link: NavLink }>();
+        const closed = new Set<number>();
+        const open = new MinHeap();
+
+        open.push(startIndex, this.heuristic(this.nodes[startIndex], goal));
+
+        while (open.size() > 0) {
+            const current = open.pop()!;
+            if (current === goalIndex) {
+                return this.reconstructPath(startIndex, goalIndex, cameFrom);
+            }
+            if (closed.has(current)) continue;
+            closed.add(current);
+
+            const currentScore = gScore.get(current)!;
+
+            this.getLinks(current).forEach(link => {
+                if (closed.has(link.to)) return;
+
+                const cost = link.move === 'jump'
+                    ? link.distance * NavigationGrid.JUMP_COST
+                    : link.distance;
+                const tentative = currentScore + cost;
+
+                if (tentative < (gScore.get(link.to) ?? Infinity)) {
+                    gScore.set(link.to, tentative);
+                    cameFrom.set(link.to, { from: current, link });
+                    open.push(link.to, tentative + this.heuristic(this.nodes[link.to], goal));
+                }
+            });
+        }
+
+        return null;
+    }
+
+    // ========== Construction ==========
+
+    /**
+     * Collects candidate surfaces per cell and keeps the ones the player fits on
+     */
+    private createNodes(
+        walls: WallElement[],
+        floors: FloorElement[],
+        slopes: SlopeElement[],
+        openings: AnyOpeningElement[]
+    ): void {
+        const wallsByCell = this.groupByCell(walls);
+        const floorsByCell = this.groupByCell(floors);
+        const slopesByCell = this.groupByCell(slopes);
+
+        for (let y = 0; y < this.height; y++) {
+            for (let x = 0; x < this.width; x++) {
+                const cellWalls = wallsByCell[y * this.width + x];
+                const cellFloors = floorsByCell[y * this.width + x];
+                const cellSlopes = slopesByCell[y * this.width + x];
+
+                // Slope surfaces, measured at the cell center
+                const slopeTops = new Map<number, SlopeElement>();
+                cellSlopes.forEach(slope => {
+                    slopeTops.set(getSlopeElevationAt(slope, x + 0.5, y + 0.5), slope);
+                });
+
+                // Solid vertical spans in this cell
+                const solids: Array<[number, number]> = [
+                    ...cellWalls.flatMap(wall => getWallSolidSpans(wall, openings, x, y)),
+                    ...cellFloors.map(floor => [floor.elevation, floor.elevation + floor.thickness] as [number, number]),
+                    ...Array.from(slopeTops.entries()).map(([top, slope]) =>
+                        [Math.min(slope.startElevation, slope.endElevation), top] as [number, number]
+                    )
+                ];
+
+                // Candidate surfaces: tops of solids plus the ground
+                const candidates = solids.map(([, top]) => top);
+                if (this.options.groundIsWalkable) {
+                    candidates.push(0);
+                }
+
+                const surfaces = this.uniqueSorted(candidates).filter(surface =>
+                    // Player must fit between this surface and the next solid above it
+                    !solids.some(([bottom, top]) =>
+                        top > surface + NavigationGrid.SURFACE_TOLERANCE &&
+                        bottom < surface + this.metrics.height
+                    )
+                );
+
+                surfaces.forEach(surface => {
+                    const slope = Array.from(slopeTops.entries()).find(
+                        ([top]) => Math.abs(top - surface) <= NavigationGrid.SURFACE_TOLERANCE
+                    )?.[1];
+
+                    const node: NavNode = {
+                        index: this.nodes.length,
+                        gridX: x,
+                        gridY: y,
+                        height: surface,
+                        slope
+                    };
+                    this.nodes.push(node);
+                    this.links.push([]);
+                    this.cells[y * this.width + x].push(node.index);
+                });
+            }
+        }
+    }
+
+    /**
+     * Links each surface to the reachable surfaces of its neighbours
+     */
+    private createLinks(): void {
+        const orthogonal: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+        const diagonal: Array<[number, number]> = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+        this.nodes.forEach(node => {
+            orthogonal.forEach(([dx, dy]) => {
+                this.getNodesAt(node.gridX + dx, node.gridY + dy).forEach(target => {
+                    const move = this.classifyLink(node, target);
+                    if (move) {
+                        this.links[node.index].push({
+                            to: target.index,
+                            distance: Math.hypot(1, target.height - node.height),
+                            move
+                        });
+                    }
+                });
+            });
+
+            if (!this.options.allowDiagonals) return;
+
+            diagonal.forEach(([dx, dy]) => {
+                // Only flat diagonal moves, and only if both side cells can be walked through
+                const sideA = this.findNode(node.gridX + dx, node.gridY, node.height);
+                const sideB = this.findNode(node.gridX, node.gridY + dy, node.height);
+                if (!sideA || !sideB) return;
+
+                this.getNodesAt(node.gridX + dx, node.gridY + dy).forEach(target => {
+                    if (!node.slope && !target.slope && this.classifyMove(node.height, target.height) === 'walk') {
+                        this.links[node.index].push({
+                            to: target.index,
+                            distance: Math.hypot(Math.SQRT2, target.height - node.height),
+                            move: 'walk'
+                        });
+                    }
+                });
+            });
+        });
+    }
+
+    /**
+     * Decides how the player can move between two orthogonally adjacent surfaces
+     * Slopes are compared at the shared cell edge rather than at cell centers
+     */
+    private classifyLink(from: NavNode, to: NavNode): NavMoveType | null {
+        // Moving along the same ramp or stair
+        if (from.slope && from.slope === to.slope) {
+            return this.classifySlopeMove(from.slope, from.height, to.height);
+        }
+
+        const edgeX = (from.gridX + to.gridX + 1) / 2;
+        const edgeY = (from.gridY + to.gridY + 1) / 2;
+        const fromHeight = from.slope ? this.slopeEdgeHeight(from.slope, edgeX, edgeY) : from.height;
+        const toHeight = to.slope ? this.slopeEdgeHeight(to.slope, edgeX, edgeY) : to.height;
+
+        return this.classifyMove(fromHeight, toHeight);
+    }
+
+    /**
+     * Movement between two cells of the same slope
+     */
+    private classifySlopeMove(slope: SlopeElement, from: number, to: number): NavMoveType | null {
+        // Across the slope (no height change)
+        if (Math.abs(to - from) <= NavigationGrid.SURFACE_TOLERANCE) {
+            return 'walk';
+        }
+
+        const totalRise = Math.abs(slope.endElevation - slope.startElevation);
+
+        if (isStairElement(slope)) {
+            const stepRise = totalRise / slope.stepCount;
+            if (stepRise <= this.metrics.stepHeight + NavigationGrid.SURFACE_TOLERANCE) return 'walk';
+            return to > from
+                ? (stepRise <= this.metrics.jumpHeight + NavigationGrid.SURFACE_TOLERANCE ? 'jump' : null)
+                : 'drop';
+        }
+
+        const angle = Math.atan2(totalRise, getSlopeLength(slope)) * 180 / Math.PI;
+        if (angle <= this.metrics.maxSlopeAngle) return 'walk';
+        return to > from ? null : 'drop';
+    }
+
+    /**
+     * Height of a slope's surface where it meets a neighbouring cell
+     * Uses the continuous ramp line, so stairs connect at their bottom and top landings
+     */
+    private slopeEdgeHeight(slope: SlopeElement, x: number, y: number): number {
+        if (isStairElement(slope)) {
+            const ramp = { ...slope, type: 'ramp' as const };
+            return getSlopeElevationAt(ramp, x, y);
+        }
+        return getSlopeElevationAt(slope, x, y);
+    }
+
+    /**
+     * Decides whether and how the player can move between two surface heights
+     */
+    private classifyMove(from: number, to: number): NavMoveType | null {
+        const rise = to - from;
+
+        if (Math.abs(rise) <= this.metrics.stepHeight + NavigationGrid.SURFACE_TOLERANCE) {
+            return 'walk';
+        }
+        if (rise > 0) {
+            return rise <= this.metrics.jumpHeight + NavigationGrid.SURFACE_TOLERANCE ? 'jump' : null;
+        }
+        return -rise <= this.options.maxDropHeight ? 'drop' : null;
+    }
+
+    // ========== Helpers ==========
+
+    /**
+     * Lists the elements covering each cell (keyed by `y * width + x`, in element order), visiting
+     * only the cells within each element's bounds instead of testing every element in every cell
+     */
+    private groupByCell<T extends LevelElement>(elements: T[]): T[][] {
+        const cells: T[][] = this.cells.map(() => []);
+
+        elements.forEach(element => {
+            const bounds = getElementBounds(element);
+            // One cell of margin for bounds rounding; elementCoversCell decides
+            const x0 = Math.max(0, Math.floor(bounds.gridX) - 1);
+            const x1 = Math.min(this.width - 1, Math.ceil(bounds.gridX + bounds.width));
+            const y0 = Math.max(0, Math.floor(bounds.gridY) - 1);
+            const y1 = Math.min(this.height - 1, Math.ceil(bounds.gridY + bounds.depth));
+
+            for (let y = y0; y <= y1; y++) {
+                for (let x = x0; x <= x1; x++) {
+                    if (elementCoversCell(element, x, y)) {
+                        cells[y * this.width + x].push(element);
+                    }
+                }
+            }
+        });
+
+        return cells;
+    }
+
+    private inBounds(x: number, y: number): boolean {
+        return x >= 0 && x < this.width && y >= 0 && y < this.height;
+    }
+
+    private uniqueSorted(values: number[]): number[] {
+        const sorted = [...values].sort((a, b) => a - b);
+        return sorted.filter((value, i) =>
+            i === 0 || value - sorted[i - 1] > NavigationGrid.SURFACE_TOLERANCE
+        );
+    }
+
+    private heuristic(a: NavNode, b: NavNode): number {
+        return Math.hypot(a.gridX - b.gridX, a.gridY - b.gridY, a.height - b.height);
+    }
+
+    private reconstructPath(
+        startIndex: number,
+        goalIndex: number,
+        cameFrom: Map<number, { from: number; link: NavLink }>
+    ): PathResult {
+        const points: PathPoint[] = [];
+        let length = 0;
+        let jumps = 0;
+        let current = goalIndex;
+
+        while (current !== startIndex) {
+            const step = cameFrom.get(current)!;
+            const node = this.nodes[current];
+            points.push({ gridX: node.gridX, gridY: node.gridY, height: node.height, move: step.link.move });
+            length += step.link.distance;
+            if (step.link.move === 'jump') jumps++;
+            current = step.from;
+        }
+
+        const start = this.nodes[startIndex];
+        points.push({ gridX: start.gridX, gridY: start.gridY, height: start.height, move: 'walk' });
+        points.reverse();
+
+        return { points, length, jumps };
+    }
+}
+
+/**
+ * Minimal binary heap keyed by priority, used as the A* open set
+ */
+class MinHeap {
+    private items: Array<{ value: number; priority: number }> = [];
+
+    size(): number {
+        return this.items.length;
+    }
+
+    push(value: number, priority: number): void {
+        this.items.push({ value, priority });
+        let i = this.items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.items[parent].priority <= this.items[i].priority) break;
+            [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): number | undefined {
+        if (this.items.length === 0) return undefined;
+
+        const top = this.items[0];
+        const last = this.items.pop()!;
+        if (this.items.length > 0) {
+            this.items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = i * 2 + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+                if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+                if (smallest === i) break;
+                [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+                i = smallest;
+            }
+        }
+        return top.value;
+    }
+}
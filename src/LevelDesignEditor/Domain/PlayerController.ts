@@ -0,0 +1,380 @@
+/**
+ * Player Controller - First-person movement for playtesting a level
+ * Moves an upright capsule of the player's metrics through the level's walls, floors, ramps and
+ * stairs, with gravity, jumping, crouching and stepping up small ledges
+ *
+ * Positions are in grid space (x, y) with the elevation of the player's feet in meters
+ */
+
+import { Level } from './Level.js';
+import {
+    LevelElement,
+    SlopeElement,
+    fromElementLocal,
+    getSlopeElevationAt,
+    isFloorElement,
+    isOpeningElement,
+    isSlopeElement,
+    isSpawnElement,
+    isWallElement,
+    splitWallAroundOpenings,
+    toElementLocal
+} from './LevelElement.js';
+import { DEFAULT_PLAYER_METRICS, GRAVITY, MOVE_SPEED, PlayerMetrics } from './PlayerMetrics.js';
+
+/** Distance from the top of the capsule down to the eyes in meters */
+export const EYE_OFFSET = 0.1;
+
+/** Longest simulated step; longer frames are split so fast falls cannot pass through floors */
+const MAX_STEP_SECONDS = 1 / 120;
+
+/** Fastest fall in meters per second */
+const MAX_FALL_SPEED = 30;
+
+/** Movement speed while crouching, relative to walking */
+const CROUCH_SPEED_FACTOR = 0.5;
+
+/** Tolerance for comparing heights in meters */
+const EPSILON = 0.001;
+
+/**
+ * What the player wants to do this frame
+ */
+export interface PlayerInput {
+    /** Forward (+1) or back (-1) */
+    forward: number;
+    /** Right (+1) or left (-1) */
+    strafe: number;
+    /** Heading in radians; 0 faces towards -y (north), increasing turns left */
+    yaw: number;
+    jump: boolean;
+    crouch: boolean;
+}
+
+/**
+ * Where the player is
+ */
+export interface PlayerState {
+    x: number;
+    y: number;
+    /** Elevation of the feet in meters */
+    elevation: number;
+    /** Current capsule height (lower while crouching) */
+    height: number;
+    crouching: boolean;
+    grounded: boolean;
+}
+
+/**
+ * A solid volume: a footprint in an element's unrotated frame, from `bottom` up to `top`
+ */
+interface Solid {
+    frame: LevelElement;
+    x0: number;
+    x1: number;
+    y0: number;
+    y1: number;
+    bottom: number;
+    /** Top at a point in the frame (slopes rise across their footprint) */
+    top: (localX: number, localY: number) => number;
+}
+
+/**
+ * Player Controller class
+ */
+export class PlayerController {
+    private level: Level;
+    private metrics: PlayerMetrics;
+    private solids: Solid[] = [];
+    private state: PlayerState;
+    private verticalSpeed: number = 0;
+
+    constructor(level: Level, metrics: PlayerMetrics = DEFAULT_PLAYER_METRICS) {
+        this.level = level;
+        this.metrics = metrics;
+        this.state = {
+            x: 0,
+            y: 0,
+            elevation: 0,
+            height: metrics.height,
+            crouching: false,
+            grounded: true
+        };
+        this.rebuild();
+    }
+
+    /**
+     * Rebuilds the collision volumes from the level's visible layers
+     */
+    rebuild(): void {
+        const visible = new Set(this.level.getLayers().filter(layer => layer.visible).map(layer => layer.id));
+        const elements = this.level.getAllElements()
+            .filter(element => visible.has(this.level.getElementLayerId(element)));
+        const openings = elements.filter(isOpeningElement);
+
+        const flat = (top: number) => () => top;
+        this.solids = [];
+
+        elements.forEach(element => {
+            if (isWallElement(element)) {
+                const cuts = openings.filter(opening => opening.wallId === element.id);
+                splitWallAroundOpenings(element, cuts).forEach(piece => this.solids.push({
+                    frame: element,
+                    x0: piece.x0,
+                    x1: piece.x1,
+                    y0: piece.z0,
+                    y1: piece.z1,
+                    bottom: piece.y0,
+                    top: flat(piece.y1)
+                }));
+            } else if (isFloorElement(element)) {
+                this.solids.push({
+                    ...this.getFootprint(element),
+                    bottom: element.elevation,
+                    top: flat(element.elevation + element.thickness)
+                });
+            } else if (isSlopeElement(element)) {
+                this.solids.push({
+                    ...this.getFootprint(element),
+                    bottom: Math.min(element.startElevation, element.endElevation),
+                    top: (localX, localY) => this.getSlopeTop(element, localX, localY)
+                });
+            }
+        });
+    }
+
+    /**
+     * Places the player on the player spawn of a visible layer, standing
+     * Throws if the level has no player spawn
+     */
+    spawn(): PlayerState {
+        const visible = new Set(this.level.getLayers().filter(layer => layer.visible).map(layer => layer.id));
+        const spawn = this.level.getAllElements().filter(isSpawnElement).find(element =>
+            element.spawnType === 'player' && visible.has(this.level.getElementLayerId(element))
+        );
+        if (!spawn) {
+            throw new Error('Place a player spawn on a visible layer to playtest the level');
+        }
+
+        this.state = {
+            x: spawn.gridX + spawn.width / 2,
+            y: spawn.gridY + spawn.depth / 2,
+            elevation: spawn.elevation,
+            height: this.metrics.height,
+            crouching: false,
+            grounded: false
+        };
+        this.verticalSpeed = 0;
+
+        // Settle onto whatever the spawn stands on
+        this.state.elevation = Math.max(this.state.elevation, this.getGroundHeight());
+        this.state.grounded = true;
+        return this.getState();
+    }
+
+    /**
+     * Advances the simulation
+     * @param seconds Time since the last update
+     */
+    update(input: PlayerInput, seconds: number): PlayerState {
+        let remaining = Math.min(seconds, 0.25);
+        while (remaining > EPSILON / 10) {
+            const step = Math.min(remaining, MAX_STEP_SECONDS);
+            this.step(input, step);
+            remaining -= step;
+        }
+        return this.getState();
+    }
+
+    /**
+     * Gets where the player is
+     */
+    getState(): PlayerState {
+        return { ...this.state };
+    }
+
+    /**
+     * Gets the elevation of the player's eyes in meters
+     */
+    getEyeElevation(): number {
+        return this.state.elevation + this.state.height - EYE_OFFSET;
+    }
+
+    /**
+     * Simulates one short step: crouching, then vertical, then horizontal movement
+     */
+    private step(input: PlayerInput, seconds: number): void {
+        const state = this.state;
+
+        // Crouch at once; stand up only where there is head room
+        if (input.crouch) {
+            state.crouching = true;
+        } else if (state.crouching && this.getCeilingHeight(state.elevation + state.height) >= state.elevation + this.metrics.height) {
+            state.crouching = false;
+        }
+        state.height = state.crouching ? this.metrics.crouchHeight : this.metrics.height;
+
+        // Vertical: jump, gravity and ceilings
+        if (input.jump && state.grounded && !state.crouching) {
+            this.verticalSpeed = Math.sqrt(2 * GRAVITY * this.metrics.jumpHeight);
+            state.grounded = false;
+        }
+        this.verticalSpeed = Math.max(-MAX_FALL_SPEED, this.verticalSpeed - GRAVITY * seconds);
+        let elevation = state.elevation + this.verticalSpeed * seconds;
+        if (this.verticalSpeed > 0) {
+            const ceiling = this.getCeilingHeight(state.elevation + state.height);
+            if (elevation + state.height > ceiling) {
+                elevation = ceiling - state.height;
+                this.verticalSpeed = 0;
+            }
+        }
+        state.elevation = elevation;
+
+        // Horizontal: move, then slide out of anything too high to step onto
+        const speed = MOVE_SPEED * (state.crouching ? CROUCH_SPEED_FACTOR : 1);
+        const length = Math.hypot(input.forward, input.strafe);
+        if (length > 0) {
+            const forward = input.forward / Math.max(1, length);
+            const strafe = input.strafe / Math.max(1, length);
+            const sin = Math.sin(input.yaw);
+            const cos = Math.cos(input.yaw);
+            state.x += (-sin * forward + cos * strafe) * speed * seconds;
+            state.y += (-cos * forward - sin * strafe) * speed * seconds;
+            this.resolveCollisions();
+        }
+
+        // Land, or follow the ground down steps and ramps while walking
+        const ground = this.getGroundHeight();
+        const wasGrounded = state.grounded;
+        if (state.elevation <= ground + EPSILON
+            || (wasGrounded && this.verticalSpeed <= 0 && state.elevation - ground <= this.metrics.stepHeight)) {
+            state.elevation = ground;
+            this.verticalSpeed = 0;
+            state.grounded = true;
+        } else {
+            state.grounded = false;
+        }
+    }
+
+    /**
+     * Pushes the capsule out of solids it overlaps that are too high to step onto, and keeps it
+     * on the grid
+     */
+    private resolveCollisions(): void {
+        const state = this.state;
+        const radius = this.metrics.width / 2;
+        const stepTop = state.elevation + this.metrics.stepHeight;
+        const head = state.elevation + state.height;
+
+        // A few passes settle corners where two solids push against each other
+        for (let pass = 0; pass < 3; pass++) {
+            let moved = false;
+
+            this.solids.forEach(solid => {
+                if (solid.bottom >= head - EPSILON) return;
+
+                const [localX, localY] = toElementLocal(solid.frame, state.x, state.y);
+                const nearestX = Math.max(solid.x0, Math.min(solid.x1, localX));
+                const nearestY = Math.max(solid.y0, Math.min(solid.y1, localY));
+                const dx = localX - nearestX;
+                const dy = localY - nearestY;
+                const distance = Math.hypot(dx, dy);
+                if (distance >= radius || solid.top(nearestX, nearestY) <= stepTop) return;
+
+                let pushX: number;
+                let pushY: number;
+                if (distance > EPSILON) {
+                    pushX = dx / distance * (radius - distance);
+                    pushY = dy / distance * (radius - distance);
+                } else {
+                    // Center inside: leave through the nearest side
+                    const exits = [
+                        [solid.x0 - radius - localX, 0],
+                        [solid.x1 + radius - localX, 0],
+                        [0, solid.y0 - radius - localY],
+                        [0, solid.y1 + radius - localY]
+                    ];
+                    [pushX, pushY] = exits.reduce((best, exit) =>
+                        Math.hypot(exit[0], exit[1]) < Math.hypot(best[0], best[1]) ? exit : best
+                    );
+                }
+
+                [state.x, state.y] = fromElementLocal(solid.frame, localX + pushX, localY + pushY);
+                moved = true;
+            });
+
+            if (!moved) break;
+        }
+
+        const { width, height } = this.level.getGridSize();
+        state.x = Math.max(radius, Math.min(width - radius, state.x));
+        state.y = Math.max(radius, Math.min(height - radius, state.y));
+    }
+
+    /**
+     * Gets the highest surface under the player that is low enough to step onto
+     * (the ground plane at 0 if there is none)
+     */
+    private getGroundHeight(): number {
+        const state = this.state;
+        // Standing on an edge needs the center near the solid, not just the capsule touching it
+        const reach = this.metrics.width / 4;
+        const stepTop = state.elevation + this.metrics.stepHeight + EPSILON;
+
+        let ground = 0;
+        this.solids.forEach(solid => {
+            const [localX, localY] = toElementLocal(solid.frame, state.x, state.y);
+            const nearestX = Math.max(solid.x0, Math.min(solid.x1, localX));
+            const nearestY = Math.max(solid.y0, Math.min(solid.y1, localY));
+            if (Math.hypot(localX - nearestX, localY - nearestY) > reach) return;
+
+            const top = solid.top(nearestX, nearestY);
+            if (top <= stepTop && top > ground) {
+                ground = top;
+            }
+        });
+        return ground;
+    }
+
+    /**
+     * Gets the lowest underside of a solid above a height that overlaps the capsule
+     */
+    private getCeilingHeight(above: number): number {
+        const state = this.state;
+        const radius = this.metrics.width / 2;
+
+        let ceiling = Infinity;
+        this.solids.forEach(solid => {
+            if (solid.bottom < above - EPSILON) return;
+
+            const [localX, localY] = toElementLocal(solid.frame, state.x, state.y);
+            const nearestX = Math.max(solid.x0, Math.min(solid.x1, localX));
+            const nearestY = Math.max(solid.y0, Math.min(solid.y1, localY));
+            if (Math.hypot(localX - nearestX, localY - nearestY) < radius) {
+                ceiling = Math.min(ceiling, solid.bottom);
+            }
+        });
+        return ceiling;
+    }
+
+    /**
+     * Gets the unrotated footprint of an element, framed by itself
+     */
+    private getFootprint(element: LevelElement): Pick<Solid, 'frame' | 'x0' | 'x1' | 'y0' | 'y1'> {
+        return {
+            frame: element,
+            x0: element.gridX,
+            x1: element.gridX + element.width,
+            y0: element.gridY,
+            y1: element.gridY + element.depth
+        };
+    }
+
+    /**
+     * Gets the walkable surface of a slope at a point in its frame
+     */
+    private getSlopeTop(slope: SlopeElement, localX: number, localY: number): number {
+        const [x, y] = fromElementLocal(slope, localX, localY);
+        return getSlopeElevationAt(slope, x, y);
+    }
+}
@@ -19,9 +19,15 @@ export const JUMP_HEIGHT = 1.0;
 /** Maximum step height player can walk up without jumping */
 export const STEP_HEIGHT = 0.3;
 
+/** Steepest ramp angle in degrees the player can walk up */
+export const MAX_SLOPE_ANGLE = 45;
+
 /** Player movement speed in meters per second (for future reference) */
 export const MOVE_SPEED = 5.0;
 
+/** Gravity in meters per second squared */
+export const GRAVITY = 9.81;
+
 /**
  * Player metrics interface for customizable player dimensions
  */
@@ -31,6 +37,7 @@ export interface PlayerMetrics {
     width: number;
     jumpHeight: number;
     stepHeight: number;
+    maxSlopeAngle: number;
 }
 
 /**
@@ -41,5 +48,45 @@ export const DEFAULT_PLAYER_METRICS: PlayerMetrics = {
     crouchHeight: CROUCH_HEIGHT,
     width: PLAYER_WIDTH,
     jumpHeight: JUMP_HEIGHT,
-    stepHeight: STEP_HEIGHT
+    stepHeight: STEP_HEIGHT,
+    maxSlopeAngle: MAX_SLOPE_ANGLE
 };
+
+/**
+ * How the player gets past a wall of a given height
+ * - `step`: walks over it
+ * - `jump`: jumps (vaults) over it
+ * - `mantle`: too high to jump, but lower than the player, who can see over it
+ * - `blocked`: fully blocks the player
+ */
+export type WallTraversal = 'step' | 'jump' | 'mantle' | 'blocked';
+
+/**
+ * Classifies a wall height against the player metrics
+ */
+export function getWallTraversal(height: number, metrics: PlayerMetrics = DEFAULT_PLAYER_METRICS): WallTraversal {
+    // Tolerance for comparing heights in meters
+    const epsilon = 0.001;
+
+    if (height <= metrics.stepHeight + epsilon) return 'step';
+    if (height <= metrics.jumpHeight + epsilon) return 'jump';
+    if (height < metrics.height) return 'mantle';
+    return 'blocked';
+}
+
+/**
+ * How far a running jump carries the player onto a surface `rise` meters higher (negative for
+ * a lower one), launching at the speed that reaches the jump height
+ * Returns 0 if the surface is higher than the player can jump
+ */
+export function getJumpDistance(
+    metrics: PlayerMetrics = DEFAULT_PLAYER_METRICS,
+    rise: number = 0,
+    moveSpeed: number = MOVE_SPEED
+): number {
+    if (rise > metrics.jumpHeight) return 0;
+
+    const launchSpeed = Math.sqrt(2 * GRAVITY * metrics.jumpHeight);
+    const airTime = (launchSpeed + Math.sqrt(launchSpeed * launchSpeed - 2 * GRAVITY * rise)) / GRAVITY;
+    return moveSpeed * airTime;
+}
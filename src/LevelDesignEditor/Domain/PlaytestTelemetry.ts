@@ -0,0 +1,223 @@
+/**
+ * Playtest Telemetry - Recorded walks through a level and heatmaps built from them
+ * Runs are recorded from the editor's playtest mode or imported from game builds; both use
+ * grid coordinates (x, y) with elevations in meters and times in seconds
+ */
+
+import { Level } from './Level.js';
+import { isSpawnElement } from './LevelElement.js';
+import { PlayerState } from './PlayerController.js';
+import { DEFAULT_PLAYER_METRICS, PlayerMetrics } from './PlayerMetrics.js';
+import { DEFAULT_NAVIGATION_OPTIONS } from './NavigationGrid.js';
+
+/**
+ * A recorded player position
+ */
+export interface TelemetrySample {
+    /** Seconds since the run started */
+    time: number;
+    x: number;
+    y: number;
+    elevation: number;
+}
+
+/**
+ * Something that happened during a run
+ * - `fall`: dropped further than the player can jump back up
+ * - `death`: dropped at least the navigation's maximum drop height (or reported by the game)
+ * - `pickup`: reached an item spawn
+ */
+export type TelemetryEventType = 'fall' | 'death' | 'pickup';
+
+/**
+ * A telemetry event, at the position where it happened
+ */
+export interface TelemetryEvent extends TelemetrySample {
+    type: TelemetryEventType;
+    /** Item spawn reached (pickups) */
+    spawnId?: string;
+}
+
+/**
+ * A recorded or imported playtest run
+ */
+export interface TelemetryRun {
+    id: string;
+    name: string;
+    source: 'editor' | 'import';
+    /** ISO timestamp of when the run was recorded or imported */
+    recordedAt: string;
+    /** Seconds from the first to the last sample */
+    duration: number;
+    samples: TelemetrySample[];
+    events: TelemetryEvent[];
+    /** Item spawns reached, in order */
+    reachedItemIds: string[];
+}
+
+/**
+ * Per-cell totals over a set of runs
+ */
+export interface TelemetryHeatmap {
+    width: number;
+    height: number;
+    /** Times a run entered each cell, row by row */
+    visits: number[];
+    /** Seconds spent in each cell, row by row */
+    time: number[];
+    maxVisits: number;
+    maxTime: number;
+}
+
+/**
+ * What a heatmap shows
+ */
+export type TelemetryHeatmapMode = 'visits' | 'time';
+
+/** Seconds between recorded samples */
+export const TELEMETRY_SAMPLE_INTERVAL = 0.1;
+
+/**
+ * Generates a unique run ID
+ */
+export function generateTelemetryRunId(): string {
+    return `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Records a playtest run from the player's state each frame
+ */
+export class TelemetryRecorder {
+    private level: Level;
+    private metrics: PlayerMetrics;
+    private time: number = 0;
+    private lastSampleTime: number = -Infinity;
+    private samples: TelemetrySample[] = [];
+    private events: TelemetryEvent[] = [];
+    private reachedItemIds: string[] = [];
+    /** Elevation the player left the ground from (null while grounded) */
+    private takeoffElevation: number | null = null;
+
+    constructor(level: Level, metrics: PlayerMetrics = DEFAULT_PLAYER_METRICS) {
+        this.level = level;
+        this.metrics = metrics;
+    }
+
+    /**
+     * Records the player's state after a frame
+     * @param seconds Time since the previous call
+     * @returns Events that happened this frame
+     */
+    record(state: PlayerState, seconds: number): TelemetryEvent[] {
+        this.time += seconds;
+        if (this.time - this.lastSampleTime >= TELEMETRY_SAMPLE_INTERVAL) {
+            this.samples.push(this.createSample(state));
+            this.lastSampleTime = this.time;
+        }
+
+        const events: TelemetryEvent[] = [];
+
+        // Landings are compared with where the player left the ground
+        if (!state.grounded && this.takeoffElevation === null) {
+            this.takeoffElevation = state.elevation;
+        } else if (state.grounded && this.takeoffElevation !== null) {
+            const drop = this.takeoffElevation - state.elevation;
+            this.takeoffElevation = null;
+
+            if (drop >= DEFAULT_NAVIGATION_OPTIONS.maxDropHeight) {
+                events.push({ ...this.createSample(state), type: 'death' });
+            } else if (drop > this.metrics.jumpHeight) {
+                events.push({ ...this.createSample(state), type: 'fall' });
+            }
+        }
+
+        // Items count as reached when the player touches their marker
+        const reach = this.metrics.width / 2 + 0.5;
+        this.level.getAllElements().filter(isSpawnElement).forEach(spawn => {
+            if (spawn.spawnType !== 'item' || this.reachedItemIds.includes(spawn.id)) return;
+
+            const dx = spawn.gridX + spawn.width / 2 - state.x;
+            const dy = spawn.gridY + spawn.depth / 2 - state.y;
+            const dz = spawn.elevation - state.elevation;
+            if (Math.hypot(dx, dy) <= reach && dz > -this.metrics.height && dz < state.height) {
+                this.reachedItemIds.push(spawn.id);
+                events.push({ ...this.createSample(state), type: 'pickup', spawnId: spawn.id });
+            }
+        });
+
+        this.events.push(...events);
+        return events;
+    }
+
+    /**
+     * Ends the run
+     * @param state Final state, recorded as the last sample
+     */
+    finish(name: string, state?: PlayerState): TelemetryRun {
+        if (state && this.lastSampleTime < this.time) {
+            this.samples.push(this.createSample(state));
+        }
+
+        return {
+            id: generateTelemetryRunId(),
+            name,
+            source: 'editor',
+            recordedAt: new Date().toISOString(),
+            duration: this.time,
+            samples: this.samples.map(sample => ({ ...sample })),
+            events: this.events.map(event => ({ ...event })),
+            reachedItemIds: [...this.reachedItemIds]
+        };
+    }
+
+    /**
+     * Creates a sample at the current time
+     */
+    private createSample(state: PlayerState): TelemetrySample {
+        return { time: this.time, x: state.x, y: state.y, elevation: state.elevation };
+    }
+}
+
+/**
+ * Totals visits and time per grid cell over some runs
+ * Each sample's time lasts until the next sample; samples off the grid are ignored
+ */
+export function buildTelemetryHeatmap(runs: TelemetryRun[], width: number, height: number): TelemetryHeatmap {
+    const visits = new Array(width * height).fill(0);
+    const time = new Array(width * height).fill(0);
+
+    const cellAt = (sample: TelemetrySample) => {
+        const x = Math.floor(sample.x);
+        const y = Math.floor(sample.y);
+        return x >= 0 && y >= 0 && x < width && y < height ? y * width + x : -1;
+    };
+
+    runs.forEach(run => {
+        let previous = -1;
+        run.samples.forEach((sample, i) => {
+            const cell = cellAt(sample);
+            if (cell === -1) {
+                previous = -1;
+                return;
+            }
+
+            if (cell !== previous) {
+                visits[cell]++;
+            }
+            const next = run.samples[i + 1];
+            if (next) {
+                time[cell] += Math.max(0, next.time - sample.time);
+            }
+            previous = cell;
+        });
+    });
+
+    return {
+        width,
+        height,
+        visits,
+        time,
+        maxVisits: visits.reduce((max, value) => Math.max(max, value), 0),
+        maxTime: time.reduce((max, value) => Math.max(max, value), 0)
+    };
+}
@@ -0,0 +1,236 @@
+/**
+ * Prefabs
+ * Reusable groups of elements (rooms, corridors, arenas) that are stamped into levels as
+ * linked instances
+ */
+
+import {
+    AnyLevelElement,
+    PrefabPlacement,
+    SlopeDirection,
+    generateElementId,
+    generatePrefabInstanceId,
+    getElementCenter,
+    isOpeningElement,
+    isRotatableElement,
+    isSlopeElement,
+    isSpawnElement,
+    normalizeRotation
+} from './LevelElement.js';
+
+/**
+ * A named group of elements placed around a pivot
+ */
+export interface Prefab {
+    id: string;
+    name: string;
+    /**
+     * Elements around the pivot at (0, 0), without layer or prefab links
+     * Elevations are relative to the base of the layer an instance is stamped on
+     */
+    elements: AnyLevelElement[];
+    modifiedAt: string;
+}
+
+/**
+ * Generates a unique prefab ID
+ */
+export function generatePrefabId(): string {
+    return `prefab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Creates a prefab from elements, with the pivot at the given grid point
+ * @param elements Elements with elevations relative to their layer (see LevelEditor2D.copySelection)
+ */
+export function createPrefab(
+    name: string,
+    elements: AnyLevelElement[],
+    pivotX: number,
+    pivotY: number
+): Prefab {
+    return {
+        id: generatePrefabId(),
+        name,
+        elements: toPrefabSpace(elements, { x: pivotX, y: pivotY, rotation: 0, mirrored: false }),
+        modifiedAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Rebuilds a prefab from the (edited) elements of one of its instances
+ * Elements that came from the instance keep their source IDs, so other instances stay matched
+ */
+export function updatePrefabFromInstance(
+    prefab: Prefab,
+    elements: AnyLevelElement[],
+    instanceId: string,
+    placement: PrefabPlacement
+): Prefab {
+    return {
+        ...prefab,
+        elements: toPrefabSpace(elements, placement, instanceId),
+        modifiedAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Creates the elements of a new prefab instance, linked back to the prefab
+ * Elevations stay relative; the caller adds the layer's base elevation and layer ID
+ */
+export function instantiatePrefab(
+    prefab: Prefab,
+    placement: PrefabPlacement,
+    instanceId: string = generatePrefabInstanceId()
+): AnyLevelElement[] {
+    const idMap = new Map<string, string>();
+    prefab.elements.forEach(element => idMap.set(element.id, generateElementId()));
+
+    return transformElements(prefab.elements, placement).map(element => {
+        const copy = {
+            ...element,
+            id: idMap.get(element.id)!,
+            prefab: { prefabId: prefab.id, instanceId, sourceId: element.id, placement: { ...placement } }
+        };
+        if (isOpeningElement(copy)) {
+            copy.wallId = idMap.get(copy.wallId) ?? copy.wallId;
+        }
+        return copy;
+    });
+}
+
+/**
+ * Groups elements by the prefab instance they belong to
+ */
+export function getPrefabInstances(elements: AnyLevelElement[]): Map<string, AnyLevelElement[]> {
+    const instances = new Map<string, AnyLevelElement[]>();
+    elements.forEach(element => {
+        if (!element.prefab) return;
+        const members = instances.get(element.prefab.instanceId) ?? [];
+        members.push(element);
+        instances.set(element.prefab.instanceId, members);
+    });
+    return instances;
+}
+
+/**
+ * Finds where an instance currently is
+ * The stored placement is corrected by how far the instance has been moved since it was
+ * stamped, measured on the first element that still matches the prefab
+ */
+export function getInstancePlacement(prefab: Prefab, members: AnyLevelElement[]): PrefabPlacement {
+    const stored = members[0].prefab!.placement;
+    const expected = new Map(
+        transformElements(prefab.elements, stored).map(element => [element.id, element])
+    );
+
+    const anchor = members.find(member => !isOpeningElement(member) && expected.has(member.prefab!.sourceId));
+    if (!anchor) return { ...stored };
+
+    const [expectedX, expectedY] = getElementCenter(expected.get(anchor.prefab!.sourceId)!);
+    const [actualX, actualY] = getElementCenter(anchor);
+    return {
+        ...stored,
+        x: round(stored.x + actualX - expectedX),
+        y: round(stored.y + actualY - expectedY)
+    };
+}
+
+/**
+ * Places elements: mirror across x = 0 (if set), rotate clockwise about the origin, then move
+ * Openings stay in their wall's frame and follow it
+ */
+export function transformElements(elements: AnyLevelElement[], placement: PrefabPlacement): AnyLevelElement[] {
+    const angle = placement.rotation * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    const placed = new Map<string, AnyLevelElement>();
+    elements.filter(element => !isOpeningElement(element)).forEach(element => {
+        const [centerX, centerY] = getElementCenter(element);
+        const mirroredX = placement.mirrored ? -centerX : centerX;
+        const x = round(mirroredX * cos - centerY * sin + placement.x);
+        const y = round(mirroredX * sin + centerY * cos + placement.y);
+
+        const copy = { ...element, gridX: x - element.width / 2, gridY: y - element.depth / 2 };
+        if (isRotatableElement(copy)) {
+            const rotation = placement.mirrored ? -(copy.rotation ?? 0) : copy.rotation ?? 0;
+            copy.rotation = normalizeRotation(round(rotation + placement.rotation));
+        }
+        if (isSlopeElement(copy) && placement.mirrored) {
+            copy.direction = mirrorDirection(copy.direction);
+        }
+        if (isSpawnElement(copy)) {
+            // Spawns sit in whole cells
+            copy.gridX = Math.round(copy.gridX);
+            copy.gridY = Math.round(copy.gridY);
+        }
+        placed.set(element.id, copy);
+    });
+
+    return elements.map(element => {
+        if (!isOpeningElement(element)) {
+            return placed.get(element.id)!;
+        }
+
+        const wall = elements.find(e => e.id === element.wallId);
+        const placedWall = placed.get(element.wallId);
+        if (!wall || !placedWall) return { ...element };
+
+        // Same spot in the wall's own frame, flipped along it when mirrored
+        const offsetX = element.gridX - wall.gridX;
+        const offsetY = element.gridY - wall.gridY;
+        return {
+            ...element,
+            gridX: placedWall.gridX + (placement.mirrored ? wall.width - offsetX - element.width : offsetX),
+            gridY: placedWall.gridY + offsetY
+        };
+    });
+}
+
+/**
+ * Moves level elements into prefab space, undoing an instance placement
+ * Elements of the given instance keep their source IDs as prefab element IDs; others get new IDs
+ */
+function toPrefabSpace(
+    elements: AnyLevelElement[],
+    placement: PrefabPlacement,
+    instanceId?: string
+): AnyLevelElement[] {
+    const idMap = new Map<string, string>();
+    elements.forEach(element => {
+        const fromInstance = instanceId !== undefined && element.prefab?.instanceId === instanceId;
+        idMap.set(element.id, fromInstance ? element.prefab!.sourceId : generateElementId());
+    });
+
+    const moved = transformElements(elements, { x: -placement.x, y: -placement.y, rotation: 0, mirrored: false });
+    const rotated = transformElements(moved, { x: 0, y: 0, rotation: -placement.rotation, mirrored: false });
+    const local = placement.mirrored
+        ? transformElements(rotated, { x: 0, y: 0, rotation: 0, mirrored: true })
+        : rotated;
+
+    return local.map(element => {
+        const { layerId, prefab, ...rest } = element;
+        const copy = { ...rest, id: idMap.get(element.id)! } as AnyLevelElement;
+        if (isOpeningElement(copy)) {
+            copy.wallId = idMap.get(copy.wallId) ?? copy.wallId;
+        }
+        return copy;
+    });
+}
+
+/**
+ * Swaps east and west
+ */
+function mirrorDirection(direction: SlopeDirection): SlopeDirection {
+    if (direction === 'east') return 'west';
+    if (direction === 'west') return 'east';
+    return direction;
+}
+
+/**
+ * Rounds away floating point noise so quarter turns land on exact grid positions
+ */
+function round(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+}
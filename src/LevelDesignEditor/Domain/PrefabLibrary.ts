@@ -0,0 +1,139 @@
+/**
+ * Prefab library
+ * The prefabs available to every level, persisted by LevelSerializer
+ */
+
+import { AnyLevelElement } from './LevelElement.js';
+import { Prefab } from './Prefab.js';
+import { isRecord, isString } from './JsonGuards.js';
+
+/**
+ * Callback type for library change notifications
+ */
+export type PrefabLibraryChangeCallback = (library: PrefabLibrary) => void;
+
+/**
+ * Prefab library class
+ */
+export class PrefabLibrary {
+    private prefabs: Map<string, Prefab>;
+    private changeCallbacks: PrefabLibraryChangeCallback[];
+
+    constructor(prefabs: Prefab[] = []) {
+        this.prefabs = new Map(prefabs.map(prefab => [prefab.id, prefab]));
+        this.changeCallbacks = [];
+    }
+
+    /**
+     * Gets all prefabs, sorted by name
+     */
+    getAll(): Prefab[] {
+        return Array.from(this.prefabs.values()).sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Gets a prefab by ID
+     */
+    get(prefabId: string): Prefab | undefined {
+        return this.prefabs.get(prefabId);
+    }
+
+    /**
+     * Adds a prefab, or replaces the prefab with the same ID
+     */
+    save(prefab: Prefab): void {
+        this.prefabs.set(prefab.id, prefab);
+        this.notifyChange();
+    }
+
+    /**
+     * Removes a prefab (instances keep their elements)
+     */
+    remove(prefabId: string): boolean {
+        const removed = this.prefabs.delete(prefabId);
+        if (removed) {
+            this.notifyChange();
+        }
+        return removed;
+    }
+
+    /**
+     * Adds prefabs from another source (e.g. a loaded level file)
+     * Existing prefabs are only replaced by newer versions
+     */
+    merge(prefabs: Prefab[]): void {
+        let changed = false;
+        prefabs.forEach(prefab => {
+            const existing = this.prefabs.get(prefab.id);
+            if (!existing || existing.modifiedAt < prefab.modifiedAt) {
+                this.prefabs.set(prefab.id, prefab);
+                changed = true;
+            }
+        });
+        if (changed) {
+            this.notifyChange();
+        }
+    }
+
+    /**
+     * Gets the prefabs that the given elements were stamped from
+     */
+    getUsedBy(elements: AnyLevelElement[]): Prefab[] {
+        const ids = new Set(elements.map(element => element.prefab?.prefabId).filter(Boolean));
+        return this.getAll().filter(prefab => ids.has(prefab.id));
+    }
+
+    /**
+     * Registers a callback for library changes
+     */
+    onChange(callback: PrefabLibraryChangeCallback): void {
+        this.changeCallbacks.push(callback);
+    }
+
+    /**
+     * Removes a change callback
+     */
+    offChange(callback: PrefabLibraryChangeCallback): void {
+        const index = this.changeCallbacks.indexOf(callback);
+        if (index !== -1) {
+            this.changeCallbacks.splice(index, 1);
+        }
+    }
+
+    /**
+     * Notifies all registered callbacks of a change
+     */
+    private notifyChange(): void {
+        this.changeCallbacks.forEach(callback => callback(this));
+    }
+
+    /**
+     * Exports the library to a plain array (for serialization)
+     */
+    toJSON(): Prefab[] {
+        return this.getAll();
+    }
+
+    /**
+     * Imports a library from a plain array, skipping malformed entries
+     */
+    static fromJSON(data: unknown): PrefabLibrary {
+        const prefabs: Prefab[] = [];
+        if (Array.isArray(data)) {
+            data.forEach((prefab: unknown) => {
+                if (!isRecord(prefab) || !isString(prefab.id) || prefab.id === '' || !Array.isArray(prefab.elements)) {
+                    return;
+                }
+                prefabs.push({
+                    id: prefab.id,
+                    name: isString(prefab.name) && prefab.name !== '' ? prefab.name : 'Prefab',
+                    elements: prefab.elements as AnyLevelElement[],
+                    modifiedAt: isString(prefab.modifiedAt) && prefab.modifiedAt !== ''
+                        ? prefab.modifiedAt
+                        : new Date(0).toISOString()
+                });
+            });
+        }
+        return new PrefabLibrary(prefabs);
+    }
+}
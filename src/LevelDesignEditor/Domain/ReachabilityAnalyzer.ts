@@ -0,0 +1,109 @@
+/**
+ * Reachability Analyzer - Checks that item and enemy spawns can be reached
+ * from the player spawn, using A* over the navigation grid
+ */
+
+import { Level } from './Level.js';
+import { SpawnElement, isSpawnElement } from './LevelElement.js';
+import { PlayerMetrics, DEFAULT_PLAYER_METRICS, MOVE_SPEED } from './PlayerMetrics.js';
+import { NavigationGrid, NavigationOptions, PathPoint } from './NavigationGrid.js';
+
+/**
+ * Reachability of one spawn from the player spawn
+ */
+export interface SpawnReachability {
+    spawnId: string;
+    spawnType: SpawnElement['spawnType'];
+    reachable: boolean;
+    /** Why the spawn is unreachable (if it is) */
+    reason?: string;
+    /** Path from the player spawn, empty if unreachable */
+    path: PathPoint[];
+    /** Path length in meters */
+    length: number;
+    /** Estimated traversal time in seconds at MOVE_SPEED */
+    time: number;
+    jumps: number;
+}
+
+/**
+ * Complete reachability report
+ */
+export interface ReachabilityReport {
+    /** Player spawn used as the start (null if the level has none) */
+    playerSpawnId: string | null;
+    results: SpawnReachability[];
+}
+
+/**
+ * Reachability Analyzer class
+ */
+export class ReachabilityAnalyzer {
+    /** Seconds added per jump on top of the walking time */
+    private static readonly JUMP_TIME = 0.5;
+
+    /**
+     * Analyzes reachability of all item and enemy spawns
+     */
+    static analyze(
+        level: Level,
+        metrics: PlayerMetrics = DEFAULT_PLAYER_METRICS,
+        options: Partial<NavigationOptions> = {},
+        moveSpeed: number = MOVE_SPEED
+    ): ReachabilityReport {
+        const spawns = level.getAllElements().filter(isSpawnElement);
+        const player = spawns.find(spawn => spawn.spawnType === 'player');
+        const targets = spawns.filter(spawn => spawn.spawnType !== 'player');
+
+        if (!player) {
+            return {
+                playerSpawnId: null,
+                results: targets.map(spawn => this.unreachable(spawn, 'No player spawn in level'))
+            };
+        }
+
+        const grid = NavigationGrid.build(level, metrics, options);
+        const start = grid.findNode(player.gridX, player.gridY, player.elevation);
+
+        const results = targets.map(spawn => {
+            if (!start) {
+                return this.unreachable(spawn, 'Player spawn is not on a walkable surface');
+            }
+
+            const goal = grid.findNode(spawn.gridX, spawn.gridY, spawn.elevation);
+            if (!goal) {
+                return this.unreachable(spawn, 'Spawn is not on a walkable surface');
+            }
+
+            const path = grid.findPath(start.index, goal.index);
+            if (!path) {
+                return this.unreachable(spawn, 'No path from the player spawn');
+            }
+
+            return {
+                spawnId: spawn.id,
+                spawnType: spawn.spawnType,
+                reachable: true,
+                path: path.points,
+                length: path.length,
+                time: path.length / moveSpeed + path.jumps * this.JUMP_TIME,
+                jumps: path.jumps
+            };
+        });
+
+        return { playerSpawnId: player.id, results };
+    }
+
+    private static unreachable(spawn: SpawnElement, reason: string): SpawnReachability {
+        return {
+            spawnId: spawn.id,
+            spawnType: spawn.spawnType,
+            reachable: false,
+            reason,
+            path: [],
+            length: 0,
+            time: 0,
+            jumps: 0
+        };
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * Seeded random numbers
+ * Same seed, same sequence, on every platform
+ */
+
+/**
+ * Seeded pseudo-random numbers (mulberry32), for generators that must be repeatable
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = Math.floor(seed) >>> 0;
+    }
+
+    /**
+     * Gets a number in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Gets an integer in [min, max]
+     */
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    /**
+     * Returns true with the given probability
+     */
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    /**
+     * Shuffles an array in place
+     */
+    shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = this.int(0, i);
+            [items[i], items[j]] = [items[j], items[i]];
+        }
+        return items;
+    }
+}
@@ -0,0 +1,254 @@
+/**
+ * GLB Writer
+ * Writes level geometry (see LevelGeometryBuilder) as a binary glTF 2.0 file
+ *
+ * Pure (no three.js or DOM), so it runs in Node as well as the browser. Material colors are
+ * converted from sRGB to linear, as three.js' GLTFExporter does; node extras are written as
+ * glTF extras
+ */
+
+import { GeometryMaterialName, GeometryMesh, GeometryNode, LEVEL_MATERIALS } from './LevelGeometryBuilder.js';
+
+/**
+ * glTF component types and buffer view targets
+ */
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+/**
+ * GLB chunk types ("JSON" and "BIN\0" as little-endian integers)
+ */
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+/**
+ * GLB Writer class
+ */
+export class GLBWriter {
+    private json: any;
+    private chunks: Uint8Array[] = [];
+    private byteLength: number = 0;
+    private materialIndices: Map<GeometryMaterialName, number> = new Map();
+
+    /**
+     * Writes a scene as GLB bytes
+     */
+    static write(root: GeometryNode): Uint8Array<ArrayBuffer> {
+        return new GLBWriter().writeScene(root);
+    }
+
+    private constructor() {
+        this.json = {
+            asset: { version: '2.0', generator: 'Level Design Editor' },
+            scene: 0,
+            scenes: [{ nodes: [] }],
+            nodes: [],
+            meshes: [],
+            materials: [],
+            accessors: [],
+            bufferViews: [],
+            buffers: []
+        };
+    }
+
+    /**
+     * Writes the scene and packs the GLB container
+     */
+    private writeScene(root: GeometryNode): Uint8Array<ArrayBuffer> {
+        this.json.scenes[0].nodes.push(this.addNode(root));
+
+        const binary = new Uint8Array(this.byteLength);
+        let offset = 0;
+        this.chunks.forEach(chunk => {
+            binary.set(chunk, offset);
+            offset += chunk.length;
+        });
+        if (binary.length > 0) {
+            this.json.buffers.push({ byteLength: binary.length });
+        }
+
+        // Drop empty lists; validators reject them
+        Object.keys(this.json).forEach(key => {
+            if (Array.isArray(this.json[key]) && this.json[key].length === 0) delete this.json[key];
+        });
+
+        // The JSON chunk is padded with spaces, the binary chunk with zeros
+        const jsonBytes = pad(new TextEncoder().encode(JSON.stringify(this.json)), 0x20);
+        const binBytes = pad(binary, 0);
+
+        const total = 12 + 8 + jsonBytes.length + (binBytes.length > 0 ? 8 + binBytes.length : 0);
+        const glb = new Uint8Array(total);
+        const view = new DataView(glb.buffer);
+
+        view.setUint32(0, 0x46546c67, true); // "glTF"
+        view.setUint32(4, 2, true);
+        view.setUint32(8, total, true);
+
+        view.setUint32(12, jsonBytes.length, true);
+        view.setUint32(16, CHUNK_JSON, true);
+        glb.set(jsonBytes, 20);
+
+        if (binBytes.length > 0) {
+            const binStart = 20 + jsonBytes.length;
+            view.setUint32(binStart, binBytes.length, true);
+            view.setUint32(binStart + 4, CHUNK_BIN, true);
+            glb.set(binBytes, binStart + 8);
+        }
+
+        return glb;
+    }
+
+    /**
+     * Adds a node and its children
+     * @returns Node index
+     */
+    private addNode(node: GeometryNode): number {
+        const index = this.json.nodes.length;
+        const gltfNode: any = { name: node.name };
+        this.json.nodes.push(gltfNode);
+
+        if (node.translation.some(v => v !== 0)) {
+            gltfNode.translation = [...node.translation];
+        }
+        const [x, y, z, w] = node.rotation;
+        if (x !== 0 || y !== 0 || z !== 0 || w !== 1) {
+            gltfNode.rotation = [x, y, z, w];
+        }
+        if (node.mesh) {
+            gltfNode.mesh = this.addMesh(node.mesh, node.name);
+        }
+        if (node.extras && Object.keys(node.extras).length > 0) {
+            gltfNode.extras = node.extras;
+        }
+        if (node.children.length > 0) {
+            gltfNode.children = node.children.map(child => this.addNode(child));
+        }
+
+        return index;
+    }
+
+    /**
+     * Adds a mesh with position, normal and index accessors
+     * @returns Mesh index
+     */
+    private addMesh(mesh: GeometryMesh, name: string): number {
+        const vertexCount = mesh.positions.length / 3;
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        for (let i = 0; i < mesh.positions.length; i++) {
+            // Bounds must match the stored (32-bit) values exactly
+            const value = Math.fround(mesh.positions[i]);
+            min[i % 3] = Math.min(min[i % 3], value);
+            max[i % 3] = Math.max(max[i % 3], value);
+        }
+
+        const position = this.addAccessor(new Float32Array(mesh.positions), FLOAT, 'VEC3', vertexCount, ARRAY_BUFFER, min, max);
+        const normal = this.addAccessor(new Float32Array(mesh.normals), FLOAT, 'VEC3', vertexCount, ARRAY_BUFFER);
+        const wide = vertexCount > 0xffff;
+        const indices = this.addAccessor(
+            wide ? new Uint32Array(mesh.indices) : new Uint16Array(mesh.indices),
+            wide ? UNSIGNED_INT : UNSIGNED_SHORT,
+            'SCALAR',
+            mesh.indices.length,
+            ELEMENT_ARRAY_BUFFER
+        );
+
+        this.json.meshes.push({
+            name,
+            primitives: [{
+                attributes: { POSITION: position, NORMAL: normal },
+                indices,
+                material: this.getMaterial(mesh.material)
+            }]
+        });
+        return this.json.meshes.length - 1;
+    }
+
+    /**
+     * Adds a buffer view and accessor for typed data, 4-byte aligned
+     * @returns Accessor index
+     */
+    private addAccessor(
+        data: Float32Array | Uint16Array | Uint32Array,
+        componentType: number,
+        type: string,
+        count: number,
+        target: number,
+        min?: number[],
+        max?: number[]
+    ): number {
+        const bytes = pad(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), 0);
+
+        this.json.bufferViews.push({
+            buffer: 0,
+            byteOffset: this.byteLength,
+            byteLength: data.byteLength,
+            target
+        });
+        this.chunks.push(bytes);
+        this.byteLength += bytes.length;
+
+        const accessor: any = {
+            bufferView: this.json.bufferViews.length - 1,
+            componentType,
+            count,
+            type
+        };
+        if (min && max) {
+            accessor.min = min;
+            accessor.max = max;
+        }
+        this.json.accessors.push(accessor);
+        return this.json.accessors.length - 1;
+    }
+
+    /**
+     * Gets (adding on first use) the index of a material
+     */
+    private getMaterial(name: GeometryMaterialName): number {
+        const existing = this.materialIndices.get(name);
+        if (existing !== undefined) return existing;
+
+        const material = LEVEL_MATERIALS[name];
+        const channels = [material.color >> 16, (material.color >> 8) & 0xff, material.color & 0xff]
+            .map(c => toLinear(c / 255));
+
+        const gltfMaterial: any = {
+            name,
+            pbrMetallicRoughness: {
+                baseColorFactor: [...channels, material.opacity],
+                metallicFactor: material.metalness,
+                roughnessFactor: material.roughness
+            }
+        };
+        if (material.opacity < 1) {
+            gltfMaterial.alphaMode = 'BLEND';
+        }
+
+        this.json.materials.push(gltfMaterial);
+        this.materialIndices.set(name, this.json.materials.length - 1);
+        return this.json.materials.length - 1;
+    }
+}
+
+/**
+ * Pads bytes to a multiple of 4
+ */
+function pad(bytes: Uint8Array, fill: number): Uint8Array {
+    const padding = (4 - (bytes.length % 4)) % 4;
+    if (padding === 0) return bytes;
+
+    const padded = new Uint8Array(bytes.length + padding).fill(fill);
+    padded.set(bytes);
+    return padded;
+}
+
+/**
+ * Converts an sRGB channel (0-1) to linear
+ */
+function toLinear(c: number): number {
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
@@ -1,142 +1,89 @@
 /**
  * GLTF Level Exporter
- * Exports level geometry to GLTF/GLB format for use in Godot and other 3D engines
+ * Exports the level as a GLB file for use in Godot and other 3D engines
+ *
+ * The meshes are built from the level data by LevelGeometryBuilder and written by GLBWriter,
+ * the same path the command-line export takes, so the file does not depend on the 3D preview
+ *
+ * Doors and windows are exported as named nodes (`Door_<id>`, `Window_<id>`) whose
+ * extras carry the opening's wall id, dimensions and rotation, so import scripts can attach logic
+ *
+ * Rotated elements and angled walls are exported with their orientation baked into the
+ * node transforms, so the geometry lands in the engine exactly as previewed
+ *
+ * Each layer (storey) is a `Layer_<name>` node. Layers hidden in the preview are still
+ * exported; pass `layerId` to export a single layer on its own
+ *
+ * Each element's top node carries its type, custom properties (with schema defaults) and tags
+ * in its extras
  */
 
-import { LevelPreview3D } from '../Presentation/LevelPreview3D.js';
 import { Level } from '../Domain/Level.js';
+import { LevelGeometryBuilder } from './LevelGeometryBuilder.js';
+import { GLBWriter } from './GLBWriter.js';
 
 /**
  * Export options
  */
 export interface GLTFExportOptions {
-    /** Export as binary GLB (true) or text GLTF (false) */
-    binary: boolean;
-    /** Include only level geometry (exclude ground, grid, etc.) */
-    levelOnly: boolean;
     /** Custom filename (without extension) */
     filename?: string;
+    /** Export only this layer (all layers if unset) */
+    layerId?: string;
 }
 
 /**
  * Default export options
  */
 export const DEFAULT_EXPORT_OPTIONS: GLTFExportOptions = {
-    binary: true,
-    levelOnly: true,
-    filename: undefined
+    filename: undefined,
+    layerId: undefined
 };
 
 /**
  * GLTF Level Exporter class
  */
 export class GLTFLevelExporter {
-    private preview3D: LevelPreview3D;
     private level: Level;
-    private GLTFExporter: any;
 
-    constructor(preview3D: LevelPreview3D, level: Level) {
-        this.preview3D = preview3D;
+    constructor(level: Level) {
         this.level = level;
     }
 
     /**
-     * Dynamically loads the GLTFExporter
-     */
-    private async loadExporter(): Promise<void> {
-        if (!this.GLTFExporter) {
-            const module = await import('three/addons/exporters/GLTFExporter.js' as any);
-            this.GLTFExporter = module.GLTFExporter;
-        }
-    }
-
-    /**
-     * Exports the level to GLTF/GLB format
+     * Exports the level to GLB
      * @param options Export options
-     * @returns Promise resolving to Blob containing the exported data
+     * @returns Blob containing the GLB file
      */
-    async export(options: Partial<GLTFExportOptions> = {}): Promise<Blob> {
+    export(options: Partial<GLTFExportOptions> = {}): Blob {
         const opts: GLTFExportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
 
-        await this.loadExporter();
-
-        const THREE = this.preview3D.getThree();
-        const exporter = new this.GLTFExporter();
-
-        // Determine what to export
-        let exportTarget: any;
-
-        if (opts.levelOnly) {
-            // Export only the level group (walls, floors, spawns)
-            exportTarget = this.preview3D.getLevelGroup();
-        } else {
-            // Export entire scene
-            exportTarget = this.preview3D.getScene();
-        }
-
-        // Clone the export target to avoid modifying the original
-        const exportScene = exportTarget.clone();
-
-        // Perform the export
-        return new Promise((resolve, reject) => {
-            exporter.parse(
-                exportScene,
-                (result: any) => {
-                    let blob: Blob;
-
-                    if (opts.binary) {
-                        // GLB (binary)
-                        blob = new Blob([result], { type: 'model/gltf-binary' });
-                    } else {
-                        // GLTF (JSON)
-                        const json = JSON.stringify(result, null, 2);
-                        blob = new Blob([json], { type: 'model/gltf+json' });
-                    }
-
-                    resolve(blob);
-                },
-                (error: any) => {
-                    reject(new Error(`GLTF export failed: ${error}`));
-                },
-                {
-                    binary: opts.binary,
-                    trs: false,
-                    onlyVisible: true,
-                    truncateDrawRange: true,
-                    maxTextureSize: 4096
-                }
-            );
-        });
+        const root = new LevelGeometryBuilder(this.level).build({ layerId: opts.layerId });
+        const bytes = GLBWriter.write(root);
+        return new Blob([bytes], { type: 'model/gltf-binary' });
     }
 
     /**
-     * Exports and downloads the level
+     * Exports and downloads the level as a .glb file
      * @param options Export options
      */
-    async exportAndDownload(options: Partial<GLTFExportOptions> = {}): Promise<void> {
+    exportAndDownload(options: Partial<GLTFExportOptions> = {}): void {
         const opts: GLTFExportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
-
-        try {
-            const blob = await this.export(opts);
-            this.downloadBlob(blob, opts);
-        } catch (error) {
-            console.error('Failed to export level:', error);
-            throw error;
-        }
+        this.downloadBlob(this.export(opts), opts);
     }
 
     /**
      * Downloads a blob as a file
      */
     private downloadBlob(blob: Blob, options: GLTFExportOptions): void {
-        const extension = options.binary ? '.glb' : '.gltf';
-        const baseName = options.filename || this.level.getName().replace(/[^a-z0-9]/gi, '_');
-        const filename = `${baseName}${extension}`;
+        const layer = options.layerId ? this.level.getLayer(options.layerId) : undefined;
+        const name = layer ? `${this.level.getName()}_${layer.name}` : this.level.getName();
+        const baseName = options.filename || name.replace(/[^a-z0-9]/gi, '_');
 
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = filename;
+        a.download = `${baseName}.glb`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
@@ -153,9 +100,12 @@ export class GLTFLevelExporter {
     }
 
     /**
-     * Validates that the level can be exported
+     * Validates that the level (or a single layer) can be exported
      */
-    canExport(): boolean {
+    canExport(layerId?: string): boolean {
+        if (layerId) {
+            return this.level.getElementsOnLayer(layerId).length > 0;
+        }
         return this.level.getElementCount() > 0;
     }
 }
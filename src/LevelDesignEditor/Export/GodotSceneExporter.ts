@@ -0,0 +1,543 @@
+/**
+ * Godot Scene Exporter
+ * Writes a level as a Godot 4 text scene (.tscn), built from the Level data alone
+ *
+ * Walls, floors, ramps and stairs become StaticBody3D nodes with collision shapes (and box or
+ * prism meshes so the scene is visible right away); walls are split around their openings.
+ * Doors and windows are Node3D children of their wall. Spawns are Marker3D nodes in a group
+ * named after their spawn type
+ *
+ * Level metadata, element IDs and custom properties are stored as node metadata; element tags
+ * become node groups. Each layer (storey) is a `Layer_<name>` node
+ */
+
+import { Level, LevelLayer } from '../Domain/Level.js';
+import { getResolvedProperties } from '../Domain/ElementProperties.js';
+import {
+    AnyLevelElement,
+    AnyOpeningElement,
+    ElementBox,
+    FloorElement,
+    RampElement,
+    SlopeDirection,
+    SpawnElement,
+    StairElement,
+    WallElement,
+    getElementCenter,
+    getElementRotation,
+    getRampCorners,
+    getStairSteps,
+    isOpeningElement,
+    splitWallAroundOpenings
+} from '../Domain/LevelElement.js';
+
+/**
+ * Export options
+ */
+export interface GodotExportOptions {
+    /** Add MeshInstance3D nodes next to the collision shapes */
+    includeMeshes: boolean;
+    /** Custom filename (without extension) */
+    filename?: string;
+    /** Export only this layer (all layers if unset) */
+    layerId?: string;
+}
+
+/**
+ * Default export options
+ */
+export const DEFAULT_GODOT_EXPORT_OPTIONS: GodotExportOptions = {
+    includeMeshes: true,
+    filename: undefined,
+    layerId: undefined
+};
+
+/**
+ * A [sub_resource] section
+ */
+interface SceneResource {
+    id: string;
+    type: string;
+    properties: Array<[string, string]>;
+}
+
+/**
+ * A [node] section
+ */
+interface SceneNode {
+    name: string;
+    type: string;
+    /** Path of the parent relative to the root (null for the root itself) */
+    parent: string | null;
+    groups: string[];
+    properties: Array<[string, string]>;
+}
+
+/**
+ * Offset and size of a box inside an element's node (X/Z from the grid, Y up)
+ */
+interface LocalBox {
+    position: [number, number, number];
+    size: [number, number, number];
+}
+
+/**
+ * Godot Scene Exporter class
+ */
+export class GodotSceneExporter {
+    private level: Level;
+    private resources: SceneResource[] = [];
+    private resourceIds: Map<string, string> = new Map();
+    private nodes: SceneNode[] = [];
+    private includeMeshes: boolean = true;
+
+    // Colors match the 3D preview
+    private readonly MATERIAL_COLORS: Record<string, number> = {
+        wall: 0x718096,
+        floor: 0xa0aec0,
+        ramp: 0x90cdf4,
+        stair: 0xb794f4
+    };
+
+    constructor(level: Level) {
+        this.level = level;
+    }
+
+    /**
+     * Exports the level as .tscn text
+     */
+    export(options: Partial<GodotExportOptions> = {}): string {
+        const opts: GodotExportOptions = { ...DEFAULT_GODOT_EXPORT_OPTIONS, ...options };
+
+        this.resources = [];
+        this.resourceIds = new Map();
+        this.nodes = [];
+        this.includeMeshes = opts.includeMeshes;
+
+        const metadata = this.level.getMetadata();
+        const gridSize = this.level.getGridSize();
+        this.nodes.push({
+            name: this.toNodeName(metadata.name) || 'Level',
+            type: 'Node3D',
+            parent: null,
+            groups: [],
+            properties: [
+                ['metadata/level_name', this.encode(metadata.name)],
+                ['metadata/author', this.encode(metadata.author)],
+                ['metadata/description', this.encode(metadata.description)],
+                ['metadata/created_at', this.encode(metadata.createdAt)],
+                ['metadata/modified_at', this.encode(metadata.modifiedAt)],
+                ['metadata/grid_width', this.encode(gridSize.width)],
+                ['metadata/grid_height', this.encode(gridSize.height)]
+            ]
+        });
+
+        const usedNames = new Set<string>();
+        this.level.getLayers()
+            .filter(layer => !opts.layerId || layer.id === opts.layerId)
+            .forEach(layer => this.addLayer(layer, usedNames));
+
+        return this.write();
+    }
+
+    /**
+     * Exports and downloads the level as a .tscn file
+     */
+    exportAndDownload(options: Partial<GodotExportOptions> = {}): void {
+        const opts: GodotExportOptions = { ...DEFAULT_GODOT_EXPORT_OPTIONS, ...options };
+        const blob = new Blob([this.export(opts)], { type: 'text/plain' });
+
+        const layer = opts.layerId ? this.level.getLayer(opts.layerId) : undefined;
+        const name = layer ? `${this.level.getName()}_${layer.name}` : this.level.getName();
+        const baseName = opts.filename || name.replace(/[^a-z0-9]/gi, '_');
+
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${baseName}.tscn`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Validates that the level (or a single layer) can be exported
+     */
+    canExport(layerId?: string): boolean {
+        if (layerId) {
+            return this.level.getElementsOnLayer(layerId).length > 0;
+        }
+        return this.level.getElementCount() > 0;
+    }
+
+    // ========== Nodes ==========
+
+    /**
+     * Adds a layer node and its elements
+     */
+    private addLayer(layer: LevelLayer, usedNames: Set<string>): void {
+        let name = `Layer_${this.toNodeName(layer.name)}`;
+        for (let i = 2; usedNames.has(name); i++) {
+            name = `Layer_${this.toNodeName(layer.name)}${i}`;
+        }
+        usedNames.add(name);
+
+        this.nodes.push({
+            name,
+            type: 'Node3D',
+            parent: '.',
+            groups: [],
+            properties: [
+                ['metadata/layer_id', this.encode(layer.id)],
+                ['metadata/base_elevation', this.encode(layer.baseElevation)]
+            ]
+        });
+
+        const elements = this.level.getElementsOnLayer(layer.id);
+        const openings = elements.filter(isOpeningElement);
+
+        elements.forEach(element => {
+            switch (element.type) {
+                case 'wall':
+                    this.addWall(element, openings.filter(opening => opening.wallId === element.id), name);
+                    break;
+                case 'floor':
+                    this.addFloor(element, name);
+                    break;
+                case 'ramp':
+                    this.addRamp(element, name);
+                    break;
+                case 'stair':
+                    this.addStair(element, name);
+                    break;
+                case 'spawn':
+                    this.addSpawn(element, name);
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Adds a wall body, split into boxes around its openings, with the openings as child nodes
+     */
+    private addWall(wall: WallElement, openings: AnyOpeningElement[], parent: string): void {
+        const path = this.addBody(wall, `Wall_${wall.id}`, wall.elevation, parent);
+        const [centerX, centerZ] = getElementCenter(wall);
+
+        const boxes = splitWallAroundOpenings(wall, openings).map(piece => this.toLocalBox(wall, piece, wall.elevation));
+        this.addBoxes(boxes, 'wall', path);
+
+        openings.forEach(opening => {
+            this.nodes.push({
+                name: `${opening.type === 'door' ? 'Door' : 'Window'}_${opening.id}`,
+                type: 'Node3D',
+                parent: path,
+                groups: opening.tags ?? [],
+                properties: [
+                    ['transform', this.transform(0, [
+                        opening.gridX + opening.width / 2 - centerX,
+                        opening.sillHeight + opening.height / 2,
+                        opening.gridY + opening.depth / 2 - centerZ
+                    ])],
+                    ...this.elementMetadata(opening),
+                    ['metadata/opening_type', this.encode(opening.type)],
+                    ['metadata/wall_id', this.encode(opening.wallId)],
+                    ['metadata/width', this.encode(opening.width)],
+                    ['metadata/depth', this.encode(opening.depth)],
+                    ['metadata/height', this.encode(opening.height)],
+                    ['metadata/sill_height', this.encode(opening.sillHeight)]
+                ]
+            });
+        });
+    }
+
+    /**
+     * Adds a floor body
+     */
+    private addFloor(floor: FloorElement, parent: string): void {
+        const path = this.addBody(floor, `Floor_${floor.id}`, floor.elevation, parent);
+        this.addBoxes([{
+            position: [0, floor.thickness / 2, 0],
+            size: [floor.width, floor.thickness, floor.depth]
+        }], 'floor', path);
+    }
+
+    /**
+     * Adds a ramp body with a wedge-shaped convex collision shape and a prism mesh
+     */
+    private addRamp(ramp: RampElement, parent: string): void {
+        const base = Math.min(ramp.startElevation, ramp.endElevation);
+        const path = this.addBody(ramp, `Ramp_${ramp.id}`, base, parent);
+        const [centerX, centerZ] = getElementCenter(ramp);
+
+        // The low edge has no height, so skip its repeated corners
+        const points = new Set<string>();
+        getRampCorners(ramp).forEach(([x, y, z]) => {
+            points.add([x - centerX, y - base, z - centerZ].map(v => this.number(v)).join(', '));
+        });
+
+        const shape = this.addResource('ConvexPolygonShape3D', [
+            ['points', `PackedVector3Array(${Array.from(points).join(', ')})`]
+        ]);
+        this.nodes.push({
+            name: 'CollisionShape3D',
+            type: 'CollisionShape3D',
+            parent: path,
+            groups: [],
+            properties: [['shape', `SubResource("${shape}")`]]
+        });
+
+        if (!this.includeMeshes) return;
+
+        // PrismMesh with its top edge over +X, turned so that edge is the ramp's high end
+        const rise = Math.max(0.01, Math.abs(ramp.endElevation - ramp.startElevation));
+        const high = ramp.endElevation >= ramp.startElevation ? ramp.direction : this.opposite(ramp.direction);
+        const alongX = high === 'east' || high === 'west';
+        const angles: Record<SlopeDirection, number> = { east: 0, north: 90, west: 180, south: -90 };
+
+        const mesh = this.addResource('PrismMesh', [
+            ['material', `SubResource("${this.addMaterial('ramp')}")`],
+            ['left_to_right', '1.0'],
+            ['size', this.vector([alongX ? ramp.width : ramp.depth, rise, alongX ? ramp.depth : ramp.width])]
+        ]);
+        this.nodes.push({
+            name: 'MeshInstance3D',
+            type: 'MeshInstance3D',
+            parent: path,
+            groups: [],
+            properties: [
+                ['transform', this.transform(angles[high], [0, rise / 2, 0])],
+                ['mesh', `SubResource("${mesh}")`]
+            ]
+        });
+    }
+
+    /**
+     * Adds a stair body with a box per step
+     */
+    private addStair(stair: StairElement, parent: string): void {
+        const base = Math.min(stair.startElevation, stair.endElevation);
+        const path = this.addBody(stair, `Stair_${stair.id}`, base, parent);
+        this.addBoxes(getStairSteps(stair).map(step => this.toLocalBox(stair, step, base)), 'stair', path);
+    }
+
+    /**
+     * Adds a spawn marker, grouped by spawn type
+     */
+    private addSpawn(spawn: SpawnElement, parent: string): void {
+        this.nodes.push({
+            name: `Spawn_${spawn.id}`,
+            type: 'Marker3D',
+            parent,
+            groups: [spawn.spawnType, ...(spawn.tags ?? [])],
+            properties: [
+                ['transform', this.transform(0, [spawn.gridX + 0.5, spawn.elevation, spawn.gridY + 0.5])],
+                ...this.elementMetadata(spawn),
+                ['metadata/spawn_type', this.encode(spawn.spawnType)]
+            ]
+        });
+    }
+
+    /**
+     * Adds a StaticBody3D for an element, at the center of its footprint on its base elevation
+     * and turned by its rotation
+     * @returns Path of the body node
+     */
+    private addBody(element: AnyLevelElement, name: string, elevation: number, parent: string): string {
+        const [centerX, centerZ] = getElementCenter(element);
+        this.nodes.push({
+            name,
+            type: 'StaticBody3D',
+            parent,
+            groups: element.tags ?? [],
+            properties: [
+                // Clockwise in the 2D view is clockwise seen from above, i.e. negative about +Y
+                ['transform', this.transform(-getElementRotation(element), [centerX, elevation, centerZ])],
+                ...this.elementMetadata(element)
+            ]
+        });
+        return parent === '.' ? name : `${parent}/${name}`;
+    }
+
+    /**
+     * Converts an element box to a box relative to the element's body (its footprint center on
+     * the given elevation)
+     */
+    private toLocalBox(element: AnyLevelElement, box: ElementBox, elevation: number): LocalBox {
+        const [centerX, centerZ] = getElementCenter(element);
+        return {
+            position: [(box.x0 + box.x1) / 2 - centerX, (box.y0 + box.y1) / 2 - elevation, (box.z0 + box.z1) / 2 - centerZ],
+            size: [box.x1 - box.x0, box.y1 - box.y0, box.z1 - box.z0]
+        };
+    }
+
+    /**
+     * Adds a collision shape (and mesh) per box under a body
+     */
+    private addBoxes(boxes: LocalBox[], material: string, path: string): void {
+        boxes.forEach((box, i) => {
+            // Godot numbers repeated sibling names from 2
+            const suffix = i === 0 ? '' : String(i + 1);
+            const shape = this.addResource('BoxShape3D', [['size', this.vector(box.size)]]);
+
+            this.nodes.push({
+                name: `CollisionShape3D${suffix}`,
+                type: 'CollisionShape3D',
+                parent: path,
+                groups: [],
+                properties: [
+                    ['transform', this.transform(0, box.position)],
+                    ['shape', `SubResource("${shape}")`]
+                ]
+            });
+
+            if (!this.includeMeshes) return;
+
+            const mesh = this.addResource('BoxMesh', [
+                ['material', `SubResource("${this.addMaterial(material)}")`],
+                ['size', this.vector(box.size)]
+            ]);
+            this.nodes.push({
+                name: `MeshInstance3D${suffix}`,
+                type: 'MeshInstance3D',
+                parent: path,
+                groups: [],
+                properties: [
+                    ['transform', this.transform(0, box.position)],
+                    ['mesh', `SubResource("${mesh}")`]
+                ]
+            });
+        });
+    }
+
+    /**
+     * Gets the metadata every element node carries: its ID and custom properties
+     */
+    private elementMetadata(element: AnyLevelElement): Array<[string, string]> {
+        const metadata: Array<[string, string]> = [['metadata/element_id', this.encode(element.id)]];
+        const properties = getResolvedProperties(element, this.level.getPropertySchema());
+        if (Object.keys(properties).length > 0) {
+            metadata.push(['metadata/properties', this.encode(properties)]);
+        }
+        return metadata;
+    }
+
+    // ========== Resources ==========
+
+    /**
+     * Adds a sub resource, reusing an identical one
+     * @returns Resource ID
+     */
+    private addResource(type: string, properties: Array<[string, string]>): string {
+        const key = `${type}|${properties.map(([name, value]) => `${name}=${value}`).join('|')}`;
+        const existing = this.resourceIds.get(key);
+        if (existing) return existing;
+
+        const id = `${type}_${this.resources.length + 1}`;
+        this.resources.push({ id, type, properties });
+        this.resourceIds.set(key, id);
+        return id;
+    }
+
+    /**
+     * Adds the material for an element type
+     * @returns Resource ID
+     */
+    private addMaterial(name: string): string {
+        const color = this.MATERIAL_COLORS[name];
+        const channels = [color >> 16, (color >> 8) & 0xff, color & 0xff].map(c => this.number(c / 255));
+        return this.addResource('StandardMaterial3D', [
+            ['albedo_color', `Color(${channels.join(', ')}, 1)`]
+        ]);
+    }
+
+    // ========== Writing ==========
+
+    /**
+     * Writes the collected resources and nodes as .tscn text
+     */
+    private write(): string {
+        const sections = [`[gd_scene load_steps=${this.resources.length + 1} format=3]`];
+
+        this.resources.forEach(resource => {
+            sections.push([
+                `[sub_resource type="${resource.type}" id="${resource.id}"]`,
+                ...resource.properties.map(([name, value]) => `${name} = ${value}`)
+            ].join('\n'));
+        });
+
+        this.nodes.forEach(node => {
+            let header = `[node name=${this.encode(node.name)} type="${node.type}"`;
+            if (node.parent !== null) {
+                header += ` parent=${this.encode(node.parent)}`;
+            }
+            if (node.groups.length > 0) {
+                header += ` groups=${this.encode(Array.from(new Set(node.groups)))}`;
+            }
+            sections.push([
+                `${header}]`,
+                ...node.properties.map(([name, value]) => `${name} = ${value}`)
+            ].join('\n'));
+        });
+
+        return sections.join('\n\n') + '\n';
+    }
+
+    /**
+     * Encodes a value in Godot's text format (strings, numbers, booleans, arrays, dictionaries)
+     */
+    private encode(value: unknown): string {
+        if (typeof value === 'number') return this.number(value);
+        if (typeof value === 'boolean') return value ? 'true' : 'false';
+        if (Array.isArray(value)) return `[${value.map(item => this.encode(item)).join(', ')}]`;
+        if (value && typeof value === 'object') {
+            const entries = Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}: ${this.encode(item)}`);
+            return `{${entries.join(', ')}}`;
+        }
+        return JSON.stringify(String(value ?? ''));
+    }
+
+    /**
+     * Formats a number without floating point noise or negative zero
+     */
+    private number(value: number): string {
+        const rounded = Math.round(value * 1e6) / 1e6;
+        return String(rounded === 0 ? 0 : rounded);
+    }
+
+    /**
+     * Formats a Vector3
+     */
+    private vector([x, y, z]: [number, number, number]): string {
+        return `Vector3(${this.number(x)}, ${this.number(y)}, ${this.number(z)})`;
+    }
+
+    /**
+     * Formats a Transform3D turned by `degrees` about +Y (counter-clockwise seen from above)
+     */
+    private transform(degrees: number, [x, y, z]: [number, number, number]): string {
+        const angle = degrees * Math.PI / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        // Basis rows (as Godot writes Transform3D), then the origin
+        return `Transform3D(${[cos, 0, sin, 0, 1, 0, -sin, 0, cos, x, y, z].map(v => this.number(v)).join(', ')})`;
+    }
+
+    /**
+     * Makes a name safe for a Godot node (no . : @ / " % characters)
+     */
+    private toNodeName(name: string): string {
+        return name.replace(/[^a-z0-9]/gi, '_');
+    }
+
+    /**
+     * Gets the opposite slope direction
+     */
+    private opposite(direction: SlopeDirection): SlopeDirection {
+        const opposites: Record<SlopeDirection, SlopeDirection> = {
+            north: 'south', south: 'north', east: 'west', west: 'east'
+        };
+        return opposites[direction];
+    }
+}
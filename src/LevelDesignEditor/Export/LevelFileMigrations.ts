@@ -0,0 +1,273 @@
+/**
+ * Level File Migrations
+ * Upgrades level files saved by older versions of the editor, one version at a time
+ *
+ * To change the file format, bump LEVEL_FORMAT_VERSION and register a migration from the
+ * previous version here. Migrations run on the parsed JSON before it is validated, and record
+ * everything they repair or drop in the report
+ */
+
+import { DEFAULT_LAYER_ID, generateLayerId } from '../Domain/Level.js';
+import { DEFAULT_WALL_HEIGHT, ElementType } from '../Domain/LevelElement.js';
+import { JsonRecord, isOneOf, isRecord, isString } from '../Domain/JsonGuards.js';
+
+/**
+ * What happened to a file while loading it
+ */
+export interface LevelFileReport {
+    /** Version the file was saved with */
+    sourceVersion: string;
+    /** Migrations applied, oldest first (e.g. "1.0 → 1.1: ...") */
+    migrations: string[];
+    /** Values that were fixed or filled in, with their paths */
+    repaired: string[];
+    /** Parts that were removed, with their paths */
+    dropped: string[];
+}
+
+/**
+ * A step from one file version to the next
+ */
+export interface LevelFileMigration {
+    from: string;
+    to: string;
+    description: string;
+    /** Upgrades the parsed file in place */
+    migrate: (file: JsonRecord, report: LevelFileReport) => void;
+}
+
+/**
+ * Version assumed for files without one
+ */
+const UNVERSIONED_FILE_VERSION = '1.0';
+
+const migrations: LevelFileMigration[] = [];
+
+/**
+ * Registers a migration step
+ * Throws if a migration from the same version already exists
+ */
+export function registerLevelFileMigration(migration: LevelFileMigration): void {
+    if (migrations.some(m => m.from === migration.from)) {
+        throw new Error(`A migration from level file version ${migration.from} is already registered`);
+    }
+    migrations.push(migration);
+}
+
+/**
+ * Compares two "major.minor" versions (negative if a is older than b)
+ */
+export function compareFileVersions(a: string, b: string): number {
+    const [aMajor, aMinor] = a.split('.').map(Number);
+    const [bMajor, bMinor] = b.split('.').map(Number);
+    return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor;
+}
+
+/**
+ * Upgrades a parsed level file in place to the target version
+ * Throws if the file is newer than the target or no migration path exists
+ */
+export function migrateLevelFile(file: unknown, targetVersion: string): LevelFileReport {
+    if (!isRecord(file)) {
+        throw new Error('Level file must be a JSON object');
+    }
+
+    const repaired: string[] = [];
+    if (file.version === undefined) {
+        file.version = UNVERSIONED_FILE_VERSION;
+        repaired.push(`version: missing, assumed ${UNVERSIONED_FILE_VERSION}`);
+    }
+    let version = file.version;
+    if (!isString(version) || !/^\d+\.\d+$/.test(version)) {
+        throw new Error(`version must be a string like "${targetVersion}"`);
+    }
+    if (compareFileVersions(version, targetVersion) > 0) {
+        throw new Error(
+            `Level file version ${version} is newer than this editor supports (${targetVersion})`
+        );
+    }
+
+    const report: LevelFileReport = {
+        sourceVersion: version,
+        migrations: [],
+        repaired,
+        dropped: []
+    };
+
+    while (version !== targetVersion) {
+        const migration = migrations.find(m => m.from === version);
+        if (!migration) {
+            throw new Error(`No migration from level file version ${version}`);
+        }
+
+        migration.migrate(file, report);
+        version = migration.to;
+        file.version = version;
+        report.migrations.push(`${migration.from} → ${migration.to}: ${migration.description}`);
+    }
+
+    return report;
+}
+
+/**
+ * Upgrades elements saved outside a level file (e.g. copied to the clipboard) to the target
+ * version, by migrating them as the elements of an otherwise empty level
+ * Throws like migrateLevelFile
+ * @returns The migrated elements and what the migrations dropped
+ */
+export function migrateElements(
+    elements: unknown[],
+    version: unknown,
+    targetVersion: string
+): { elements: unknown[]; dropped: string[] } {
+    const level: JsonRecord = { elements };
+    const report = migrateLevelFile({ version, level }, targetVersion);
+
+    return {
+        elements: Array.isArray(level.elements) ? level.elements : [],
+        dropped: report.dropped
+    };
+}
+
+// ========== Migrations ==========
+
+const ELEMENT_TYPES: ElementType[] = ['wall', 'floor', 'spawn', 'ramp', 'stair', 'door', 'window'];
+const ROTATABLE_TYPES: ElementType[] = ['wall', 'floor', 'ramp', 'stair'];
+
+/**
+ * 1.0 covers every file saved before versioning was enforced, including ones from before layers
+ * and rotation existed. 1.1 requires the level settings, a layer list, known element types,
+ * unique IDs and valid layer and wall references
+ */
+registerLevelFileMigration({
+    from: '1.0',
+    to: '1.1',
+    description: 'fill in level settings and layers, and drop broken elements',
+    migrate: (file, report) => {
+        const level = file.level;
+        if (!isRecord(level)) return;
+
+        // Level settings (defaults as Level.fromJSON used to fill them in)
+        const metadataDefaults: Record<string, string> = {
+            name: 'Imported Level',
+            author: '',
+            description: '',
+            createdAt: new Date().toISOString(),
+            modifiedAt: new Date().toISOString()
+        };
+        if (level.metadata === undefined) {
+            level.metadata = {};
+        }
+        const metadata = level.metadata;
+        if (isRecord(metadata)) {
+            Object.entries(metadataDefaults).forEach(([key, value]) => {
+                if (metadata[key] === undefined) {
+                    metadata[key] = value;
+                    report.repaired.push(`metadata.${key}: missing, set to "${value}"`);
+                }
+            });
+        }
+
+        const settingDefaults: Record<string, number> = {
+            gridWidth: 20,
+            gridHeight: 20,
+            defaultWallHeight: DEFAULT_WALL_HEIGHT
+        };
+        Object.entries(settingDefaults).forEach(([key, value]) => {
+            if (level[key] === undefined) {
+                level[key] = value;
+                report.repaired.push(`${key}: missing, set to ${value}`);
+            }
+        });
+
+        // Files from before layers get the ground layer
+        const layers: unknown[] = Array.isArray(level.layers) ? level.layers : [];
+        if (layers.length === 0) {
+            layers.push({ id: DEFAULT_LAYER_ID, name: 'Ground Floor', baseElevation: 0, visible: true, locked: false });
+            level.layers = layers;
+            report.repaired.push('layers: missing, added "Ground Floor"');
+        } else {
+            layers.forEach((layer: unknown, i: number) => {
+                if (!isRecord(layer)) return;
+                const layerDefaults: Record<string, unknown> = {
+                    id: generateLayerId(),
+                    name: `Layer ${i + 1}`,
+                    baseElevation: 0,
+                    visible: true,
+                    locked: false
+                };
+                Object.entries(layerDefaults).forEach(([key, value]) => {
+                    if (layer[key] === undefined) {
+                        layer[key] = value;
+                        report.repaired.push(`layers[${i}].${key}: missing, set to ${JSON.stringify(value)}`);
+                    }
+                });
+            });
+        }
+
+        if (level.elements === undefined) {
+            level.elements = [];
+        }
+        const elements = level.elements;
+        const firstLayer = layers[0];
+        if (!Array.isArray(elements) || !isRecord(firstLayer)) return;
+
+        const layerIds = new Set(layers.filter(isRecord).map(layer => layer.id));
+        const seenIds = new Set<unknown>();
+
+        const kept = elements.filter((element: unknown, i: number): element is JsonRecord => {
+            const path = `elements[${i}]`;
+            if (!isRecord(element) || !isOneOf(element.type, ELEMENT_TYPES)) {
+                const type = isRecord(element) ? element.type : undefined;
+                report.dropped.push(`${path}: unknown element type ${JSON.stringify(type)}`);
+                return false;
+            }
+            if (isString(element.id) && seenIds.has(element.id)) {
+                report.dropped.push(`${path}: duplicate element ID "${element.id}"`);
+                return false;
+            }
+            seenIds.add(element.id);
+
+            // Elements without a layer are on the first one
+            if (element.layerId !== undefined && !layerIds.has(element.layerId)) {
+                report.repaired.push(`${path}.layerId: unknown layer "${element.layerId}", moved to "${firstLayer.name}"`);
+                element.layerId = firstLayer.id;
+            }
+
+            if (element.rotation !== undefined && !ROTATABLE_TYPES.includes(element.type)) {
+                delete element.rotation;
+                report.repaired.push(`${path}.rotation: ${element.type} elements do not rotate, removed`);
+            }
+            return true;
+        });
+
+        // Openings need their wall; older files could keep them after the wall was removed
+        const wallIds = new Set(kept.filter(element => element.type === 'wall').map(element => element.id));
+        level.elements = kept.filter(element => {
+            if ((element.type === 'door' || element.type === 'window') && !wallIds.has(element.wallId)) {
+                report.dropped.push(`${element.type} "${element.id}": its wall "${element.wallId}" is missing`);
+                return false;
+            }
+            return true;
+        });
+    }
+});
+
+/**
+ * 1.1 saved the property schema with every level; 1.2 keeps one schema per project and only
+ * embeds it next to the level in files saved for use elsewhere
+ */
+registerLevelFileMigration({
+    from: '1.1',
+    to: '1.2',
+    description: 'move the property schema out of the level',
+    migrate: file => {
+        const level = file.level;
+        if (!isRecord(level) || level.propertySchema === undefined) return;
+
+        if (file.propertySchema === undefined) {
+            file.propertySchema = level.propertySchema;
+        }
+        delete level.propertySchema;
+    }
+});
@@ -0,0 +1,347 @@
+/**
+ * Level File Validator
+ * Strict check of a level file against the current format (run after migrations)
+ *
+ * Errors name the exact value, relative to the level (e.g. "elements[3].wallHeight must be
+ * positive"); embedded prefabs are under "prefabs[i]" and an embedded schema under "propertySchema"
+ */
+
+import { ElementType, SlopeDirection, SpawnType } from '../Domain/LevelElement.js';
+import { parsePropertySchema } from '../Domain/ElementProperties.js';
+import { JsonRecord, isNumber, isOneOf, isRecord } from '../Domain/JsonGuards.js';
+
+const ELEMENT_TYPES: ElementType[] = ['wall', 'floor', 'spawn', 'ramp', 'stair', 'door', 'window'];
+const ROTATABLE_TYPES: ElementType[] = ['wall', 'floor', 'ramp', 'stair'];
+const SPAWN_TYPES: SpawnType[] = ['player', 'enemy', 'item'];
+const SLOPE_DIRECTIONS: SlopeDirection[] = ['north', 'east', 'south', 'west'];
+
+/**
+ * Rule for a numeric value
+ */
+type NumberRule = 'any' | 'positive' | 'non-negative' | 'positive-integer';
+
+/**
+ * Validates a parsed level file
+ * @returns Error messages with paths (empty if the file is valid)
+ */
+export function validateLevelFile(file: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!isRecord(file)) {
+        errors.push('level file must be an object');
+        return errors;
+    }
+    if (!isRecord(file.level)) {
+        errors.push('level must be an object');
+        return errors;
+    }
+    validateLevel(file.level, errors);
+
+    if (file.prefabs !== undefined) {
+        if (!Array.isArray(file.prefabs)) {
+            errors.push('prefabs must be an array');
+        } else {
+            file.prefabs.forEach((prefab: unknown, i: number) => validatePrefab(prefab, `prefabs[${i}]`, errors));
+        }
+    }
+
+    if (file.propertySchema !== undefined) {
+        try {
+            parsePropertySchema(file.propertySchema);
+        } catch (error) {
+            errors.push(`propertySchema: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Validates elements saved outside a level file (e.g. copied to the clipboard), which are on
+ * no layer
+ * @returns Error messages with paths (empty if the elements are valid)
+ */
+export function validateElementList(elements: unknown[]): string[] {
+    const errors: string[] = [];
+    validateElements(elements, 'elements', errors, null);
+    return errors;
+}
+
+/**
+ * Validates the level object
+ */
+function validateLevel(level: JsonRecord, errors: string[]): void {
+    const metadata = level.metadata;
+    if (!isRecord(metadata)) {
+        errors.push('metadata must be an object');
+    } else {
+        ['name', 'author', 'description', 'createdAt', 'modifiedAt'].forEach(key => {
+            checkString(metadata[key], `metadata.${key}`, errors, key !== 'name');
+        });
+    }
+
+    checkNumber(level.gridWidth, 'gridWidth', errors, 'positive-integer');
+    checkNumber(level.gridHeight, 'gridHeight', errors, 'positive-integer');
+    checkNumber(level.defaultWallHeight, 'defaultWallHeight', errors, 'positive');
+
+    const layerIds = new Set<string>();
+    if (!Array.isArray(level.layers) || level.layers.length === 0) {
+        errors.push('layers must be a non-empty array');
+    } else {
+        level.layers.forEach((layer: unknown, i: number) => {
+            const path = `layers[${i}]`;
+            if (!isRecord(layer)) {
+                errors.push(`${path} must be an object`);
+                return;
+            }
+            if (checkString(layer.id, `${path}.id`, errors)) {
+                if (layerIds.has(layer.id)) {
+                    errors.push(`${path}.id "${layer.id}" is used by another layer`);
+                }
+                layerIds.add(layer.id);
+            }
+            checkString(layer.name, `${path}.name`, errors);
+            checkNumber(layer.baseElevation, `${path}.baseElevation`, errors);
+            checkBoolean(layer.visible, `${path}.visible`, errors);
+            checkBoolean(layer.locked, `${path}.locked`, errors);
+        });
+    }
+
+    if (!Array.isArray(level.elements)) {
+        errors.push('elements must be an array');
+    } else {
+        validateElements(level.elements, 'elements', errors, layerIds);
+    }
+}
+
+/**
+ * Validates an embedded prefab
+ */
+function validatePrefab(prefab: unknown, path: string, errors: string[]): void {
+    if (!isRecord(prefab)) {
+        errors.push(`${path} must be an object`);
+        return;
+    }
+    checkString(prefab.id, `${path}.id`, errors);
+    checkString(prefab.name, `${path}.name`, errors);
+    checkString(prefab.modifiedAt, `${path}.modifiedAt`, errors);
+
+    if (!Array.isArray(prefab.elements)) {
+        errors.push(`${path}.elements must be an array`);
+    } else {
+        validateElements(prefab.elements, `${path}.elements`, errors, null);
+    }
+}
+
+/**
+ * Validates a list of elements, including IDs, layers and wall references
+ * @param layerIds Layers elements may be on (null for prefab elements, which have no layer)
+ */
+function validateElements(elements: unknown[], path: string, errors: string[], layerIds: Set<string> | null): void {
+    const idIndices = new Map<string, number>();
+    const wallIds = new Set(
+        elements.filter(isRecord).filter(element => element.type === 'wall').map(element => element.id)
+    );
+
+    elements.forEach((element, i) => {
+        const elementPath = `${path}[${i}]`;
+        if (!isRecord(element)) {
+            errors.push(`${elementPath} must be an object`);
+            return;
+        }
+
+        if (checkString(element.id, `${elementPath}.id`, errors)) {
+            const first = idIndices.get(element.id);
+            if (first !== undefined) {
+                errors.push(`${elementPath}.id "${element.id}" is also used by ${path}[${first}]`);
+            } else {
+                idIndices.set(element.id, i);
+            }
+        }
+
+        const type = element.type;
+        if (!isOneOf(type, ELEMENT_TYPES)) {
+            errors.push(`${elementPath}.type must be one of ${ELEMENT_TYPES.join(', ')}`);
+            return;
+        }
+
+        validateElement(element, type, elementPath, errors);
+
+        // Elements without a layer are on the first one
+        if (layerIds && element.layerId !== undefined
+            && checkString(element.layerId, `${elementPath}.layerId`, errors)
+            && !layerIds.has(element.layerId)) {
+            errors.push(`${elementPath}.layerId refers to missing layer "${element.layerId}"`);
+        }
+
+        if ((type === 'door' || type === 'window')
+            && checkString(element.wallId, `${elementPath}.wallId`, errors)
+            && !wallIds.has(element.wallId)) {
+            errors.push(`${elementPath}.wallId refers to missing wall "${element.wallId}"`);
+        }
+    });
+}
+
+/**
+ * Validates the fields of a single element
+ */
+function validateElement(element: JsonRecord, type: ElementType, path: string, errors: string[]): void {
+    checkNumber(element.gridX, `${path}.gridX`, errors);
+    checkNumber(element.gridY, `${path}.gridY`, errors);
+    checkNumber(element.width, `${path}.width`, errors, 'positive');
+    checkNumber(element.depth, `${path}.depth`, errors, 'positive');
+
+    if (element.rotation !== undefined) {
+        if (ROTATABLE_TYPES.includes(type)) {
+            checkNumber(element.rotation, `${path}.rotation`, errors);
+        } else {
+            errors.push(`${path}.rotation is not allowed on ${type} elements`);
+        }
+    }
+
+    switch (type) {
+        case 'wall':
+            checkNumber(element.wallHeight, `${path}.wallHeight`, errors, 'positive');
+            checkNumber(element.elevation, `${path}.elevation`, errors);
+            break;
+        case 'floor':
+            checkNumber(element.elevation, `${path}.elevation`, errors);
+            checkNumber(element.thickness, `${path}.thickness`, errors, 'positive');
+            break;
+        case 'spawn':
+            checkOneOf(element.spawnType, `${path}.spawnType`, SPAWN_TYPES, errors);
+            checkNumber(element.elevation, `${path}.elevation`, errors);
+            break;
+        case 'ramp':
+        case 'stair':
+            checkOneOf(element.direction, `${path}.direction`, SLOPE_DIRECTIONS, errors);
+            checkNumber(element.startElevation, `${path}.startElevation`, errors);
+            checkNumber(element.endElevation, `${path}.endElevation`, errors);
+            if (type === 'stair') {
+                checkNumber(element.stepCount, `${path}.stepCount`, errors, 'positive-integer');
+            }
+            break;
+        case 'door':
+        case 'window':
+            checkNumber(element.height, `${path}.height`, errors, 'positive');
+            checkNumber(element.sillHeight, `${path}.sillHeight`, errors, 'non-negative');
+            break;
+    }
+
+    if (element.prefab !== undefined) {
+        validatePrefabLink(element.prefab, `${path}.prefab`, errors);
+    }
+
+    if (element.properties !== undefined) {
+        if (!isRecord(element.properties)) {
+            errors.push(`${path}.properties must be an object`);
+        } else {
+            Object.entries(element.properties).forEach(([key, value]) => {
+                const valid = typeof value === 'string' || typeof value === 'boolean' || isNumber(value);
+                if (!valid) {
+                    errors.push(`${path}.properties.${key} must be a string, number or boolean`);
+                }
+            });
+        }
+    }
+
+    if (element.tags !== undefined) {
+        if (!Array.isArray(element.tags)) {
+            errors.push(`${path}.tags must be an array`);
+        } else {
+            element.tags.forEach((tag: unknown, i: number) => checkString(tag, `${path}.tags[${i}]`, errors));
+        }
+    }
+}
+
+/**
+ * Validates the link from a stamped element to its prefab
+ */
+function validatePrefabLink(link: unknown, path: string, errors: string[]): void {
+    if (!isRecord(link)) {
+        errors.push(`${path} must be an object`);
+        return;
+    }
+    checkString(link.prefabId, `${path}.prefabId`, errors);
+    checkString(link.instanceId, `${path}.instanceId`, errors);
+    checkString(link.sourceId, `${path}.sourceId`, errors);
+
+    const placement = link.placement;
+    if (!isRecord(placement)) {
+        errors.push(`${path}.placement must be an object`);
+        return;
+    }
+    checkNumber(placement.x, `${path}.placement.x`, errors);
+    checkNumber(placement.y, `${path}.placement.y`, errors);
+    checkNumber(placement.rotation, `${path}.placement.rotation`, errors);
+    checkBoolean(placement.mirrored, `${path}.placement.mirrored`, errors);
+}
+
+// ========== Value checks ==========
+
+/**
+ * Checks a number against a rule
+ * @returns Whether the value is valid
+ */
+function checkNumber(value: unknown, path: string, errors: string[], rule: NumberRule = 'any'): boolean {
+    if (value === undefined) {
+        errors.push(`${path} is required`);
+        return false;
+    }
+    if (!isNumber(value)) {
+        errors.push(`${path} must be a number`);
+        return false;
+    }
+
+    const messages: Record<NumberRule, string | null> = {
+        'any': null,
+        'positive': value > 0 ? null : 'must be positive',
+        'non-negative': value >= 0 ? null : 'must not be negative',
+        'positive-integer': Number.isInteger(value) && value > 0 ? null : 'must be a positive integer'
+    };
+    const message = messages[rule];
+    if (message) {
+        errors.push(`${path} ${message}`);
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Checks a string (non-empty unless allowed)
+ * @returns Whether the value is valid
+ */
+function checkString(value: unknown, path: string, errors: string[], allowEmpty: boolean = false): value is string {
+    if (value === undefined) {
+        errors.push(`${path} is required`);
+        return false;
+    }
+    if (typeof value !== 'string') {
+        errors.push(`${path} must be a string`);
+        return false;
+    }
+    if (!allowEmpty && value.trim() === '') {
+        errors.push(`${path} must not be empty`);
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Checks a boolean
+ */
+function checkBoolean(value: unknown, path: string, errors: string[]): void {
+    if (typeof value !== 'boolean') {
+        errors.push(`${path} must be true or false`);
+    }
+}
+
+/**
+ * Checks that a value is one of the allowed options
+ */
+function checkOneOf(value: unknown, path: string, options: string[], errors: string[]): void {
+    if (!isOneOf(value, options)) {
+        errors.push(`${path} must be one of ${options.join(', ')}`);
+    }
+}
+
@@ -0,0 +1,436 @@
+/**
+ * Level Geometry Builder
+ * Builds the level's meshes from the Level data alone, without three.js or the DOM; GLBWriter
+ * writes them for both the browser export (GLTFLevelExporter) and Node (cli.ts)
+ *
+ * The result matches the 3D preview: walls split around their openings, wedge ramps, one box
+ * per stair step, spawn markers and window panes, with the same colors. Each element is a node
+ * placed at its center and turned by its rotation; doors and windows are turned with their wall
+ *
+ * Nodes carry extras for engine import scripts (element ID, type, custom properties, tags,
+ * opening dimensions)
+ */
+
+import { Level, LevelLayer } from '../Domain/Level.js';
+import { getResolvedProperties } from '../Domain/ElementProperties.js';
+import {
+    AnyLevelElement,
+    AnyOpeningElement,
+    ElementBox,
+    FloorElement,
+    RampElement,
+    SpawnElement,
+    SpawnType,
+    StairElement,
+    WallElement,
+    RAMP_FACES,
+    getElementCenter,
+    getElementRotation,
+    getRampCorners,
+    getStairSteps,
+    getWallAxis,
+    isOpeningElement,
+    isWallElement,
+    splitWallAroundOpenings
+} from '../Domain/LevelElement.js';
+
+/**
+ * A point or vector (X/Z from the grid, Y up)
+ */
+export type Vec3 = [number, number, number];
+
+/**
+ * Material names used by the level geometry
+ */
+export type GeometryMaterialName = 'wall' | 'floor' | 'ramp' | 'stair' | 'window' | `spawn_${SpawnType}`;
+
+/**
+ * A PBR material (color as 0xRRGGBB in sRGB)
+ */
+export interface GeometryMaterial {
+    color: number;
+    opacity: number;
+    roughness: number;
+    metalness: number;
+}
+
+/**
+ * Materials, matching the 3D preview
+ */
+export const LEVEL_MATERIALS: Record<GeometryMaterialName, GeometryMaterial> = {
+    wall: { color: 0x718096, opacity: 1, roughness: 0.7, metalness: 0.1 },
+    floor: { color: 0xa0aec0, opacity: 1, roughness: 0.8, metalness: 0 },
+    ramp: { color: 0x90cdf4, opacity: 1, roughness: 0.8, metalness: 0 },
+    stair: { color: 0xb794f4, opacity: 1, roughness: 0.8, metalness: 0 },
+    window: { color: 0xbee3f8, opacity: 0.35, roughness: 0.1, metalness: 0 },
+    spawn_player: { color: 0x48bb78, opacity: 1, roughness: 0.5, metalness: 0.2 },
+    spawn_enemy: { color: 0xf56565, opacity: 1, roughness: 0.5, metalness: 0.2 },
+    spawn_item: { color: 0xecc94b, opacity: 1, roughness: 0.5, metalness: 0.3 }
+};
+
+/**
+ * A triangle mesh with flat normals
+ */
+export interface GeometryMesh {
+    material: GeometryMaterialName;
+    /** XYZ per vertex */
+    positions: number[];
+    /** XYZ per vertex */
+    normals: number[];
+    /** Three vertex indices per triangle, counter-clockwise seen from outside */
+    indices: number[];
+}
+
+/**
+ * A node of the level scene
+ */
+export interface GeometryNode {
+    name: string;
+    translation: Vec3;
+    /** Quaternion (x, y, z, w) */
+    rotation: [number, number, number, number];
+    mesh?: GeometryMesh;
+    extras?: Record<string, unknown>;
+    children: GeometryNode[];
+}
+
+/**
+ * Build options
+ */
+export interface GeometryBuildOptions {
+    /** Build only this layer (all layers if unset) */
+    layerId?: string;
+}
+
+/**
+ * Collects flat-shaded faces into a mesh
+ */
+class MeshBuilder {
+    private positions: number[] = [];
+    private normals: number[] = [];
+    private indices: number[] = [];
+
+    /**
+     * Adds a flat convex polygon, wound so its normal points away from `inside`
+     * Degenerate faces (e.g. the zero-height end of a ramp) are skipped
+     */
+    addFace(corners: Vec3[], inside: Vec3): void {
+        const [a, b, c] = corners;
+        const u = subtract(b, a);
+        const v = subtract(c, a);
+        let normal: Vec3 = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+        const length = Math.hypot(...normal);
+        if (length < 1e-9) return;
+
+        normal = normal.map(n => n / length) as Vec3;
+        const facing = subtract(a, inside);
+        if (normal[0] * facing[0] + normal[1] * facing[1] + normal[2] * facing[2] < 0) {
+            corners = [...corners].reverse();
+            normal = normal.map(n => -n) as Vec3;
+        }
+
+        const first = this.positions.length / 3;
+        corners.forEach(corner => {
+            this.positions.push(...corner);
+            this.normals.push(...normal);
+        });
+        for (let i = 1; i < corners.length - 1; i++) {
+            this.indices.push(first, first + i, first + i + 1);
+        }
+    }
+
+    /**
+     * Adds an axis-aligned box
+     */
+    addBox(center: Vec3, size: Vec3): void {
+        const [x0, y0, z0] = center.map((c, i) => c - size[i] / 2);
+        const [x1, y1, z1] = center.map((c, i) => c + size[i] / 2);
+        const faces: Vec3[][] = [
+            [[x1, y0, z0], [x1, y1, z0], [x1, y1, z1], [x1, y0, z1]],
+            [[x0, y0, z0], [x0, y0, z1], [x0, y1, z1], [x0, y1, z0]],
+            [[x0, y1, z0], [x0, y1, z1], [x1, y1, z1], [x1, y1, z0]],
+            [[x0, y0, z0], [x1, y0, z0], [x1, y0, z1], [x0, y0, z1]],
+            [[x0, y0, z1], [x1, y0, z1], [x1, y1, z1], [x0, y1, z1]],
+            [[x0, y0, z0], [x0, y1, z0], [x1, y1, z0], [x1, y0, z0]]
+        ];
+        faces.forEach(face => this.addFace(face, center));
+    }
+
+    /**
+     * Adds an element box (see ElementBox), placed relative to an origin
+     */
+    addElementBox(box: ElementBox, origin: Vec3): void {
+        this.addBox(
+            subtract([(box.x0 + box.x1) / 2, (box.y0 + box.y1) / 2, (box.z0 + box.z1) / 2], origin),
+            [box.x1 - box.x0, box.y1 - box.y0, box.z1 - box.z0]
+        );
+    }
+
+    /**
+     * Adds an upright cylinder (faceted sides)
+     */
+    addCylinder(center: Vec3, radius: number, height: number, segments: number): void {
+        const [cx, cy, cz] = center;
+        const ring = Array.from({ length: segments }, (_, i): [number, number] => {
+            const angle = (i / segments) * Math.PI * 2;
+            return [cx + Math.cos(angle) * radius, cz + Math.sin(angle) * radius];
+        });
+        const bottom = cy - height / 2;
+        const top = cy + height / 2;
+
+        ring.forEach(([x, z], i) => {
+            const [nextX, nextZ] = ring[(i + 1) % segments];
+            this.addFace([[x, bottom, z], [nextX, bottom, nextZ], [nextX, top, nextZ], [x, top, z]], center);
+        });
+        this.addFace(ring.map(([x, z]): Vec3 => [x, top, z]), center);
+        this.addFace(ring.map(([x, z]): Vec3 => [x, bottom, z]), center);
+    }
+
+    /**
+     * Gets the collected mesh
+     */
+    toMesh(material: GeometryMaterialName): GeometryMesh {
+        return {
+            material,
+            positions: this.positions,
+            normals: this.normals,
+            indices: this.indices
+        };
+    }
+}
+
+/**
+ * Level Geometry Builder class
+ */
+export class LevelGeometryBuilder {
+    private level: Level;
+
+    constructor(level: Level) {
+        this.level = level;
+    }
+
+    /**
+     * Builds the level scene: a `Level` root with a `Layer_<name>` node per layer
+     */
+    build(options: GeometryBuildOptions = {}): GeometryNode {
+        const layers = this.level.getLayers()
+            .filter(layer => !options.layerId || layer.id === options.layerId)
+            .map(layer => this.buildLayer(layer));
+
+        return {
+            name: 'Level',
+            translation: [0, 0, 0],
+            rotation: [0, 0, 0, 1],
+            extras: { levelName: this.level.getName() },
+            children: layers
+        };
+    }
+
+    /**
+     * Builds a layer node and its elements
+     */
+    private buildLayer(layer: LevelLayer): GeometryNode {
+        const elements = this.level.getElementsOnLayer(layer.id);
+        const openings = elements.filter(isOpeningElement);
+
+        const children: GeometryNode[] = [];
+        elements.forEach(element => {
+            switch (element.type) {
+                case 'wall':
+                    children.push(this.buildWall(element, openings.filter(opening => opening.wallId === element.id)));
+                    break;
+                case 'door':
+                case 'window':
+                    children.push(this.buildOpening(element));
+                    break;
+                case 'floor':
+                    children.push(this.buildFloor(element));
+                    break;
+                case 'ramp':
+                    children.push(this.buildRamp(element));
+                    break;
+                case 'stair':
+                    children.push(this.buildStair(element));
+                    break;
+                case 'spawn':
+                    children.push(this.buildSpawn(element));
+                    break;
+            }
+        });
+
+        return {
+            name: `Layer_${layer.name.replace(/[^a-z0-9]/gi, '_')}`,
+            translation: [0, 0, 0],
+            rotation: [0, 0, 0, 1],
+            extras: { layerId: layer.id, layerName: layer.name, baseElevation: layer.baseElevation },
+            children
+        };
+    }
+
+    /**
+     * Builds a wall, split into boxes around its openings
+     */
+    private buildWall(wall: WallElement, openings: AnyOpeningElement[]): GeometryNode {
+        const anchor = this.getAnchor(wall, wall.elevation);
+        const mesh = new MeshBuilder();
+
+        splitWallAroundOpenings(wall, openings).forEach(piece => mesh.addElementBox(piece, anchor));
+
+        return this.createElementNode(wall, `Wall_${wall.id}`, anchor, mesh.toMesh('wall'));
+    }
+
+    /**
+     * Builds a door or window node; windows also get a glass pane
+     */
+    private buildOpening(opening: AnyOpeningElement): GeometryNode {
+        const wall = this.level.getElement(opening.wallId);
+        const baseElevation = wall && isWallElement(wall) ? wall.elevation : 0;
+        const [centerX, centerZ] = getElementCenter(opening);
+        const anchor: Vec3 = [centerX, baseElevation + opening.sillHeight + opening.height / 2, centerZ];
+
+        const node = this.createElementNode(
+            opening,
+            `${opening.type === 'door' ? 'Door' : 'Window'}_${opening.id}`,
+            anchor
+        );
+        node.extras = {
+            ...node.extras,
+            openingType: opening.type,
+            wallId: opening.wallId,
+            width: opening.width,
+            depth: opening.depth,
+            height: opening.height,
+            sillHeight: opening.sillHeight,
+            rotation: wall ? getElementRotation(wall) : 0
+        };
+
+        if (opening.type === 'window') {
+            const alongX = wall && isWallElement(wall) ? getWallAxis(wall) === 'x' : opening.width >= opening.depth;
+            const pane = new MeshBuilder();
+            pane.addBox([0, 0, 0], [alongX ? opening.width : 0.02, opening.height, alongX ? 0.02 : opening.depth]);
+            node.children.push({
+                name: `${node.name}_Glass`,
+                translation: [0, 0, 0],
+                rotation: [0, 0, 0, 1],
+                mesh: pane.toMesh('window'),
+                children: []
+            });
+        }
+
+        return node;
+    }
+
+    /**
+     * Builds a floor slab
+     */
+    private buildFloor(floor: FloorElement): GeometryNode {
+        const anchor = this.getAnchor(floor, floor.elevation);
+        const mesh = new MeshBuilder();
+        mesh.addBox([0, floor.thickness / 2, 0], [floor.width, floor.thickness, floor.depth]);
+        return this.createElementNode(floor, `Floor_${floor.id}`, anchor, mesh.toMesh('floor'));
+    }
+
+    /**
+     * Builds a ramp wedge
+     */
+    private buildRamp(ramp: RampElement): GeometryNode {
+        const anchor = this.getAnchor(ramp, Math.min(ramp.startElevation, ramp.endElevation));
+        const corners = getRampCorners(ramp).map(corner => subtract(corner, anchor));
+
+        // Halfway up at the center, which is inside the wedge
+        const inside: Vec3 = [0, corners.slice(4).reduce((sum, corner) => sum + corner[1], 0) / 8, 0];
+
+        const mesh = new MeshBuilder();
+        RAMP_FACES.forEach(face => {
+            const points = face.map(i => corners[i]);
+            // Drop the repeated corners of the zero-height end
+            const unique = points.filter((point, i) => !points.slice(0, i).some(other => distance(other, point) < 1e-9));
+            if (unique.length >= 3) mesh.addFace(unique, inside);
+        });
+
+        return this.createElementNode(ramp, `Ramp_${ramp.id}`, anchor, mesh.toMesh('ramp'));
+    }
+
+    /**
+     * Builds a stair with a box per step
+     */
+    private buildStair(stair: StairElement): GeometryNode {
+        const anchor = this.getAnchor(stair, Math.min(stair.startElevation, stair.endElevation));
+        const mesh = new MeshBuilder();
+        getStairSteps(stair).forEach(step => mesh.addElementBox(step, anchor));
+        return this.createElementNode(stair, `Stair_${stair.id}`, anchor, mesh.toMesh('stair'));
+    }
+
+    /**
+     * Builds a spawn marker: a disc with a pole, as in the preview
+     */
+    private buildSpawn(spawn: SpawnElement): GeometryNode {
+        const anchor: Vec3 = [spawn.gridX + 0.5, spawn.elevation, spawn.gridY + 0.5];
+        const mesh = new MeshBuilder();
+        mesh.addCylinder([0, 0.05, 0], 0.3, 0.1, 16);
+        mesh.addCylinder([0, 0.9, 0], 0.05, 1.8, 8);
+
+        const node = this.createElementNode(spawn, `Spawn_${spawn.id}`, anchor, mesh.toMesh(`spawn_${spawn.spawnType}`));
+        node.extras = { ...node.extras, spawnType: spawn.spawnType };
+        return node;
+    }
+
+    /**
+     * Gets the center of an element's footprint at the given elevation
+     */
+    private getAnchor(element: AnyLevelElement, elevation: number): Vec3 {
+        const [centerX, centerZ] = getElementCenter(element);
+        return [centerX, elevation, centerZ];
+    }
+
+    /**
+     * Creates an element node at its anchor, turned about the center of its frame
+     * (clockwise in the 2D view is clockwise seen from above, i.e. negative about +Y)
+     */
+    private createElementNode(
+        element: AnyLevelElement,
+        name: string,
+        anchor: Vec3,
+        mesh?: GeometryMesh
+    ): GeometryNode {
+        const frame = this.level.getElementFrame(element);
+        const angle = -getElementRotation(frame) * Math.PI / 180;
+        const [pivotX, pivotZ] = getElementCenter(frame);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const dx = anchor[0] - pivotX;
+        const dz = anchor[2] - pivotZ;
+
+        const extras: Record<string, unknown> = { elementId: element.id, elementType: element.type };
+        const properties = getResolvedProperties(element, this.level.getPropertySchema());
+        if (Object.keys(properties).length > 0) {
+            extras.properties = properties;
+        }
+        if (element.tags && element.tags.length > 0) {
+            extras.tags = [...element.tags];
+        }
+
+        return {
+            name,
+            translation: [pivotX + dx * cos + dz * sin, anchor[1], pivotZ - dx * sin + dz * cos],
+            rotation: [0, Math.sin(angle / 2), 0, Math.cos(angle / 2)],
+            mesh: mesh && mesh.indices.length > 0 ? mesh : undefined,
+            extras,
+            children: []
+        };
+    }
+}
+
+/**
+ * Subtracts two vectors
+ */
+function subtract(a: Vec3, b: Vec3): Vec3 {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+/**
+ * Distance between two points
+ */
+function distance(a: Vec3, b: Vec3): number {
+    return Math.hypot(...subtract(a, b));
+}
@@ -0,0 +1,389 @@
+/**
+ * Level Library
+ * Keeps any number of levels in the browser's IndexedDB, each with a thumbnail, a history
+ * of timestamped snapshots and its playtest telemetry runs
+ *
+ * Levels are stored as level files (see LevelSerializer), so they load through the same
+ * migrations and validation as files opened from disk
+ */
+
+import { Level } from '../Domain/Level.js';
+import { Prefab } from '../Domain/Prefab.js';
+import { TelemetryRun } from '../Domain/PlaytestTelemetry.js';
+import { LevelFileContents, LevelSerializer } from './LevelSerializer.js';
+
+/**
+ * A level in the library, without its data
+ */
+export interface LevelLibraryEntry {
+    id: string;
+    name: string;
+    /** From the level's metadata */
+    createdAt: string;
+    modifiedAt: string;
+    elementCount: number;
+    /** PNG data URL (empty until the level is saved from the editor) */
+    thumbnail: string;
+}
+
+/**
+ * A saved state of a library level, without its data
+ */
+export interface LevelSnapshotInfo {
+    id: string;
+    levelId: string;
+    createdAt: string;
+    elementCount: number;
+}
+
+/**
+ * Sort orders for the level list
+ */
+export type LevelLibrarySort = 'modified' | 'created' | 'name';
+
+/**
+ * Callback type for library change notifications
+ */
+export type LevelLibraryChangeCallback = (library: LevelLibrary) => void;
+
+/**
+ * Stored records: the summary plus the serialized level file
+ */
+interface StoredLevel extends LevelLibraryEntry {
+    data: string;
+}
+
+interface StoredSnapshot extends LevelSnapshotInfo {
+    data: string;
+}
+
+interface StoredRun extends TelemetryRun {
+    levelId: string;
+}
+
+const DATABASE_NAME = 'levelDesignEditor';
+const DATABASE_VERSION = 2;
+const LEVEL_STORE = 'levels';
+const SNAPSHOT_STORE = 'snapshots';
+const TELEMETRY_STORE = 'telemetry';
+
+/**
+ * Snapshots kept per level; older ones are deleted as new ones are taken
+ */
+export const MAX_SNAPSHOTS_PER_LEVEL = 20;
+
+/**
+ * Generates a unique library ID
+ */
+function generateLibraryId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolves when a transaction has committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+}
+
+/**
+ * Level Library class
+ */
+export class LevelLibrary {
+    private db: IDBDatabase;
+    private changeCallbacks: LevelLibraryChangeCallback[] = [];
+
+    /**
+     * Opens (creating on first use) the library database
+     * Rejects if IndexedDB is unavailable, e.g. in some private browsing modes
+     */
+    static async open(): Promise<LevelLibrary> {
+        if (typeof indexedDB === 'undefined') {
+            throw new Error('IndexedDB is not available');
+        }
+
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(LEVEL_STORE)) {
+                db.createObjectStore(LEVEL_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+                const snapshots = db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+                snapshots.createIndex('levelId', 'levelId');
+            }
+            // Added in version 2
+            if (!db.objectStoreNames.contains(TELEMETRY_STORE)) {
+                const runs = db.createObjectStore(TELEMETRY_STORE, { keyPath: 'id' });
+                runs.createIndex('levelId', 'levelId');
+            }
+        };
+
+        return new LevelLibrary(await requestResult(request));
+    }
+
+    private constructor(db: IDBDatabase) {
+        this.db = db;
+    }
+
+    /**
+     * Lists the levels in the library
+     */
+    async list(sort: LevelLibrarySort = 'modified'): Promise<LevelLibraryEntry[]> {
+        const records = await requestResult<StoredLevel[]>(
+            this.db.transaction(LEVEL_STORE).objectStore(LEVEL_STORE).getAll()
+        );
+        const entries: LevelLibraryEntry[] = records.map(({ data, ...entry }) => entry);
+
+        // ISO timestamps sort as strings; newest first
+        const comparators: Record<LevelLibrarySort, (a: LevelLibraryEntry, b: LevelLibraryEntry) => number> = {
+            modified: (a, b) => b.modifiedAt.localeCompare(a.modifiedAt),
+            created: (a, b) => b.createdAt.localeCompare(a.createdAt),
+            name: (a, b) => a.name.localeCompare(b.name)
+        };
+        return entries.sort(comparators[sort]);
+    }
+
+    /**
+     * Gets a level's summary
+     */
+    async get(id: string): Promise<LevelLibraryEntry | undefined> {
+        const record = await this.getRecord(id);
+        if (!record) return undefined;
+
+        const { data, ...entry } = record;
+        return entry;
+    }
+
+    /**
+     * Loads a level and the prefabs saved with it
+     * Throws if the level is not in the library
+     */
+    async load(id: string): Promise<LevelFileContents> {
+        const record = await this.getRecord(id);
+        if (!record) {
+            throw new Error(`Level "${id}" is not in the library`);
+        }
+        return LevelSerializer.deserializeFile(record.data);
+    }
+
+    /**
+     * Adds a level to the library
+     * @returns The new level's ID
+     */
+    async create(level: Level, prefabs: Prefab[] = [], thumbnail: string = ''): Promise<string> {
+        const id = generateLibraryId('level');
+        await this.putRecord(this.createRecord(id, level, prefabs, thumbnail));
+        return id;
+    }
+
+    /**
+     * Saves a level over its library entry (adding it if missing)
+     * @param thumbnail New thumbnail (the stored one is kept if unset)
+     */
+    async save(id: string, level: Level, prefabs: Prefab[] = [], thumbnail?: string): Promise<void> {
+        const existing = thumbnail === undefined ? await this.getRecord(id) : undefined;
+        await this.putRecord(this.createRecord(id, level, prefabs, thumbnail ?? existing?.thumbnail ?? ''));
+    }
+
+    /**
+     * Renames a stored level
+     * The level open in the editor is renamed through the level instead, so autosave keeps the name
+     */
+    async rename(id: string, name: string): Promise<void> {
+        const record = await this.getRecord(id);
+        if (!record) return;
+
+        const { level, prefabs } = LevelSerializer.deserializeFile(record.data);
+        level.setName(name);
+        await this.putRecord(this.createRecord(id, level, prefabs, record.thumbnail));
+    }
+
+    /**
+     * Copies a level under a new ID (without its snapshots and telemetry)
+     * @returns The copy's ID
+     */
+    async duplicate(id: string): Promise<string> {
+        const record = await this.getRecord(id);
+        if (!record) {
+            throw new Error(`Level "${id}" is not in the library`);
+        }
+
+        const { level, prefabs } = LevelSerializer.deserializeFile(record.data);
+        level.setMetadata({ name: `${level.getName()} (copy)`, createdAt: new Date().toISOString() });
+        return this.create(level, prefabs, record.thumbnail);
+    }
+
+    /**
+     * Removes a level, its snapshots and its telemetry runs
+     */
+    async remove(id: string): Promise<void> {
+        const transaction = this.db.transaction([LEVEL_STORE, SNAPSHOT_STORE, TELEMETRY_STORE], 'readwrite');
+        transaction.objectStore(LEVEL_STORE).delete(id);
+
+        for (const storeName of [SNAPSHOT_STORE, TELEMETRY_STORE]) {
+            const store = transaction.objectStore(storeName);
+            const keys = await requestResult(store.index('levelId').getAllKeys(id));
+            keys.forEach(key => store.delete(key));
+        }
+
+        await transactionDone(transaction);
+        this.notifyChange();
+    }
+
+    /**
+     * Saves the current state of a level as a snapshot, dropping the oldest beyond
+     * MAX_SNAPSHOTS_PER_LEVEL
+     */
+    async addSnapshot(levelId: string, level: Level, prefabs: Prefab[] = []): Promise<void> {
+        const snapshot: StoredSnapshot = {
+            id: generateLibraryId('snapshot'),
+            levelId,
+            createdAt: new Date().toISOString(),
+            elementCount: level.getElementCount(),
+            data: LevelSerializer.serialize(level, prefabs)
+        };
+
+        const transaction = this.db.transaction(SNAPSHOT_STORE, 'readwrite');
+        const store = transaction.objectStore(SNAPSHOT_STORE);
+        store.put(snapshot);
+
+        const existing = await requestResult<StoredSnapshot[]>(store.index('levelId').getAll(levelId));
+        existing
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+            .slice(MAX_SNAPSHOTS_PER_LEVEL)
+            .forEach(old => store.delete(old.id));
+
+        await transactionDone(transaction);
+        this.notifyChange();
+    }
+
+    /**
+     * Lists a level's snapshots, newest first
+     */
+    async getSnapshots(levelId: string): Promise<LevelSnapshotInfo[]> {
+        const records = await requestResult<StoredSnapshot[]>(
+            this.db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).index('levelId').getAll(levelId)
+        );
+        return records
+            .map(({ data, ...info }) => info)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    /**
+     * Loads the level saved in a snapshot
+     * Throws if the snapshot does not exist
+     */
+    async loadSnapshot(snapshotId: string): Promise<LevelFileContents & { levelId: string }> {
+        const record = await requestResult<StoredSnapshot | undefined>(
+            this.db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).get(snapshotId)
+        );
+        if (!record) {
+            throw new Error(`Snapshot "${snapshotId}" is not in the library`);
+        }
+        return { ...LevelSerializer.deserializeFile(record.data), levelId: record.levelId };
+    }
+
+    /**
+     * Stores a playtest telemetry run with a level
+     */
+    async addRun(levelId: string, run: TelemetryRun): Promise<void> {
+        const transaction = this.db.transaction(TELEMETRY_STORE, 'readwrite');
+        transaction.objectStore(TELEMETRY_STORE).put({ ...run, levelId } as StoredRun);
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Lists a level's telemetry runs, oldest first
+     */
+    async getRuns(levelId: string): Promise<TelemetryRun[]> {
+        const records = await requestResult<StoredRun[]>(
+            this.db.transaction(TELEMETRY_STORE).objectStore(TELEMETRY_STORE).index('levelId').getAll(levelId)
+        );
+        return records
+            .map(({ levelId, ...run }) => run)
+            .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+    }
+
+    /**
+     * Removes a telemetry run
+     */
+    async removeRun(runId: string): Promise<void> {
+        const transaction = this.db.transaction(TELEMETRY_STORE, 'readwrite');
+        transaction.objectStore(TELEMETRY_STORE).delete(runId);
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Registers a callback for library changes
+     */
+    onChange(callback: LevelLibraryChangeCallback): void {
+        this.changeCallbacks.push(callback);
+    }
+
+    /**
+     * Removes a change callback
+     */
+    offChange(callback: LevelLibraryChangeCallback): void {
+        const index = this.changeCallbacks.indexOf(callback);
+        if (index !== -1) {
+            this.changeCallbacks.splice(index, 1);
+        }
+    }
+
+    /**
+     * Notifies all registered callbacks of a change
+     */
+    private notifyChange(): void {
+        this.changeCallbacks.forEach(callback => callback(this));
+    }
+
+    /**
+     * Builds the stored record for a level
+     */
+    private createRecord(id: string, level: Level, prefabs: Prefab[], thumbnail: string): StoredLevel {
+        const metadata = level.getMetadata();
+        return {
+            id,
+            name: metadata.name,
+            createdAt: metadata.createdAt,
+            modifiedAt: metadata.modifiedAt,
+            elementCount: level.getElementCount(),
+            thumbnail,
+            data: LevelSerializer.serialize(level, prefabs)
+        };
+    }
+
+    /**
+     * Reads a stored level
+     */
+    private getRecord(id: string): Promise<StoredLevel | undefined> {
+        return requestResult<StoredLevel | undefined>(
+            this.db.transaction(LEVEL_STORE).objectStore(LEVEL_STORE).get(id)
+        );
+    }
+
+    /**
+     * Writes a stored level
+     */
+    private async putRecord(record: StoredLevel): Promise<void> {
+        const transaction = this.db.transaction(LEVEL_STORE, 'readwrite');
+        transaction.objectStore(LEVEL_STORE).put(record);
+        await transactionDone(transaction);
+        this.notifyChange();
+    }
+}
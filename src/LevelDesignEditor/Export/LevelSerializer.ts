@@ -1,14 +1,24 @@
 /**
  * Level Serializer
- * Handles saving and loading levels to/from JSON
+ * Converts levels to and from JSON
+ *
+ * Pure (no DOM), so it also runs in Node; browser downloads, file pickers and localStorage
+ * live in LevelStorage
  */
 
 import { Level } from '../Domain/Level.js';
+import { AnyLevelElement } from '../Domain/LevelElement.js';
+import { Prefab } from '../Domain/Prefab.js';
+import { PrefabLibrary } from '../Domain/PrefabLibrary.js';
+import { PropertySchema, parsePropertySchema } from '../Domain/ElementProperties.js';
+import { isRecord } from '../Domain/JsonGuards.js';
+import { LevelFileReport, migrateElements, migrateLevelFile } from './LevelFileMigrations.js';
+import { validateElementList, validateLevelFile } from './LevelFileValidator.js';
 
 /**
  * Level file format version
  */
-export const LEVEL_FORMAT_VERSION = '1.0';
+export const LEVEL_FORMAT_VERSION = '1.2';
 
 /**
  * Level file structure
@@ -16,6 +26,41 @@ export const LEVEL_FORMAT_VERSION = '1.0';
 export interface LevelFile {
     version: string;
     level: object;
+    /** Prefabs the level's instances were stamped from, so the file is self-contained */
+    prefabs?: Prefab[];
+    /** The project's property schema, in files saved for use outside the project */
+    propertySchema?: PropertySchema;
+}
+
+/**
+ * Contents of a loaded level file
+ */
+export interface LevelFileContents {
+    level: Level;
+    prefabs: Prefab[];
+    /** Property schema saved with the file (null if none); already set on the level */
+    propertySchema: PropertySchema | null;
+    /** Migrations applied and what they repaired or dropped */
+    report: LevelFileReport;
+}
+
+/**
+ * Most validation errors listed in a load error
+ */
+const MAX_LISTED_ERRORS = 10;
+
+/**
+ * Format tag of copied elements on the clipboard
+ */
+export const ELEMENT_CLIPBOARD_FORMAT = 'level-editor/elements';
+
+/**
+ * Clipboard structure for copied elements
+ */
+export interface ElementClipboardData {
+    format: string;
+    version: string;
+    elements: AnyLevelElement[];
 }
 
 /**
@@ -24,12 +69,21 @@ export interface LevelFile {
 export class LevelSerializer {
     /**
      * Serializes a level to JSON string
+     * @param prefabs Prefabs to embed (see PrefabLibrary.getUsedBy)
+     * @param propertySchema Schema to embed; levels stored in the project leave it out and use
+     * the project's schema
      */
-    static serialize(level: Level): string {
+    static serialize(level: Level, prefabs: Prefab[] = [], propertySchema?: PropertySchema): string {
         const levelFile: LevelFile = {
             version: LEVEL_FORMAT_VERSION,
             level: level.toJSON()
         };
+        if (prefabs.length > 0) {
+            levelFile.prefabs = prefabs;
+        }
+        if (propertySchema) {
+            levelFile.propertySchema = propertySchema;
+        }
 
         return JSON.stringify(levelFile, null, 2);
     }
@@ -38,114 +92,124 @@ export class LevelSerializer {
      * Deserializes a JSON string to a Level
      */
     static deserialize(json: string): Level {
-        try {
-            const levelFile: LevelFile = JSON.parse(json);
-
-            // Check version compatibility
-            if (!levelFile.version) {
-                console.warn('Level file has no version, assuming compatible');
-            }
+        return this.deserializeFile(json).level;
+    }
 
-            return Level.fromJSON(levelFile.level);
+    /**
+     * Deserializes a JSON string to a Level and the prefabs embedded with it
+     * Older files are migrated to the current version first; throws if the result is invalid
+     */
+    static deserializeFile(json: string): LevelFileContents {
+        let data: unknown;
+        try {
+            data = JSON.parse(json);
         } catch (error) {
             throw new Error(`Failed to parse level file: ${error}`);
         }
-    }
 
-    /**
-     * Downloads a level as a JSON file
-     */
-    static downloadLevel(level: Level, filename?: string): void {
-        const json = this.serialize(level);
-        const blob = new Blob([json], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-
-        const name = filename || `${level.getName().replace(/[^a-z0-9]/gi, '_')}.json`;
-
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = name;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        const report = migrateLevelFile(data, LEVEL_FORMAT_VERSION);
+
+        const errors = validateLevelFile(data);
+        if (errors.length > 0) {
+            throw new Error(`Invalid level file:\n${this.listErrors(errors)}`);
+        }
+
+        // Checked against the current format above
+        const levelFile = data as LevelFile;
+
+        const level = Level.fromJSON(levelFile.level);
+        const propertySchema = levelFile.propertySchema ? parsePropertySchema(levelFile.propertySchema) : null;
+        if (propertySchema) {
+            level.setPropertySchema(propertySchema);
+        }
+
+        return {
+            level,
+            prefabs: PrefabLibrary.fromJSON(levelFile.prefabs).getAll(),
+            propertySchema,
+            report
+        };
     }
 
     /**
-     * Opens a file picker and loads a level from the selected file
-     * Returns a promise that resolves to the loaded Level
+     * Summarizes what loading changed in a file (empty if nothing was repaired or dropped)
      */
-    static loadLevelFromFile(): Promise<Level> {
-        return new Promise((resolve, reject) => {
-            const input = document.createElement('input');
-            input.type = 'file';
-            input.accept = '.json';
-
-            input.onchange = (e) => {
-                const file = (e.target as HTMLInputElement).files?.[0];
-                if (!file) {
-                    reject(new Error('No file selected'));
-                    return;
-                }
-
-                const reader = new FileReader();
-                reader.onload = (event) => {
-                    try {
-                        const json = event.target?.result as string;
-                        const level = this.deserialize(json);
-                        resolve(level);
-                    } catch (error) {
-                        reject(error);
-                    }
-                };
-
-                reader.onerror = () => {
-                    reject(new Error('Failed to read file'));
-                };
-
-                reader.readAsText(file);
-            };
-
-            input.click();
-        });
+    static describeReport(report: LevelFileReport): string {
+        const lines = [
+            ...report.repaired.map(entry => `Repaired ${entry}`),
+            ...report.dropped.map(entry => `Dropped ${entry}`)
+        ];
+        return lines.join('\n');
     }
 
     /**
-     * Saves level to browser localStorage
+     * Serializes copied elements for the clipboard
      */
-    static saveToLocalStorage(level: Level, key: string = 'savedLevel'): void {
-        const json = this.serialize(level);
-        localStorage.setItem(key, json);
+    static serializeElements(elements: AnyLevelElement[]): string {
+        const data: ElementClipboardData = {
+            format: ELEMENT_CLIPBOARD_FORMAT,
+            version: LEVEL_FORMAT_VERSION,
+            elements
+        };
+
+        return JSON.stringify(data);
     }
 
     /**
-     * Loads level from browser localStorage
+     * Parses elements copied to the clipboard, migrating ones copied from an older editor
+     * Returns null if the text is not copied level elements; throws if the elements are invalid
      */
-    static loadFromLocalStorage(key: string = 'savedLevel'): Level | null {
-        const json = localStorage.getItem(key);
-        if (!json) {
+    static deserializeElements(json: string): AnyLevelElement[] | null {
+        let data: unknown;
+        try {
+            data = JSON.parse(json);
+        } catch (error) {
             return null;
         }
 
+        if (!isRecord(data) || data.format !== ELEMENT_CLIPBOARD_FORMAT || !Array.isArray(data.elements)) {
+            return null;
+        }
+
+        let migrated: { elements: unknown[]; dropped: string[] };
         try {
-            return this.deserialize(json);
+            migrated = migrateElements(data.elements, data.version, LEVEL_FORMAT_VERSION);
         } catch (error) {
-            console.error('Failed to load level from localStorage:', error);
-            return null;
+            throw new Error(`Cannot paste the copied elements: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const errors = [...migrated.dropped, ...validateElementList(migrated.elements)];
+        if (errors.length > 0) {
+            throw new Error(`Cannot paste the copied elements:\n${this.listErrors(errors)}`);
         }
+
+        // Checked against the current format above
+        return migrated.elements as AnyLevelElement[];
     }
 
     /**
-     * Checks if a level exists in localStorage
+     * Parses a property schema file (see PropertySchema)
+     * Throws if the file is not a valid schema
      */
-    static hasLocalStorage(key: string = 'savedLevel'): boolean {
-        return localStorage.getItem(key) !== null;
+    static deserializeSchema(json: string): PropertySchema {
+        let data: unknown;
+        try {
+            data = JSON.parse(json);
+        } catch (error) {
+            throw new Error(`Failed to parse property schema: ${error}`);
+        }
+
+        return parsePropertySchema(data);
     }
 
     /**
-     * Clears level from localStorage
+     * Joins error messages into lines, listing at most MAX_LISTED_ERRORS
      */
-    static clearLocalStorage(key: string = 'savedLevel'): void {
-        localStorage.removeItem(key);
+    private static listErrors(errors: string[]): string {
+        const listed = errors.slice(0, MAX_LISTED_ERRORS);
+        if (errors.length > MAX_LISTED_ERRORS) {
+            listed.push(`...and ${errors.length - MAX_LISTED_ERRORS} more`);
+        }
+        return listed.join('\n');
     }
 }
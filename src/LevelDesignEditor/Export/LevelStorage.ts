@@ -0,0 +1,180 @@
+/**
+ * Level Storage
+ * Browser-side saving and loading: file downloads, file pickers and localStorage
+ */
+
+import { Level } from '../Domain/Level.js';
+import { Prefab } from '../Domain/Prefab.js';
+import { PrefabLibrary } from '../Domain/PrefabLibrary.js';
+import { PropertySchema, parsePropertySchema } from '../Domain/ElementProperties.js';
+import { TelemetryRun } from '../Domain/PlaytestTelemetry.js';
+import { LevelFileContents, LevelSerializer } from './LevelSerializer.js';
+import { TelemetryImporter } from './TelemetryImporter.js';
+
+/**
+ * Level Storage class
+ */
+export class LevelStorage {
+    /**
+     * Downloads a level as a JSON file, with the property schema so it can be used elsewhere
+     */
+    static downloadLevel(level: Level, filename?: string, prefabs: Prefab[] = []): void {
+        const json = LevelSerializer.serialize(level, prefabs, level.getPropertySchema());
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        const name = filename || `${level.getName().replace(/[^a-z0-9]/gi, '_')}.json`;
+
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = name;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Opens a file picker and loads a level from the selected file
+     * Returns a promise that resolves to the loaded Level and its embedded prefabs
+     */
+    static async loadLevelFromFile(): Promise<LevelFileContents> {
+        return LevelSerializer.deserializeFile((await this.readFile()).text);
+    }
+
+    /**
+     * Opens a file picker and loads a property schema from the selected file
+     */
+    static async loadSchemaFromFile(): Promise<PropertySchema> {
+        return LevelSerializer.deserializeSchema((await this.readFile()).text);
+    }
+
+    /**
+     * Opens a file picker and loads playtest telemetry (CSV or JSON) from the selected file
+     */
+    static async loadTelemetryFromFile(): Promise<TelemetryRun[]> {
+        const { name, text } = await this.readFile('.csv,.json');
+        return TelemetryImporter.parse(text, name);
+    }
+
+    /**
+     * Opens a file picker and reads the selected file as text
+     * @param accept File types offered by the picker
+     */
+    private static readFile(accept: string = '.json'): Promise<{ name: string; text: string }> {
+        return new Promise((resolve, reject) => {
+            const input = document.createElement('input');
+            input.type = 'file';
+            input.accept = accept;
+
+            input.onchange = (e) => {
+                const file = (e.target as HTMLInputElement).files?.[0];
+                if (!file) {
+                    reject(new Error('No file selected'));
+                    return;
+                }
+
+                const reader = new FileReader();
+                reader.onload = (event) => {
+                    resolve({ name: file.name, text: event.target?.result as string });
+                };
+
+                reader.onerror = () => {
+                    reject(new Error('Failed to read file'));
+                };
+
+                reader.readAsText(file);
+            };
+
+            input.click();
+        });
+    }
+
+    /**
+     * Saves level to browser localStorage
+     */
+    static saveToLocalStorage(level: Level, key: string = 'savedLevel'): void {
+        const json = LevelSerializer.serialize(level);
+        localStorage.setItem(key, json);
+    }
+
+    /**
+     * Loads level from browser localStorage
+     */
+    static loadFromLocalStorage(key: string = 'savedLevel'): Level | null {
+        const json = localStorage.getItem(key);
+        if (!json) {
+            return null;
+        }
+
+        try {
+            return LevelSerializer.deserialize(json);
+        } catch (error) {
+            console.error('Failed to load level from localStorage:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Checks if a level exists in localStorage
+     */
+    static hasLocalStorage(key: string = 'savedLevel'): boolean {
+        return localStorage.getItem(key) !== null;
+    }
+
+    /**
+     * Clears level from localStorage
+     */
+    static clearLocalStorage(key: string = 'savedLevel'): void {
+        localStorage.removeItem(key);
+    }
+
+    /**
+     * Saves the prefab library to browser localStorage
+     */
+    static savePrefabLibrary(library: PrefabLibrary, key: string = 'prefabLibrary'): void {
+        localStorage.setItem(key, JSON.stringify(library.toJSON()));
+    }
+
+    /**
+     * Loads the prefab library from browser localStorage (empty if none is saved)
+     */
+    static loadPrefabLibrary(key: string = 'prefabLibrary'): PrefabLibrary {
+        const json = localStorage.getItem(key);
+        if (!json) {
+            return new PrefabLibrary();
+        }
+
+        try {
+            return PrefabLibrary.fromJSON(JSON.parse(json));
+        } catch (error) {
+            console.error('Failed to load prefab library from localStorage:', error);
+            return new PrefabLibrary();
+        }
+    }
+
+    /**
+     * Saves the project's property schema to browser localStorage
+     */
+    static savePropertySchema(schema: PropertySchema, key: string = 'propertySchema'): void {
+        localStorage.setItem(key, JSON.stringify(schema));
+    }
+
+    /**
+     * Loads the project's property schema from browser localStorage
+     * @returns Null if none is saved (or the saved one is invalid)
+     */
+    static loadPropertySchema(key: string = 'propertySchema'): PropertySchema | null {
+        const json = localStorage.getItem(key);
+        if (!json) {
+            return null;
+        }
+
+        try {
+            return parsePropertySchema(JSON.parse(json));
+        } catch (error) {
+            console.error('Failed to load property schema from localStorage:', error);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,280 @@
+/**
+ * Telemetry Importer
+ * Reads playtest telemetry exported by game builds (CSV or JSON) into telemetry runs
+ *
+ * Positions are in the level's grid coordinates with elevations in meters, as recorded by the
+ * editor. Accepted layouts:
+ * - CSV with a header row: `time`, `x`, `y` and optionally `elevation`, `run`, `event`
+ *   (`fall`, `death` or `pickup`) and `spawnId`. Rows with an event are also positions; rows
+ *   are grouped into runs by the `run` column
+ * - JSON: a run (`{ "samples": [...], "events": [...] }`), an array of runs, `{ "runs": [...] }`,
+ *   or an array of samples. Samples may carry an `event` like CSV rows
+ */
+
+import {
+    TelemetryEvent,
+    TelemetryEventType,
+    TelemetryRun,
+    TelemetrySample,
+    generateTelemetryRunId
+} from '../Domain/PlaytestTelemetry.js';
+
+const EVENT_TYPES: TelemetryEventType[] = ['fall', 'death', 'pickup'];
+
+/**
+ * Column names accepted for each field (compared case-insensitively, ignoring _ and -)
+ */
+const COLUMN_ALIASES: Record<string, string[]> = {
+    time: ['time', 't', 'timestamp', 'seconds'],
+    x: ['x', 'gridx'],
+    y: ['y', 'gridy'],
+    elevation: ['elevation', 'z', 'height'],
+    run: ['run', 'runid', 'session'],
+    event: ['event', 'type'],
+    spawnId: ['spawnid', 'itemid']
+};
+
+/**
+ * A parsed row or JSON sample before it is grouped into a run
+ */
+interface TelemetryRecord extends TelemetrySample {
+    run: string;
+    event?: TelemetryEventType;
+    spawnId?: string;
+    /** Listed as an event only, not a position of the path (JSON events) */
+    eventOnly?: boolean;
+}
+
+/**
+ * Telemetry Importer class
+ */
+export class TelemetryImporter {
+    /**
+     * Parses a telemetry file
+     * Throws with the line (CSV) or path (JSON) of the first invalid value
+     * @param fileName Used to tell the file's format and to name the runs
+     */
+    static parse(text: string, fileName: string): TelemetryRun[] {
+        const trimmed = text.trim();
+        if (trimmed === '') {
+            throw new Error(`${fileName} is empty`);
+        }
+
+        const isJson = /\.json$/i.test(fileName) || trimmed.startsWith('{') || trimmed.startsWith('[');
+        const runs = isJson ? this.parseJson(trimmed, fileName) : this.parseCsv(trimmed, fileName);
+        if (runs.length === 0) {
+            throw new Error(`${fileName} contains no telemetry samples`);
+        }
+        return runs;
+    }
+
+    // ========== CSV ==========
+
+    /**
+     * Parses CSV rows into runs
+     */
+    private static parseCsv(text: string, fileName: string): TelemetryRun[] {
+        const lines = text.split(/\r?\n/);
+        const header = this.splitCsvLine(lines[0]).map(name => name.toLowerCase().replace(/[_\-\s]/g, ''));
+        const columns: Record<string, number> = {};
+        Object.entries(COLUMN_ALIASES).forEach(([field, aliases]) => {
+            columns[field] = header.findIndex(name => aliases.includes(name));
+        });
+
+        const missing = ['time', 'x', 'y'].filter(field => columns[field] === -1);
+        if (missing.length > 0) {
+            const names = missing.map(field => `"${field}"`).join(', ');
+            throw new Error(`${fileName}: the header row needs ${names} column${missing.length > 1 ? 's' : ''}`);
+        }
+
+        const records: TelemetryRecord[] = [];
+        lines.slice(1).forEach((line, i) => {
+            if (line.trim() === '') return;
+
+            const cells = this.splitCsvLine(line);
+            const cell = (field: string) => columns[field] === -1 ? '' : (cells[columns[field]] ?? '').trim();
+            const where = `${fileName}: line ${i + 2}`;
+
+            records.push(this.createRecord({
+                time: cell('time'),
+                x: cell('x'),
+                y: cell('y'),
+                elevation: cell('elevation') || 0,
+                run: cell('run'),
+                event: cell('event') || undefined,
+                spawnId: cell('spawnId') || undefined
+            }, where));
+        });
+
+        return this.groupRuns(records, fileName);
+    }
+
+    /**
+     * Splits a CSV line, honouring double-quoted cells
+     */
+    private static splitCsvLine(line: string): string[] {
+        const cells: string[] = [];
+        let current = '';
+        let quoted = false;
+
+        for (let i = 0; i < line.length; i++) {
+            const char = line[i];
+            if (quoted) {
+                if (char === '"' && line[i + 1] === '"') {
+                    current += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    current += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ',' || char === ';' || char === '\t') {
+                cells.push(current);
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        cells.push(current);
+        return cells;
+    }
+
+    // ========== JSON ==========
+
+    /**
+     * Parses any of the JSON layouts into runs
+     */
+    private static parseJson(text: string, fileName: string): TelemetryRun[] {
+        let data: any;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            throw new Error(`${fileName} is not valid JSON`);
+        }
+
+        if (data !== null && typeof data === 'object' && Array.isArray(data.runs)) {
+            data = data.runs;
+        }
+
+        // An array of samples is a single run
+        if (Array.isArray(data) && !data.some(item => item !== null && typeof item === 'object' && 'samples' in item)) {
+            data = { samples: data };
+        }
+
+        const runs = Array.isArray(data) ? data : [data];
+        return runs.flatMap((run: any, i: number) => {
+            const path = Array.isArray(data) ? `runs[${i}]` : 'run';
+            if (run === null || typeof run !== 'object' || !Array.isArray(run.samples)) {
+                throw new Error(`${fileName}: ${path} needs a "samples" array`);
+            }
+
+            const runName = typeof run.name === 'string' ? run.name : String(run.id ?? i + 1);
+            const records = run.samples.map((sample: any, j: number) =>
+                this.createRecord({ ...this.asObject(sample), run: runName }, `${fileName}: ${path}.samples[${j}]`)
+            );
+            (Array.isArray(run.events) ? run.events : []).forEach((event: any, j: number) => {
+                const record = this.createRecord({ ...this.asObject(event), run: runName }, `${fileName}: ${path}.events[${j}]`);
+                if (!record.event) {
+                    throw new Error(`${fileName}: ${path}.events[${j}].type must be one of ${EVENT_TYPES.join(', ')}`);
+                }
+                records.push({ ...record, eventOnly: true });
+            });
+
+            return this.groupRuns(records, fileName, runs.length > 1 || Array.isArray(data));
+        });
+    }
+
+    /**
+     * Returns a JSON value as an object (or an empty one) so missing fields are reported
+     */
+    private static asObject(value: any): Record<string, any> {
+        return value !== null && typeof value === 'object' ? value : {};
+    }
+
+    // ========== Shared ==========
+
+    /**
+     * Checks and converts one sample or event
+     */
+    private static createRecord(raw: Record<string, any>, where: string): TelemetryRecord {
+        const number = (field: string, value: any) => {
+            const parsed = typeof value === 'number' ? value : parseFloat(value);
+            if (value === '' || value === undefined || value === null || !Number.isFinite(parsed)) {
+                throw new Error(`${where}: ${field} must be a number`);
+            }
+            return parsed;
+        };
+
+        const eventName = raw.event ?? raw.type;
+        let event: TelemetryEventType | undefined;
+        if (eventName !== undefined && eventName !== null && eventName !== '') {
+            event = String(eventName).toLowerCase() as TelemetryEventType;
+            if (!EVENT_TYPES.includes(event)) {
+                throw new Error(`${where}: event must be one of ${EVENT_TYPES.join(', ')}`);
+            }
+        }
+
+        return {
+            time: number('time', raw.time ?? raw.t),
+            x: number('x', raw.x),
+            y: number('y', raw.y),
+            elevation: number('elevation', raw.elevation ?? raw.z ?? 0),
+            run: String(raw.run ?? ''),
+            event,
+            spawnId: raw.spawnId !== undefined && raw.spawnId !== null ? String(raw.spawnId) : undefined
+        };
+    }
+
+    /**
+     * Groups records into runs by their run name, in time order
+     * @param numbered Name runs after the file and their run name even if there is only one
+     */
+    private static groupRuns(
+        records: TelemetryRecord[],
+        fileName: string,
+        numbered: boolean = false
+    ): TelemetryRun[] {
+        const groups = new Map<string, TelemetryRecord[]>();
+        records.forEach(record => {
+            const group = groups.get(record.run) ?? [];
+            group.push(record);
+            groups.set(record.run, group);
+        });
+
+        const recordedAt = new Date().toISOString();
+        const runs: TelemetryRun[] = [];
+
+        groups.forEach((group, runName) => {
+            group.sort((a, b) => a.time - b.time);
+            const samples: TelemetrySample[] = group
+                .filter(record => !record.eventOnly)
+                .map(({ time, x, y, elevation }) => ({ time, x, y, elevation }));
+            if (samples.length === 0) return;
+
+            const events: TelemetryEvent[] = group
+                .filter(record => record.event)
+                .map(({ time, x, y, elevation, event, spawnId }) => ({
+                    time, x, y, elevation, type: event!, ...(spawnId ? { spawnId } : {})
+                }));
+            const reachedItemIds = events
+                .filter(event => event.type === 'pickup' && event.spawnId)
+                .map(event => event.spawnId!)
+                .filter((id, i, ids) => ids.indexOf(id) === i);
+
+            runs.push({
+                id: generateTelemetryRunId(),
+                name: numbered || groups.size > 1 ? `${fileName} (run ${runName || runs.length + 1})` : fileName,
+                source: 'import',
+                recordedAt,
+                duration: samples[samples.length - 1].time - samples[0].time,
+                samples,
+                events,
+                reachedItemIds
+            });
+        });
+
+        return runs;
+    }
+}
@@ -0,0 +1,175 @@
+/**
+ * Dungeon Generator Panel
+ * Dialog for generating a blockout on the active layer (toolbar **Generate** button)
+ */
+
+import {
+    DEFAULT_DUNGEON_OPTIONS,
+    DUNGEON_ALGORITHM_NAMES,
+    DungeonAlgorithm,
+    DungeonOptions
+} from '../Domain/DungeonGenerator.js';
+
+/**
+ * Callbacks for applying a generated layout
+ */
+export interface DungeonGeneratorPanelCallbacks {
+    onGenerate: (options: DungeonOptions) => void;
+}
+
+/**
+ * Dungeon Generator Panel class
+ */
+export class DungeonGeneratorPanel {
+    private container: HTMLElement;
+    private callbacks: DungeonGeneratorPanelCallbacks;
+    private options: DungeonOptions = { ...DEFAULT_DUNGEON_OPTIONS };
+
+    constructor(containerId: string, callbacks: DungeonGeneratorPanelCallbacks) {
+        const container = document.getElementById(containerId);
+        if (!container) {
+            throw new Error(`Container element with id "${containerId}" not found`);
+        }
+
+        this.container = container;
+        this.callbacks = callbacks;
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Opens the dialog
+     */
+    show(): void {
+        this.render();
+        this.container.classList.add('visible');
+    }
+
+    /**
+     * Closes the dialog
+     */
+    hide(): void {
+        this.container.classList.remove('visible');
+    }
+
+    /**
+     * Checks whether the dialog is open
+     */
+    isVisible(): boolean {
+        return this.container.classList.contains('visible');
+    }
+
+    /**
+     * Sets up click and input handling (delegated, since the dialog is re-rendered)
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('click', (e) => {
+            const target = e.target as HTMLElement;
+
+            // Clicking the backdrop closes the dialog
+            if (target === this.container || target.closest('#generator-close')) {
+                this.hide();
+            } else if (target.closest('#generator-reseed')) {
+                this.readOptions();
+                this.options.seed = Math.floor(Math.random() * 1000000);
+                this.render();
+            } else if (target.closest('#generator-run')) {
+                this.readOptions();
+                this.callbacks.onGenerate({ ...this.options });
+            }
+        });
+
+        // Room sizes only apply to BSP
+        this.container.addEventListener('change', (e) => {
+            if ((e.target as HTMLElement).id === 'generator-algorithm') {
+                this.readOptions();
+                this.render();
+            }
+        });
+
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isVisible()) {
+                this.hide();
+            }
+        });
+    }
+
+    /**
+     * Reads the form into the options (invalid numbers keep their previous value)
+     */
+    private readOptions(): void {
+        const value = (id: string) => (this.container.querySelector(`#${id}`) as HTMLInputElement | null)?.value;
+        const number = (id: string, fallback: number) => {
+            const parsed = parseFloat(value(id) ?? '');
+            return Number.isFinite(parsed) ? parsed : fallback;
+        };
+
+        this.options = {
+            ...this.options,
+            algorithm: (value('generator-algorithm') as DungeonAlgorithm) ?? this.options.algorithm,
+            seed: Math.floor(number('generator-seed', this.options.seed)),
+            minRoomSize: number('generator-min-room', this.options.minRoomSize),
+            maxRoomSize: number('generator-max-room', this.options.maxRoomSize),
+            corridorWidth: number('generator-corridor', this.options.corridorWidth),
+            wallHeight: number('generator-wall-height', this.options.wallHeight),
+            enemyCount: number('generator-enemies', this.options.enemyCount),
+            itemCount: number('generator-items', this.options.itemCount)
+        };
+    }
+
+    /**
+     * Renders the dialog HTML
+     */
+    private render(): void {
+        const options = this.options;
+        const algorithms = (Object.keys(DUNGEON_ALGORITHM_NAMES) as DungeonAlgorithm[]).map(algorithm => `
+            <option value="${algorithm}" ${algorithm === options.algorithm ? 'selected' : ''}>
+                ${DUNGEON_ALGORITHM_NAMES[algorithm]}
+            </option>
+        `).join('');
+        const roomsDisabled = options.algorithm !== 'bsp' ? 'disabled' : '';
+        const corridorDisabled = options.algorithm === 'caves' ? 'disabled' : '';
+
+        this.container.innerHTML = `
+            <div class="generator-dialog" role="dialog" aria-label="Generate dungeon">
+                <div class="generator-header">
+                    <span class="generator-title">Generate Blockout</span>
+                    <button class="generator-btn" id="generator-close" title="Close (Esc)">✕</button>
+                </div>
+                <div class="generator-form">
+                    <label>Algorithm
+                        <select id="generator-algorithm">${algorithms}</select>
+                    </label>
+                    <label>Seed
+                        <span class="generator-row">
+                            <input type="number" id="generator-seed" value="${options.seed}" step="1">
+                            <button class="generator-btn" id="generator-reseed" title="Random seed">🎲</button>
+                        </span>
+                    </label>
+                    <label>Room size (min / max)
+                        <span class="generator-row">
+                            <input type="number" id="generator-min-room" value="${options.minRoomSize}" min="2" step="1" ${roomsDisabled}>
+                            <input type="number" id="generator-max-room" value="${options.maxRoomSize}" min="2" step="1" ${roomsDisabled}>
+                        </span>
+                    </label>
+                    <label>Corridor width
+                        <input type="number" id="generator-corridor" value="${options.corridorWidth}" min="1" step="1" ${corridorDisabled}>
+                    </label>
+                    <label>Wall height
+                        <input type="number" id="generator-wall-height" value="${options.wallHeight}" min="0.1" step="0.5">
+                    </label>
+                    <label>Enemies / items
+                        <span class="generator-row">
+                            <input type="number" id="generator-enemies" value="${options.enemyCount}" min="0" step="1">
+                            <input type="number" id="generator-items" value="${options.itemCount}" min="0" step="1">
+                        </span>
+                    </label>
+                </div>
+                <p class="generator-note">Replaces everything on the active layer (undo with Ctrl+Z).</p>
+                <div class="generator-actions">
+                    <button class="generator-btn generator-btn-primary" id="generator-run">Generate</button>
+                </div>
+            </div>
+        `;
+    }
+}
@@ -4,7 +4,7 @@
  */
 
 import { EditorTool, LevelEditor2D } from './LevelEditor2D.js';
-import { SpawnType } from '../Domain/LevelElement.js';
+import { SpawnType, SlopeDirection, isWallElement, getElementElevation } from '../Domain/LevelElement.js';
 
 /**
  * Toolbar button definition
@@ -22,9 +22,18 @@ interface ToolbarButton {
  */
 export interface ToolbarCallbacks {
     onClear: () => void;
+    onOpenLibrary: () => void;
+    onOpenGenerator: () => void;
+    onOpenSynthesis: () => void;
+    onPlaytest: () => void;
+    onOpenTelemetry: () => void;
     onExport: () => void;
+    onExportGodot: () => void;
     onSave: () => void;
     onLoad: () => void;
+    onLoadSchema: () => void;
+    onToggleValidation: () => void;
+    onToggleReachability: () => void;
 }
 
 /**
@@ -38,7 +47,12 @@ export class EditorToolbar {
     // Tool buttons
     private readonly toolButtons: ToolbarButton[] = [
         { id: 'tool-wall', label: 'Wall', icon: '▬', tool: 'wall' },
+        { id: 'tool-angled-wall', label: 'Angled', icon: '⟋', tool: 'angled-wall' },
         { id: 'tool-floor', label: 'Floor', icon: '▢', tool: 'floor' },
+        { id: 'tool-ramp', label: 'Ramp', icon: '◿', tool: 'ramp' },
+        { id: 'tool-stair', label: 'Stairs', icon: '☰', tool: 'stair' },
+        { id: 'tool-door', label: 'Door', icon: '⊓', tool: 'door' },
+        { id: 'tool-window', label: 'Window', icon: '⊞', tool: 'window' },
         { id: 'tool-spawn', label: 'Spawn', icon: '◉', tool: 'spawn' },
         { id: 'tool-select', label: 'Select', icon: '⬚', tool: 'select' },
         { id: 'tool-erase', label: 'Erase', icon: '✕', tool: 'erase' }
@@ -97,13 +111,99 @@ export class EditorToolbar {
                 <span class="toolbar-unit">m</span>
             </div>
 
+            <div class="toolbar-section toolbar-rotation" id="rotationSection" style="display: none;">
+                <label class="toolbar-label">Rotation:</label>
+                <input type="number" id="rotationInput" class="toolbar-input" value="0" step="15">
+                <span class="toolbar-unit">°</span>
+                <label id="prefabMirrorGroup" class="toolbar-label" title="Mirror the stamp (M)">
+                    <input type="checkbox" id="prefabMirrorInput"> Mirror
+                </label>
+            </div>
+
+            <div class="toolbar-section toolbar-slope" id="slopeSection" style="display: none;">
+                <label class="toolbar-label">Up:</label>
+                <select id="slopeDirectionSelect" class="toolbar-select">
+                    <option value="north">↑ North</option>
+                    <option value="east">→ East</option>
+                    <option value="south">↓ South</option>
+                    <option value="west">← West</option>
+                </select>
+                <label class="toolbar-label">From:</label>
+                <input type="number" id="slopeStartInput" class="toolbar-input" value="0" step="0.5">
+                <label class="toolbar-label">To:</label>
+                <input type="number" id="slopeEndInput" class="toolbar-input" value="1" step="0.5">
+                <span class="toolbar-unit">m</span>
+                <span id="stairStepsGroup" class="toolbar-section">
+                    <label class="toolbar-label">Steps:</label>
+                    <input type="number" id="stairStepsInput" class="toolbar-input" placeholder="auto" min="1" step="1">
+                </span>
+            </div>
+
+            <div class="toolbar-section toolbar-opening" id="openingSection" style="display: none;">
+                <label class="toolbar-label">Width:</label>
+                <input type="number" id="openingSpanInput" class="toolbar-input" value="1" min="1" step="1">
+                <label class="toolbar-label">Height:</label>
+                <input type="number" id="openingHeightInput" class="toolbar-input" value="2.1" min="0.1" step="0.1">
+                <span id="openingSillGroup" class="toolbar-section">
+                    <label class="toolbar-label">Sill:</label>
+                    <input type="number" id="openingSillInput" class="toolbar-input" value="1" min="0" step="0.1">
+                </span>
+                <span class="toolbar-unit">m</span>
+            </div>
+
+            <div class="toolbar-section toolbar-selection" id="selectionSection" style="display: none;">
+                <span class="toolbar-label" id="selectionCount"></span>
+                <span id="selectionHeightGroup" class="toolbar-section">
+                    <label class="toolbar-label">Height:</label>
+                    <input type="number" id="selectionHeightInput" class="toolbar-input" min="0.1" step="0.5" placeholder="mixed">
+                </span>
+                <span id="selectionElevationGroup" class="toolbar-section">
+                    <label class="toolbar-label">Elevation:</label>
+                    <input type="number" id="selectionElevationInput" class="toolbar-input" step="0.5" placeholder="mixed">
+                </span>
+                <span class="toolbar-unit">m</span>
+            </div>
+
+            <div class="toolbar-separator"></div>
+
+            <div class="toolbar-section toolbar-analysis">
+                <button class="toolbar-btn" id="btn-validate" title="Validate against player metrics (V)">
+                    <span class="toolbar-btn-icon">⚠</span>
+                    <span class="toolbar-btn-label">Validate</span>
+                </button>
+                <button class="toolbar-btn" id="btn-paths" title="Show paths from the player spawn (P)">
+                    <span class="toolbar-btn-icon">⤳</span>
+                    <span class="toolbar-btn-label">Paths</span>
+                </button>
+                <button class="toolbar-btn" id="btn-playtest" title="Walk the level in first person from the player spawn (Esc to exit)">
+                    <span class="toolbar-btn-icon">🚶</span>
+                    <span class="toolbar-btn-label">Playtest</span>
+                </button>
+                <button class="toolbar-btn" id="btn-telemetry" title="Playtest runs and heatmaps">
+                    <span class="toolbar-btn-icon">📈</span>
+                    <span class="toolbar-btn-label">Telemetry</span>
+                </button>
+            </div>
+
             <div class="toolbar-separator"></div>
 
             <div class="toolbar-section toolbar-actions">
+                <button class="toolbar-btn toolbar-btn-action" id="btn-generate" title="Generate a dungeon blockout">
+                    <span class="toolbar-btn-icon">🎲</span>
+                    <span class="toolbar-btn-label">Generate</span>
+                </button>
+                <button class="toolbar-btn toolbar-btn-action" id="btn-synthesize" title="Synthesize a layout from an example area">
+                    <span class="toolbar-btn-icon">🧩</span>
+                    <span class="toolbar-btn-label">Synthesize</span>
+                </button>
                 <button class="toolbar-btn toolbar-btn-action" id="btn-clear" title="Clear All">
                     <span class="toolbar-btn-icon">🗑</span>
                     <span class="toolbar-btn-label">Clear</span>
                 </button>
+                <button class="toolbar-btn toolbar-btn-action" id="btn-library" title="Level library">
+                    <span class="toolbar-btn-icon">📚</span>
+                    <span class="toolbar-btn-label">Library</span>
+                </button>
                 <button class="toolbar-btn toolbar-btn-action" id="btn-save" title="Save Level">
                     <span class="toolbar-btn-icon">💾</span>
                     <span class="toolbar-btn-label">Save</span>
@@ -112,10 +212,18 @@ export class EditorToolbar {
                     <span class="toolbar-btn-icon">📂</span>
                     <span class="toolbar-btn-label">Load</span>
                 </button>
+                <button class="toolbar-btn toolbar-btn-action" id="btn-schema" title="Load property schema">
+                    <span class="toolbar-btn-icon">🏷</span>
+                    <span class="toolbar-btn-label">Schema</span>
+                </button>
                 <button class="toolbar-btn toolbar-btn-primary" id="btn-export" title="Export to GLTF">
                     <span class="toolbar-btn-icon">📦</span>
                     <span class="toolbar-btn-label">Export GLB</span>
                 </button>
+                <button class="toolbar-btn toolbar-btn-action" id="btn-export-godot" title="Export Godot scene (.tscn)">
+                    <span class="toolbar-btn-icon">🎮</span>
+                    <span class="toolbar-btn-label">Godot</span>
+                </button>
             </div>
         `;
     }
@@ -153,6 +261,99 @@ export class EditorToolbar {
             });
         }
 
+        // Rotation input
+        const rotationInput = document.getElementById('rotationInput') as HTMLInputElement;
+        if (rotationInput) {
+            rotationInput.addEventListener('change', () => {
+                const rotation = parseFloat(rotationInput.value);
+                if (!isNaN(rotation)) {
+                    this.editor.setRotation(rotation);
+                }
+            });
+        }
+
+        // Prefab stamp mirroring
+        const prefabMirrorInput = document.getElementById('prefabMirrorInput') as HTMLInputElement;
+        if (prefabMirrorInput) {
+            prefabMirrorInput.addEventListener('change', () => {
+                this.editor.setPrefabMirrored(prefabMirrorInput.checked);
+            });
+        }
+
+        // Ramp/stair inputs
+        const slopeDirectionSelect = document.getElementById('slopeDirectionSelect') as HTMLSelectElement;
+        if (slopeDirectionSelect) {
+            slopeDirectionSelect.addEventListener('change', () => {
+                this.editor.setSlopeDirection(slopeDirectionSelect.value as SlopeDirection);
+            });
+        }
+
+        const slopeStartInput = document.getElementById('slopeStartInput') as HTMLInputElement;
+        const slopeEndInput = document.getElementById('slopeEndInput') as HTMLInputElement;
+        if (slopeStartInput && slopeEndInput) {
+            const updateElevations = () => {
+                const start = parseFloat(slopeStartInput.value);
+                const end = parseFloat(slopeEndInput.value);
+                if (!isNaN(start) && !isNaN(end)) {
+                    this.editor.setSlopeElevations(start, end);
+                }
+            };
+            slopeStartInput.addEventListener('change', updateElevations);
+            slopeEndInput.addEventListener('change', updateElevations);
+        }
+
+        const stairStepsInput = document.getElementById('stairStepsInput') as HTMLInputElement;
+        if (stairStepsInput) {
+            stairStepsInput.addEventListener('change', () => {
+                const steps = parseInt(stairStepsInput.value, 10);
+                this.editor.setStairStepCount(isNaN(steps) ? null : steps);
+            });
+        }
+
+        // Door/window inputs (apply to whichever opening tool is active)
+        const openingSpanInput = document.getElementById('openingSpanInput') as HTMLInputElement;
+        const openingHeightInput = document.getElementById('openingHeightInput') as HTMLInputElement;
+        const openingSillInput = document.getElementById('openingSillInput') as HTMLInputElement;
+        if (openingSpanInput && openingHeightInput && openingSillInput) {
+            const updateOpening = () => {
+                const tool = this.editor.getTool();
+                if (tool !== 'door' && tool !== 'window') return;
+
+                const span = parseFloat(openingSpanInput.value);
+                const height = parseFloat(openingHeightInput.value);
+                const sillHeight = parseFloat(openingSillInput.value);
+                this.editor.setOpeningSettings(tool, {
+                    ...(isNaN(span) ? {} : { span }),
+                    ...(isNaN(height) ? {} : { height }),
+                    ...(isNaN(sillHeight) || tool === 'door' ? {} : { sillHeight })
+                });
+            };
+            openingSpanInput.addEventListener('change', updateOpening);
+            openingHeightInput.addEventListener('change', updateOpening);
+            openingSillInput.addEventListener('change', updateOpening);
+        }
+
+        // Selection inputs (apply to every selected element)
+        const selectionHeightInput = document.getElementById('selectionHeightInput') as HTMLInputElement;
+        if (selectionHeightInput) {
+            selectionHeightInput.addEventListener('change', () => {
+                const height = parseFloat(selectionHeightInput.value);
+                if (!isNaN(height)) {
+                    this.editor.setSelectionWallHeight(height);
+                }
+            });
+        }
+
+        const selectionElevationInput = document.getElementById('selectionElevationInput') as HTMLInputElement;
+        if (selectionElevationInput) {
+            selectionElevationInput.addEventListener('change', () => {
+                const elevation = parseFloat(selectionElevationInput.value);
+                if (!isNaN(elevation)) {
+                    this.editor.setSelectionElevation(elevation);
+                }
+            });
+        }
+
         // Action buttons
         const clearBtn = document.getElementById('btn-clear');
         if (clearBtn) {
@@ -163,6 +364,21 @@ export class EditorToolbar {
             });
         }
 
+        const generateBtn = document.getElementById('btn-generate');
+        if (generateBtn) {
+            generateBtn.addEventListener('click', () => this.callbacks.onOpenGenerator());
+        }
+
+        const synthesizeBtn = document.getElementById('btn-synthesize');
+        if (synthesizeBtn) {
+            synthesizeBtn.addEventListener('click', () => this.callbacks.onOpenSynthesis());
+        }
+
+        const libraryBtn = document.getElementById('btn-library');
+        if (libraryBtn) {
+            libraryBtn.addEventListener('click', () => this.callbacks.onOpenLibrary());
+        }
+
         const saveBtn = document.getElementById('btn-save');
         if (saveBtn) {
             saveBtn.addEventListener('click', () => this.callbacks.onSave());
@@ -173,10 +389,40 @@ export class EditorToolbar {
             loadBtn.addEventListener('click', () => this.callbacks.onLoad());
         }
 
+        const schemaBtn = document.getElementById('btn-schema');
+        if (schemaBtn) {
+            schemaBtn.addEventListener('click', () => this.callbacks.onLoadSchema());
+        }
+
         const exportBtn = document.getElementById('btn-export');
         if (exportBtn) {
             exportBtn.addEventListener('click', () => this.callbacks.onExport());
         }
+
+        const exportGodotBtn = document.getElementById('btn-export-godot');
+        if (exportGodotBtn) {
+            exportGodotBtn.addEventListener('click', () => this.callbacks.onExportGodot());
+        }
+
+        const validateBtn = document.getElementById('btn-validate');
+        if (validateBtn) {
+            validateBtn.addEventListener('click', () => this.callbacks.onToggleValidation());
+        }
+
+        const pathsBtn = document.getElementById('btn-paths');
+        if (pathsBtn) {
+            pathsBtn.addEventListener('click', () => this.callbacks.onToggleReachability());
+        }
+
+        const playtestBtn = document.getElementById('btn-playtest');
+        if (playtestBtn) {
+            playtestBtn.addEventListener('click', () => this.callbacks.onPlaytest());
+        }
+
+        const telemetryBtn = document.getElementById('btn-telemetry');
+        if (telemetryBtn) {
+            telemetryBtn.addEventListener('click', () => this.callbacks.onOpenTelemetry());
+        }
     }
 
     /**
@@ -200,12 +446,52 @@ export class EditorToolbar {
         // Show/hide spawn type section based on current tool
         const spawnTypeSection = document.getElementById('spawnTypeSection');
         const propertiesSection = document.getElementById('propertiesSection');
+        const slopeSection = document.getElementById('slopeSection');
+        const stairStepsGroup = document.getElementById('stairStepsGroup');
+
+        const openingSection = document.getElementById('openingSection');
+        const openingSillGroup = document.getElementById('openingSillGroup');
+
+        if (openingSection && openingSillGroup) {
+            const isOpeningTool = currentTool === 'door' || currentTool === 'window';
+            openingSection.style.display = isOpeningTool ? 'flex' : 'none';
+            openingSillGroup.style.display = currentTool === 'window' ? 'flex' : 'none';
+
+            // Show the active tool's settings
+            if (isOpeningTool) {
+                const settings = this.editor.getState()[currentTool];
+                (document.getElementById('openingSpanInput') as HTMLInputElement).value = String(settings.span);
+                (document.getElementById('openingHeightInput') as HTMLInputElement).value = String(settings.height);
+                (document.getElementById('openingSillInput') as HTMLInputElement).value = String(settings.sillHeight);
+            }
+        }
+
+        if (slopeSection && stairStepsGroup) {
+            const isSlopeTool = currentTool === 'ramp' || currentTool === 'stair';
+            slopeSection.style.display = isSlopeTool ? 'flex' : 'none';
+            stairStepsGroup.style.display = currentTool === 'stair' ? 'flex' : 'none';
+        }
+
+        const rotationSection = document.getElementById('rotationSection');
+        const prefabMirrorGroup = document.getElementById('prefabMirrorGroup');
+        if (rotationSection && prefabMirrorGroup) {
+            const isRectTool = ['wall', 'floor', 'ramp', 'stair', 'prefab'].includes(currentTool);
+            rotationSection.style.display = isRectTool ? 'flex' : 'none';
+            prefabMirrorGroup.style.display = currentTool === 'prefab' ? 'flex' : 'none';
+
+            // Rotation and mirroring also change from the keyboard while stamping
+            const state = this.editor.getState();
+            (document.getElementById('rotationInput') as HTMLInputElement).value = String(state.rotation);
+            (document.getElementById('prefabMirrorInput') as HTMLInputElement).checked = state.prefabMirrored;
+        }
+
+        this.updateSelectionSection();
 
         if (spawnTypeSection && propertiesSection) {
             if (currentTool === 'spawn') {
                 spawnTypeSection.style.display = 'flex';
                 propertiesSection.style.display = 'none';
-            } else if (currentTool === 'wall') {
+            } else if (currentTool === 'wall' || currentTool === 'angled-wall') {
                 spawnTypeSection.style.display = 'none';
                 propertiesSection.style.display = 'flex';
             } else {
@@ -215,6 +501,57 @@ export class EditorToolbar {
         }
     }
 
+    /**
+     * Shows the selection's shared wall height and elevation (blank when they differ)
+     */
+    private updateSelectionSection(): void {
+        const section = document.getElementById('selectionSection');
+        const count = document.getElementById('selectionCount');
+        const heightGroup = document.getElementById('selectionHeightGroup');
+        const elevationGroup = document.getElementById('selectionElevationGroup');
+        if (!section || !count || !heightGroup || !elevationGroup) return;
+
+        const selected = this.editor.getSelectedElements();
+        section.style.display = this.editor.getTool() === 'select' && selected.length > 0 ? 'flex' : 'none';
+        count.textContent = `${selected.length} selected`;
+
+        // A single value when all elements agree, otherwise blank
+        const shared = (values: number[]) =>
+            values.length > 0 && values.every(value => value === values[0]) ? String(values[0]) : '';
+
+        const heights = selected.filter(isWallElement).map(wall => wall.wallHeight);
+        heightGroup.style.display = heights.length > 0 ? 'flex' : 'none';
+        (document.getElementById('selectionHeightInput') as HTMLInputElement).value = shared(heights);
+
+        const base = this.editor.getActiveLayer().baseElevation;
+        const elevations = selected
+            .map(getElementElevation)
+            .filter((elevation): elevation is number => elevation !== null)
+            .map(elevation => elevation - base);
+        elevationGroup.style.display = elevations.length > 0 ? 'flex' : 'none';
+        (document.getElementById('selectionElevationInput') as HTMLInputElement).value = shared(elevations);
+    }
+
+    /**
+     * Shows whether the validation overlay is active
+     */
+    setValidationActive(active: boolean): void {
+        const validateBtn = document.getElementById('btn-validate');
+        if (validateBtn) {
+            validateBtn.classList.toggle('active', active);
+        }
+    }
+
+    /**
+     * Shows whether the reachability overlay is active
+     */
+    setReachabilityActive(active: boolean): void {
+        const pathsBtn = document.getElementById('btn-paths');
+        if (pathsBtn) {
+            pathsBtn.classList.toggle('active', active);
+        }
+    }
+
     /**
      * Enables or disables the export button
      */
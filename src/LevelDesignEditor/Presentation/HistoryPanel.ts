@@ -0,0 +1,96 @@
+/**
+ * History Panel
+ * Lists the named undo/redo steps and lets the user jump between them
+ */
+
+import { CommandHistory } from '../Domain/CommandHistory.js';
+
+/**
+ * History Panel class
+ */
+export class HistoryPanel {
+    private container: HTMLElement;
+    private history: CommandHistory;
+
+    constructor(containerId: string, history: CommandHistory) {
+        const container = document.getElementById(containerId);
+        if (!container) {
+            throw new Error(`Container element with id "${containerId}" not found`);
+        }
+
+        this.container = container;
+        this.history = history;
+
+        this.setupEventListeners();
+        this.render();
+
+        // Re-render when history changes
+        this.history.onChange(() => this.render());
+    }
+
+    /**
+     * Sets up click handling (delegated, since the list is re-rendered)
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('click', (e) => {
+            const target = e.target as HTMLElement;
+
+            if (target.closest('#history-undo')) {
+                this.history.undo();
+                return;
+            }
+
+            if (target.closest('#history-redo')) {
+                this.history.redo();
+                return;
+            }
+
+            const item = target.closest('.history-item') as HTMLElement | null;
+            if (item && item.dataset.count !== undefined) {
+                this.history.jumpTo(parseInt(item.dataset.count, 10));
+            }
+        });
+    }
+
+    /**
+     * Renders the panel HTML
+     */
+    private render(): void {
+        const entries = this.history.getEntries();
+        const appliedCount = this.history.getAppliedCount();
+
+        const items = entries.map(entry => `
+            <li class="history-item ${entry.applied ? '' : 'history-item-undone'} ${entry.index + 1 === appliedCount ? 'active' : ''}"
+                data-count="${entry.index + 1}">
+                ${this.escapeHtml(entry.label)}
+            </li>
+        `).join('');
+
+        this.container.innerHTML = `
+            <div class="history-header">
+                <span class="history-title">History</span>
+                <div class="history-actions">
+                    <button class="history-btn" id="history-undo" title="Undo (Ctrl+Z)" ${this.history.canUndo() ? '' : 'disabled'}>↶</button>
+                    <button class="history-btn" id="history-redo" title="Redo (Ctrl+Shift+Z)" ${this.history.canRedo() ? '' : 'disabled'}>↷</button>
+                </div>
+            </div>
+            <ol class="history-list">
+                <li class="history-item ${appliedCount === 0 ? 'active' : ''}" data-count="0">Initial state</li>
+                ${items}
+            </ol>
+        `;
+
+        // Keep the current step in view
+        const active = this.container.querySelector('.history-item.active');
+        active?.scrollIntoView({ block: 'nearest' });
+    }
+
+    /**
+     * Escapes text for safe insertion into HTML
+     */
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+}
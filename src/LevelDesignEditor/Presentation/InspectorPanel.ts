@@ -0,0 +1,645 @@
+/**
+ * Inspector Panel
+ * Shows and edits the fields of the selected element and its custom properties, with derived
+ * info such as world-space bounds and how the element relates to the player metrics
+ */
+
+import { Level } from '../Domain/Level.js';
+import { UpdateElementCommand } from '../Domain/LevelCommands.js';
+import { PlayerMetrics, DEFAULT_PLAYER_METRICS, getWallTraversal } from '../Domain/PlayerMetrics.js';
+import {
+    PropertyDefinition,
+    getPropertyDefinitions,
+    getPropertyError,
+    getElementPropertyIssues,
+    parseTags
+} from '../Domain/ElementProperties.js';
+import {
+    AnyLevelElement,
+    AnyOpeningElement,
+    WallElement,
+    PropertyValue,
+    isWallElement,
+    isOpeningElement,
+    isDoorElement,
+    isStairElement,
+    isSlopeElement,
+    isRotatableElement,
+    getWallAxis,
+    getSlopeLength,
+    getElementBounds,
+    fitOpeningToWall,
+    normalizeRotation
+} from '../Domain/LevelElement.js';
+import { LevelEditor2D } from './LevelEditor2D.js';
+
+/**
+ * A field of the inspected element
+ */
+interface InspectorField {
+    key: string;
+    label: string;
+    kind: 'number' | 'integer' | 'select' | 'text';
+    /** Current value ('' for an unset optional field) */
+    value: number | string;
+    unit?: string;
+    min?: number;
+    step?: number;
+    placeholder?: string;
+    options?: Array<{ value: string; label: string }>;
+    /** Accepts empty input, applied as '' */
+    optional?: boolean;
+    /** History step name (defaults to "Set <type> <label>") */
+    action?: string;
+    /** Extra check on an entered number; returns an error message or null */
+    validate?: (value: number) => string | null;
+    /** Check on entered text; returns an error message or null */
+    validateText?: (value: string) => string | null;
+    /** Turns an entered value into element updates */
+    apply: (value: number | string) => Partial<AnyLevelElement>;
+}
+
+/**
+ * A derived fact about the element, flagged when it works against the player
+ */
+interface InspectorNote {
+    text: string;
+    warning: boolean;
+}
+
+/**
+ * Inspector Panel class
+ */
+export class InspectorPanel {
+    private container: HTMLElement;
+    private level: Level;
+    private editor: LevelEditor2D;
+    private metrics: PlayerMetrics;
+
+    // Rejected input, kept on screen with its error until the next valid edit or selection change
+    private invalid: { elementId: string; key: string; value: string; message: string } | null = null;
+
+    constructor(
+        containerId: string,
+        level: Level,
+        editor: LevelEditor2D,
+        metrics: PlayerMetrics = DEFAULT_PLAYER_METRICS
+    ) {
+        const container = document.getElementById(containerId);
+        if (!container) {
+            throw new Error(`Container element with id "${containerId}" not found`);
+        }
+
+        this.container = container;
+        this.level = level;
+        this.editor = editor;
+        this.metrics = metrics;
+
+        this.setupEventListeners();
+        this.render();
+
+        // Re-render when the selection or the selected element changes
+        this.level.onChange(() => this.render());
+        this.editor.onStateChange(() => this.render());
+    }
+
+    /**
+     * Sets up change handling (delegated, since the fields are re-rendered)
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('change', (e) => {
+            const target = e.target as HTMLInputElement | HTMLSelectElement;
+            const key = target.dataset.field;
+            const element = this.editor.getSelectedElement();
+            if (!key || !element) return;
+
+            const field = [...this.getFields(element), ...this.getPropertyFields(element)].find(f => f.key === key);
+            if (field) {
+                this.applyField(element, field, target.value);
+            }
+        });
+    }
+
+    /**
+     * Validates an entered value and records the change as an undoable step
+     */
+    private applyField(element: AnyLevelElement, field: InspectorField, input: string): void {
+        let value: number | string = input;
+        let message: string | null = null;
+
+        if (field.optional && input.trim() === '') {
+            value = '';
+        } else if (field.kind === 'text') {
+            value = input.trim();
+            message = field.validateText?.(value) ?? null;
+        } else if (field.kind !== 'select') {
+            const number = parseFloat(input);
+            message =
+                isNaN(number) ? 'Enter a number' :
+                field.kind === 'integer' && !Number.isInteger(number) ? 'Enter a whole number' :
+                field.min !== undefined && number < field.min ? `Must be at least ${field.min}` :
+                field.validate?.(number) ?? null;
+            value = number;
+        }
+
+        if (message) {
+            this.invalid = { elementId: element.id, key: field.key, value: input, message };
+            this.render();
+            return;
+        }
+
+        this.invalid = null;
+
+        const updates = field.apply(value) as Record<string, unknown>;
+        const current = element as unknown as Record<string, unknown>;
+        const changed = Object.keys(updates).some(key => updates[key] !== current[key]);
+        if (!changed) {
+            this.render();
+            return;
+        }
+
+        const label = field.action ?? `Set ${element.type} ${field.label.toLowerCase()}`;
+        const history = this.editor.getHistory();
+        const axis = isWallElement(element) ? getWallAxis(element) : null;
+
+        history.group(label, () => {
+            history.execute(new UpdateElementCommand(element.id, updates as Partial<AnyLevelElement>, label));
+
+            // Keep a resized wall's doors and windows inside it
+            if (isWallElement(element) && axis) {
+                this.getOpeningRefits(element, axis).forEach(([id, footprint]) => {
+                    history.execute(new UpdateElementCommand(id, footprint, label));
+                });
+            }
+        });
+    }
+
+    /**
+     * Gets the footprints that fit a wall's openings back into it after an edit
+     * @param wall The wall after the edit
+     * @param axis The wall's long axis before the edit, along which the openings' spans run
+     */
+    private getOpeningRefits(wall: WallElement, axis: 'x' | 'y'): Array<[string, Partial<AnyLevelElement>]> {
+        return this.level.getAllElements()
+            .filter((e): e is AnyOpeningElement => isOpeningElement(e) && e.wallId === wall.id)
+            .map((opening): [string, Partial<AnyLevelElement>] => {
+                const span = axis === 'x' ? opening.width : opening.depth;
+                return [opening.id, fitOpeningToWall(
+                    wall,
+                    opening.gridX + (opening.width - 1) / 2,
+                    opening.gridY + (opening.depth - 1) / 2,
+                    span
+                )];
+            })
+            .filter(([id, footprint]) => {
+                const opening = this.level.getElement(id)!;
+                return footprint.gridX !== opening.gridX || footprint.gridY !== opening.gridY ||
+                    footprint.width !== opening.width || footprint.depth !== opening.depth;
+            });
+    }
+
+    /**
+     * Gets the editable fields of an element
+     * Elevations are shown relative to the element's layer, like the tool settings
+     */
+    private getFields(element: AnyLevelElement): InspectorField[] {
+        if (isOpeningElement(element)) {
+            return this.getOpeningFields(element);
+        }
+
+        const base = this.getLayerBase(element);
+        const fields: InspectorField[] = [
+            { key: 'gridX', label: 'X', kind: 'number', value: element.gridX, step: 1,
+                action: `Move ${element.type}`, apply: v => ({ gridX: v as number }) },
+            { key: 'gridY', label: 'Y', kind: 'number', value: element.gridY, step: 1,
+                action: `Move ${element.type}`, apply: v => ({ gridY: v as number }) }
+        ];
+
+        if (element.type !== 'spawn') {
+            fields.push(
+                { key: 'width', label: 'Width', kind: 'number', value: element.width, unit: 'm', min: 0.1, step: 1,
+                    apply: v => ({ width: v as number }) },
+                { key: 'depth', label: 'Depth', kind: 'number', value: element.depth, unit: 'm', min: 0.1, step: 1,
+                    apply: v => ({ depth: v as number }) }
+            );
+        }
+
+        if (isRotatableElement(element)) {
+            fields.push({ key: 'rotation', label: 'Rotation', kind: 'number', value: element.rotation ?? 0,
+                unit: '°', step: 15, apply: v => ({ rotation: normalizeRotation(v as number) }) });
+        }
+
+        switch (element.type) {
+            case 'wall':
+                fields.push(
+                    { key: 'wallHeight', label: 'Height', kind: 'number', value: element.wallHeight,
+                        unit: 'm', min: 0.1, step: 0.5, apply: v => ({ wallHeight: v as number }) },
+                    { key: 'elevation', label: 'Elevation', kind: 'number', value: element.elevation - base,
+                        unit: 'm', step: 0.5, apply: v => ({ elevation: (v as number) + base }) }
+                );
+                break;
+            case 'floor':
+                fields.push(
+                    { key: 'elevation', label: 'Elevation', kind: 'number', value: element.elevation - base,
+                        unit: 'm', step: 0.5, apply: v => ({ elevation: (v as number) + base }) },
+                    { key: 'thickness', label: 'Thickness', kind: 'number', value: element.thickness,
+                        unit: 'm', min: 0.01, step: 0.05, apply: v => ({ thickness: v as number }) }
+                );
+                break;
+            case 'spawn':
+                fields.push(
+                    { key: 'spawnType', label: 'Type', kind: 'select', value: element.spawnType,
+                        options: [
+                            { value: 'player', label: 'Player' },
+                            { value: 'enemy', label: 'Enemy' },
+                            { value: 'item', label: 'Item' }
+                        ],
+                        apply: v => ({ spawnType: v as 'player' | 'enemy' | 'item' }) },
+                    { key: 'elevation', label: 'Elevation', kind: 'number', value: element.elevation - base,
+                        unit: 'm', step: 0.5, apply: v => ({ elevation: (v as number) + base }) }
+                );
+                break;
+            case 'ramp':
+            case 'stair':
+                fields.push(
+                    { key: 'direction', label: 'Direction', kind: 'select', value: element.direction,
+                        options: [
+                            { value: 'north', label: '↑ North' },
+                            { value: 'east', label: '→ East' },
+                            { value: 'south', label: '↓ South' },
+                            { value: 'west', label: '← West' }
+                        ],
+                        apply: v => ({ direction: v as 'north' | 'east' | 'south' | 'west' }) },
+                    { key: 'startElevation', label: 'Start', kind: 'number', value: element.startElevation - base,
+                        unit: 'm', step: 0.5, apply: v => ({ startElevation: (v as number) + base }) },
+                    { key: 'endElevation', label: 'End', kind: 'number', value: element.endElevation - base,
+                        unit: 'm', step: 0.5, apply: v => ({ endElevation: (v as number) + base }) }
+                );
+                if (isStairElement(element)) {
+                    fields.push({ key: 'stepCount', label: 'Steps', kind: 'integer', value: element.stepCount,
+                        min: 1, step: 1, apply: v => ({ stepCount: v as number }) });
+                }
+                break;
+        }
+
+        return fields;
+    }
+
+    /**
+     * Gets the fields of a door or window: its position and width along the wall, height and sill
+     * Position changes are refitted into the wall
+     */
+    private getOpeningFields(opening: AnyOpeningElement): InspectorField[] {
+        const wall = this.getWall(opening);
+        const fields: InspectorField[] = [];
+
+        if (wall) {
+            const alongX = getWallAxis(wall) === 'x';
+            const offset = alongX ? opening.gridX - wall.gridX : opening.gridY - wall.gridY;
+            const span = alongX ? opening.width : opening.depth;
+            const length = alongX ? wall.width : wall.depth;
+
+            // Fits an opening starting `start` cells along the wall
+            const fit = (start: number, cells: number) => {
+                const center = start + (cells - 1) / 2;
+                return fitOpeningToWall(
+                    wall,
+                    alongX ? wall.gridX + center : opening.gridX,
+                    alongX ? opening.gridY : wall.gridY + center,
+                    cells
+                );
+            };
+
+            fields.push(
+                { key: 'offset', label: 'Offset', kind: 'number', value: offset, unit: 'm', min: 0, step: 1,
+                    action: `Move ${opening.type}`,
+                    validate: v => v + span > length ? `Must be at most ${length - span}` : null,
+                    apply: v => fit(v as number, span) },
+                { key: 'span', label: 'Width', kind: 'integer', value: span, unit: 'm', min: 1, step: 1,
+                    validate: v => v > length ? `The wall is only ${length}m long` : null,
+                    apply: v => fit(Math.min(offset, length - (v as number)), v as number) }
+            );
+        }
+
+        const wallHeight = wall?.wallHeight ?? Infinity;
+        fields.push({ key: 'height', label: 'Height', kind: 'number', value: opening.height, unit: 'm',
+            min: 0.1, step: 0.1,
+            validate: v => v + opening.sillHeight > wallHeight ? `Must fit in the ${wallHeight}m wall` : null,
+            apply: v => ({ height: v as number }) });
+
+        if (!isDoorElement(opening)) {
+            fields.push({ key: 'sillHeight', label: 'Sill', kind: 'number', value: opening.sillHeight, unit: 'm',
+                min: 0, step: 0.1,
+                validate: v => v + opening.height > wallHeight ? `Must fit in the ${wallHeight}m wall` : null,
+                apply: v => ({ sillHeight: v as number }) });
+        }
+
+        return fields;
+    }
+
+    /**
+     * Gets the custom property fields the schema allows for the element, and its tags
+     * Clearing a field removes the property, so the schema default applies
+     */
+    private getPropertyFields(element: AnyLevelElement): InspectorField[] {
+        const schema = this.level.getPropertySchema();
+        const fields = getPropertyDefinitions(schema, element.type)
+            .map(definition => this.getPropertyField(element, definition));
+
+        const tags = (element.tags ?? []).join(', ');
+        fields.push({ key: 'tags', label: 'Tags', kind: 'text', value: tags, optional: true,
+            placeholder: schema.tags.length > 0 ? schema.tags.join(', ') : 'comma, separated',
+            validateText: v => {
+                const unknown = parseTags(v).filter(tag => schema.tags.length > 0 && !schema.tags.includes(tag));
+                return unknown.length > 0 ? `Not in the schema: ${unknown.join(', ')}` : null;
+            },
+            apply: v => {
+                const parsed = parseTags(v as string);
+                return parsed.join(', ') === tags ? {} : { tags: parsed.length > 0 ? parsed : undefined };
+            } });
+
+        return fields;
+    }
+
+    /**
+     * Gets the field for one schema property
+     */
+    private getPropertyField(element: AnyLevelElement, definition: PropertyDefinition): InspectorField {
+        const current = element.properties?.[definition.key];
+        const label = definition.label ?? definition.key;
+        const fallback = definition.default !== undefined ? String(definition.default) : '';
+
+        // Updates that set (or with undefined, remove) the property
+        const set = (value: PropertyValue | undefined): Partial<AnyLevelElement> => {
+            if (value === current) return {};
+            const properties = { ...element.properties };
+            if (value === undefined) {
+                delete properties[definition.key];
+            } else {
+                properties[definition.key] = value;
+            }
+            return { properties: Object.keys(properties).length > 0 ? properties : undefined };
+        };
+
+        const field = {
+            key: `property:${definition.key}`,
+            label,
+            value: current === undefined ? '' : String(current),
+            optional: true,
+            placeholder: fallback
+        };
+        const unset = { value: '', label: fallback ? `— (${fallback})` : '—' };
+
+        switch (definition.type) {
+            case 'boolean':
+                return { ...field, kind: 'select',
+                    options: [unset, { value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }],
+                    apply: v => set(v === '' ? undefined : v === 'true') };
+            case 'enum':
+                return { ...field, kind: 'select',
+                    options: [unset, ...(definition.options ?? []).map(option => ({ value: option, label: option }))],
+                    apply: v => set(v === '' ? undefined : v as string) };
+            case 'number':
+            case 'integer':
+                return { ...field, kind: definition.type, value: current === undefined ? '' : current as number,
+                    min: definition.min, step: definition.type === 'integer' ? 1 : undefined,
+                    validate: v => getPropertyError(definition, v),
+                    apply: v => set(v === '' ? undefined : v as number) };
+            default:
+                return { ...field, kind: 'text', apply: v => set(v === '' ? undefined : v as string) };
+        }
+    }
+
+    /**
+     * Gets the world-space bounds of an element (X/Z from the 2D grid, Y up)
+     */
+    private getWorldBounds(element: AnyLevelElement): { x: [number, number]; y: [number, number]; z: [number, number] } {
+        const bounds = getElementBounds(element, this.level.getElementFrame(element));
+
+        let y: [number, number];
+        if (isOpeningElement(element)) {
+            const bottom = (this.getWall(element)?.elevation ?? 0) + element.sillHeight;
+            y = [bottom, bottom + element.height];
+        } else if (isSlopeElement(element)) {
+            y = [
+                Math.min(element.startElevation, element.endElevation),
+                Math.max(element.startElevation, element.endElevation)
+            ];
+        } else if (element.type === 'wall') {
+            y = [element.elevation, element.elevation + element.wallHeight];
+        } else if (element.type === 'floor') {
+            y = [element.elevation, element.elevation + element.thickness];
+        } else {
+            y = [element.elevation, element.elevation];
+        }
+
+        return {
+            x: [bounds.gridX, bounds.gridX + bounds.width],
+            y,
+            z: [bounds.gridY, bounds.gridY + bounds.depth]
+        };
+    }
+
+    /**
+     * Describes how the element affects the player
+     */
+    private getNotes(element: AnyLevelElement): InspectorNote[] {
+        const m = this.metrics;
+
+        switch (element.type) {
+            case 'wall':
+                switch (getWallTraversal(element.wallHeight, m)) {
+                    case 'step':
+                        return [{ text: `Players can step over it (step height ${m.stepHeight}m)`, warning: true }];
+                    case 'jump':
+                        return [{ text: `Vaultable: players can jump over it (jump height ${m.jumpHeight}m)`, warning: true }];
+                    case 'mantle':
+                        return [{ text: `Players can see over it and may mantle it (player height ${m.height}m)`, warning: true }];
+                    default:
+                        return [{ text: `Blocks the player (taller than ${m.height}m)`, warning: false }];
+                }
+            case 'floor': {
+                const rise = element.elevation + element.thickness - this.getLayerBase(element);
+                if (rise <= m.stepHeight) {
+                    return [{ text: 'Can be walked onto from the layer base', warning: false }];
+                }
+                if (rise <= m.jumpHeight) {
+                    return [{ text: `Top is ${this.format(rise)}m up - reachable by jumping (jump height ${m.jumpHeight}m)`, warning: false }];
+                }
+                return [{ text: `Top is ${this.format(rise)}m up - needs a ramp or stairs (jump height ${m.jumpHeight}m)`, warning: true }];
+            }
+            case 'ramp': {
+                const rise = Math.abs(element.endElevation - element.startElevation);
+                const angle = Math.atan2(rise, getSlopeLength(element)) * 180 / Math.PI;
+                return [{
+                    text: `${Math.round(angle)}° slope - ${angle > m.maxSlopeAngle ? 'too steep' : 'walkable'} (max ${m.maxSlopeAngle}°)`,
+                    warning: angle > m.maxSlopeAngle
+                }];
+            }
+            case 'stair': {
+                const stepRise = Math.abs(element.endElevation - element.startElevation) / element.stepCount;
+                return [{
+                    text: `Steps are ${this.format(stepRise)}m - ${stepRise > m.stepHeight ? 'too high to walk' : 'walkable'} (step height ${m.stepHeight}m)`,
+                    warning: stepRise > m.stepHeight
+                }];
+            }
+            case 'door':
+            case 'window':
+                return this.getOpeningNotes(element);
+            default:
+                return [{ text: `Player capsule ${m.width}m wide, ${m.height}m tall`, warning: false }];
+        }
+    }
+
+    /**
+     * Describes whether the player fits through a door or can climb through a window
+     */
+    private getOpeningNotes(opening: AnyOpeningElement): InspectorNote[] {
+        const m = this.metrics;
+        const wall = this.getWall(opening);
+        if (!wall) {
+            return [{ text: 'Not attached to an existing wall', warning: true }];
+        }
+
+        const span = getWallAxis(wall) === 'x' ? opening.width : opening.depth;
+        const clearHeight = Math.min(opening.height, wall.wallHeight - opening.sillHeight);
+
+        if (span < m.width || clearHeight < m.crouchHeight) {
+            return [{ text: `Too small for the player (${m.width}m x ${m.crouchHeight}m crouched)`, warning: true }];
+        }
+        if (isDoorElement(opening)) {
+            return clearHeight < m.height
+                ? [{ text: `Player must crouch (height ${m.height}m)`, warning: true }]
+                : [{ text: 'Player fits upright', warning: false }];
+        }
+        return opening.sillHeight <= m.jumpHeight
+            ? [{ text: `Players can climb through (sill within jump height ${m.jumpHeight}m)`, warning: false }]
+            : [{ text: `Sill above jump height ${m.jumpHeight}m - players cannot climb through`, warning: false }];
+    }
+
+    /**
+     * Gets the wall a door or window is cut into
+     */
+    private getWall(opening: AnyOpeningElement): WallElement | null {
+        const wall = this.level.getElement(opening.wallId);
+        return wall && isWallElement(wall) ? wall : null;
+    }
+
+    /**
+     * Gets the base elevation of an element's layer
+     */
+    private getLayerBase(element: AnyLevelElement): number {
+        return this.level.getLayer(this.level.getElementLayerId(element))?.baseElevation ?? 0;
+    }
+
+    /**
+     * Renders the panel HTML (hidden when nothing is selected)
+     */
+    private render(): void {
+        const element = this.editor.getSelectedElement();
+        if (!element) {
+            this.invalid = null;
+            this.container.style.display = 'none';
+            this.container.innerHTML = '';
+            return;
+        }
+
+        if (this.invalid && this.invalid.elementId !== element.id) {
+            this.invalid = null;
+        }
+
+        const layer = this.level.getLayer(this.level.getElementLayerId(element));
+        const editable = !!layer && layer.visible && !layer.locked;
+        const count = this.editor.getSelectedElements().length;
+
+        const fields = this.getFields(element).map(field => this.renderField(field, editable)).join('');
+        const properties = this.getPropertyFields(element).map(field => this.renderField(field, editable)).join('');
+        const propertyIssues = getElementPropertyIssues(element, this.level.getPropertySchema()).map(issue => `
+            <li class="inspector-note inspector-note-warning">${this.escapeHtml(issue)}</li>
+        `).join('');
+
+        const bounds = this.getWorldBounds(element);
+        const range = ([from, to]: [number, number]) =>
+            from === to ? `${this.format(from)}` : `${this.format(from)} – ${this.format(to)}`;
+
+        const notes = this.getNotes(element).map(note => `
+            <li class="inspector-note ${note.warning ? 'inspector-note-warning' : ''}">${this.escapeHtml(note.text)}</li>
+        `).join('');
+
+        this.container.style.display = '';
+        this.container.innerHTML = `
+            <div class="inspector-header">
+                <span class="inspector-title">${this.escapeHtml(element.type)}</span>
+                <span class="inspector-subtitle">
+                    ${this.escapeHtml(layer?.name ?? '')}${count > 1 ? ` · 1 of ${count} selected` : ''}
+                </span>
+            </div>
+            ${editable ? '' : '<div class="inspector-locked">Layer is locked or hidden</div>'}
+            <div class="inspector-fields">${fields}</div>
+            <div class="inspector-section">Properties</div>
+            <div class="inspector-fields">${properties}</div>
+            ${propertyIssues ? `<ul class="inspector-notes">${propertyIssues}</ul>` : ''}
+            <div class="inspector-section">World bounds (m)</div>
+            <dl class="inspector-bounds">
+                <dt>X</dt><dd>${range(bounds.x)}</dd>
+                <dt>Y</dt><dd>${range(bounds.y)}</dd>
+                <dt>Z</dt><dd>${range(bounds.z)}</dd>
+            </dl>
+            <div class="inspector-section">Player</div>
+            <ul class="inspector-notes">${notes}</ul>
+        `;
+    }
+
+    /**
+     * Renders one field row, with the rejected input and its error if it has one
+     */
+    private renderField(field: InspectorField, editable: boolean): string {
+        const invalid = this.invalid?.key === field.key ? this.invalid : null;
+        const disabled = editable ? '' : 'disabled';
+
+        const key = this.escapeHtml(field.key);
+        const placeholder = field.placeholder ? `placeholder="${this.escapeHtml(field.placeholder)}"` : '';
+
+        let input: string;
+        if (field.kind === 'select') {
+            const options = (field.options ?? []).map(option => `
+                <option value="${this.escapeHtml(option.value)}" ${option.value === field.value ? 'selected' : ''}>${this.escapeHtml(option.label)}</option>
+            `).join('');
+            input = `<select class="inspector-input" data-field="${key}" ${disabled}>${options}</select>`;
+        } else if (field.kind === 'text') {
+            const value = invalid ? invalid.value : String(field.value);
+            input = `<input type="text" class="inspector-input ${invalid ? 'inspector-input-invalid' : ''}"
+                data-field="${key}" value="${this.escapeHtml(value)}" ${placeholder} ${disabled}>`;
+        } else {
+            const value = invalid ? invalid.value : field.value === '' ? '' : this.format(field.value as number);
+            input = `<input type="number" class="inspector-input ${invalid ? 'inspector-input-invalid' : ''}"
+                data-field="${key}" value="${this.escapeHtml(value)}" ${placeholder}
+                ${field.min !== undefined ? `min="${field.min}"` : ''} step="${field.step ?? 'any'}" ${disabled}>`;
+        }
+
+        return `
+            <label class="inspector-field">
+                <span class="inspector-label">${this.escapeHtml(field.label)}</span>
+                ${input}
+                <span class="inspector-unit">${field.unit ?? ''}</span>
+            </label>
+            ${invalid ? `<div class="inspector-error">${this.escapeHtml(invalid.message)}</div>` : ''}
+        `;
+    }
+
+    /**
+     * Formats a measurement to at most three decimals
+     */
+    private format(value: number): string {
+        return String(Math.round(value * 1000) / 1000);
+    }
+
+    /**
+     * Escapes text for safe insertion into HTML
+     */
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+}
@@ -0,0 +1,213 @@
+/**
+ * Layer Panel
+ * Lists the level's layers (storeys) and lets the user switch, add, edit and remove them
+ */
+
+import { Level, LevelLayer, DEFAULT_STOREY_HEIGHT, generateLayerId } from '../Domain/Level.js';
+import { AddLayerCommand, RemoveLayerCommand, UpdateLayerCommand } from '../Domain/LevelCommands.js';
+import { LevelEditor2D } from './LevelEditor2D.js';
+
+/**
+ * Layer panel action callbacks
+ */
+export interface LayerPanelCallbacks {
+    onExportLayer: (layerId: string) => void;
+    onToggleCutaway: (enabled: boolean) => void;
+}
+
+/**
+ * Layer Panel class
+ */
+export class LayerPanel {
+    private container: HTMLElement;
+    private level: Level;
+    private editor: LevelEditor2D;
+    private callbacks: LayerPanelCallbacks;
+    private cutaway: boolean = false;
+
+    constructor(
+        containerId: string,
+        level: Level,
+        editor: LevelEditor2D,
+        callbacks: LayerPanelCallbacks
+    ) {
+        const container = document.getElementById(containerId);
+        if (!container) {
+            throw new Error(`Container element with id "${containerId}" not found`);
+        }
+
+        this.container = container;
+        this.level = level;
+        this.editor = editor;
+        this.callbacks = callbacks;
+
+        this.setupEventListeners();
+        this.render();
+
+        // Re-render when layers or the active layer change
+        this.level.onChange(() => this.render());
+        this.editor.onStateChange(() => this.render());
+    }
+
+    /**
+     * Sets up click/change handling (delegated, since the list is re-rendered)
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('click', (e) => {
+            const target = e.target as HTMLElement;
+
+            if (target.closest('#layer-add')) {
+                this.addLayer();
+                return;
+            }
+
+            const item = target.closest('.layer-item') as HTMLElement | null;
+            const layerId = item?.dataset.layerId;
+            if (!layerId) return;
+
+            const action = (target.closest('[data-action]') as HTMLElement | null)?.dataset.action;
+            const layer = this.level.getLayer(layerId);
+            if (!layer) return;
+
+            switch (action) {
+                case 'visible':
+                    this.editor.getHistory().execute(new UpdateLayerCommand(
+                        layerId, { visible: !layer.visible }, `${layer.visible ? 'Hide' : 'Show'} layer "${layer.name}"`
+                    ));
+                    break;
+                case 'lock':
+                    this.editor.getHistory().execute(new UpdateLayerCommand(
+                        layerId, { locked: !layer.locked }, `${layer.locked ? 'Unlock' : 'Lock'} layer "${layer.name}"`
+                    ));
+                    break;
+                case 'export':
+                    this.callbacks.onExportLayer(layerId);
+                    break;
+                case 'remove':
+                    this.removeLayer(layer);
+                    break;
+                case 'elevation':
+                    break;
+                default:
+                    this.editor.setActiveLayer(layerId);
+            }
+        });
+
+        this.container.addEventListener('dblclick', (e) => {
+            const name = (e.target as HTMLElement).closest('.layer-name');
+            const layerId = (name?.closest('.layer-item') as HTMLElement | null)?.dataset.layerId;
+            const layer = layerId ? this.level.getLayer(layerId) : undefined;
+            if (!layer) return;
+
+            const newName = prompt('Layer name:', layer.name)?.trim();
+            if (newName && newName !== layer.name) {
+                this.editor.getHistory().execute(
+                    new UpdateLayerCommand(layer.id, { name: newName }, `Rename layer "${layer.name}"`)
+                );
+            }
+        });
+
+        this.container.addEventListener('change', (e) => {
+            const target = e.target as HTMLInputElement;
+
+            if (target.id === 'layer-cutaway') {
+                this.cutaway = target.checked;
+                this.callbacks.onToggleCutaway(this.cutaway);
+                return;
+            }
+
+            const layerId = (target.closest('.layer-item') as HTMLElement | null)?.dataset.layerId;
+            const layer = layerId ? this.level.getLayer(layerId) : undefined;
+            if (!layer || target.dataset.action !== 'elevation') return;
+
+            const elevation = parseFloat(target.value);
+            if (isNaN(elevation) || elevation === layer.baseElevation) {
+                this.render();
+                return;
+            }
+
+            this.editor.getHistory().execute(
+                new UpdateLayerCommand(layer.id, { baseElevation: elevation }, `Move layer "${layer.name}"`)
+            );
+        });
+    }
+
+    /**
+     * Adds a layer one storey above the highest one and makes it active
+     */
+    private addLayer(): void {
+        const layers = this.level.getLayers();
+        const top = layers[layers.length - 1];
+        const layer: LevelLayer = {
+            id: generateLayerId(),
+            name: `Floor ${layers.length}`,
+            baseElevation: top.baseElevation + DEFAULT_STOREY_HEIGHT,
+            visible: true,
+            locked: false
+        };
+
+        this.editor.getHistory().execute(new AddLayerCommand(layer));
+        this.editor.setActiveLayer(layer.id);
+    }
+
+    /**
+     * Removes a layer (with its elements) after confirmation
+     */
+    private removeLayer(layer: LevelLayer): void {
+        const count = this.level.getElementsOnLayer(layer.id).length;
+        if (count > 0 && !confirm(`Remove layer "${layer.name}" and its ${count} element(s)?`)) {
+            return;
+        }
+
+        this.editor.getHistory().execute(
+            new RemoveLayerCommand(layer.id, `Remove layer "${layer.name}"`)
+        );
+    }
+
+    /**
+     * Renders the panel HTML
+     */
+    private render(): void {
+        // Topmost storey first, like a building section
+        const layers = this.level.getLayers().reverse();
+        const activeId = this.editor.getActiveLayer().id;
+        const canRemove = layers.length > 1;
+
+        const items = layers.map(layer => `
+            <li class="layer-item ${layer.id === activeId ? 'active' : ''} ${layer.visible ? '' : 'layer-item-hidden'}"
+                data-layer-id="${layer.id}">
+                <button class="layer-btn" data-action="visible" title="${layer.visible ? 'Hide' : 'Show'} layer">${layer.visible ? '●' : '○'}</button>
+                <button class="layer-btn" data-action="lock" title="${layer.locked ? 'Unlock' : 'Lock'} layer">${layer.locked ? '🔒' : '🔓'}</button>
+                <span class="layer-name" title="Double-click to rename">${this.escapeHtml(layer.name)}</span>
+                <input type="number" class="layer-elevation" data-action="elevation"
+                       value="${layer.baseElevation}" step="0.5" title="Base elevation (m)">
+                <button class="layer-btn" data-action="export" title="Export layer as GLB">⤓</button>
+                <button class="layer-btn" data-action="remove" title="Remove layer" ${canRemove ? '' : 'disabled'}>✕</button>
+            </li>
+        `).join('');
+
+        this.container.innerHTML = `
+            <div class="layer-header">
+                <span class="layer-title">Layers</span>
+                <div class="layer-actions">
+                    <label class="layer-cutaway" title="Hide layers above the active one in 3D">
+                        <input type="checkbox" id="layer-cutaway" ${this.cutaway ? 'checked' : ''}> Cutaway
+                    </label>
+                    <button class="layer-btn" id="layer-add" title="Add layer">+</button>
+                </div>
+            </div>
+            <ul class="layer-list">
+                ${items}
+            </ul>
+        `;
+    }
+
+    /**
+     * Escapes text for safe insertion into HTML
+     */
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+}
@@ -0,0 +1,247 @@
+/**
+ * Layout Synthesis Panel
+ * Dialog for growing a new layout from an example area of the level (toolbar **Synthesize** button)
+ */
+
+import { GridRect } from '../Domain/GridSystem.js';
+import { DEFAULT_SYNTHESIS_OPTIONS } from '../Domain/LayoutSynthesizer.js';
+import { DEFAULT_WALL_HEIGHT } from '../Domain/LevelElement.js';
+
+/**
+ * What to learn from and where to put the result
+ */
+export interface LayoutSynthesisSettings {
+    /** Example area, in grid cells */
+    sample: GridRect;
+    /** Area to fill, in grid cells */
+    output: GridRect;
+    patternSize: number;
+    symmetry: boolean;
+    seed: number;
+    wallHeight: number;
+}
+
+/**
+ * Outcome shown under the form
+ */
+export interface LayoutSynthesisStatus {
+    success: boolean;
+    message: string;
+}
+
+/**
+ * Callbacks for reading the editor and applying a layout
+ */
+export interface LayoutSynthesisPanelCallbacks {
+    /** Cells covered by the selected elements, if any are selected */
+    getSelectionBounds: () => GridRect | null;
+    getGridSize: () => { width: number; height: number };
+    onSynthesize: (settings: LayoutSynthesisSettings) => LayoutSynthesisStatus;
+}
+
+/**
+ * Layout Synthesis Panel class
+ */
+export class LayoutSynthesisPanel {
+    private container: HTMLElement;
+    private callbacks: LayoutSynthesisPanelCallbacks;
+    private settings: LayoutSynthesisSettings;
+    private status: LayoutSynthesisStatus | null = null;
+
+    constructor(containerId: string, callbacks: LayoutSynthesisPanelCallbacks) {
+        const container = document.getElementById(containerId);
+        if (!container) {
+            throw new Error(`Container element with id "${containerId}" not found`);
+        }
+
+        this.container = container;
+        this.callbacks = callbacks;
+
+        const { width, height } = callbacks.getGridSize();
+        this.settings = {
+            sample: { x: 0, y: 0, width: Math.min(width, 10), height: Math.min(height, 10) },
+            output: { x: 0, y: 0, width, height },
+            patternSize: DEFAULT_SYNTHESIS_OPTIONS.patternSize,
+            symmetry: DEFAULT_SYNTHESIS_OPTIONS.symmetry,
+            seed: DEFAULT_SYNTHESIS_OPTIONS.seed,
+            wallHeight: DEFAULT_WALL_HEIGHT
+        };
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Opens the dialog, taking the example area from the selection if there is one
+     */
+    show(): void {
+        const selection = this.callbacks.getSelectionBounds();
+        if (selection) {
+            this.settings.sample = selection;
+        }
+        this.status = null;
+        this.render();
+        this.container.classList.add('visible');
+    }
+
+    /**
+     * Closes the dialog
+     */
+    hide(): void {
+        this.container.classList.remove('visible');
+    }
+
+    /**
+     * Checks whether the dialog is open
+     */
+    isVisible(): boolean {
+        return this.container.classList.contains('visible');
+    }
+
+    /**
+     * Sets up click handling (delegated, since the dialog is re-rendered)
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('click', (e) => {
+            const target = e.target as HTMLElement;
+
+            // Clicking the backdrop closes the dialog
+            if (target === this.container || target.closest('#synthesis-close')) {
+                this.hide();
+            } else if (target.closest('#synthesis-use-selection')) {
+                this.readSettings();
+                const selection = this.callbacks.getSelectionBounds();
+                this.settings.sample = selection ?? this.settings.sample;
+                this.status = selection ? null : { success: false, message: 'Select the elements to learn from first' };
+                this.render();
+            } else if (target.closest('#synthesis-whole-grid')) {
+                this.readSettings();
+                const { width, height } = this.callbacks.getGridSize();
+                this.settings.output = { x: 0, y: 0, width, height };
+                this.render();
+            } else if (target.closest('#synthesis-reseed')) {
+                this.readSettings();
+                this.settings.seed = Math.floor(Math.random() * 1000000);
+                this.render();
+            } else if (target.closest('#synthesis-run')) {
+                this.readSettings();
+                this.status = this.callbacks.onSynthesize({
+                    ...this.settings,
+                    sample: { ...this.settings.sample },
+                    output: { ...this.settings.output }
+                });
+                this.render();
+            }
+        });
+
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isVisible()) {
+                this.hide();
+            }
+        });
+    }
+
+    /**
+     * Reads the form into the settings (invalid numbers keep their previous value)
+     */
+    private readSettings(): void {
+        const input = (id: string) => this.container.querySelector(`#${id}`) as HTMLInputElement | null;
+        const number = (id: string, fallback: number) => {
+            const parsed = parseFloat(input(id)?.value ?? '');
+            return Number.isFinite(parsed) ? parsed : fallback;
+        };
+        const rect = (prefix: string, fallback: GridRect): GridRect => ({
+            x: Math.floor(number(`${prefix}-x`, fallback.x)),
+            y: Math.floor(number(`${prefix}-y`, fallback.y)),
+            width: Math.floor(number(`${prefix}-width`, fallback.width)),
+            height: Math.floor(number(`${prefix}-height`, fallback.height))
+        });
+
+        this.settings = {
+            sample: rect('synthesis-sample', this.settings.sample),
+            output: rect('synthesis-output', this.settings.output),
+            patternSize: number('synthesis-pattern', this.settings.patternSize),
+            symmetry: input('synthesis-symmetry')?.checked ?? this.settings.symmetry,
+            seed: Math.floor(number('synthesis-seed', this.settings.seed)),
+            wallHeight: number('synthesis-wall-height', this.settings.wallHeight)
+        };
+    }
+
+    /**
+     * Renders the fields of an area
+     */
+    private renderRect(prefix: string, rect: GridRect): string {
+        return `
+            <span class="synthesis-row">
+                <input type="number" id="${prefix}-x" value="${rect.x}" step="1" title="X">
+                <input type="number" id="${prefix}-y" value="${rect.y}" step="1" title="Y">
+                <input type="number" id="${prefix}-width" value="${rect.width}" min="1" step="1" title="Width">
+                <input type="number" id="${prefix}-height" value="${rect.height}" min="1" step="1" title="Depth">
+            </span>
+        `;
+    }
+
+    /**
+     * Renders the dialog HTML
+     */
+    private render(): void {
+        const settings = this.settings;
+        const patternSizes = [2, 3, 4].map(size => `
+            <option value="${size}" ${size === settings.patternSize ? 'selected' : ''}>${size} x ${size}</option>
+        `).join('');
+        const status = this.status
+            ? `<p class="synthesis-status ${this.status.success ? '' : 'synthesis-status-error'}">${this.escapeHtml(this.status.message)}</p>`
+            : '';
+
+        this.container.innerHTML = `
+            <div class="synthesis-dialog" role="dialog" aria-label="Synthesize layout">
+                <div class="synthesis-header">
+                    <span class="synthesis-title">Synthesize Layout</span>
+                    <button class="synthesis-btn" id="synthesis-close" title="Close (Esc)">✕</button>
+                </div>
+                <div class="synthesis-form">
+                    <label>Example area (x / y / width / depth)
+                        ${this.renderRect('synthesis-sample', settings.sample)}
+                    </label>
+                    <button class="synthesis-btn" id="synthesis-use-selection">Use selection</button>
+                    <label>Output area (x / y / width / depth)
+                        ${this.renderRect('synthesis-output', settings.output)}
+                    </label>
+                    <button class="synthesis-btn" id="synthesis-whole-grid">Whole grid</button>
+                    <label>Pattern size
+                        <select id="synthesis-pattern">${patternSizes}</select>
+                    </label>
+                    <label class="synthesis-checkbox">
+                        <input type="checkbox" id="synthesis-symmetry" ${settings.symmetry ? 'checked' : ''}>
+                        Rotations and reflections
+                    </label>
+                    <label>Seed
+                        <span class="synthesis-row">
+                            <input type="number" id="synthesis-seed" value="${settings.seed}" step="1">
+                            <button class="synthesis-btn" id="synthesis-reseed" title="Random seed">🎲</button>
+                        </span>
+                    </label>
+                    <label>Wall height
+                        <input type="number" id="synthesis-wall-height" value="${settings.wallHeight}" min="0.1" step="0.5">
+                    </label>
+                </div>
+                <p class="synthesis-note">
+                    Replaces the output area on the active layer (undo with Ctrl+Z).
+                    Cells covered by visible locked layers are kept.
+                </p>
+                ${status}
+                <div class="synthesis-actions">
+                    <button class="synthesis-btn synthesis-btn-primary" id="synthesis-run">Synthesize</button>
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Escapes HTML special characters
+     */
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+}
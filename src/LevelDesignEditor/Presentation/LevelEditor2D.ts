@@ -3,24 +3,115 @@
  * Canvas-based grid editor for drawing level layouts
  */
 
-import { Level } from '../Domain/Level.js';
+import { Level, LevelLayer, DEFAULT_LAYER_ID } from '../Domain/Level.js';
 import { GridSystem } from '../Domain/GridSystem.js';
+import { CommandHistory } from '../Domain/CommandHistory.js';
+import { AddElementCommand, RemoveElementCommand, UpdateElementCommand } from '../Domain/LevelCommands.js';
+import { ValidationIssue, ValidationSeverity } from '../Domain/LevelValidator.js';
+import { ReachabilityReport } from '../Domain/ReachabilityAnalyzer.js';
+import { TelemetryEvent, TelemetryHeatmap, TelemetryHeatmapMode } from '../Domain/PlaytestTelemetry.js';
+import { Prefab, instantiatePrefab } from '../Domain/Prefab.js';
 import {
     AnyLevelElement,
     ElementType,
     SpawnType,
+    SlopeDirection,
+    SlopeElement,
+    WallElement,
+    AnyOpeningElement,
+    PrefabPlacement,
+    DEFAULT_DOOR_HEIGHT,
+    DEFAULT_WINDOW_HEIGHT,
+    DEFAULT_WINDOW_SILL_HEIGHT,
     createWallElement,
+    createWallBetween,
     createFloorElement,
     createSpawnElement,
+    createRampElement,
+    createStairElement,
+    createDoorElement,
+    createWindowElement,
     isWallElement,
     isFloorElement,
-    isSpawnElement
+    isSpawnElement,
+    isSlopeElement,
+    isStairElement,
+    isOpeningElement,
+    getWallAxis,
+    getElevationOffsetUpdates,
+    isRotatableElement,
+    normalizeRotation,
+    getElementRotation,
+    getElementCenter,
+    toElementLocal,
+    fromElementLocal,
+    fitOpeningToWall,
+    getElementBounds,
+    getElementElevation,
+    cloneElementsWithNewIds
 } from '../Domain/LevelElement.js';
 
 /**
  * Editor tool types
  */
-export type EditorTool = 'wall' | 'floor' | 'spawn' | 'select' | 'erase';
+export type EditorTool =
+    | 'wall'
+    | 'angled-wall'
+    | 'floor'
+    | 'ramp'
+    | 'stair'
+    | 'door'
+    | 'window'
+    | 'spawn'
+    | 'prefab'
+    | 'select'
+    | 'erase';
+
+/**
+ * Settings for the door and window tools
+ */
+export interface OpeningSettings {
+    /** Width along the wall in grid units */
+    span: number;
+    /** Opening height in meters */
+    height: number;
+    /** Bottom edge above the wall base in meters (ignored for doors) */
+    sillHeight: number;
+}
+
+/**
+ * Resize handles on the selected element's rectangle (compass directions in the 2D view)
+ */
+type ResizeHandle = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+/**
+ * Position and size of an element's rectangle
+ */
+type Footprint = Pick<AnyLevelElement, 'gridX' | 'gridY' | 'width' | 'depth'>;
+
+/**
+ * A move or resize in progress with the select tool
+ */
+interface DragState {
+    mode: 'move' | 'resize';
+    handle: ResizeHandle | null;
+    /** Every element the drag changes, as it was when the drag started (resized element first) */
+    originals: AnyLevelElement[];
+    /** History step name */
+    label: string;
+    startX: number;
+    startY: number;
+}
+
+/**
+ * A box selection in progress with the select tool
+ */
+interface MarqueeState {
+    startX: number;
+    startY: number;
+    /** Add to the selection instead of replacing it (Shift held) */
+    additive: boolean;
+}
 
 /**
  * Editor state change callback
@@ -32,10 +123,26 @@ export type EditorStateCallback = (state: EditorState) => void;
  */
 export interface EditorState {
     tool: EditorTool;
+    /** Most recently selected element */
     selectedElement: AnyLevelElement | null;
+    selectedElements: AnyLevelElement[];
     spawnType: SpawnType;
     wallHeight: number;
     floorElevation: number;
+    slopeDirection: SlopeDirection;
+    slopeStartElevation: number;
+    slopeEndElevation: number;
+    stairStepCount: number | null;
+    /** Rotation in degrees applied to new walls, floors, ramps and stairs */
+    rotation: number;
+    door: OpeningSettings;
+    window: OpeningSettings;
+    /** Layer that new elements are placed on and edits apply to */
+    activeLayerId: string;
+    /** Prefab stamped by the prefab tool */
+    prefabId: string | null;
+    /** Stamp prefabs mirrored (before the rotation setting is applied) */
+    prefabMirrored: boolean;
 }
 
 /**
@@ -45,6 +152,7 @@ export class LevelEditor2D {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
     private level: Level;
+    private history: CommandHistory;
     private gridSystem: GridSystem;
 
     // View settings
@@ -54,17 +162,49 @@ export class LevelEditor2D {
 
     // Tool state
     private currentTool: EditorTool = 'wall';
-    private selectedElement: AnyLevelElement | null = null;
+    private selection: string[] = []; // Element IDs, most recently selected last
     private spawnType: SpawnType = 'player';
     private wallHeight: number = 3.0;
     private floorElevation: number = 0;
+    private slopeDirection: SlopeDirection = 'north';
+    private slopeStartElevation: number = 0;
+    private slopeEndElevation: number = 1;
+    private stairStepCount: number | null = null; // null = derive from rise
+    private rotation: number = 0;
+    private doorSettings: OpeningSettings = { span: 1, height: DEFAULT_DOOR_HEIGHT, sillHeight: 0 };
+    private windowSettings: OpeningSettings = {
+        span: 2,
+        height: DEFAULT_WINDOW_HEIGHT,
+        sillHeight: DEFAULT_WINDOW_SILL_HEIGHT
+    };
+
+    // Layer state
+    private activeLayerId: string = DEFAULT_LAYER_ID;
+    private prefab: Prefab | null = null;
+    private prefabMirrored: boolean = false;
 
     // Drawing state
     private isDrawing: boolean = false;
+    private drag: DragState | null = null;
+    private marquee: MarqueeState | null = null;
+    private pointerInside: boolean = false;
     private drawStartX: number = 0;
     private drawStartY: number = 0;
     private currentGridX: number = 0;
     private currentGridY: number = 0;
+    private currentPointX: number = 0; // Unsnapped cursor position in grid units
+    private currentPointY: number = 0;
+
+    // Validation overlay
+    private validationIssues: ValidationIssue[] = [];
+
+    // Reachability overlay
+    private reachability: ReachabilityReport | null = null;
+
+    // Telemetry overlay
+    private heatmap: TelemetryHeatmap | null = null;
+    private heatmapMode: TelemetryHeatmapMode = 'visits';
+    private telemetryEvents: TelemetryEvent[] = [];
 
     // Callbacks
     private stateCallbacks: EditorStateCallback[] = [];
@@ -76,13 +216,25 @@ export class LevelEditor2D {
     private readonly WALL_STROKE = '#2d3748';
     private readonly FLOOR_COLOR = '#a0aec0';
     private readonly FLOOR_STROKE = '#718096';
+    private readonly RAMP_COLOR = '#90cdf4';
+    private readonly STAIR_COLOR = '#b794f4';
+    private readonly SLOPE_STROKE = '#4a5568';
+    private readonly DOOR_COLOR = '#f6e05e';
+    private readonly WINDOW_COLOR = '#bee3f8';
     private readonly SPAWN_PLAYER_COLOR = '#48bb78';
     private readonly SPAWN_ENEMY_COLOR = '#f56565';
     private readonly SPAWN_ITEM_COLOR = '#ecc94b';
     private readonly SELECTION_COLOR = '#4299e1';
     private readonly GHOST_ALPHA = 0.4;
-
-    constructor(canvasId: string, level: Level) {
+    private readonly INACTIVE_LAYER_ALPHA = 0.25;
+    private readonly HANDLE_SIZE = 8;
+    private readonly ISSUE_COLORS: Record<ValidationSeverity, string> = {
+        error: '#e53e3e',
+        warning: '#dd6b20',
+        info: '#3182ce'
+    };
+
+    constructor(canvasId: string, level: Level, history?: CommandHistory) {
         const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
         if (!canvas) {
             throw new Error(`Canvas element with id "${canvasId}" not found`);
@@ -96,14 +248,31 @@ export class LevelEditor2D {
         this.canvas = canvas;
         this.ctx = ctx;
         this.level = level;
+        this.history = history ?? new CommandHistory(level);
         this.gridSystem = new GridSystem();
 
         this.setupEventListeners();
         this.centerView();
         this.render();
 
-        // Re-render when level changes
-        this.level.onChange(() => this.render());
+        // Re-render when level changes, dropping selected elements that were undone away
+        // and falling back to another layer if the active one was removed
+        this.level.onChange(() => {
+            let stateChanged = false;
+            const remaining = this.selection.filter(id => this.level.getElement(id));
+            if (remaining.length !== this.selection.length) {
+                this.selection = remaining;
+                stateChanged = true;
+            }
+            if (!this.level.getLayer(this.activeLayerId)) {
+                this.activeLayerId = this.level.getLayers()[0].id;
+                stateChanged = true;
+            }
+            if (stateChanged) {
+                this.notifyStateChange();
+            }
+            this.render();
+        });
     }
 
     /**
@@ -141,15 +310,31 @@ export class LevelEditor2D {
         const pixelY = e.clientY - rect.top;
 
         const [gridX, gridY] = this.pixelToGrid(pixelX, pixelY);
+        const [pointX, pointY] = this.pixelToPoint(pixelX, pixelY);
+
+        // Hidden or locked layers can only be selected, not edited
+        if (this.currentTool !== 'select' && !this.isActiveLayerEditable()) {
+            return;
+        }
 
         if (e.button === 0) { // Left click
             if (this.currentTool === 'select') {
-                this.selectElementAt(gridX, gridY);
+                this.startDragAt(pointX, pointY, e.shiftKey);
             } else if (this.currentTool === 'erase') {
-                this.eraseElementAt(gridX, gridY);
+                this.eraseElementAt(pointX, pointY);
+            } else if (this.currentTool === 'angled-wall') {
+                // Angled walls run between grid intersections
+                this.isDrawing = true;
+                this.drawStartX = Math.round(pointX);
+                this.drawStartY = Math.round(pointY);
             } else if (this.currentTool === 'spawn') {
                 // Spawns are placed immediately on click
                 this.placeSpawn(gridX, gridY);
+            } else if (this.currentTool === 'door' || this.currentTool === 'window') {
+                // Openings are placed into the wall under the cursor
+                this.placeOpening(pointX, pointY);
+            } else if (this.currentTool === 'prefab') {
+                this.stampPrefab();
             } else {
                 // Start drawing for wall/floor
                 this.isDrawing = true;
@@ -172,6 +357,12 @@ export class LevelEditor2D {
         const [gridX, gridY] = this.pixelToGrid(pixelX, pixelY);
         this.currentGridX = gridX;
         this.currentGridY = gridY;
+        [this.currentPointX, this.currentPointY] = this.pixelToPoint(pixelX, pixelY);
+        this.pointerInside = true;
+
+        if (this.drag) {
+            this.updateDrag();
+        }
 
         this.render();
     }
@@ -184,6 +375,8 @@ export class LevelEditor2D {
             this.finishDrawing();
         }
         this.isDrawing = false;
+        this.finishDrag();
+        this.finishMarquee();
         this.render();
     }
 
@@ -192,6 +385,9 @@ export class LevelEditor2D {
      */
     private handleMouseLeave(): void {
         this.isDrawing = false;
+        this.pointerInside = false;
+        this.finishDrag();
+        this.finishMarquee();
         this.render();
     }
 
@@ -230,6 +426,16 @@ export class LevelEditor2D {
         return [gridX, gridY];
     }
 
+    /**
+     * Converts pixel coordinates to unsnapped (fractional) grid coordinates
+     */
+    private pixelToPoint(pixelX: number, pixelY: number): [number, number] {
+        return [
+            (pixelX - this.offsetX) / this.pixelsPerUnit,
+            (pixelY - this.offsetY) / this.pixelsPerUnit
+        ];
+    }
+
     /**
      * Converts grid coordinates to pixel coordinates
      */
@@ -248,6 +454,23 @@ export class LevelEditor2D {
      * Finishes a drawing operation and creates an element
      */
     private finishDrawing(): void {
+        if (this.currentTool === 'angled-wall') {
+            const endX = Math.round(this.currentPointX);
+            const endY = Math.round(this.currentPointY);
+            if (endX === this.drawStartX && endY === this.drawStartY) return;
+
+            const wall = createWallBetween(
+                this.drawStartX,
+                this.drawStartY,
+                endX,
+                endY,
+                undefined,
+                this.wallHeight
+            );
+            this.addToActiveLayer(wall, 'Draw angled wall');
+            return;
+        }
+
         const startX = Math.min(this.drawStartX, this.currentGridX);
         const startY = Math.min(this.drawStartY, this.currentGridY);
         const endX = Math.max(this.drawStartX, this.currentGridX);
@@ -265,7 +488,7 @@ export class LevelEditor2D {
                     depth,
                     this.wallHeight
                 );
-                this.level.addElement(wall);
+                this.addToActiveLayer(wall, 'Draw wall');
             } else if (this.currentTool === 'floor') {
                 const floor = createFloorElement(
                     startX,
@@ -274,7 +497,30 @@ export class LevelEditor2D {
                     depth,
                     this.floorElevation
                 );
-                this.level.addElement(floor);
+                this.addToActiveLayer(floor, 'Draw floor');
+            } else if (this.currentTool === 'ramp') {
+                const ramp = createRampElement(
+                    startX,
+                    startY,
+                    width,
+                    depth,
+                    this.slopeDirection,
+                    this.slopeStartElevation,
+                    this.slopeEndElevation
+                );
+                this.addToActiveLayer(ramp, 'Draw ramp');
+            } else if (this.currentTool === 'stair') {
+                const stair = createStairElement(
+                    startX,
+                    startY,
+                    width,
+                    depth,
+                    this.slopeDirection,
+                    this.slopeStartElevation,
+                    this.slopeEndElevation,
+                    this.stairStepCount ?? undefined
+                );
+                this.addToActiveLayer(stair, 'Draw stairs');
             }
         }
     }
@@ -284,33 +530,444 @@ export class LevelEditor2D {
      */
     private placeSpawn(gridX: number, gridY: number): void {
         const spawn = createSpawnElement(gridX, gridY, this.spawnType);
-        this.level.addElement(spawn);
+        this.addToActiveLayer(spawn, `Place ${this.spawnType} spawn`);
     }
 
     /**
-     * Selects an element at the given grid position
+     * Gets where the prefab tool would stamp: the pivot on the grid intersection under the cursor
      */
-    private selectElementAt(gridX: number, gridY: number): void {
-        const elements = this.level.getElementsAt(gridX, gridY);
-        if (elements.length > 0) {
-            this.selectedElement = elements[elements.length - 1]; // Top element
+    private getPrefabPlacement(): PrefabPlacement {
+        return {
+            x: Math.round(this.currentPointX),
+            y: Math.round(this.currentPointY),
+            rotation: this.rotation,
+            mirrored: this.prefabMirrored
+        };
+    }
+
+    /**
+     * Stamps a linked instance of the current prefab under the cursor
+     */
+    private stampPrefab(): void {
+        if (!this.prefab) return;
+
+        const elements = instantiatePrefab(this.prefab, this.getPrefabPlacement());
+        this.history.group(`Stamp "${this.prefab.name}"`, () => {
+            elements.forEach(element => this.addToActiveLayer(element, `Add ${element.type}`));
+        });
+    }
+
+    /**
+     * Adds an element to the active layer
+     * Tool elevations are relative to the layer, so its base elevation is added on top
+     */
+    private addToActiveLayer(element: AnyLevelElement, label: string): void {
+        const layer = this.getActiveLayer();
+        Object.assign(element, getElevationOffsetUpdates(element, layer.baseElevation));
+        element.layerId = layer.id;
+        if (this.rotation !== 0 && isRotatableElement(element) && element.rotation === undefined) {
+            element.rotation = this.rotation;
+        }
+        this.history.execute(new AddElementCommand(element, label));
+    }
+
+    /**
+     * Cuts a door or window into the topmost wall at the given point
+     * Openings are stored in the wall's unrotated frame
+     */
+    private placeOpening(x: number, y: number): void {
+        const walls = this.getActiveElementsAt(x, y).filter(isWallElement);
+        const wall = walls[walls.length - 1];
+        if (!wall) return;
+
+        const [localX, localY] = toElementLocal(wall, x, y);
+        const gridX = Math.floor(localX);
+        const gridY = Math.floor(localY);
+
+        if (this.currentTool === 'door') {
+            const settings = this.doorSettings;
+            const door = createDoorElement(wall, gridX, gridY, settings.span, settings.height);
+            door.layerId = wall.layerId;
+            this.history.execute(new AddElementCommand(door, 'Add door'));
         } else {
-            this.selectedElement = null;
+            const settings = this.windowSettings;
+            const windowElement = createWindowElement(
+                wall, gridX, gridY, settings.span, settings.height, settings.sillHeight
+            );
+            windowElement.layerId = wall.layerId;
+            this.history.execute(new AddElementCommand(windowElement, 'Add window'));
         }
+    }
+
+    /**
+     * Removes an element; walls take their doors and windows with them in one step
+     */
+    private removeElementWithDependents(element: AnyLevelElement, label: string): void {
+        const openings = isWallElement(element)
+            ? this.level.getAllElements().filter(e => isOpeningElement(e) && e.wallId === element.id)
+            : [];
+
+        this.history.group(label, () => {
+            openings.forEach(opening => this.history.execute(new RemoveElementCommand(opening.id)));
+            this.history.execute(new RemoveElementCommand(element.id, label));
+        });
+    }
+
+    // ========== Selection ==========
+
+    /**
+     * Gets the top element of the active layer at the given point
+     */
+    private getTopElementAt(x: number, y: number): AnyLevelElement | null {
+        const elements = this.getActiveElementsAt(x, y);
+        return elements.length > 0 ? elements[elements.length - 1] : null;
+    }
+
+    /**
+     * Replaces the selection
+     */
+    private select(ids: string[]): void {
+        this.selection = Array.from(new Set(ids));
         this.notifyStateChange();
     }
 
     /**
-     * Erases elements at the given grid position
+     * Checks whether an element is selected
+     */
+    private isSelected(elementId: string): boolean {
+        return this.selection.includes(elementId);
+    }
+
+    /**
+     * Gets the elements that move with the selection: the selected elements plus
+     * the openings of selected walls
+     */
+    private getMoveTargets(): AnyLevelElement[] {
+        const elements = this.getSelectedElements();
+        const ids = new Set(elements.map(element => element.id));
+        elements.forEach(element => {
+            this.getWallOpenings(element).forEach(opening => {
+                if (!ids.has(opening.id)) {
+                    ids.add(opening.id);
+                    elements.push(opening);
+                }
+            });
+        });
+        return elements;
+    }
+
+    /**
+     * Names a history step acting on the given elements
+     */
+    private describeStep(verb: string, elements: AnyLevelElement[]): string {
+        return elements.length === 1 ? `${verb} ${elements[0].type}` : `${verb} ${elements.length} elements`;
+    }
+
+    /**
+     * Starts a box selection
+     */
+    private startMarquee(x: number, y: number, additive: boolean): void {
+        if (!additive && this.selection.length > 0) {
+            this.select([]);
+        }
+        this.marquee = { startX: x, startY: y, additive };
+    }
+
+    /**
+     * Ends a box selection, selecting the active layer's elements that lie fully inside the box
+     */
+    private finishMarquee(): void {
+        const marquee = this.marquee;
+        this.marquee = null;
+        if (!marquee) return;
+
+        const minX = Math.min(marquee.startX, this.currentPointX);
+        const minY = Math.min(marquee.startY, this.currentPointY);
+        const maxX = Math.max(marquee.startX, this.currentPointX);
+        const maxY = Math.max(marquee.startY, this.currentPointY);
+
+        const inside = this.level.getElementsOnLayer(this.activeLayerId)
+            .filter(element => {
+                const bounds = getElementBounds(element, this.level.getElementFrame(element));
+                return bounds.gridX >= minX && bounds.gridY >= minY &&
+                    bounds.gridX + bounds.width <= maxX && bounds.gridY + bounds.depth <= maxY;
+            })
+            .map(element => element.id);
+
+        this.select(marquee.additive ? [...this.selection, ...inside] : inside);
+    }
+
+    // ========== Move / resize ==========
+
+    /**
+     * Handles a select-tool press:
+     * - on a resize handle of a single selected element, starts resizing it
+     * - with Shift, toggles the element under the point in the selection
+     * - on an element, selects it (unless already selected) and starts moving the selection
+     * - on empty space, starts a box selection
+     */
+    private startDragAt(x: number, y: number, additive: boolean): void {
+        const handle = additive ? null : this.getHandleAt(x, y);
+        const element = handle ? this.getSelectedElement() : this.getTopElementAt(x, y);
+
+        if (!element) {
+            this.startMarquee(x, y, additive);
+            return;
+        }
+
+        if (additive) {
+            this.select(this.isSelected(element.id)
+                ? this.selection.filter(id => id !== element.id)
+                : [...this.selection, element.id]);
+            return;
+        }
+
+        if (!this.isSelected(element.id)) {
+            this.select([element.id]);
+        }
+        if (!this.isActiveLayerEditable()) return;
+
+        const originals = handle
+            ? [element, ...this.getWallOpenings(element)]
+            : this.getMoveTargets();
+
+        this.drag = {
+            mode: handle ? 'resize' : 'move',
+            handle,
+            originals: originals.map(original => ({ ...original })),
+            label: handle ? `Resize ${element.type}` : this.describeStep('Move', this.getSelectedElements()),
+            startX: x,
+            startY: y
+        };
+    }
+
+    /**
+     * Applies the current drag to the level (live, outside the history)
+     */
+    private updateDrag(): void {
+        const drag = this.drag!;
+        const dx = this.currentPointX - drag.startX;
+        const dy = this.currentPointY - drag.startY;
+
+        const updates = drag.mode === 'resize'
+            ? this.getResizeUpdates(drag)
+            : this.getMoveUpdates(drag.originals, dx, dy);
+
+        updates.forEach(([id, footprint]) => this.level.updateElement(id, footprint));
+    }
+
+    /**
+     * Ends a drag, recording the net change as a single undoable step
+     */
+    private finishDrag(): void {
+        const drag = this.drag;
+        this.drag = null;
+        if (!drag) return;
+
+        const changes = drag.originals
+            .map(original => {
+                const current = this.level.getElement(original.id);
+                return current ? { original, final: this.getFootprint(current) } : null;
+            })
+            .filter((change): change is { original: AnyLevelElement; final: Footprint } =>
+                change !== null && !this.sameFootprint(change.original, change.final)
+            );
+        if (changes.length === 0) return;
+
+        // Put the originals back so the commands record the right previous values
+        changes.forEach(({ original }) => this.level.updateElement(original.id, this.getFootprint(original)));
+
+        this.history.group(drag.label, () => {
+            changes.forEach(({ original, final }) => {
+                this.history.execute(new UpdateElementCommand(original.id, final, drag.label));
+            });
+        });
+    }
+
+    /**
+     * Gets the footprint changes that move elements by a grid-snapped offset
+     * Openings moved without their wall slide along it instead
+     */
+    private getMoveUpdates(elements: AnyLevelElement[], dx: number, dy: number): Array<[string, Footprint]> {
+        const moving = new Set(elements.map(element => element.id));
+
+        return elements.map(element => {
+            if (!isOpeningElement(element) || moving.has(element.wallId)) {
+                return [element.id, this.getMovedFootprint(element, dx, dy)];
+            }
+
+            const wall = this.level.getElement(element.wallId);
+            if (!wall || !isWallElement(wall)) {
+                return [element.id, this.getFootprint(element)];
+            }
+
+            // Offset in the wall's frame
+            const [originX, originY] = toElementLocal(wall, 0, 0);
+            const [localX, localY] = toElementLocal(wall, dx, dy);
+            const moved = { ...element, ...this.getMovedFootprint(element, localX - originX, localY - originY) };
+            return [element.id, this.fitOpening(moved, wall)];
+        });
+    }
+
+    /**
+     * Gets the footprint of an element moved by a grid-snapped offset
+     */
+    private getMovedFootprint(element: AnyLevelElement, dx: number, dy: number): Footprint {
+        return {
+            gridX: element.gridX + this.gridSystem.snap(dx),
+            gridY: element.gridY + this.gridSystem.snap(dy),
+            width: element.width,
+            depth: element.depth
+        };
+    }
+
+    /**
+     * Gets the footprint of an element with one edge or corner dragged
+     * Edges move in grid steps within the element's frame; the opposite edges stay in place
+     */
+    private getResizedFootprint(
+        element: AnyLevelElement,
+        handle: ResizeHandle,
+        startX: number,
+        startY: number
+    ): Footprint {
+        const minSize = this.gridSystem.getCellSize();
+        const [fromX, fromY] = toElementLocal(element, startX, startY);
+        const [toX, toY] = toElementLocal(element, this.currentPointX, this.currentPointY);
+        const dx = this.gridSystem.snap(toX - fromX);
+        const dy = this.gridSystem.snap(toY - fromY);
+
+        let x0 = element.gridX;
+        let y0 = element.gridY;
+        let x1 = element.gridX + element.width;
+        let y1 = element.gridY + element.depth;
+
+        if (handle.includes('w')) x0 = Math.min(x0 + dx, x1 - minSize);
+        if (handle.includes('e')) x1 = Math.max(x1 + dx, x0 + minSize);
+        if (handle.includes('n')) y0 = Math.min(y0 + dy, y1 - minSize);
+        if (handle.includes('s')) y1 = Math.max(y1 + dy, y0 + minSize);
+
+        // Rotated elements pivot on their center, so place the new center through the old frame
+        const width = x1 - x0;
+        const depth = y1 - y0;
+        const [centerX, centerY] = fromElementLocal(element, (x0 + x1) / 2, (y0 + y1) / 2);
+        return { gridX: centerX - width / 2, gridY: centerY - depth / 2, width, depth };
+    }
+
+    /**
+     * Gets the footprint changes of a resize: the resized element, and a wall's openings
+     * refitted into it
+     */
+    private getResizeUpdates(drag: DragState): Array<[string, Footprint]> {
+        const [original, ...openings] = drag.originals;
+        const footprint = this.getResizedFootprint(original, drag.handle!, drag.startX, drag.startY);
+        if (!isWallElement(original)) {
+            return [[original.id, footprint]];
+        }
+
+        const wall: WallElement = { ...original, ...footprint };
+        return [
+            [original.id, footprint],
+            ...openings
+                .filter(isOpeningElement)
+                .map((opening): [string, Footprint] => [opening.id, this.fitOpening(opening, wall, original)])
+        ];
+    }
+
+    /**
+     * Fits an opening back into its wall, keeping its span and position where possible
+     * @param spanWall Wall whose axis defines the opening's span (the wall before a resize)
+     */
+    private fitOpening(opening: AnyOpeningElement, wall: WallElement, spanWall: WallElement = wall): Footprint {
+        const span = getWallAxis(spanWall) === 'x' ? opening.width : opening.depth;
+        return fitOpeningToWall(
+            wall,
+            opening.gridX + (opening.width - 1) / 2,
+            opening.gridY + (opening.depth - 1) / 2,
+            span
+        );
+    }
+
+    /**
+     * Gets the doors and windows of a wall (none for other elements)
+     */
+    private getWallOpenings(element: AnyLevelElement): AnyOpeningElement[] {
+        if (!isWallElement(element)) return [];
+        return this.level.getAllElements()
+            .filter((e): e is AnyOpeningElement => isOpeningElement(e) && e.wallId === element.id);
+    }
+
+    /**
+     * Gets the resize handles of an element in its unrotated frame
+     */
+    private getHandlePositions(element: AnyLevelElement): Record<ResizeHandle, [number, number]> {
+        const x0 = element.gridX;
+        const y0 = element.gridY;
+        const x1 = element.gridX + element.width;
+        const y1 = element.gridY + element.depth;
+        const cx = (x0 + x1) / 2;
+        const cy = (y0 + y1) / 2;
+        return {
+            nw: [x0, y0], n: [cx, y0], ne: [x1, y0], e: [x1, cy],
+            se: [x1, y1], s: [cx, y1], sw: [x0, y1], w: [x0, cy]
+        };
+    }
+
+    /**
+     * Finds the resize handle of the selection under a point
+     * Only a single selected wall, floor, ramp or stair can be resized
+     */
+    private getHandleAt(x: number, y: number): ResizeHandle | null {
+        const element = this.selection.length === 1 ? this.getSelectedElement() : null;
+        if (!element || !isRotatableElement(element)) return null;
+
+        const [localX, localY] = toElementLocal(element, x, y);
+        const tolerance = this.HANDLE_SIZE / this.pixelsPerUnit;
+        const handles = this.getHandlePositions(element);
+
+        const hit = (Object.keys(handles) as ResizeHandle[]).find(handle => {
+            const [hx, hy] = handles[handle];
+            return Math.abs(localX - hx) <= tolerance && Math.abs(localY - hy) <= tolerance;
+        });
+        return hit ?? null;
+    }
+
+    private getFootprint(element: Footprint): Footprint {
+        return { gridX: element.gridX, gridY: element.gridY, width: element.width, depth: element.depth };
+    }
+
+    private sameFootprint(a: Footprint, b: Footprint): boolean {
+        return a.gridX === b.gridX && a.gridY === b.gridY && a.width === b.width && a.depth === b.depth;
+    }
+
+    /**
+     * Erases the top element at the given point
      */
-    private eraseElementAt(gridX: number, gridY: number): void {
-        const elements = this.level.getElementsAt(gridX, gridY);
+    private eraseElementAt(x: number, y: number): void {
+        const elements = this.getActiveElementsAt(x, y);
         if (elements.length > 0) {
             // Remove the top element
-            this.level.removeElement(elements[elements.length - 1].id);
+            const top = elements[elements.length - 1];
+            this.removeElementWithDependents(top, `Erase ${top.type}`);
         }
     }
 
+    /**
+     * Gets the elements of the active layer under a point (rotated footprints included)
+     */
+    private getActiveElementsAt(x: number, y: number): AnyLevelElement[] {
+        return this.level.getElementsAtPoint(x, y)
+            .filter(element => this.level.getElementLayerId(element) === this.activeLayerId);
+    }
+
+    /**
+     * Checks whether the active layer can be edited (visible and unlocked)
+     */
+    private isActiveLayerEditable(): boolean {
+        const layer = this.getActiveLayer();
+        return layer.visible && !layer.locked;
+    }
+
     /**
      * Main render function
      */
@@ -323,8 +980,14 @@ export class LevelEditor2D {
 
         this.drawGrid();
         this.drawElements();
+        this.drawTelemetryOverlay();
+        this.drawResizeHandles();
+        this.drawValidationOverlay();
+        this.drawReachabilityOverlay();
         this.drawGhostPreview();
+        this.drawMarquee();
         this.drawCursor();
+        this.drawIssueTooltip();
     }
 
     /**
@@ -387,19 +1050,47 @@ export class LevelEditor2D {
     }
 
     /**
-     * Draws all level elements
+     * Draws all visible layers, ghosting every layer except the active one
      */
     private drawElements(): void {
-        const elements = this.level.getAllElements();
+        this.level.getLayers()
+            .filter(layer => layer.visible && layer.id !== this.activeLayerId)
+            .forEach(layer => {
+                this.ctx.save();
+                this.ctx.globalAlpha = this.INACTIVE_LAYER_ALPHA;
+                this.drawLayerElements(this.level.getElementsOnLayer(layer.id));
+                this.ctx.restore();
+            });
+
+        if (this.getActiveLayer().visible) {
+            this.drawLayerElements(this.level.getElementsOnLayer(this.activeLayerId));
+        }
+    }
+
+    /**
+     * Draws the elements of one layer
+     */
+    private drawLayerElements(elements: AnyLevelElement[]): void {
 
         // Draw floors first (below walls)
         elements.filter(isFloorElement).forEach(element => {
-            this.drawFloorElement(element);
+            this.drawInFrame(element, () => this.drawFloorElement(element));
+        });
+
+        // Draw ramps and stairs on top of floors
+        elements.filter(isSlopeElement).forEach(element => {
+            this.drawInFrame(element, () => this.drawSlopeElement(element));
         });
 
         // Draw walls
         elements.filter(isWallElement).forEach(element => {
-            this.drawWallElement(element);
+            this.drawInFrame(element, () => this.drawWallElement(element));
+        });
+
+        // Draw doors and windows over their walls
+        elements.filter(isOpeningElement).forEach(element => {
+            const frame = elements.find(e => e.id === element.wallId) ?? this.level.getElementFrame(element);
+            this.drawInFrame(frame, () => this.drawOpeningElement(element));
         });
 
         // Draw spawns on top
@@ -408,6 +1099,47 @@ export class LevelEditor2D {
         });
     }
 
+    /**
+     * Draws resize handles on a single selected element (select tool only)
+     */
+    private drawResizeHandles(): void {
+        const element = this.selection.length === 1 ? this.getSelectedElement() : null;
+        if (this.currentTool !== 'select' || !element || !isRotatableElement(element)) return;
+        if (!this.isActiveLayerEditable()) return;
+
+        const size = this.HANDLE_SIZE;
+        this.drawInFrame(element, () => {
+            Object.values(this.getHandlePositions(element)).forEach(([x, y]) => {
+                const [px, py] = this.gridToPixel(x, y);
+                this.ctx.fillStyle = '#ffffff';
+                this.ctx.fillRect(px - size / 2, py - size / 2, size, size);
+                this.ctx.strokeStyle = this.SELECTION_COLOR;
+                this.ctx.lineWidth = 2;
+                this.ctx.strokeRect(px - size / 2, py - size / 2, size, size);
+            });
+        });
+    }
+
+    /**
+     * Runs a draw call rotated into an element's frame
+     * Draw calls can then use the element's unrotated grid rectangle
+     */
+    private drawInFrame(frame: AnyLevelElement, draw: () => void): void {
+        const rotation = getElementRotation(frame);
+        if (rotation === 0) {
+            draw();
+            return;
+        }
+
+        const [centerX, centerY] = this.gridToPixel(...getElementCenter(frame));
+        this.ctx.save();
+        this.ctx.translate(centerX, centerY);
+        this.ctx.rotate(rotation * Math.PI / 180);
+        this.ctx.translate(-centerX, -centerY);
+        draw();
+        this.ctx.restore();
+    }
+
     /**
      * Draws a wall element
      */
@@ -424,7 +1156,7 @@ export class LevelEditor2D {
         this.ctx.strokeRect(px, py, width, height);
 
         // Draw selection highlight
-        if (this.selectedElement?.id === element.id) {
+        if (this.isSelected(element.id)) {
             this.drawSelectionHighlight(px, py, width, height);
         }
     }
@@ -452,7 +1184,7 @@ export class LevelEditor2D {
 
         this.ctx.strokeStyle = this.FLOOR_STROKE;
         this.ctx.lineWidth = 1;
-        this.ctx.globalAlpha = 0.3;
+        this.ctx.globalAlpha *= 0.3;
 
         const spacing = 10;
         for (let i = -height; i < width + height; i += spacing) {
@@ -465,46 +1197,214 @@ export class LevelEditor2D {
         this.ctx.restore();
 
         // Draw selection highlight
-        if (this.selectedElement?.id === element.id) {
+        if (this.isSelected(element.id)) {
             this.drawSelectionHighlight(px, py, width, height);
         }
     }
 
     /**
-     * Draws a spawn element
+     * Draws a ramp or stair element with an arrow pointing uphill
      */
-    private drawSpawnElement(element: AnyLevelElement): void {
-        if (!isSpawnElement(element)) return;
-
+    private drawSlopeElement(element: SlopeElement): void {
         const [px, py] = this.gridToPixel(element.gridX, element.gridY);
-        const size = this.pixelsPerUnit;
-        const centerX = px + size / 2;
-        const centerY = py + size / 2;
-        const radius = size * 0.35;
+        const width = element.width * this.pixelsPerUnit;
+        const height = element.depth * this.pixelsPerUnit;
+        const isStair = isStairElement(element);
 
-        // Choose color based on spawn type
-        let color: string;
-        switch (element.spawnType) {
-            case 'player':
-                color = this.SPAWN_PLAYER_COLOR;
-                break;
-            case 'enemy':
-                color = this.SPAWN_ENEMY_COLOR;
-                break;
-            case 'item':
-                color = this.SPAWN_ITEM_COLOR;
-                break;
+        // Gradient from light (low) to dark (high) along the direction
+        const [x0, y0, x1, y1] = this.getSlopeAxis(element.direction, px, py, width, height);
+        const gradient = this.ctx.createLinearGradient(x0, y0, x1, y1);
+        const baseColor = isStair ? this.STAIR_COLOR : this.RAMP_COLOR;
+        gradient.addColorStop(0, '#ffffff');
+        gradient.addColorStop(1, baseColor);
+
+        this.ctx.fillStyle = gradient;
+        this.ctx.fillRect(px, py, width, height);
+
+        this.ctx.strokeStyle = this.SLOPE_STROKE;
+        this.ctx.lineWidth = 1;
+        this.ctx.strokeRect(px, py, width, height);
+
+        // Step lines across the direction of travel
+        if (isStair) {
+            this.ctx.save();
+            this.ctx.globalAlpha *= 0.6;
+            this.ctx.beginPath();
+            for (let i = 1; i < element.stepCount; i++) {
+                const t = i / element.stepCount;
+                const sx = x0 + (x1 - x0) * t;
+                const sy = y0 + (y1 - y0) * t;
+                if (element.direction === 'north' || element.direction === 'south') {
+                    this.ctx.moveTo(px, sy);
+                    this.ctx.lineTo(px + width, sy);
+                } else {
+                    this.ctx.moveTo(sx, py);
+                    this.ctx.lineTo(sx, py + height);
+                }
+            }
+            this.ctx.stroke();
+            this.ctx.restore();
         }
 
-        // Draw spawn marker
-        this.ctx.beginPath();
-        this.ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-        this.ctx.fillStyle = color;
-        this.ctx.fill();
+        this.drawDirectionArrow(x0, y0, x1, y1);
 
-        this.ctx.strokeStyle = '#2d3748';
-        this.ctx.lineWidth = 2;
-        this.ctx.stroke();
+        // Elevation labels at both ends
+        this.ctx.fillStyle = '#2d3748';
+        this.ctx.font = '10px sans-serif';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillText(`${element.startElevation}m`, x0 + (x1 - x0) * 0.12, y0 + (y1 - y0) * 0.12);
+        this.ctx.fillText(`${element.endElevation}m`, x0 + (x1 - x0) * 0.88, y0 + (y1 - y0) * 0.88);
+
+        // Draw selection highlight
+        if (this.isSelected(element.id)) {
+            this.drawSelectionHighlight(px, py, width, height);
+        }
+    }
+
+    /**
+     * Gets the start and end pixel points of a slope's center line (low to high)
+     */
+    private getSlopeAxis(
+        direction: SlopeDirection,
+        px: number,
+        py: number,
+        width: number,
+        height: number
+    ): [number, number, number, number] {
+        const cx = px + width / 2;
+        const cy = py + height / 2;
+
+        switch (direction) {
+            case 'north': return [cx, py + height, cx, py];
+            case 'south': return [cx, py, cx, py + height];
+            case 'east': return [px, cy, px + width, cy];
+            case 'west': return [px + width, cy, px, cy];
+        }
+    }
+
+    /**
+     * Draws an arrow between two points, inset from both ends
+     */
+    private drawDirectionArrow(x0: number, y0: number, x1: number, y1: number): void {
+        const length = Math.hypot(x1 - x0, y1 - y0);
+        if (length < 1) return;
+
+        const ux = (x1 - x0) / length;
+        const uy = (y1 - y0) / length;
+        const inset = Math.min(length * 0.25, this.pixelsPerUnit * 0.6);
+        const sx = x0 + ux * inset;
+        const sy = y0 + uy * inset;
+        const ex = x1 - ux * inset;
+        const ey = y1 - uy * inset;
+        const head = Math.max(5, this.pixelsPerUnit * 0.25);
+
+        this.ctx.strokeStyle = '#2d3748';
+        this.ctx.fillStyle = '#2d3748';
+        this.ctx.lineWidth = 2;
+
+        this.ctx.beginPath();
+        this.ctx.moveTo(sx, sy);
+        this.ctx.lineTo(ex, ey);
+        this.ctx.stroke();
+
+        this.ctx.beginPath();
+        this.ctx.moveTo(ex, ey);
+        this.ctx.lineTo(ex - ux * head - uy * head * 0.6, ey - uy * head + ux * head * 0.6);
+        this.ctx.lineTo(ex - ux * head + uy * head * 0.6, ey - uy * head - ux * head * 0.6);
+        this.ctx.closePath();
+        this.ctx.fill();
+    }
+
+    /**
+     * Draws a door (gap with swing arc) or window (glazed gap) in its wall
+     */
+    private drawOpeningElement(element: AnyOpeningElement): void {
+        const [px, py] = this.gridToPixel(element.gridX, element.gridY);
+        const width = element.width * this.pixelsPerUnit;
+        const height = element.depth * this.pixelsPerUnit;
+        const wall = this.level.getElement(element.wallId);
+        const alongX = wall && isWallElement(wall) ? getWallAxis(wall) === 'x' : element.width >= element.depth;
+
+        this.ctx.fillStyle = element.type === 'door' ? '#ffffff' : this.WINDOW_COLOR;
+        this.ctx.fillRect(px, py, width, height);
+
+        this.ctx.strokeStyle = this.WALL_STROKE;
+        this.ctx.lineWidth = 1;
+        this.ctx.beginPath();
+        if (element.type === 'door') {
+            // Door leaf and swing arc, hinged at the start of the opening
+            const leaf = alongX ? width : height;
+            this.ctx.strokeStyle = this.DOOR_COLOR;
+            this.ctx.lineWidth = 2;
+            if (alongX) {
+                this.ctx.moveTo(px, py + height);
+                this.ctx.lineTo(px, py + height + leaf);
+                this.ctx.moveTo(px + width, py + height);
+                this.ctx.arc(px, py + height, leaf, 0, Math.PI / 2);
+            } else {
+                this.ctx.moveTo(px + width, py);
+                this.ctx.lineTo(px + width + leaf, py);
+                this.ctx.moveTo(px + width, py + height);
+                this.ctx.arc(px + width, py, leaf, Math.PI / 2, 0, true);
+            }
+        } else {
+            // Glazing line along the middle of the wall
+            if (alongX) {
+                this.ctx.moveTo(px, py + height / 2);
+                this.ctx.lineTo(px + width, py + height / 2);
+            } else {
+                this.ctx.moveTo(px + width / 2, py);
+                this.ctx.lineTo(px + width / 2, py + height);
+            }
+        }
+        this.ctx.stroke();
+
+        this.ctx.strokeStyle = this.WALL_STROKE;
+        this.ctx.lineWidth = 1;
+        this.ctx.strokeRect(px, py, width, height);
+
+        // Draw selection highlight
+        if (this.isSelected(element.id)) {
+            this.drawSelectionHighlight(px, py, width, height);
+        }
+    }
+
+    /**
+     * Draws a spawn element
+     */
+    private drawSpawnElement(element: AnyLevelElement): void {
+        if (!isSpawnElement(element)) return;
+
+        const [px, py] = this.gridToPixel(element.gridX, element.gridY);
+        const size = this.pixelsPerUnit;
+        const centerX = px + size / 2;
+        const centerY = py + size / 2;
+        const radius = size * 0.35;
+
+        // Choose color based on spawn type
+        let color: string;
+        switch (element.spawnType) {
+            case 'player':
+                color = this.SPAWN_PLAYER_COLOR;
+                break;
+            case 'enemy':
+                color = this.SPAWN_ENEMY_COLOR;
+                break;
+            case 'item':
+                color = this.SPAWN_ITEM_COLOR;
+                break;
+        }
+
+        // Draw spawn marker
+        this.ctx.beginPath();
+        this.ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+        this.ctx.fillStyle = color;
+        this.ctx.fill();
+
+        this.ctx.strokeStyle = '#2d3748';
+        this.ctx.lineWidth = 2;
+        this.ctx.stroke();
 
         // Draw spawn type indicator
         this.ctx.fillStyle = '#ffffff';
@@ -516,7 +1416,7 @@ export class LevelEditor2D {
         this.ctx.fillText(label, centerX, centerY);
 
         // Draw selection highlight
-        if (this.selectedElement?.id === element.id) {
+        if (this.isSelected(element.id)) {
             this.drawSelectionHighlight(px, py, size, size);
         }
     }
@@ -532,12 +1432,239 @@ export class LevelEditor2D {
         this.ctx.setLineDash([]);
     }
 
+    /**
+     * Draws the telemetry heatmap (blue for little, red for the most) and the run events
+     */
+    private drawTelemetryOverlay(): void {
+        if (this.heatmap) {
+            const values = this.heatmapMode === 'time' ? this.heatmap.time : this.heatmap.visits;
+            const max = this.heatmapMode === 'time' ? this.heatmap.maxTime : this.heatmap.maxVisits;
+
+            if (max > 0) {
+                values.forEach((value, i) => {
+                    if (value <= 0) return;
+
+                    const x = i % this.heatmap!.width;
+                    const y = Math.floor(i / this.heatmap!.width);
+                    const [px, py] = this.gridToPixel(x, y);
+                    const hue = 240 * (1 - value / max);
+                    this.ctx.fillStyle = `hsla(${hue}, 90%, 50%, 0.55)`;
+                    this.ctx.fillRect(px, py, this.pixelsPerUnit, this.pixelsPerUnit);
+                });
+            }
+
+            // Scale in the corner
+            const label = this.heatmapMode === 'time'
+                ? `Time spent (max ${max.toFixed(1)}s per cell)`
+                : `Visits (max ${max} per cell)`;
+            this.ctx.font = '11px sans-serif';
+            this.ctx.textAlign = 'left';
+            this.ctx.textBaseline = 'top';
+            this.ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+            this.ctx.fillRect(8, 8, this.ctx.measureText(label).width + 12, 20);
+            this.ctx.fillStyle = '#2d3748';
+            this.ctx.fillText(label, 14, 12);
+        }
+
+        const size = Math.max(4, this.pixelsPerUnit * 0.2);
+        this.telemetryEvents.forEach(event => {
+            const [px, py] = this.gridToPixel(event.x, event.y);
+            this.ctx.lineWidth = 2;
+
+            if (event.type === 'pickup') {
+                this.ctx.beginPath();
+                this.ctx.arc(px, py, size * 0.7, 0, Math.PI * 2);
+                this.ctx.fillStyle = this.SPAWN_ITEM_COLOR;
+                this.ctx.fill();
+                this.ctx.strokeStyle = '#2d3748';
+                this.ctx.stroke();
+            } else {
+                // Deaths are crosses, falls are downward triangles
+                this.ctx.strokeStyle = event.type === 'death' ? this.ISSUE_COLORS.error : this.ISSUE_COLORS.warning;
+                this.ctx.beginPath();
+                if (event.type === 'death') {
+                    this.ctx.moveTo(px - size, py - size);
+                    this.ctx.lineTo(px + size, py + size);
+                    this.ctx.moveTo(px + size, py - size);
+                    this.ctx.lineTo(px - size, py + size);
+                } else {
+                    this.ctx.moveTo(px - size, py - size * 0.6);
+                    this.ctx.lineTo(px + size, py - size * 0.6);
+                    this.ctx.lineTo(px, py + size);
+                    this.ctx.closePath();
+                }
+                this.ctx.stroke();
+            }
+        });
+    }
+
+    /**
+     * Draws validation issues as tinted, outlined regions
+     */
+    private drawValidationOverlay(): void {
+        if (this.validationIssues.length === 0) return;
+
+        // Draw less severe issues first so errors end up on top
+        const order: ValidationSeverity[] = ['info', 'warning', 'error'];
+        const sorted = [...this.validationIssues].sort(
+            (a, b) => order.indexOf(a.severity) - order.indexOf(b.severity)
+        );
+
+        sorted.forEach(issue => {
+            const [px, py] = this.gridToPixel(issue.bounds.gridX, issue.bounds.gridY);
+            const width = issue.bounds.width * this.pixelsPerUnit;
+            const height = issue.bounds.depth * this.pixelsPerUnit;
+            const color = this.ISSUE_COLORS[issue.severity];
+
+            this.ctx.globalAlpha = 0.25;
+            this.ctx.fillStyle = color;
+            this.ctx.fillRect(px, py, width, height);
+            this.ctx.globalAlpha = 1;
+
+            this.ctx.strokeStyle = color;
+            this.ctx.lineWidth = 2;
+            this.ctx.setLineDash([4, 3]);
+            this.ctx.strokeRect(px, py, width, height);
+            this.ctx.setLineDash([]);
+
+            // Badge in the top-left corner
+            const radius = Math.max(6, this.pixelsPerUnit * 0.2);
+            this.ctx.beginPath();
+            this.ctx.arc(px + radius, py + radius, radius, 0, Math.PI * 2);
+            this.ctx.fillStyle = color;
+            this.ctx.fill();
+
+            this.ctx.fillStyle = '#ffffff';
+            this.ctx.font = `bold ${radius * 1.4}px sans-serif`;
+            this.ctx.textAlign = 'center';
+            this.ctx.textBaseline = 'middle';
+            this.ctx.fillText('!', px + radius, py + radius);
+        });
+    }
+
+    /**
+     * Draws paths from the player spawn and marks unreachable spawns
+     */
+    private drawReachabilityOverlay(): void {
+        if (!this.reachability) return;
+
+        const spawnColors: Record<string, string> = {
+            enemy: this.SPAWN_ENEMY_COLOR,
+            item: this.SPAWN_ITEM_COLOR
+        };
+
+        this.reachability.results.forEach(result => {
+            const color = spawnColors[result.spawnType] || this.SELECTION_COLOR;
+
+            if (result.reachable && result.path.length > 1) {
+                this.ctx.strokeStyle = color;
+                this.ctx.lineWidth = 3;
+                this.ctx.lineJoin = 'round';
+                this.ctx.beginPath();
+                result.path.forEach((point, i) => {
+                    const [px, py] = this.gridToPixel(point.gridX + 0.5, point.gridY + 0.5);
+                    if (i === 0) {
+                        this.ctx.moveTo(px, py);
+                    } else {
+                        this.ctx.lineTo(px, py);
+                    }
+                });
+                this.ctx.stroke();
+
+                // Mark jumps along the path
+                result.path.filter(point => point.move === 'jump').forEach(point => {
+                    const [px, py] = this.gridToPixel(point.gridX + 0.5, point.gridY + 0.5);
+                    this.ctx.beginPath();
+                    this.ctx.arc(px, py, 4, 0, Math.PI * 2);
+                    this.ctx.fillStyle = '#ffffff';
+                    this.ctx.fill();
+                    this.ctx.stroke();
+                });
+
+                // Length and time label at the target
+                const last = result.path[result.path.length - 1];
+                const [lx, ly] = this.gridToPixel(last.gridX + 1, last.gridY);
+                this.ctx.font = '11px sans-serif';
+                this.ctx.textAlign = 'left';
+                this.ctx.textBaseline = 'bottom';
+                this.ctx.fillStyle = '#2d3748';
+                this.ctx.fillText(`${result.length.toFixed(1)}m · ${result.time.toFixed(1)}s`, lx + 2, ly);
+            }
+
+            if (!result.reachable) {
+                const spawn = this.level.getElement(result.spawnId);
+                if (!spawn) return;
+
+                // Red cross over the unreachable spawn
+                const [px, py] = this.gridToPixel(spawn.gridX, spawn.gridY);
+                const size = this.pixelsPerUnit;
+                this.ctx.strokeStyle = this.ISSUE_COLORS.error;
+                this.ctx.lineWidth = 3;
+                this.ctx.beginPath();
+                this.ctx.moveTo(px + 2, py + 2);
+                this.ctx.lineTo(px + size - 2, py + size - 2);
+                this.ctx.moveTo(px + size - 2, py + 2);
+                this.ctx.lineTo(px + 2, py + size - 2);
+                this.ctx.stroke();
+            }
+        });
+    }
+
+    /**
+     * Shows messages of the issues under the cursor
+     */
+    private drawIssueTooltip(): void {
+        const hovered = this.validationIssues.filter(issue =>
+            this.currentGridX + 0.5 >= issue.bounds.gridX &&
+            this.currentGridX + 0.5 <= issue.bounds.gridX + issue.bounds.width &&
+            this.currentGridY + 0.5 >= issue.bounds.gridY &&
+            this.currentGridY + 0.5 <= issue.bounds.gridY + issue.bounds.depth
+        );
+
+        if (hovered.length === 0 || this.isDrawing) return;
+
+        const lines = hovered.map(issue => issue.message);
+        const padding = 6;
+        const lineHeight = 16;
+
+        this.ctx.font = '12px sans-serif';
+        this.ctx.textAlign = 'left';
+        this.ctx.textBaseline = 'top';
+
+        const textWidth = Math.max(...lines.map(line => this.ctx.measureText(line).width));
+        const boxWidth = textWidth + padding * 2;
+        const boxHeight = lines.length * lineHeight + padding * 2;
+
+        let [x, y] = this.gridToPixel(this.currentGridX + 1, this.currentGridY + 1);
+        x = Math.min(x, this.canvas.width - boxWidth - 4);
+        y = Math.min(y, this.canvas.height - boxHeight - 4);
+
+        this.ctx.fillStyle = 'rgba(26, 32, 44, 0.9)';
+        this.ctx.fillRect(x, y, boxWidth, boxHeight);
+
+        lines.forEach((line, i) => {
+            this.ctx.fillStyle = this.ISSUE_COLORS[hovered[i].severity];
+            this.ctx.fillRect(x, y + padding + i * lineHeight, 3, lineHeight - 2);
+            this.ctx.fillStyle = '#f7fafc';
+            this.ctx.fillText(line, x + padding, y + padding + i * lineHeight);
+        });
+    }
+
     /**
      * Draws ghost preview while drawing
      */
     private drawGhostPreview(): void {
+        if (this.currentTool === 'prefab') {
+            this.drawPrefabPreview();
+            return;
+        }
         if (!this.isDrawing) return;
 
+        if (this.currentTool === 'angled-wall') {
+            this.drawAngledWallPreview();
+            return;
+        }
+
         const startX = Math.min(this.drawStartX, this.currentGridX);
         const startY = Math.min(this.drawStartY, this.currentGridY);
         const endX = Math.max(this.drawStartX, this.currentGridX);
@@ -547,8 +1674,18 @@ export class LevelEditor2D {
         const width = (endX - startX + 1) * this.pixelsPerUnit;
         const height = (endY - startY + 1) * this.pixelsPerUnit;
 
+        this.ctx.save();
         this.ctx.globalAlpha = this.GHOST_ALPHA;
 
+        // Preview the rotation the element will be created with
+        if (this.rotation !== 0) {
+            const centerX = px + width / 2;
+            const centerY = py + height / 2;
+            this.ctx.translate(centerX, centerY);
+            this.ctx.rotate(this.rotation * Math.PI / 180);
+            this.ctx.translate(-centerX, -centerY);
+        }
+
         if (this.currentTool === 'wall') {
             this.ctx.fillStyle = this.WALL_COLOR;
             this.ctx.fillRect(px, py, width, height);
@@ -561,9 +1698,87 @@ export class LevelEditor2D {
             this.ctx.strokeStyle = this.FLOOR_STROKE;
             this.ctx.lineWidth = 1;
             this.ctx.strokeRect(px, py, width, height);
+        } else if (this.currentTool === 'ramp' || this.currentTool === 'stair') {
+            this.ctx.fillStyle = this.currentTool === 'ramp' ? this.RAMP_COLOR : this.STAIR_COLOR;
+            this.ctx.fillRect(px, py, width, height);
+            this.ctx.strokeStyle = this.SLOPE_STROKE;
+            this.ctx.lineWidth = 1;
+            this.ctx.strokeRect(px, py, width, height);
+            const [x0, y0, x1, y1] = this.getSlopeAxis(this.slopeDirection, px, py, width, height);
+            this.drawDirectionArrow(x0, y0, x1, y1);
         }
 
+        this.ctx.restore();
+    }
+
+    /**
+     * Draws the prefab the prefab tool would stamp, with its pivot
+     */
+    private drawPrefabPreview(): void {
+        if (!this.prefab || !this.pointerInside) return;
+
+        const placement = this.getPrefabPlacement();
+        this.ctx.save();
+        this.ctx.globalAlpha = this.GHOST_ALPHA;
+        this.drawLayerElements(instantiatePrefab(this.prefab, placement));
+        this.ctx.restore();
+
+        const [px, py] = this.gridToPixel(placement.x, placement.y);
+        this.ctx.save();
+        this.ctx.fillStyle = this.SELECTION_COLOR;
+        this.ctx.beginPath();
+        this.ctx.arc(px, py, 4, 0, Math.PI * 2);
+        this.ctx.fill();
+        this.ctx.restore();
+    }
+
+    /**
+     * Draws the box selection rectangle
+     */
+    private drawMarquee(): void {
+        if (!this.marquee) return;
+
+        const [x0, y0] = this.gridToPixel(this.marquee.startX, this.marquee.startY);
+        const [x1, y1] = this.gridToPixel(this.currentPointX, this.currentPointY);
+
+        this.ctx.save();
+        this.ctx.fillStyle = this.SELECTION_COLOR;
+        this.ctx.globalAlpha = 0.1;
+        this.ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+        this.ctx.globalAlpha = 1;
+        this.ctx.strokeStyle = this.SELECTION_COLOR;
+        this.ctx.lineWidth = 1;
+        this.ctx.setLineDash([4, 4]);
+        this.ctx.strokeRect(x0, y0, x1 - x0, y1 - y0);
+        this.ctx.restore();
+    }
+
+    /**
+     * Draws the wall being drawn between two grid intersections
+     */
+    private drawAngledWallPreview(): void {
+        const [x0, y0] = this.gridToPixel(this.drawStartX, this.drawStartY);
+        const [x1, y1] = this.gridToPixel(Math.round(this.currentPointX), Math.round(this.currentPointY));
+
+        this.ctx.save();
+        this.ctx.globalAlpha = this.GHOST_ALPHA;
+        this.ctx.strokeStyle = this.WALL_COLOR;
+        this.ctx.lineWidth = this.pixelsPerUnit;
+        this.ctx.lineCap = 'butt';
+        this.ctx.beginPath();
+        this.ctx.moveTo(x0, y0);
+        this.ctx.lineTo(x1, y1);
+        this.ctx.stroke();
+
+        // Endpoint markers
         this.ctx.globalAlpha = 1;
+        this.ctx.fillStyle = this.SELECTION_COLOR;
+        [[x0, y0], [x1, y1]].forEach(([x, y]) => {
+            this.ctx.beginPath();
+            this.ctx.arc(x, y, 4, 0, Math.PI * 2);
+            this.ctx.fill();
+        });
+        this.ctx.restore();
     }
 
     /**
@@ -637,30 +1852,362 @@ export class LevelEditor2D {
     }
 
     /**
-     * Gets the selected element
+     * Sets the ascending direction for ramp/stair tools
+     */
+    setSlopeDirection(direction: SlopeDirection): void {
+        this.slopeDirection = direction;
+        this.notifyStateChange();
+        this.render();
+    }
+
+    /**
+     * Sets the start and end elevation for ramp/stair tools
+     */
+    setSlopeElevations(startElevation: number, endElevation: number): void {
+        this.slopeStartElevation = startElevation;
+        this.slopeEndElevation = endElevation;
+        this.notifyStateChange();
+    }
+
+    /**
+     * Sets the step count for the stair tool (null derives it from the rise)
+     */
+    setStairStepCount(count: number | null): void {
+        this.stairStepCount = count === null ? null : Math.max(1, Math.floor(count));
+        this.notifyStateChange();
+    }
+
+    /**
+     * Sets the rotation in degrees for new walls, floors, ramps and stairs
+     */
+    setRotation(degrees: number): void {
+        this.rotation = normalizeRotation(degrees);
+        this.notifyStateChange();
+        this.render();
+    }
+
+    /**
+     * Sets the prefab stamped by the prefab tool (clearing it leaves the tool)
+     */
+    setPrefab(prefab: Prefab | null): void {
+        this.prefab = prefab;
+        if (!prefab && this.currentTool === 'prefab') {
+            this.setTool('select');
+            return;
+        }
+        this.notifyStateChange();
+        this.render();
+    }
+
+    /**
+     * Gets the prefab stamped by the prefab tool
+     */
+    getPrefab(): Prefab | null {
+        return this.prefab;
+    }
+
+    /**
+     * Sets whether prefabs are stamped mirrored
+     */
+    setPrefabMirrored(mirrored: boolean): void {
+        this.prefabMirrored = mirrored;
+        this.notifyStateChange();
+        this.render();
+    }
+
+    /**
+     * Unlinks the prefab instances that have selected elements, keeping their elements as they are
+     */
+    detachSelectedInstances(): void {
+        const instanceIds = new Set(
+            this.getSelectedElements().map(element => element.prefab?.instanceId).filter(Boolean)
+        );
+        if (instanceIds.size === 0 || !this.isActiveLayerEditable()) return;
+
+        const members = this.level.getAllElements()
+            .filter(element => element.prefab && instanceIds.has(element.prefab.instanceId));
+        this.history.group('Detach from prefab', () => {
+            members.forEach(element => {
+                this.history.execute(new UpdateElementCommand(element.id, { prefab: undefined }));
+            });
+        });
+    }
+
+    /**
+     * Rotates each selected wall, floor, ramp and stair about its own center
+     */
+    rotateSelected(degrees: number): void {
+        const elements = this.getSelectedElements().filter(isRotatableElement);
+        if (elements.length === 0 || !this.isActiveLayerEditable()) return;
+
+        const label = this.describeStep('Rotate', elements);
+        this.history.group(label, () => {
+            elements.forEach(element => {
+                const rotation = normalizeRotation(getElementRotation(element) + degrees);
+                this.history.execute(new UpdateElementCommand(element.id, { rotation }, label));
+            });
+        });
+    }
+
+    /**
+     * Updates the settings of the door or window tool
+     */
+    setOpeningSettings(type: 'door' | 'window', settings: Partial<OpeningSettings>): void {
+        const current = type === 'door' ? this.doorSettings : this.windowSettings;
+        const next: OpeningSettings = { ...current, ...settings };
+        next.span = Math.max(1, Math.round(next.span));
+        next.height = Math.max(0.1, next.height);
+        next.sillHeight = Math.max(0, next.sillHeight);
+
+        if (type === 'door') {
+            this.doorSettings = next;
+        } else {
+            this.windowSettings = next;
+        }
+        this.notifyStateChange();
+    }
+
+    /**
+     * Sets the layer new elements are placed on
+     */
+    setActiveLayer(layerId: string): void {
+        if (!this.level.getLayer(layerId)) return;
+
+        this.activeLayerId = layerId;
+        this.selection = this.getSelectedElements()
+            .filter(element => this.level.getElementLayerId(element) === layerId)
+            .map(element => element.id);
+        this.notifyStateChange();
+        this.render();
+    }
+
+    /**
+     * Gets the active layer
+     */
+    getActiveLayer(): LevelLayer {
+        return this.level.getLayer(this.activeLayerId) ?? this.level.getLayers()[0];
+    }
+
+    /**
+     * Gets the most recently selected element
      */
     getSelectedElement(): AnyLevelElement | null {
-        return this.selectedElement;
+        const id = this.selection[this.selection.length - 1];
+        return (id && this.level.getElement(id)) || null;
+    }
+
+    /**
+     * Gets all selected elements
+     */
+    getSelectedElements(): AnyLevelElement[] {
+        return this.selection
+            .map(id => this.level.getElement(id))
+            .filter((element): element is AnyLevelElement => element !== undefined);
+    }
+
+    /**
+     * Selects every element on the active layer
+     */
+    selectAll(): void {
+        this.select(this.level.getElementsOnLayer(this.activeLayerId).map(element => element.id));
+        this.render();
     }
 
     /**
      * Clears the selection
      */
     clearSelection(): void {
-        this.selectedElement = null;
-        this.notifyStateChange();
+        this.select([]);
         this.render();
     }
 
     /**
-     * Deletes the selected element
+     * Deletes the selected elements (walls with their openings) as one step
      */
     deleteSelected(): void {
-        if (this.selectedElement) {
-            this.level.removeElement(this.selectedElement.id);
-            this.selectedElement = null;
-            this.notifyStateChange();
+        const elements = this.getSelectedElements();
+        if (elements.length === 0 || !this.isActiveLayerEditable()) return;
+
+        // Openings of deleted walls go with their wall
+        const selectedIds = new Set(this.selection);
+        const removals = elements.filter(element => !isOpeningElement(element) || !selectedIds.has(element.wallId));
+
+        this.selection = [];
+        this.history.group(this.describeStep('Delete', elements), () => {
+            removals.forEach(element => this.removeElementWithDependents(element, `Delete ${element.type}`));
+        });
+        this.notifyStateChange();
+    }
+
+    /**
+     * Moves the selection by whole grid cells (walls carry their openings;
+     * openings selected on their own slide along their wall)
+     */
+    nudgeSelected(dx: number, dy: number): void {
+        const elements = this.getSelectedElements();
+        if (elements.length === 0 || !this.isActiveLayerEditable()) return;
+
+        const cell = this.gridSystem.getCellSize();
+        const changes = this.getMoveUpdates(this.getMoveTargets(), dx * cell, dy * cell)
+            .filter(([id, footprint]) => !this.sameFootprint(this.level.getElement(id)!, footprint));
+        if (changes.length === 0) return;
+
+        const label = this.describeStep('Move', elements);
+        this.history.group(label, () => {
+            changes.forEach(([id, footprint]) => {
+                this.history.execute(new UpdateElementCommand(id, footprint, label));
+            });
+        });
+    }
+
+    /**
+     * Duplicates the selection one cell down and to the right and selects the copies
+     * Walls are duplicated with their openings; openings selected without their wall are skipped
+     */
+    duplicateSelected(): void {
+        const elements = this.getSelectedElements();
+        if (elements.length === 0 || !this.isActiveLayerEditable()) return;
+
+        const offset = this.gridSystem.getCellSize();
+        const copies = cloneElementsWithNewIds(this.getMoveTargets())
+            .map(copy => ({ ...copy, ...this.getMovedFootprint(copy, offset, offset) }));
+        if (copies.length === 0) return;
+
+        this.history.group(this.describeStep('Duplicate', elements), () => {
+            copies.forEach(copy => this.history.execute(new AddElementCommand(copy)));
+        });
+
+        this.select(copies.map(copy => copy.id));
+        this.render();
+    }
+
+    /**
+     * Sets the height of every selected wall
+     */
+    setSelectionWallHeight(height: number): void {
+        const walls = this.getSelectedElements().filter(isWallElement);
+        if (walls.length === 0 || !this.isActiveLayerEditable()) return;
+
+        const wallHeight = Math.max(0.1, height);
+        const label = walls.length === 1 ? 'Set wall height' : `Set height of ${walls.length} walls`;
+        this.history.group(label, () => {
+            walls.forEach(wall => this.history.execute(new UpdateElementCommand(wall.id, { wallHeight }, label)));
+        });
+    }
+
+    /**
+     * Moves the selected elements vertically so their base sits at the given elevation
+     * (relative to the active layer, like tool elevations; ramps and stairs keep their rise)
+     */
+    setSelectionElevation(elevation: number): void {
+        const elements = this.getSelectedElements();
+        if (elements.length === 0 || !this.isActiveLayerEditable()) return;
+
+        const target = this.getActiveLayer().baseElevation + elevation;
+        const changes = elements
+            .map(element => {
+                const current = getElementElevation(element);
+                return current === null ? null : { element, delta: target - current };
+            })
+            .filter((change): change is { element: AnyLevelElement; delta: number } =>
+                change !== null && change.delta !== 0
+            );
+        if (changes.length === 0) return;
+
+        const label = this.describeStep('Set elevation of', changes.map(change => change.element));
+        this.history.group(label, () => {
+            changes.forEach(({ element, delta }) => {
+                this.history.execute(new UpdateElementCommand(
+                    element.id,
+                    getElevationOffsetUpdates(element, delta),
+                    label
+                ));
+            });
+        });
+    }
+
+    /**
+     * Gets copies of the selection (with the openings of selected walls) for the clipboard
+     * Elevations are made relative to the active layer so they can be pasted onto any layer
+     */
+    copySelection(): AnyLevelElement[] {
+        const base = this.getActiveLayer().baseElevation;
+        return this.getMoveTargets().map(element => {
+            const { layerId, ...copy } = element;
+            return { ...copy, ...getElevationOffsetUpdates(element, -base) } as AnyLevelElement;
+        });
+    }
+
+    /**
+     * Pastes copied elements onto the active layer with fresh IDs and selects them
+     * With the pointer over the canvas, the pasted group's top-left corner goes to the hovered cell
+     */
+    pasteElements(elements: AnyLevelElement[]): void {
+        if (!this.isActiveLayerEditable()) return;
+
+        const copies = cloneElementsWithNewIds(elements);
+        const placed = copies.filter(element => !isOpeningElement(element));
+        if (placed.length === 0) return;
+
+        let dx = 0;
+        let dy = 0;
+        if (this.pointerInside) {
+            const bounds = placed.map(element => getElementBounds(element));
+            dx = this.currentGridX - Math.floor(Math.min(...bounds.map(b => b.gridX)));
+            dy = this.currentGridY - Math.floor(Math.min(...bounds.map(b => b.gridY)));
         }
+
+        const layer = this.getActiveLayer();
+        const pasted = copies.map(copy => ({
+            ...copy,
+            ...this.getMovedFootprint(copy, dx, dy),
+            ...getElevationOffsetUpdates(copy, layer.baseElevation),
+            layerId: layer.id
+        }) as AnyLevelElement);
+
+        this.history.group(this.describeStep('Paste', placed), () => {
+            pasted.forEach(element => this.history.execute(new AddElementCommand(element)));
+        });
+
+        this.select(pasted.map(element => element.id));
+        this.render();
+    }
+
+    /**
+     * Sets the validation issues to overlay (empty array hides the overlay)
+     */
+    setValidationIssues(issues: ValidationIssue[]): void {
+        this.validationIssues = issues;
+        this.render();
+    }
+
+    /**
+     * Sets the reachability report to overlay (null hides the overlay)
+     */
+    setReachabilityReport(report: ReachabilityReport | null): void {
+        this.reachability = report;
+        this.render();
+    }
+
+    /**
+     * Sets the telemetry heatmap and events to overlay (null and no events hide the overlay)
+     */
+    setTelemetryOverlay(
+        heatmap: TelemetryHeatmap | null,
+        mode: TelemetryHeatmapMode = 'visits',
+        events: TelemetryEvent[] = []
+    ): void {
+        this.heatmap = heatmap;
+        this.heatmapMode = mode;
+        this.telemetryEvents = events;
+        this.render();
+    }
+
+    /**
+     * Gets the command history used for edits
+     */
+    getHistory(): CommandHistory {
+        return this.history;
     }
 
     /**
@@ -669,10 +2216,21 @@ export class LevelEditor2D {
     getState(): EditorState {
         return {
             tool: this.currentTool,
-            selectedElement: this.selectedElement,
+            selectedElement: this.getSelectedElement(),
+            selectedElements: this.getSelectedElements(),
             spawnType: this.spawnType,
             wallHeight: this.wallHeight,
-            floorElevation: this.floorElevation
+            floorElevation: this.floorElevation,
+            slopeDirection: this.slopeDirection,
+            slopeStartElevation: this.slopeStartElevation,
+            slopeEndElevation: this.slopeEndElevation,
+            stairStepCount: this.stairStepCount,
+            rotation: this.rotation,
+            door: { ...this.doorSettings },
+            window: { ...this.windowSettings },
+            activeLayerId: this.activeLayerId,
+            prefabId: this.prefab?.id ?? null,
+            prefabMirrored: this.prefabMirrored
         };
     }
 
@@ -714,4 +2272,41 @@ export class LevelEditor2D {
         this.centerView();
         this.render();
     }
+
+    /**
+     * Renders the whole level (grid and visible elements, no selection or overlays) to a PNG
+     * data URL, e.g. for the level library
+     */
+    createThumbnail(width: number = 160, height: number = 120): string {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return '';
+
+        const { canvas: viewCanvas, ctx: viewCtx, pixelsPerUnit, offsetX, offsetY, selection } = this;
+
+        // Draw with the regular renderer into the offscreen canvas, fitted to the grid
+        const gridSize = this.level.getGridSize();
+        this.canvas = canvas;
+        this.ctx = ctx;
+        this.pixelsPerUnit = Math.min(width / gridSize.width, height / gridSize.height);
+        this.selection = [];
+        try {
+            this.centerView();
+            ctx.fillStyle = '#f7fafc';
+            ctx.fillRect(0, 0, width, height);
+            this.drawGrid();
+            this.drawElements();
+        } finally {
+            this.canvas = viewCanvas;
+            this.ctx = viewCtx;
+            this.pixelsPerUnit = pixelsPerUnit;
+            this.offsetX = offsetX;
+            this.offsetY = offsetY;
+            this.selection = selection;
+        }
+
+        return canvas.toDataURL('image/png');
+    }
 }
@@ -0,0 +1,304 @@
+/**
+ * Level Library Panel
+ * Dialog listing the levels saved in the browser, with thumbnails, and their autosave snapshots
+ */
+
+import { CommandHistory } from '../Domain/CommandHistory.js';
+import { RenameLevelCommand } from '../Domain/LevelCommands.js';
+import { LevelLibrary, LevelLibraryEntry, LevelLibrarySort, LevelSnapshotInfo } from '../Export/LevelLibrary.js';
+
+/**
+ * Callbacks for switching the level open in the editor
+ */
+export interface LevelLibraryPanelCallbacks {
+    getCurrentLevelId: () => string | null;
+    onOpenLevel: (id: string) => void;
+    onNewLevel: () => void;
+    onRestoreSnapshot: (snapshotId: string) => void;
+}
+
+/**
+ * Level Library Panel class
+ */
+export class LevelLibraryPanel {
+    private container: HTMLElement;
+    private library: LevelLibrary;
+    private history: CommandHistory;
+    private callbacks: LevelLibraryPanelCallbacks;
+    private sort: LevelLibrarySort = 'modified';
+    private snapshotLevelId: string | null = null;
+    private entries: LevelLibraryEntry[] = [];
+    private snapshots: LevelSnapshotInfo[] = [];
+
+    constructor(containerId: string, library: LevelLibrary, history: CommandHistory, callbacks: LevelLibraryPanelCallbacks) {
+        const container = document.getElementById(containerId);
+        if (!container) {
+            throw new Error(`Container element with id "${containerId}" not found`);
+        }
+
+        this.container = container;
+        this.library = library;
+        this.history = history;
+        this.callbacks = callbacks;
+
+        this.setupEventListeners();
+
+        // Re-render while open (autosave keeps the current level's card up to date)
+        this.library.onChange(() => {
+            if (this.isVisible()) this.refresh();
+        });
+    }
+
+    /**
+     * Opens the dialog
+     */
+    show(): void {
+        this.container.classList.add('visible');
+        this.refresh();
+    }
+
+    /**
+     * Closes the dialog
+     */
+    hide(): void {
+        this.container.classList.remove('visible');
+        this.snapshotLevelId = null;
+    }
+
+    /**
+     * Checks whether the dialog is open
+     */
+    isVisible(): boolean {
+        return this.container.classList.contains('visible');
+    }
+
+    /**
+     * Sets up click handling (delegated, since the list is re-rendered)
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('click', (e) => {
+            const target = e.target as HTMLElement;
+
+            // Clicking the backdrop closes the dialog
+            if (target === this.container || target.closest('#library-close')) {
+                this.hide();
+                return;
+            }
+            if (target.closest('#library-new')) {
+                this.hide();
+                this.callbacks.onNewLevel();
+                return;
+            }
+
+            const snapshotId = (target.closest('.library-snapshot') as HTMLElement | null)?.dataset.snapshotId;
+            if (snapshotId && target.closest('[data-action="restore"]')) {
+                this.restoreSnapshot(snapshotId);
+                return;
+            }
+
+            const levelId = (target.closest('.library-card') as HTMLElement | null)?.dataset.levelId;
+            const entry = this.entries.find(e => e.id === levelId);
+            if (!entry) return;
+
+            const action = (target.closest('[data-action]') as HTMLElement | null)?.dataset.action;
+            switch (action) {
+                case 'rename':
+                    this.renameLevel(entry);
+                    break;
+                case 'duplicate':
+                    this.library.duplicate(entry.id).catch(error => this.reportError('duplicate', error));
+                    break;
+                case 'delete':
+                    this.deleteLevel(entry);
+                    break;
+                case 'snapshots':
+                    this.toggleSnapshots(entry.id);
+                    break;
+                case 'open':
+                    this.hide();
+                    if (entry.id !== this.callbacks.getCurrentLevelId()) {
+                        this.callbacks.onOpenLevel(entry.id);
+                    }
+                    break;
+            }
+        });
+
+        this.container.addEventListener('change', (e) => {
+            const select = e.target as HTMLSelectElement;
+            if (select.id === 'library-sort') {
+                this.sort = select.value as LevelLibrarySort;
+                this.refresh();
+            }
+        });
+
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isVisible()) {
+                this.hide();
+            }
+        });
+    }
+
+    /**
+     * Renames a level; the open level is renamed in the editor (as an undoable step) so autosave
+     * keeps the name
+     */
+    private renameLevel(entry: LevelLibraryEntry): void {
+        const name = prompt('Level name:', entry.name)?.trim();
+        if (!name || name === entry.name) return;
+
+        if (entry.id === this.callbacks.getCurrentLevelId()) {
+            this.history.execute(new RenameLevelCommand(name));
+        } else {
+            this.library.rename(entry.id, name).catch(error => this.reportError('rename', error));
+        }
+    }
+
+    /**
+     * Deletes a level and its snapshots after confirmation
+     */
+    private deleteLevel(entry: LevelLibraryEntry): void {
+        if (!confirm(`Delete "${entry.name}" and its snapshots and telemetry? This cannot be undone.`)) return;
+
+        if (this.snapshotLevelId === entry.id) {
+            this.snapshotLevelId = null;
+        }
+        this.library.remove(entry.id).catch(error => this.reportError('delete', error));
+    }
+
+    /**
+     * Restores a snapshot after confirmation
+     */
+    private restoreSnapshot(snapshotId: string): void {
+        const snapshot = this.snapshots.find(s => s.id === snapshotId);
+        if (!snapshot) return;
+
+        const time = new Date(snapshot.createdAt).toLocaleString();
+        if (!confirm(`Restore the snapshot from ${time}? The current state is kept as a snapshot.`)) return;
+
+        this.hide();
+        this.callbacks.onRestoreSnapshot(snapshotId);
+    }
+
+    /**
+     * Shows or hides the snapshot list of a level
+     */
+    private toggleSnapshots(levelId: string): void {
+        this.snapshotLevelId = this.snapshotLevelId === levelId ? null : levelId;
+        this.refresh();
+    }
+
+    /**
+     * Reloads the level list (and open snapshot list) and renders
+     */
+    private async refresh(): Promise<void> {
+        try {
+            this.entries = await this.library.list(this.sort);
+            this.snapshots = this.snapshotLevelId ? await this.library.getSnapshots(this.snapshotLevelId) : [];
+            this.render();
+        } catch (error) {
+            console.error('Failed to read the level library:', error);
+        }
+    }
+
+    /**
+     * Logs and reports a failed library operation
+     */
+    private reportError(operation: string, error: unknown): void {
+        console.error(`Failed to ${operation} level:`, error);
+        alert(`Failed to ${operation} level`);
+    }
+
+    /**
+     * Renders the dialog HTML
+     */
+    private render(): void {
+        const currentId = this.callbacks.getCurrentLevelId();
+
+        const cards = this.entries.map(entry => {
+            const isCurrent = entry.id === currentId;
+            const snapshots = entry.id === this.snapshotLevelId ? this.renderSnapshots() : '';
+            const thumbnail = entry.thumbnail
+                ? `<img class="library-thumb" src="${entry.thumbnail}" alt="">`
+                : '<div class="library-thumb library-thumb-empty">No preview</div>';
+
+            return `
+                <li class="library-card ${isCurrent ? 'current' : ''}" data-level-id="${entry.id}">
+                    <button class="library-thumb-btn" data-action="open" title="${isCurrent ? 'Open now' : 'Open level'}">
+                        ${thumbnail}
+                    </button>
+                    <div class="library-info">
+                        <span class="library-name">${this.escapeHtml(entry.name)}${isCurrent ? ' <em>(open)</em>' : ''}</span>
+                        <span class="library-meta">Modified ${this.formatDate(entry.modifiedAt)}</span>
+                        <span class="library-meta">Created ${this.formatDate(entry.createdAt)}</span>
+                        <span class="library-meta">${entry.elementCount} element(s)</span>
+                    </div>
+                    <div class="library-card-actions">
+                        <button class="library-btn" data-action="rename" title="Rename">✎</button>
+                        <button class="library-btn" data-action="duplicate" title="Duplicate">⧉</button>
+                        <button class="library-btn ${entry.id === this.snapshotLevelId ? 'active' : ''}"
+                                data-action="snapshots" title="Autosave snapshots">🕘</button>
+                        <button class="library-btn" data-action="delete"
+                                title="${isCurrent ? 'The open level cannot be deleted' : 'Delete'}"
+                                ${isCurrent ? 'disabled' : ''}>✕</button>
+                    </div>
+                    ${snapshots}
+                </li>
+            `;
+        }).join('');
+
+        this.container.innerHTML = `
+            <div class="library-dialog" role="dialog" aria-label="Level library">
+                <div class="library-header">
+                    <span class="library-title">Level Library</span>
+                    <label class="library-sort">Sort
+                        <select id="library-sort">
+                            <option value="modified" ${this.sort === 'modified' ? 'selected' : ''}>Last modified</option>
+                            <option value="created" ${this.sort === 'created' ? 'selected' : ''}>Created</option>
+                            <option value="name" ${this.sort === 'name' ? 'selected' : ''}>Name</option>
+                        </select>
+                    </label>
+                    <button class="library-btn" id="library-new" title="Start a new level">+ New</button>
+                    <button class="library-btn" id="library-close" title="Close (Esc)">✕</button>
+                </div>
+                <ul class="library-list">
+                    ${cards || '<li class="library-empty">No saved levels</li>'}
+                </ul>
+            </div>
+        `;
+    }
+
+    /**
+     * Renders the snapshot list of the expanded level
+     */
+    private renderSnapshots(): string {
+        const items = this.snapshots.map(snapshot => `
+            <li class="library-snapshot" data-snapshot-id="${snapshot.id}">
+                <span>${this.formatDate(snapshot.createdAt)}</span>
+                <span class="library-meta">${snapshot.elementCount} element(s)</span>
+                <button class="library-btn" data-action="restore" title="Restore this snapshot">Restore</button>
+            </li>
+        `).join('');
+
+        return `
+            <ul class="library-snapshots">
+                ${items || '<li class="library-empty">No snapshots yet</li>'}
+            </ul>
+        `;
+    }
+
+    /**
+     * Formats an ISO timestamp for display
+     */
+    private formatDate(iso: string): string {
+        return new Date(iso).toLocaleString();
+    }
+
+    /**
+     * Escapes text for safe insertion into HTML
+     */
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+}
@@ -1,18 +1,56 @@
 /**
  * 3D Level Preview
- * Three.js-based 3D preview of the level with lighting and orbit controls
+ * Three.js-based 3D preview of the level with lighting, orbit controls and a first-person
+ * playtest mode
  */
 
-import { Level } from '../Domain/Level.js';
+import { Level, DEFAULT_LAYER_ID } from '../Domain/Level.js';
 import {
     AnyLevelElement,
     isWallElement,
     isFloorElement,
     isSpawnElement,
+    isRampElement,
+    isStairElement,
+    isOpeningElement,
+    getWallAxis,
+    getElementRotation,
+    getRampCorners,
+    getStairSteps,
+    splitWallAroundOpenings,
+    RAMP_FACES,
+    getElementCenter,
     WallElement,
     FloorElement,
-    SpawnElement
+    SpawnElement,
+    RampElement,
+    StairElement,
+    AnyOpeningElement
 } from '../Domain/LevelElement.js';
+import { ValidationIssue, ValidationSeverity } from '../Domain/LevelValidator.js';
+import { ReachabilityReport } from '../Domain/ReachabilityAnalyzer.js';
+import { PlayerController, PlayerInput } from '../Domain/PlayerController.js';
+import { TelemetryRecorder, TelemetryRun } from '../Domain/PlaytestTelemetry.js';
+
+/**
+ * Playtest key bindings (KeyboardEvent.code)
+ */
+const PLAYTEST_KEYS = {
+    forward: ['KeyW', 'ArrowUp'],
+    back: ['KeyS', 'ArrowDown'],
+    left: ['KeyA', 'ArrowLeft'],
+    right: ['KeyD', 'ArrowRight'],
+    jump: ['Space'],
+    crouch: ['KeyC']
+};
+
+/** Mouse look sensitivity in radians per pixel */
+const LOOK_SENSITIVITY = 0.0025;
+
+/**
+ * Callback for playtest runs recorded when playtesting stops
+ */
+export type PlaytestFinishedCallback = (run: TelemetryRun) => void;
 
 /**
  * 3D Level Preview class
@@ -31,22 +69,53 @@ export class LevelPreview3D {
 
     // Scene objects
     private levelGroup: any;
+    private overlayGroup: any;
     private gridHelper: any;
     private animationFrameId: number | null = null;
 
     // Materials (reused for performance)
     private wallMaterial: any;
     private floorMaterial: any;
+    private rampMaterial: any;
+    private stairMaterial: any;
+    private windowMaterial: any;
     private spawnMaterials: Map<string, any> = new Map();
 
+    // Layer view state
+    private activeLayerId: string = DEFAULT_LAYER_ID;
+    private cutaway: boolean = false;
+
+    // Validation highlights
+    private validationIssues: ValidationIssue[] = [];
+    private reachability: ReachabilityReport | null = null;
+
+    // Playtest (first-person) state
+    private player: PlayerController | null = null;
+    private playtestKeys: Set<string> = new Set();
+    private yaw: number = 0;
+    private pitch: number = 0;
+    private orbitView: { position: any; target: any } | null = null;
+    private playtestHint: HTMLElement | null = null;
+    private lastFrameTime: number = 0;
+    private recorder: TelemetryRecorder | null = null;
+    private playtestCallbacks: PlaytestFinishedCallback[] = [];
+
     // Configuration
     private readonly WALL_COLOR = 0x718096;
     private readonly FLOOR_COLOR = 0xa0aec0;
+    private readonly RAMP_COLOR = 0x90cdf4;
+    private readonly STAIR_COLOR = 0xb794f4;
+    private readonly WINDOW_COLOR = 0xbee3f8;
     private readonly SPAWN_PLAYER_COLOR = 0x48bb78;
     private readonly SPAWN_ENEMY_COLOR = 0xf56565;
     private readonly SPAWN_ITEM_COLOR = 0xecc94b;
     private readonly GROUND_COLOR = 0xe2e8f0;
     private readonly SKY_COLOR = 0xf0f4f8;
+    private readonly ISSUE_COLORS: Record<ValidationSeverity, number> = {
+        error: 0xe53e3e,
+        warning: 0xdd6b20,
+        info: 0x3182ce
+    };
 
     constructor(containerId: string, level: Level) {
         const container = document.getElementById(containerId);
@@ -69,6 +138,7 @@ export class LevelPreview3D {
             this.setupScene();
             this.setupLighting();
             this.setupControls();
+            this.setupPlaytestControls();
             this.createMaterials();
             this.rebuildLevel();
             this.startRenderLoop();
@@ -122,6 +192,10 @@ export class LevelPreview3D {
         this.levelGroup = new this.THREE.Group();
         this.scene.add(this.levelGroup);
 
+        // Overlay group (editor-only helpers, never exported)
+        this.overlayGroup = new this.THREE.Group();
+        this.scene.add(this.overlayGroup);
+
         // Grid helper
         this.createGridHelper();
     }
@@ -221,6 +295,170 @@ export class LevelPreview3D {
         this.controls.update();
     }
 
+    /**
+     * Sets up keyboard and mouse handling for playtest mode
+     * Keys are only taken while playtesting; the mouse looks around while the pointer is locked
+     */
+    private setupPlaytestControls(): void {
+        const bound = Object.values(PLAYTEST_KEYS).flat();
+
+        document.addEventListener('keydown', (e) => {
+            if (!this.player) return;
+
+            if (e.key === 'Escape') {
+                this.stopPlaytest();
+            } else if (bound.includes(e.code)) {
+                e.preventDefault();
+                this.playtestKeys.add(e.code);
+            }
+        });
+
+        document.addEventListener('keyup', (e) => {
+            this.playtestKeys.delete(e.code);
+        });
+
+        document.addEventListener('mousemove', (e) => {
+            if (!this.player || document.pointerLockElement !== this.renderer.domElement) return;
+
+            this.yaw -= e.movementX * LOOK_SENSITIVITY;
+            this.pitch = Math.max(-1.5, Math.min(1.5, this.pitch - e.movementY * LOOK_SENSITIVITY));
+        });
+
+        // The browser releases the pointer on Escape without a keydown event
+        document.addEventListener('pointerlockchange', () => {
+            if (this.player && document.pointerLockElement !== this.renderer.domElement) {
+                this.stopPlaytest();
+            }
+        });
+
+        // Clicking the view captures the mouse again, e.g. if locking failed on start
+        this.renderer.domElement.addEventListener('click', () => {
+            if (this.player && document.pointerLockElement !== this.renderer.domElement) {
+                this.renderer.domElement.requestPointerLock?.();
+            }
+        });
+
+        window.addEventListener('blur', () => this.playtestKeys.clear());
+    }
+
+    /**
+     * Switches to first-person view at the player spawn
+     * Throws if the preview is still loading or the level has no player spawn
+     */
+    startPlaytest(): void {
+        if (!this.camera || !this.controls) {
+            throw new Error('The 3D preview is still loading');
+        }
+        if (this.player) return;
+
+        const player = new PlayerController(this.level);
+        player.spawn();
+        this.player = player;
+        this.recorder = new TelemetryRecorder(this.level);
+
+        this.orbitView = { position: this.camera.position.clone(), target: this.controls.target.clone() };
+        this.controls.enabled = false;
+        this.yaw = 0;
+        this.pitch = 0;
+        this.playtestKeys.clear();
+        this.lastFrameTime = performance.now();
+
+        this.overlayGroup.visible = false;
+        this.updateLayerVisibility();
+        this.showPlaytestHint(true);
+        this.renderer.domElement.requestPointerLock?.();
+    }
+
+    /**
+     * Returns to the orbit view where it was before playtesting
+     * The recorded run is passed to the playtest finished callbacks
+     */
+    stopPlaytest(): void {
+        if (!this.player) return;
+
+        const run = this.recorder?.finish(`Playtest ${new Date().toLocaleString()}`, this.player.getState());
+        this.player = null;
+        this.recorder = null;
+        this.playtestKeys.clear();
+        if (document.pointerLockElement === this.renderer.domElement) {
+            document.exitPointerLock();
+        }
+
+        if (this.orbitView) {
+            this.camera.position.copy(this.orbitView.position);
+            this.controls.target.copy(this.orbitView.target);
+            this.orbitView = null;
+        }
+        this.controls.enabled = true;
+        this.controls.update();
+
+        this.overlayGroup.visible = true;
+        this.updateLayerVisibility();
+        this.showPlaytestHint(false);
+
+        if (run && run.samples.length > 0) {
+            this.playtestCallbacks.forEach(callback => callback(run));
+        }
+    }
+
+    /**
+     * Checks whether the preview is in first-person playtest mode
+     */
+    isPlaytesting(): boolean {
+        return this.player !== null;
+    }
+
+    /**
+     * Registers a callback for runs recorded in playtest mode
+     */
+    onPlaytestFinished(callback: PlaytestFinishedCallback): void {
+        this.playtestCallbacks.push(callback);
+    }
+
+    /**
+     * Moves the player from the held keys and puts the camera at its eyes
+     */
+    private updatePlaytest(seconds: number): void {
+        if (!this.player) return;
+
+        const held = (codes: string[]) => codes.some(code => this.playtestKeys.has(code));
+        const input: PlayerInput = {
+            forward: (held(PLAYTEST_KEYS.forward) ? 1 : 0) - (held(PLAYTEST_KEYS.back) ? 1 : 0),
+            strafe: (held(PLAYTEST_KEYS.right) ? 1 : 0) - (held(PLAYTEST_KEYS.left) ? 1 : 0),
+            yaw: this.yaw,
+            jump: held(PLAYTEST_KEYS.jump),
+            crouch: held(PLAYTEST_KEYS.crouch)
+        };
+
+        let state = this.player.update(input, seconds);
+
+        // Deadly drops put the player back at the spawn
+        const events = this.recorder?.record(state, seconds) ?? [];
+        if (events.some(event => event.type === 'death')) {
+            try {
+                state = this.player.spawn();
+            } catch (error) {
+                // The spawn was removed while playtesting; carry on from where the player landed
+            }
+        }
+
+        this.camera.position.set(state.x, this.player.getEyeElevation(), state.y);
+        this.camera.rotation.set(this.pitch, this.yaw, 0, 'YXZ');
+    }
+
+    /**
+     * Shows or hides the playtest controls hint over the preview
+     */
+    private showPlaytestHint(visible: boolean): void {
+        if (!this.playtestHint) {
+            this.playtestHint = document.createElement('div');
+            this.playtestHint.className = 'playtest-hint';
+            this.playtestHint.textContent = 'WASD move · Mouse look · Space jump · C crouch · Esc exit';
+            this.container.appendChild(this.playtestHint);
+        }
+        this.playtestHint.classList.toggle('visible', visible);
+    }
+
     /**
      * Creates reusable materials
      */
@@ -239,6 +477,28 @@ export class LevelPreview3D {
             metalness: 0.0
         });
 
+        // Ramp and stair materials
+        this.rampMaterial = new this.THREE.MeshStandardMaterial({
+            color: this.RAMP_COLOR,
+            roughness: 0.8,
+            metalness: 0.0
+        });
+
+        this.stairMaterial = new this.THREE.MeshStandardMaterial({
+            color: this.STAIR_COLOR,
+            roughness: 0.8,
+            metalness: 0.0
+        });
+
+        // Window glass material
+        this.windowMaterial = new this.THREE.MeshStandardMaterial({
+            color: this.WINDOW_COLOR,
+            roughness: 0.1,
+            metalness: 0.0,
+            transparent: true,
+            opacity: 0.35
+        });
+
         // Spawn materials
         this.spawnMaterials.set('player', new this.THREE.MeshStandardMaterial({
             color: this.SPAWN_PLAYER_COLOR,
@@ -265,57 +525,303 @@ export class LevelPreview3D {
     rebuildLevel(): void {
         if (!this.levelGroup) return;
 
+        // Walls and floors the player collides with follow the edits
+        this.player?.rebuild();
+
         // Clear existing level geometry
         while (this.levelGroup.children.length > 0) {
             const child = this.levelGroup.children[0];
             this.levelGroup.remove(child);
+            child.traverse((object: any) => {
+                if (object.geometry) object.geometry.dispose();
+            });
+        }
+
+        // One group per layer, so layers can be hidden and exported separately
+        const openings = this.level.getAllElements().filter(isOpeningElement);
+
+        this.level.getLayers().forEach(layer => {
+            const layerGroup = new this.THREE.Group();
+            layerGroup.name = `Layer_${layer.name.replace(/[^a-z0-9]/gi, '_')}`;
+            layerGroup.userData = {
+                layerId: layer.id,
+                layerName: layer.name,
+                baseElevation: layer.baseElevation
+            };
+            this.levelGroup.add(layerGroup);
+
+            this.level.getElementsOnLayer(layer.id).forEach(element => {
+                const firstChild = layerGroup.children.length;
+
+                if (isWallElement(element)) {
+                    this.createWallMesh(
+                        element,
+                        layerGroup,
+                        openings.filter(opening => opening.wallId === element.id)
+                    );
+                } else if (isOpeningElement(element)) {
+                    this.createOpeningNode(element, layerGroup);
+                } else if (isFloorElement(element)) {
+                    this.createFloorMesh(element, layerGroup);
+                } else if (isSpawnElement(element)) {
+                    this.createSpawnMesh(element, layerGroup);
+                } else if (isRampElement(element)) {
+                    this.createRampMesh(element, layerGroup);
+                } else if (isStairElement(element)) {
+                    this.createStairMesh(element, layerGroup);
+                }
+
+                // Meshes are built axis-aligned, then turned into the element's frame
+                const frame = this.level.getElementFrame(element);
+                layerGroup.children.slice(firstChild).forEach((object: any) => this.applyRotation(object, frame));
+            });
+        });
+
+        this.updateLayerVisibility();
+        this.rebuildOverlays();
+    }
+
+    /**
+     * Rotates an object about the center of an element's footprint
+     * (clockwise in the 2D view is clockwise seen from above, i.e. negative about +Y)
+     */
+    private applyRotation(object: any, frame: AnyLevelElement): void {
+        const rotation = getElementRotation(frame);
+        if (rotation === 0) return;
+
+        const angle = -rotation * Math.PI / 180;
+        const axis = new this.THREE.Vector3(0, 1, 0);
+        const [centerX, centerZ] = getElementCenter(frame);
+        const pivot = new this.THREE.Vector3(centerX, 0, centerZ);
+
+        object.position.sub(pivot).applyAxisAngle(axis, angle).add(pivot);
+        object.rotateOnWorldAxis(axis, angle);
+    }
+
+    /**
+     * Shows or hides layer groups from the layer state and the cutaway setting
+     * In cutaway mode, layers above the active one are hidden
+     */
+    private updateLayerVisibility(): void {
+        if (!this.levelGroup) return;
+
+        const active = this.level.getLayer(this.activeLayerId) ?? this.level.getLayers()[0];
+
+        this.levelGroup.children.forEach((layerGroup: any) => {
+            const layer = this.level.getLayer(layerGroup.userData.layerId);
+            if (!layer) return;
+
+            // Playtesting shows the whole level
+            const cutAway = this.cutaway && !this.player && layer.baseElevation > active.baseElevation;
+            layerGroup.visible = layer.visible && !cutAway;
+        });
+    }
+
+    /**
+     * Rebuilds editor overlays: validation highlights and reachability paths
+     */
+    private rebuildOverlays(): void {
+        if (!this.overlayGroup) return;
+
+        while (this.overlayGroup.children.length > 0) {
+            const child = this.overlayGroup.children[0];
+            this.overlayGroup.remove(child);
             if (child.geometry) child.geometry.dispose();
+            if (child.material) child.material.dispose();
         }
 
-        // Create geometry for all elements
-        const elements = this.level.getAllElements();
+        // Most severe issue wins per element
+        const order: ValidationSeverity[] = ['info', 'warning', 'error'];
+        const severityById = new Map<string, ValidationSeverity>();
+        this.validationIssues.forEach(issue => {
+            issue.elementIds.forEach(id => {
+                const current = severityById.get(id);
+                if (!current || order.indexOf(issue.severity) > order.indexOf(current)) {
+                    severityById.set(id, issue.severity);
+                }
+            });
+        });
 
-        elements.forEach(element => {
-            if (isWallElement(element)) {
-                this.createWallMesh(element);
-            } else if (isFloorElement(element)) {
-                this.createFloorMesh(element);
-            } else if (isSpawnElement(element)) {
-                this.createSpawnMesh(element);
-            }
+        this.levelGroup.children
+            .filter((layerGroup: any) => layerGroup.visible)
+            .forEach((layerGroup: any) => layerGroup.children.forEach((mesh: any) => {
+                const severity = severityById.get(mesh.userData.elementId);
+                if (!severity) return;
+
+                const box = new this.THREE.Box3().setFromObject(mesh);
+                if (box.isEmpty()) return;
+                box.expandByScalar(0.05);
+                const helper = new this.THREE.Box3Helper(box, this.ISSUE_COLORS[severity]);
+                this.overlayGroup.add(helper);
+            }));
+
+        this.createPathLines();
+    }
+
+    /**
+     * Draws reachability paths as lines slightly above the walked surfaces
+     */
+    private createPathLines(): void {
+        if (!this.reachability) return;
+
+        const pathColors: Record<string, number> = {
+            enemy: this.SPAWN_ENEMY_COLOR,
+            item: this.SPAWN_ITEM_COLOR
+        };
+
+        this.reachability.results.forEach(result => {
+            if (!result.reachable || result.path.length < 2) return;
+
+            const points = result.path.map(point => new this.THREE.Vector3(
+                point.gridX + 0.5,
+                point.height + 0.15,
+                point.gridY + 0.5
+            ));
+
+            const geometry = new this.THREE.BufferGeometry().setFromPoints(points);
+            const material = new this.THREE.LineBasicMaterial({
+                color: pathColors[result.spawnType] ?? this.SPAWN_PLAYER_COLOR,
+                depthTest: false
+            });
+            const line = new this.THREE.Line(geometry, material);
+            line.renderOrder = 1;
+            this.overlayGroup.add(line);
         });
     }
 
+    /**
+     * Shows reachability paths (null clears)
+     */
+    setReachabilityReport(report: ReachabilityReport | null): void {
+        this.reachability = report;
+        this.rebuildOverlays();
+    }
+
+    /**
+     * Sets the active layer (the cutaway hides layers above it)
+     */
+    setActiveLayer(layerId: string): void {
+        this.activeLayerId = layerId;
+        this.updateLayerVisibility();
+        this.rebuildOverlays();
+    }
+
+    /**
+     * Enables or disables cutaway mode
+     */
+    setCutaway(enabled: boolean): void {
+        this.cutaway = enabled;
+        this.updateLayerVisibility();
+        this.rebuildOverlays();
+    }
+
+    /**
+     * Highlights the elements referenced by validation issues (empty array clears)
+     */
+    setValidationIssues(issues: ValidationIssue[]): void {
+        this.validationIssues = issues;
+        this.rebuildOverlays();
+    }
+
     /**
      * Creates a 3D mesh for a wall element
+     * Walls with openings are split into boxes around each door/window
      */
-    private createWallMesh(element: WallElement): void {
-        const geometry = new this.THREE.BoxGeometry(
-            element.width,
-            element.wallHeight,
-            element.depth
-        );
+    private createWallMesh(element: WallElement, parent: any, openings: AnyOpeningElement[] = []): void {
+        if (openings.length === 0) {
+            const geometry = new this.THREE.BoxGeometry(
+                element.width,
+                element.wallHeight,
+                element.depth
+            );
+
+            const mesh = new this.THREE.Mesh(geometry, this.wallMaterial);
+
+            // Position: center of the wall
+            mesh.position.set(
+                element.gridX + element.width / 2,
+                element.elevation + element.wallHeight / 2,
+                element.gridY + element.depth / 2
+            );
+
+            mesh.castShadow = true;
+            mesh.receiveShadow = true;
+            mesh.userData.elementId = element.id;
+
+            parent.add(mesh);
+            return;
+        }
 
-        const mesh = new this.THREE.Mesh(geometry, this.wallMaterial);
-        
-        // Position: center of the wall
-        mesh.position.set(
+        const group = new this.THREE.Group();
+        group.userData.elementId = element.id;
+
+        splitWallAroundOpenings(element, openings).forEach(piece => {
+            const geometry = new this.THREE.BoxGeometry(
+                piece.x1 - piece.x0,
+                piece.y1 - piece.y0,
+                piece.z1 - piece.z0
+            );
+            const mesh = new this.THREE.Mesh(geometry, this.wallMaterial);
+            mesh.position.set(
+                (piece.x0 + piece.x1) / 2,
+                (piece.y0 + piece.y1) / 2,
+                (piece.z0 + piece.z1) / 2
+            );
+            mesh.castShadow = true;
+            mesh.receiveShadow = true;
+            group.add(mesh);
+        });
+
+        parent.add(group);
+    }
+
+    /**
+     * Creates a named node for a door or window so engines can attach logic to it
+     * Windows also get a glass pane for the preview
+     */
+    private createOpeningNode(element: AnyOpeningElement, parent: any): void {
+        const wall = this.level.getElement(element.wallId);
+        const baseElevation = wall && isWallElement(wall) ? wall.elevation : 0;
+
+        const node = new this.THREE.Object3D();
+        node.name = `${element.type === 'door' ? 'Door' : 'Window'}_${element.id}`;
+        node.position.set(
             element.gridX + element.width / 2,
-            element.elevation + element.wallHeight / 2,
+            baseElevation + element.sillHeight + element.height / 2,
             element.gridY + element.depth / 2
         );
+        node.userData = {
+            elementId: element.id,
+            openingType: element.type,
+            wallId: element.wallId,
+            width: element.width,
+            depth: element.depth,
+            height: element.height,
+            sillHeight: element.sillHeight,
+            rotation: wall ? getElementRotation(wall) : 0
+        };
 
-        mesh.castShadow = true;
-        mesh.receiveShadow = true;
-        mesh.userData.elementId = element.id;
+        if (element.type === 'window') {
+            const alongX = wall && isWallElement(wall) ? getWallAxis(wall) === 'x' : element.width >= element.depth;
+            const pane = new this.THREE.Mesh(
+                new this.THREE.BoxGeometry(
+                    alongX ? element.width : 0.02,
+                    element.height,
+                    alongX ? 0.02 : element.depth
+                ),
+                this.windowMaterial
+            );
+            pane.name = `${node.name}_Glass`;
+            node.add(pane);
+        }
 
-        this.levelGroup.add(mesh);
+        parent.add(node);
     }
 
     /**
      * Creates a 3D mesh for a floor element
      */
-    private createFloorMesh(element: FloorElement): void {
+    private createFloorMesh(element: FloorElement, parent: any): void {
         const geometry = new this.THREE.BoxGeometry(
             element.width,
             element.thickness,
@@ -334,13 +840,55 @@ export class LevelPreview3D {
         mesh.receiveShadow = true;
         mesh.userData.elementId = element.id;
 
-        this.levelGroup.add(mesh);
+        parent.add(mesh);
+    }
+
+    /**
+     * Creates a 3D wedge mesh for a ramp element
+     */
+    private createRampMesh(element: RampElement, parent: any): void {
+        const corners = getRampCorners(element);
+        const positions: number[] = [];
+        RAMP_FACES.forEach(([a, b, c, d]) => {
+            [a, b, c, a, c, d].forEach(i => positions.push(...corners[i]));
+        });
+
+        const geometry = new this.THREE.BufferGeometry();
+        geometry.setAttribute('position', new this.THREE.Float32BufferAttribute(positions, 3));
+        geometry.computeVertexNormals();
+
+        const mesh = new this.THREE.Mesh(geometry, this.rampMaterial);
+        mesh.castShadow = true;
+        mesh.receiveShadow = true;
+        mesh.userData.elementId = element.id;
+
+        parent.add(mesh);
+    }
+
+    /**
+     * Creates a group of step boxes for a stair element
+     */
+    private createStairMesh(element: StairElement, parent: any): void {
+        const group = new this.THREE.Group();
+
+        getStairSteps(element).forEach(box => {
+            const geometry = new this.THREE.BoxGeometry(box.x1 - box.x0, box.y1 - box.y0, box.z1 - box.z0);
+            const step = new this.THREE.Mesh(geometry, this.stairMaterial);
+            step.position.set((box.x0 + box.x1) / 2, (box.y0 + box.y1) / 2, (box.z0 + box.z1) / 2);
+            step.castShadow = true;
+            step.receiveShadow = true;
+
+            group.add(step);
+        });
+
+        group.userData.elementId = element.id;
+        parent.add(group);
     }
 
     /**
      * Creates a 3D mesh for a spawn element
      */
-    private createSpawnMesh(element: SpawnElement): void {
+    private createSpawnMesh(element: SpawnElement, parent: any): void {
         // Use a cylinder for spawn markers
         const geometry = new this.THREE.CylinderGeometry(0.3, 0.3, 0.1, 16);
         const material = this.spawnMaterials.get(element.spawnType) || this.spawnMaterials.get('player');
@@ -357,7 +905,7 @@ export class LevelPreview3D {
         mesh.castShadow = true;
         mesh.userData.elementId = element.id;
 
-        this.levelGroup.add(mesh);
+        parent.add(mesh);
 
         // Add a vertical indicator
         const poleGeometry = new this.THREE.CylinderGeometry(0.05, 0.05, 1.8, 8);
@@ -369,7 +917,7 @@ export class LevelPreview3D {
         );
         pole.castShadow = true;
 
-        this.levelGroup.add(pole);
+        parent.add(pole);
     }
 
     /**
@@ -393,7 +941,13 @@ export class LevelPreview3D {
         const animate = () => {
             this.animationFrameId = requestAnimationFrame(animate);
 
-            if (this.controls) {
+            const now = performance.now();
+            const seconds = (now - this.lastFrameTime) / 1000;
+            this.lastFrameTime = now;
+
+            if (this.player) {
+                this.updatePlaytest(seconds);
+            } else if (this.controls) {
                 this.controls.update();
             }
 
@@ -413,7 +967,7 @@ export class LevelPreview3D {
     }
 
     /**
-     * Gets the level group containing all level geometry
+     * Gets the level group containing all level geometry (one child group per layer)
      */
     getLevelGroup(): any {
         return this.levelGroup;
@@ -430,6 +984,8 @@ export class LevelPreview3D {
      * Resets the camera to default position
      */
     resetCamera(): void {
+        this.stopPlaytest();
+
         const gridSize = this.level.getGridSize();
         const maxDim = Math.max(gridSize.width, gridSize.height);
 
@@ -449,6 +1005,9 @@ export class LevelPreview3D {
         // Dispose materials
         this.wallMaterial?.dispose();
         this.floorMaterial?.dispose();
+        this.rampMaterial?.dispose();
+        this.stairMaterial?.dispose();
+        this.windowMaterial?.dispose();
         this.spawnMaterials.forEach(mat => mat.dispose());
 
         // Dispose geometries in level group
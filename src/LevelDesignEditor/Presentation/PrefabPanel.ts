@@ -0,0 +1,251 @@
+/**
+ * Prefab Panel
+ * Lists the prefab library and lets the user save, stamp, update and remove prefabs
+ */
+
+import { Level } from '../Domain/Level.js';
+import { UpdateElementCommand, UpdatePrefabCommand } from '../Domain/LevelCommands.js';
+import {
+    AnyLevelElement,
+    generatePrefabInstanceId,
+    getElementBounds,
+    getElevationOffsetUpdates,
+    isOpeningElement
+} from '../Domain/LevelElement.js';
+import {
+    Prefab,
+    createPrefab,
+    getInstancePlacement,
+    getPrefabInstances,
+    updatePrefabFromInstance
+} from '../Domain/Prefab.js';
+import { PrefabLibrary } from '../Domain/PrefabLibrary.js';
+import { LevelEditor2D } from './LevelEditor2D.js';
+
+/**
+ * Prefab Panel class
+ */
+export class PrefabPanel {
+    private container: HTMLElement;
+    private library: PrefabLibrary;
+    private level: Level;
+    private editor: LevelEditor2D;
+
+    constructor(containerId: string, library: PrefabLibrary, level: Level, editor: LevelEditor2D) {
+        const container = document.getElementById(containerId);
+        if (!container) {
+            throw new Error(`Container element with id "${containerId}" not found`);
+        }
+
+        this.container = container;
+        this.library = library;
+        this.level = level;
+        this.editor = editor;
+
+        this.setupEventListeners();
+        this.render();
+
+        // Re-render when prefabs, instances or the selection change
+        this.library.onChange(() => {
+            this.syncEditorPrefab();
+            this.render();
+        });
+        this.level.onChange(() => this.render());
+        this.editor.onStateChange(() => this.render());
+    }
+
+    /**
+     * Sets up click handling (delegated, since the list is re-rendered)
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('click', (e) => {
+            const target = e.target as HTMLElement;
+
+            if (target.closest('#prefab-save')) {
+                this.saveSelection();
+                return;
+            }
+            if (target.closest('#prefab-detach')) {
+                this.editor.detachSelectedInstances();
+                return;
+            }
+
+            const prefabId = (target.closest('.prefab-item') as HTMLElement | null)?.dataset.prefabId;
+            const prefab = prefabId ? this.library.get(prefabId) : undefined;
+            if (!prefab) return;
+
+            const action = (target.closest('[data-action]') as HTMLElement | null)?.dataset.action;
+            switch (action) {
+                case 'update':
+                    this.updateFromSelection(prefab);
+                    break;
+                case 'remove':
+                    this.removePrefab(prefab);
+                    break;
+                default:
+                    this.editor.setPrefab(prefab);
+                    this.editor.setTool('prefab');
+            }
+        });
+
+        this.container.addEventListener('dblclick', (e) => {
+            const name = (e.target as HTMLElement).closest('.prefab-name');
+            const prefabId = (name?.closest('.prefab-item') as HTMLElement | null)?.dataset.prefabId;
+            const prefab = prefabId ? this.library.get(prefabId) : undefined;
+            if (!prefab) return;
+
+            // Library edit, not an undoable level edit
+            const newName = prompt('Prefab name:', prefab.name)?.trim();
+            if (newName && newName !== prefab.name) {
+                this.library.save({ ...prefab, name: newName, modifiedAt: new Date().toISOString() });
+            }
+        });
+    }
+
+    /**
+     * Saves the selection as a new prefab, pivoted on the center of its bounds
+     * The selected elements become the prefab's first instance
+     */
+    private saveSelection(): void {
+        const elements = this.editor.copySelection();
+        const placed = elements.filter(element => !isOpeningElement(element));
+        if (placed.length === 0) return;
+
+        const name = prompt('Prefab name:', `Prefab ${this.library.getAll().length + 1}`)?.trim();
+        if (!name) return;
+
+        const bounds = placed.map(element => getElementBounds(element));
+        const minX = Math.min(...bounds.map(b => b.gridX));
+        const minY = Math.min(...bounds.map(b => b.gridY));
+        const maxX = Math.max(...bounds.map(b => b.gridX + b.width));
+        const maxY = Math.max(...bounds.map(b => b.gridY + b.depth));
+        const pivotX = Math.round((minX + maxX) / 2);
+        const pivotY = Math.round((minY + maxY) / 2);
+
+        const prefab = createPrefab(name, elements, pivotX, pivotY);
+        this.library.save(prefab);
+
+        // Prefab elements are created in the order of the source elements
+        const instanceId = generatePrefabInstanceId();
+        const placement = { x: pivotX, y: pivotY, rotation: 0, mirrored: false };
+        const history = this.editor.getHistory();
+        history.group(`Save prefab "${name}"`, () => {
+            elements.forEach((element, index) => {
+                const link = { prefabId: prefab.id, instanceId, sourceId: prefab.elements[index].id, placement };
+                history.execute(new UpdateElementCommand(element.id, { prefab: link }));
+            });
+        });
+    }
+
+    /**
+     * Replaces a prefab with the selected instance of it, plus anything else selected,
+     * then rebuilds every instance
+     */
+    private updateFromSelection(prefab: Prefab): void {
+        const instanceId = this.getSelectedInstanceId(prefab);
+        if (!instanceId) return;
+
+        const members = getPrefabInstances(this.level.getAllElements()).get(instanceId) ?? [];
+        const placement = getInstancePlacement(prefab, members);
+
+        // Instance members not in the selection are kept; all elevations relative to their layer
+        const elements = new Map<string, AnyLevelElement>();
+        members.forEach(member => {
+            const base = this.level.getLayer(this.level.getElementLayerId(member))?.baseElevation ?? 0;
+            elements.set(member.id, { ...member, ...getElevationOffsetUpdates(member, -base) } as AnyLevelElement);
+        });
+        this.editor.copySelection().forEach(element => elements.set(element.id, element));
+
+        const updated = updatePrefabFromInstance(prefab, Array.from(elements.values()), instanceId, placement);
+        this.editor.getHistory().execute(new UpdatePrefabCommand(this.library, updated));
+    }
+
+    /**
+     * Removes a prefab from the library after confirmation
+     * Instances stay in the level and can be relinked by loading a file that contains the prefab
+     */
+    private removePrefab(prefab: Prefab): void {
+        const count = this.getInstanceCount(prefab);
+        const message = count > 0
+            ? `Remove prefab "${prefab.name}"? Its ${count} instance(s) stay in the level.`
+            : `Remove prefab "${prefab.name}"?`;
+        if (confirm(message)) {
+            this.library.remove(prefab.id);
+        }
+    }
+
+    /**
+     * Keeps the editor's stamp prefab in step with the library
+     */
+    private syncEditorPrefab(): void {
+        const active = this.editor.getPrefab();
+        if (!active) return;
+
+        const current = this.library.get(active.id) ?? null;
+        if (current !== active) {
+            this.editor.setPrefab(current);
+        }
+    }
+
+    /**
+     * Gets the instance of a prefab that the selection belongs to (primary selection first)
+     */
+    private getSelectedInstanceId(prefab: Prefab): string | null {
+        const linked = this.editor.getSelectedElements()
+            .reverse()
+            .find(element => element.prefab?.prefabId === prefab.id);
+        return linked?.prefab?.instanceId ?? null;
+    }
+
+    /**
+     * Counts the instances of a prefab in the level
+     */
+    private getInstanceCount(prefab: Prefab): number {
+        return Array.from(getPrefabInstances(this.level.getAllElements()).values())
+            .filter(members => members[0].prefab!.prefabId === prefab.id)
+            .length;
+    }
+
+    /**
+     * Renders the panel HTML
+     */
+    private render(): void {
+        const state = this.editor.getState();
+        const activeId = state.tool === 'prefab' ? state.prefabId : null;
+        const hasSelection = state.selectedElements.length > 0;
+        const hasLinked = state.selectedElements.some(element => element.prefab);
+
+        const items = this.library.getAll().map(prefab => `
+            <li class="prefab-item ${prefab.id === activeId ? 'active' : ''}" data-prefab-id="${prefab.id}"
+                title="Click to stamp">
+                <span class="prefab-name" title="Double-click to rename">${this.escapeHtml(prefab.name)}</span>
+                <span class="prefab-count" title="Instances in this level">×${this.getInstanceCount(prefab)}</span>
+                <button class="prefab-btn" data-action="update" title="Update from selected instance"
+                        ${this.getSelectedInstanceId(prefab) ? '' : 'disabled'}>⟳</button>
+                <button class="prefab-btn" data-action="remove" title="Remove prefab">✕</button>
+            </li>
+        `).join('');
+
+        this.container.innerHTML = `
+            <div class="prefab-header">
+                <span class="prefab-title">Prefabs</span>
+                <div class="prefab-actions">
+                    <button class="prefab-btn" id="prefab-detach" title="Detach selected instances" ${hasLinked ? '' : 'disabled'}>⛓</button>
+                    <button class="prefab-btn" id="prefab-save" title="Save selection as prefab" ${hasSelection ? '' : 'disabled'}>+</button>
+                </div>
+            </div>
+            <ul class="prefab-list">
+                ${items || '<li class="prefab-empty">Select elements and press + to save a prefab</li>'}
+            </ul>
+        `;
+    }
+
+    /**
+     * Escapes text for safe insertion into HTML
+     */
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+}
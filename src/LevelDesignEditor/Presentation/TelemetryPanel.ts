@@ -0,0 +1,211 @@
+/**
+ * Telemetry Panel
+ * Dialog listing the playtest runs of the open level and choosing what the 2D heatmap overlay
+ * shows (toolbar **Telemetry** button)
+ */
+
+import { TelemetryHeatmapMode, TelemetryRun } from '../Domain/PlaytestTelemetry.js';
+
+/**
+ * What the heatmap overlay shows
+ */
+export interface TelemetryOverlaySettings {
+    visible: boolean;
+    mode: TelemetryHeatmapMode;
+    /** Draw deaths, falls and pickups on top of the heatmap */
+    showEvents: boolean;
+    /** Runs left out of the heatmap */
+    hiddenRunIds: string[];
+}
+
+/**
+ * Callbacks for reading and changing the level's runs
+ */
+export interface TelemetryPanelCallbacks {
+    getRuns: () => TelemetryRun[];
+    onImport: () => void;
+    onRemoveRun: (runId: string) => void;
+    onOverlayChange: (settings: TelemetryOverlaySettings) => void;
+}
+
+/**
+ * Telemetry Panel class
+ */
+export class TelemetryPanel {
+    private container: HTMLElement;
+    private callbacks: TelemetryPanelCallbacks;
+    private settings: TelemetryOverlaySettings = {
+        visible: false,
+        mode: 'visits',
+        showEvents: true,
+        hiddenRunIds: []
+    };
+
+    constructor(containerId: string, callbacks: TelemetryPanelCallbacks) {
+        const container = document.getElementById(containerId);
+        if (!container) {
+            throw new Error(`Container element with id "${containerId}" not found`);
+        }
+
+        this.container = container;
+        this.callbacks = callbacks;
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Opens the dialog
+     */
+    show(): void {
+        this.render();
+        this.container.classList.add('visible');
+    }
+
+    /**
+     * Closes the dialog
+     */
+    hide(): void {
+        this.container.classList.remove('visible');
+    }
+
+    /**
+     * Checks whether the dialog is open
+     */
+    isVisible(): boolean {
+        return this.container.classList.contains('visible');
+    }
+
+    /**
+     * Re-renders the run list if the dialog is open (after runs were added or removed)
+     */
+    refresh(): void {
+        if (this.isVisible()) this.render();
+    }
+
+    /**
+     * Gets the overlay settings
+     */
+    getOverlaySettings(): TelemetryOverlaySettings {
+        return { ...this.settings, hiddenRunIds: [...this.settings.hiddenRunIds] };
+    }
+
+    /**
+     * Sets up click and change handling (delegated, since the dialog is re-rendered)
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('click', (e) => {
+            const target = e.target as HTMLElement;
+
+            // Clicking the backdrop closes the dialog
+            if (target === this.container || target.closest('#telemetry-close')) {
+                this.hide();
+            } else if (target.closest('#telemetry-import')) {
+                this.callbacks.onImport();
+            } else if (target.closest('[data-action="delete"]')) {
+                const runId = (target.closest('.telemetry-run') as HTMLElement | null)?.dataset.runId;
+                const run = this.callbacks.getRuns().find(r => r.id === runId);
+                if (run && confirm(`Delete the run "${run.name}"? This cannot be undone.`)) {
+                    this.callbacks.onRemoveRun(run.id);
+                }
+            }
+        });
+
+        this.container.addEventListener('change', (e) => {
+            const input = e.target as HTMLInputElement;
+
+            if (input.id === 'telemetry-visible') {
+                this.settings.visible = input.checked;
+            } else if (input.id === 'telemetry-mode') {
+                this.settings.mode = input.value as TelemetryHeatmapMode;
+            } else if (input.id === 'telemetry-events') {
+                this.settings.showEvents = input.checked;
+            } else if (input.dataset.action === 'include') {
+                const runId = (input.closest('.telemetry-run') as HTMLElement | null)?.dataset.runId;
+                if (!runId) return;
+                this.settings.hiddenRunIds = this.settings.hiddenRunIds.filter(id => id !== runId);
+                if (!input.checked) {
+                    this.settings.hiddenRunIds.push(runId);
+                }
+            } else {
+                return;
+            }
+
+            this.callbacks.onOverlayChange(this.getOverlaySettings());
+        });
+
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isVisible()) {
+                this.hide();
+            }
+        });
+    }
+
+    /**
+     * Renders one run of the list
+     */
+    private renderRun(run: TelemetryRun): string {
+        const count = (type: string) => run.events.filter(event => event.type === type).length;
+        const included = !this.settings.hiddenRunIds.includes(run.id);
+
+        return `
+            <li class="telemetry-run" data-run-id="${run.id}">
+                <input type="checkbox" data-action="include" ${included ? 'checked' : ''} title="Include in the heatmap">
+                <div class="telemetry-info">
+                    <span class="telemetry-name">${this.escapeHtml(run.name)}</span>
+                    <span class="telemetry-meta">
+                        ${run.source === 'editor' ? 'Recorded' : 'Imported'} ${new Date(run.recordedAt).toLocaleString()}
+                        · ${run.duration.toFixed(1)}s
+                    </span>
+                    <span class="telemetry-meta">
+                        ${count('death')} death(s) · ${count('fall')} fall(s) · ${count('pickup')} item(s) reached
+                    </span>
+                </div>
+                <button class="telemetry-btn" data-action="delete" title="Delete run">🗑</button>
+            </li>
+        `;
+    }
+
+    /**
+     * Renders the dialog HTML
+     */
+    private render(): void {
+        const settings = this.settings;
+        const runs = this.callbacks.getRuns();
+
+        this.container.innerHTML = `
+            <div class="telemetry-dialog" role="dialog" aria-label="Playtest telemetry">
+                <div class="telemetry-header">
+                    <span class="telemetry-title">Playtest Telemetry</span>
+                    <button class="telemetry-btn" id="telemetry-import" title="Import CSV or JSON telemetry in grid coordinates">Import…</button>
+                    <button class="telemetry-btn" id="telemetry-close" title="Close (Esc)">✕</button>
+                </div>
+                <div class="telemetry-options">
+                    <label class="telemetry-checkbox">
+                        <input type="checkbox" id="telemetry-visible" ${settings.visible ? 'checked' : ''}>
+                        Show heatmap
+                    </label>
+                    <select id="telemetry-mode">
+                        <option value="visits" ${settings.mode === 'visits' ? 'selected' : ''}>Visited cells</option>
+                        <option value="time" ${settings.mode === 'time' ? 'selected' : ''}>Time spent</option>
+                    </select>
+                    <label class="telemetry-checkbox">
+                        <input type="checkbox" id="telemetry-events" ${settings.showEvents ? 'checked' : ''}>
+                        Deaths, falls and pickups
+                    </label>
+                </div>
+                <ul class="telemetry-list">
+                    ${runs.map(run => this.renderRun(run)).join('') || '<li class="telemetry-empty">No runs yet: playtest the level or import telemetry</li>'}
+                </ul>
+            </div>
+        `;
+    }
+
+    /**
+     * Escapes HTML special characters
+     */
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * Level Design Editor - command line export
+ * Converts a folder of level JSON files to GLB in Node, without a browser
+ *
+ * Usage (after building with `npx tsc`):
+ *   node build/LevelDesignEditor/cli.js <input-dir> [output-dir] [--split-layers]
+ *
+ * Each `<name>.json` becomes `<name>.glb` in the output directory (the input directory if
+ * unset); `--split-layers` writes one `<name>_<layer>.glb` per layer instead. Exits with 1 if
+ * any file failed
+ */
+
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { LevelSerializer } from './Export/LevelSerializer.js';
+import { LevelGeometryBuilder } from './Export/LevelGeometryBuilder.js';
+import { GLBWriter } from './Export/GLBWriter.js';
+
+/**
+ * The Node process (see node.d.ts for the modules)
+ */
+declare const process: { argv: string[]; exitCode?: number };
+
+/**
+ * Parsed command line
+ */
+interface CliOptions {
+    inputDir: string;
+    outputDir: string;
+    splitLayers: boolean;
+}
+
+const USAGE = 'Usage: node build/LevelDesignEditor/cli.js <input-dir> [output-dir] [--split-layers]';
+
+/**
+ * Parses the command line arguments (without the node and script paths)
+ */
+function parseArgs(args: string[]): CliOptions | null {
+    const positional = args.filter(arg => !arg.startsWith('--'));
+    const flags = args.filter(arg => arg.startsWith('--'));
+    const unknown = flags.filter(flag => flag !== '--split-layers');
+
+    if (positional.length < 1 || positional.length > 2 || unknown.length > 0) {
+        return null;
+    }
+
+    return {
+        inputDir: positional[0],
+        outputDir: positional[1] ?? positional[0],
+        splitLayers: flags.includes('--split-layers')
+    };
+}
+
+/**
+ * Converts every level file in the input directory
+ * @returns Process exit code
+ */
+async function run(args: string[]): Promise<number> {
+    const options = parseArgs(args);
+    if (!options) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    const files = (await readdir(options.inputDir))
+        .filter(file => file.toLowerCase().endsWith('.json'))
+        .sort();
+    if (files.length === 0) {
+        console.error(`No level files (.json) found in ${options.inputDir}`);
+        return 1;
+    }
+
+    await mkdir(options.outputDir, { recursive: true });
+
+    let exported = 0;
+    let failed = 0;
+    for (const file of files) {
+        const baseName = file.replace(/\.json$/i, '');
+        try {
+            const json = await readFile(join(options.inputDir, file), 'utf8');
+            const { level, report } = LevelSerializer.deserializeFile(json);
+            const changes = LevelSerializer.describeReport(report);
+            if (changes) {
+                changes.split('\n').forEach(line => console.warn(`${file}: ${line}`));
+            }
+            if (level.getElementCount() === 0) {
+                console.warn(`${file}: level has no elements, skipped`);
+                continue;
+            }
+
+            const builder = new LevelGeometryBuilder(level);
+
+            const outputs = options.splitLayers
+                ? level.getLayers()
+                    .filter(layer => level.getElementsOnLayer(layer.id).length > 0)
+                    .map(layer => ({
+                        name: `${baseName}_${layer.name.replace(/[^a-z0-9]/gi, '_')}.glb`,
+                        root: builder.build({ layerId: layer.id })
+                    }))
+                : [{ name: `${baseName}.glb`, root: builder.build() }];
+
+            for (const output of outputs) {
+                await writeFile(join(options.outputDir, output.name), GLBWriter.write(output.root));
+                console.log(`${file} -> ${output.name}`);
+            }
+            exported++;
+        } catch (error) {
+            failed++;
+            console.error(`${file}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    console.log(`Exported ${exported} of ${files.length} level(s)`);
+    return failed > 0 ? 1 : 0;
+}
+
+run(process.argv.slice(2)).then(
+    code => { process.exitCode = code; },
+    error => {
+        console.error(error);
+        process.exitCode = 1;
+    }
+);
@@ -4,47 +4,162 @@
  */
 
 import { Level } from './Domain/Level.js';
+import { Prefab } from './Domain/Prefab.js';
+import { CommandHistory } from './Domain/CommandHistory.js';
+import { PrefabLibrary } from './Domain/PrefabLibrary.js';
+import { PropertySchema } from './Domain/ElementProperties.js';
+import { ClearLevelCommand, ReplaceLayerElementsCommand, SetPropertySchemaCommand } from './Domain/LevelCommands.js';
+import { LevelValidator } from './Domain/LevelValidator.js';
+import { ReachabilityAnalyzer } from './Domain/ReachabilityAnalyzer.js';
+import { DungeonGenerator, DungeonOptions } from './Domain/DungeonGenerator.js';
+import { LayoutSynthesizer } from './Domain/LayoutSynthesizer.js';
+import { GridRect } from './Domain/GridSystem.js';
+import { AnyLevelElement, getElementBounds } from './Domain/LevelElement.js';
+import { TelemetryRun, buildTelemetryHeatmap } from './Domain/PlaytestTelemetry.js';
 import { LevelEditor2D } from './Presentation/LevelEditor2D.js';
 import { LevelPreview3D } from './Presentation/LevelPreview3D.js';
 import { EditorToolbar, ToolbarCallbacks } from './Presentation/EditorToolbar.js';
+import { HistoryPanel } from './Presentation/HistoryPanel.js';
+import { LayerPanel } from './Presentation/LayerPanel.js';
+import { InspectorPanel } from './Presentation/InspectorPanel.js';
+import { PrefabPanel } from './Presentation/PrefabPanel.js';
+import { LevelLibraryPanel } from './Presentation/LevelLibraryPanel.js';
+import { DungeonGeneratorPanel } from './Presentation/DungeonGeneratorPanel.js';
+import { LayoutSynthesisPanel, LayoutSynthesisSettings, LayoutSynthesisStatus } from './Presentation/LayoutSynthesisPanel.js';
+import { TelemetryPanel } from './Presentation/TelemetryPanel.js';
 import { LevelSerializer } from './Export/LevelSerializer.js';
+import { LevelStorage } from './Export/LevelStorage.js';
+import { LevelLibrary } from './Export/LevelLibrary.js';
 import { GLTFLevelExporter } from './Export/GLTFLevelExporter.js';
+import { GodotSceneExporter } from './Export/GodotSceneExporter.js';
+
+/**
+ * Delay after the last change before the level is saved to the library
+ */
+const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Delay after the last level change before the analysis overlays are refreshed, so drags and
+ * nudges do not re-run them on every update
+ */
+const OVERLAY_REFRESH_DELAY_MS = 200;
+
+/**
+ * Shortest time between autosave snapshots of a level
+ */
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * localStorage key of the library level that was open last
+ */
+const CURRENT_LEVEL_KEY = 'currentLevelId';
 
 /**
  * Level Design Editor Application
  */
 class LevelDesignEditorApp {
     private level: Level;
+    private history: CommandHistory;
     private editor2D: LevelEditor2D;
     private preview3D: LevelPreview3D;
     private toolbar: EditorToolbar;
-    private exporter: GLTFLevelExporter | null = null;
+    private historyPanel: HistoryPanel;
+    private layerPanel: LayerPanel;
+    private inspectorPanel: InspectorPanel;
+    private prefabPanel: PrefabPanel;
+    private generatorPanel: DungeonGeneratorPanel;
+    private synthesisPanel: LayoutSynthesisPanel;
+    private telemetryPanel: TelemetryPanel;
+    private prefabs: PrefabLibrary;
+    /** Property schema last saved for the project (null until one is) */
+    private projectSchema: PropertySchema | null;
+    private exporter: GLTFLevelExporter;
+    private godotExporter: GodotSceneExporter;
+    private library: LevelLibrary | null = null;
+    private libraryPanel: LevelLibraryPanel | null = null;
+    private currentLevelId: string | null = null;
+    private autoSaveTimer: number | null = null;
+    private overlayRefreshTimer: number | null = null;
+    private lastSnapshotTime: number = 0;
+    private validationEnabled: boolean = false;
+    private reachabilityEnabled: boolean = false;
+    /** Playtest runs of the open level (kept in the library when it is open) */
+    private telemetryRuns: TelemetryRun[] = [];
 
     constructor() {
         // Initialize level
         this.level = new Level(20, 20, 'New Level');
 
-        // Try to restore from localStorage
+        // The property schema is shared by all levels and saved whenever it changes
+        this.projectSchema = LevelStorage.loadPropertySchema();
+        if (this.projectSchema) {
+            this.level.setPropertySchema(this.projectSchema);
+        }
+        this.level.onChange(() => this.savePropertySchema());
+
+        // Restore from localStorage until the library has opened (and if it cannot be)
         this.tryRestoreLevel();
 
+        // Prefabs are shared by all levels and saved whenever the library changes
+        this.prefabs = LevelStorage.loadPrefabLibrary();
+        this.prefabs.onChange(() => LevelStorage.savePrefabLibrary(this.prefabs));
+
+        // Undo/redo history (starts after the restored state)
+        this.history = new CommandHistory(this.level);
+
         // Initialize components
         this.initializeCanvas();
-        this.editor2D = new LevelEditor2D('editor2dCanvas', this.level);
+        this.editor2D = new LevelEditor2D('editor2dCanvas', this.level, this.history);
         this.preview3D = new LevelPreview3D('preview3dContainer', this.level);
 
         // Initialize toolbar with callbacks
         const callbacks: ToolbarCallbacks = {
             onClear: () => this.clearLevel(),
+            onOpenLibrary: () => this.openLibrary(),
+            onOpenGenerator: () => this.generatorPanel.show(),
+            onOpenSynthesis: () => this.synthesisPanel.show(),
+            onPlaytest: () => this.startPlaytest(),
+            onOpenTelemetry: () => this.telemetryPanel.show(),
             onExport: () => this.exportLevel(),
+            onExportGodot: () => this.exportGodotScene(),
             onSave: () => this.saveLevel(),
-            onLoad: () => this.loadLevel()
+            onLoad: () => this.loadLevel(),
+            onLoadSchema: () => this.loadSchema(),
+            onToggleValidation: () => this.toggleValidation(),
+            onToggleReachability: () => this.toggleReachability()
         };
         this.toolbar = new EditorToolbar('toolbar', this.editor2D, callbacks);
+        this.historyPanel = new HistoryPanel('historyPanel', this.history);
+        this.layerPanel = new LayerPanel('layerPanel', this.level, this.editor2D, {
+            onExportLayer: (layerId) => this.exportLevel(layerId),
+            onToggleCutaway: (enabled) => this.preview3D.setCutaway(enabled)
+        });
+        this.inspectorPanel = new InspectorPanel('inspectorPanel', this.level, this.editor2D);
+        this.prefabPanel = new PrefabPanel('prefabPanel', this.prefabs, this.level, this.editor2D);
+        this.generatorPanel = new DungeonGeneratorPanel('generatorPanel', {
+            onGenerate: (options) => this.generateDungeon(options)
+        });
+        this.synthesisPanel = new LayoutSynthesisPanel('synthesisPanel', {
+            getSelectionBounds: () => this.getSelectionBounds(),
+            getGridSize: () => this.level.getGridSize(),
+            onSynthesize: (settings) => this.synthesizeLayout(settings)
+        });
+        this.telemetryPanel = new TelemetryPanel('telemetryPanel', {
+            getRuns: () => this.telemetryRuns,
+            onImport: () => this.importTelemetry(),
+            onRemoveRun: (runId) => this.removeTelemetryRun(runId),
+            onOverlayChange: () => this.updateTelemetryOverlay()
+        });
+
+        // Keep runs recorded in playtest mode with the level
+        this.preview3D.onPlaytestFinished(run => this.addTelemetryRuns([run]));
+
+        // Keep the 3D cutaway in sync with the layer being edited
+        this.editor2D.onStateChange(state => this.preview3D.setActiveLayer(state.activeLayerId));
 
-        // Initialize exporter after preview3D is ready
-        setTimeout(() => {
-            this.exporter = new GLTFLevelExporter(this.preview3D, this.level);
-        }, 1000);
+        // The exporters work from the level data alone
+        this.godotExporter = new GodotSceneExporter(this.level);
+        this.exporter = new GLTFLevelExporter(this.level);
 
         // Set up status bar updates
         this.setupStatusBar();
@@ -52,8 +167,29 @@ class LevelDesignEditorApp {
         // Set up keyboard shortcuts
         this.setupKeyboardShortcuts();
 
+        // Paste elements copied here or in another tab (the paste event needs no clipboard permission)
+        document.addEventListener('paste', (e) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+            const text = e.clipboardData?.getData('text/plain');
+            if (text) {
+                e.preventDefault();
+                this.pasteClipboard(text);
+            }
+        });
+
         // Auto-save on changes
         this.level.onChange(() => this.autoSave());
+        window.addEventListener('pagehide', () => this.flushAutoSave());
+
+        // Switch to the library once IndexedDB is open
+        this.initializeLibrary();
+
+        // Keep validation results current while the overlay is on
+        this.level.onChange(() => this.scheduleOverlayRefresh());
+
+        // The heatmap follows grid size changes
+        this.level.onChange(() => this.updateTelemetryOverlay());
     }
 
     /**
@@ -81,23 +217,11 @@ class LevelDesignEditorApp {
      */
     private tryRestoreLevel(): void {
         try {
-            const savedLevel = LevelSerializer.loadFromLocalStorage();
+            const savedLevel = LevelStorage.loadFromLocalStorage();
             if (savedLevel) {
-                // Copy data from saved level to current level
-                const savedData = savedLevel.toJSON() as any;
-                const elements = savedData.elements || [];
-                
-                this.level.setGridSize(savedData.gridWidth || 20, savedData.gridHeight || 20);
-                this.level.setDefaultWallHeight(savedData.defaultWallHeight || 3);
-                
-                if (savedData.metadata) {
-                    this.level.setMetadata(savedData.metadata);
-                }
-
-                elements.forEach((element: any) => {
-                    this.level.addElement(element);
-                });
-
+                // Copy data (including layers) from saved level to current level
+                this.adoptPropertySchema(savedLevel);
+                this.level.copyFrom(savedLevel);
                 console.log('Level restored from localStorage');
             }
         } catch (error) {
@@ -105,6 +229,50 @@ class LevelDesignEditorApp {
         }
     }
 
+    /**
+     * Opens the level library and shows the level that was open last (or the most recently
+     * modified one). On first use, the level restored from localStorage becomes the first
+     * library level
+     */
+    private async initializeLibrary(): Promise<void> {
+        try {
+            this.library = await LevelLibrary.open();
+        } catch (error) {
+            console.warn('Level library unavailable, auto-saving to localStorage:', error);
+            return;
+        }
+
+        this.libraryPanel = new LevelLibraryPanel('libraryPanel', this.library, this.history, {
+            getCurrentLevelId: () => this.currentLevelId,
+            onOpenLevel: (id) => this.openLibraryLevel(id),
+            onNewLevel: () => this.newLibraryLevel(),
+            onRestoreSnapshot: (snapshotId) => this.restoreSnapshot(snapshotId)
+        });
+
+        try {
+            const entries = await this.library.list();
+            const lastId = localStorage.getItem(CURRENT_LEVEL_KEY);
+            const id = entries.find(entry => entry.id === lastId)?.id ?? entries[0]?.id;
+
+            if (id) {
+                const { level, prefabs } = await this.library.load(id);
+                await this.showLibraryLevel(id, level, prefabs);
+            } else {
+                this.currentLevelId = await this.library.create(
+                    this.level, this.getUsedPrefabs(), this.editor2D.createThumbnail()
+                );
+                localStorage.setItem(CURRENT_LEVEL_KEY, this.currentLevelId);
+                for (const run of this.telemetryRuns) {
+                    await this.library.addRun(this.currentLevelId, run);
+                }
+                LevelStorage.clearLocalStorage();
+                console.log('Level moved from localStorage to the level library');
+            }
+        } catch (error) {
+            console.error('Failed to open the level library:', error);
+        }
+    }
+
     /**
      * Sets up status bar updates
      */
@@ -163,7 +331,29 @@ class LevelDesignEditorApp {
                 return;
             }
 
+            // The 3D preview takes the keyboard while playtesting
+            if (this.preview3D.isPlaytesting()) {
+                return;
+            }
+
             switch (e.key) {
+                case 'z':
+                case 'Z':
+                    if (e.ctrlKey || e.metaKey) {
+                        e.preventDefault();
+                        if (e.shiftKey) {
+                            this.history.redo();
+                        } else {
+                            this.history.undo();
+                        }
+                    }
+                    break;
+                case 'y':
+                    if (e.ctrlKey || e.metaKey) {
+                        e.preventDefault();
+                        this.history.redo();
+                    }
+                    break;
                 case '1':
                     this.editor2D.setTool('wall');
                     break;
@@ -179,13 +369,95 @@ class LevelDesignEditorApp {
                 case '5':
                     this.editor2D.setTool('erase');
                     break;
+                case '6':
+                    this.editor2D.setTool('ramp');
+                    break;
+                case '7':
+                    this.editor2D.setTool('stair');
+                    break;
+                case '8':
+                    this.editor2D.setTool('door');
+                    break;
+                case '9':
+                    this.editor2D.setTool('window');
+                    break;
+                case '0':
+                    this.editor2D.setTool('angled-wall');
+                    break;
+                case 'r':
+                case 'R':
+                    if (e.ctrlKey || e.metaKey) break;
+                    if (this.editor2D.getTool() === 'prefab') {
+                        // Prefab stamps turn in quarter turns
+                        const rotation = this.editor2D.getState().rotation;
+                        this.editor2D.setRotation(rotation + (e.shiftKey ? -90 : 90));
+                    } else {
+                        this.editor2D.rotateSelected(e.shiftKey ? -15 : 15);
+                    }
+                    break;
+                case 'm':
+                case 'M':
+                    if (!e.ctrlKey && !e.metaKey && this.editor2D.getTool() === 'prefab') {
+                        this.editor2D.setPrefabMirrored(!this.editor2D.getState().prefabMirrored);
+                    }
+                    break;
+                case 'ArrowUp':
+                case 'ArrowDown':
+                case 'ArrowLeft':
+                case 'ArrowRight':
+                    if (this.editor2D.getSelectedElements().length > 0) {
+                        e.preventDefault();
+                        const step = e.shiftKey ? 5 : 1;
+                        const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+                        const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
+                        this.editor2D.nudgeSelected(dx, dy);
+                    }
+                    break;
+                case 'd':
+                case 'D':
+                    if (e.ctrlKey || e.metaKey) {
+                        e.preventDefault();
+                        this.editor2D.duplicateSelected();
+                    }
+                    break;
+                case 'a':
+                case 'A':
+                    if (e.ctrlKey || e.metaKey) {
+                        e.preventDefault();
+                        this.editor2D.selectAll();
+                    }
+                    break;
+                case 'c':
+                case 'C':
+                    if (e.ctrlKey || e.metaKey) {
+                        this.copySelection();
+                    }
+                    break;
+                case 'x':
+                case 'X':
+                    if (e.ctrlKey || e.metaKey) {
+                        this.copySelection().then(copied => {
+                            if (copied) this.editor2D.deleteSelected();
+                        });
+                    }
+                    break;
                 case 'Delete':
                 case 'Backspace':
-                    if (this.editor2D.getSelectedElement()) {
+                    if (this.editor2D.getSelectedElements().length > 0) {
                         e.preventDefault();
                         this.editor2D.deleteSelected();
                     }
                     break;
+                case 'v':
+                    if (!e.ctrlKey && !e.metaKey) {
+                        this.toggleValidation();
+                    }
+                    break;
+                case 'p':
+                    if (!e.ctrlKey && !e.metaKey) {
+                        this.toggleReachability();
+                    }
+                    break;
                 case 'Escape':
                     this.editor2D.clearSelection();
                     break;
@@ -211,75 +483,489 @@ class LevelDesignEditorApp {
         });
     }
 
+    /**
+     * Copies the selected elements to the system clipboard as JSON
+     * @returns Whether anything was copied
+     */
+    private async copySelection(): Promise<boolean> {
+        const elements = this.editor2D.copySelection();
+        if (elements.length === 0) return false;
+
+        try {
+            await navigator.clipboard.writeText(LevelSerializer.serializeElements(elements));
+            return true;
+        } catch (error) {
+            console.warn('Failed to copy to clipboard:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Pastes elements from the clipboard (e.g. copied in another tab) onto the active layer
+     */
+    private pasteClipboard(text: string): void {
+        let elements: AnyLevelElement[] | null;
+        try {
+            elements = LevelSerializer.deserializeElements(text);
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to paste elements');
+            return;
+        }
+
+        // Not level elements: leave the clipboard text alone
+        if (elements) {
+            this.editor2D.pasteElements(elements);
+        }
+    }
+
+    /**
+     * Turns the validation overlay on or off
+     */
+    private toggleValidation(): void {
+        this.validationEnabled = !this.validationEnabled;
+        this.toolbar.setValidationActive(this.validationEnabled);
+        this.runValidation();
+    }
+
+    /**
+     * Refreshes the validation and reachability overlays once the level stops changing
+     */
+    private scheduleOverlayRefresh(): void {
+        if (!this.validationEnabled && !this.reachabilityEnabled) return;
+
+        if (this.overlayRefreshTimer !== null) {
+            clearTimeout(this.overlayRefreshTimer);
+        }
+        this.overlayRefreshTimer = window.setTimeout(() => {
+            this.overlayRefreshTimer = null;
+            if (this.validationEnabled) {
+                this.runValidation();
+            }
+            if (this.reachabilityEnabled) {
+                this.runReachability();
+            }
+        }, OVERLAY_REFRESH_DELAY_MS);
+    }
+
+    /**
+     * Validates the level against player metrics and updates overlays and status
+     */
+    private runValidation(): void {
+        const issues = this.validationEnabled ? LevelValidator.validate(this.level) : [];
+
+        this.editor2D.setValidationIssues(issues);
+        this.preview3D.setValidationIssues(issues);
+
+        const issuesElement = document.getElementById('statusIssues');
+        if (issuesElement) {
+            if (this.validationEnabled) {
+                const summary = LevelValidator.summarize(issues);
+                issuesElement.textContent = `${summary.error} errors, ${summary.warning} warnings, ${summary.info} notes`;
+            } else {
+                issuesElement.textContent = 'off';
+            }
+        }
+    }
+
+    /**
+     * Turns the reachability overlay on or off
+     */
+    private toggleReachability(): void {
+        this.reachabilityEnabled = !this.reachabilityEnabled;
+        this.toolbar.setReachabilityActive(this.reachabilityEnabled);
+        this.runReachability();
+    }
+
+    /**
+     * Runs pathfinding from the player spawn and updates overlays and status
+     */
+    private runReachability(): void {
+        const report = this.reachabilityEnabled ? ReachabilityAnalyzer.analyze(this.level) : null;
+
+        this.editor2D.setReachabilityReport(report);
+        this.preview3D.setReachabilityReport(report);
+
+        const reachElement = document.getElementById('statusReachable');
+        if (reachElement) {
+            if (!report) {
+                reachElement.textContent = 'off';
+            } else if (!report.playerSpawnId) {
+                reachElement.textContent = 'no player spawn';
+            } else {
+                const reached = report.results.filter(result => result.reachable).length;
+                reachElement.textContent = `${reached}/${report.results.length} spawns`;
+            }
+        }
+    }
+
     /**
      * Clears the level
      */
     private clearLevel(): void {
-        this.level.clear();
-        LevelSerializer.clearLocalStorage();
+        this.history.execute(new ClearLevelCommand());
+    }
+
+    /**
+     * Walks the level in first person in the 3D preview (Esc returns to the orbit view)
+     */
+    private startPlaytest(): void {
+        try {
+            this.preview3D.startPlaytest();
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to start playtest');
+        }
     }
 
     /**
-     * Saves the level to a file
+     * Adds runs to the open level, saving them in the library if it is open
+     */
+    private async addTelemetryRuns(runs: TelemetryRun[]): Promise<void> {
+        const levelId = this.currentLevelId;
+        this.telemetryRuns.push(...runs);
+        this.telemetryPanel.refresh();
+        this.updateTelemetryOverlay();
+
+        if (!this.library || !levelId) return;
+        try {
+            for (const run of runs) {
+                await this.library.addRun(levelId, run);
+            }
+        } catch (error) {
+            console.error('Failed to save telemetry:', error);
+        }
+    }
+
+    /**
+     * Imports telemetry from a CSV or JSON file
+     */
+    private async importTelemetry(): Promise<void> {
+        try {
+            const runs = await LevelStorage.loadTelemetryFromFile();
+            await this.addTelemetryRuns(runs);
+            console.log(`Imported ${runs.length} telemetry run(s)`);
+        } catch (error) {
+            console.error('Failed to import telemetry:', error);
+            alert(error instanceof Error ? error.message : 'Failed to import telemetry');
+        }
+    }
+
+    /**
+     * Deletes a run of the open level
+     */
+    private async removeTelemetryRun(runId: string): Promise<void> {
+        this.telemetryRuns = this.telemetryRuns.filter(run => run.id !== runId);
+        this.telemetryPanel.refresh();
+        this.updateTelemetryOverlay();
+
+        try {
+            await this.library?.removeRun(runId);
+        } catch (error) {
+            console.error('Failed to delete telemetry:', error);
+        }
+    }
+
+    /**
+     * Redraws the 2D heatmap overlay from the runs chosen in the telemetry panel
+     */
+    private updateTelemetryOverlay(): void {
+        const settings = this.telemetryPanel.getOverlaySettings();
+        if (!settings.visible) {
+            this.editor2D.setTelemetryOverlay(null);
+            return;
+        }
+
+        const runs = this.telemetryRuns.filter(run => !settings.hiddenRunIds.includes(run.id));
+        const { width, height } = this.level.getGridSize();
+        this.editor2D.setTelemetryOverlay(
+            buildTelemetryHeatmap(runs, width, height),
+            settings.mode,
+            settings.showEvents ? runs.flatMap(run => run.events) : []
+        );
+    }
+
+    /**
+     * Replaces the active layer's elements with a generated blockout (one undoable step)
+     */
+    private generateDungeon(options: DungeonOptions): void {
+        const layerId = this.editor2D.getState().activeLayerId;
+        const layer = this.level.getLayer(layerId);
+        if (!layer || !layer.visible || layer.locked) {
+            alert('Show and unlock the active layer to generate a blockout on it');
+            return;
+        }
+
+        try {
+            const elements = DungeonGenerator.generate(this.level, options);
+            this.editor2D.clearSelection();
+            this.history.execute(new ReplaceLayerElementsCommand(layerId, elements, `Generate blockout (seed ${options.seed})`));
+        } catch (error) {
+            console.error('Failed to generate blockout:', error);
+            alert(error instanceof Error ? error.message : 'Failed to generate blockout');
+        }
+    }
+
+    /**
+     * Replaces an area of the active layer with a layout learned from an example area (one
+     * undoable step). Cells that visible locked layers cover keep what those layers hold
+     */
+    private synthesizeLayout(settings: LayoutSynthesisSettings): LayoutSynthesisStatus {
+        const layerId = this.editor2D.getState().activeLayerId;
+        const layer = this.level.getLayer(layerId);
+        if (!layer || !layer.visible || layer.locked) {
+            return { success: false, message: 'Show and unlock the active layer to synthesize a layout on it' };
+        }
+
+        try {
+            const { sample, output } = settings;
+            const lockedLayerIds = this.level.getLayers()
+                .filter(other => other.visible && other.locked)
+                .map(other => other.id);
+            const locked = LayoutSynthesizer.rasterize(this.level, output, { layerIds: lockedLayerIds }).tiles
+                .map(tile => tile === 'empty' ? null : tile);
+
+            const result = LayoutSynthesizer.synthesize(LayoutSynthesizer.rasterize(this.level, sample), {
+                width: output.width,
+                height: output.height,
+                patternSize: settings.patternSize,
+                symmetry: settings.symmetry,
+                seed: settings.seed,
+                locked
+            });
+            if (!result.success) {
+                return { success: false, message: result.error };
+            }
+
+            const elements = LayoutSynthesizer.toElements(result.map, output.x, output.y, {
+                wallHeight: settings.wallHeight,
+                skip: (x, y) => locked[y * output.width + x] !== null
+            });
+            const area = { gridX: output.x, gridY: output.y, width: output.width, depth: output.height };
+            this.editor2D.clearSelection();
+            this.history.execute(new ReplaceLayerElementsCommand(
+                layerId, elements, `Synthesize layout (seed ${settings.seed})`, area
+            ));
+
+            const retries = result.attempts > 1 ? ` after ${result.attempts} attempts` : '';
+            return { success: true, message: `Synthesized from ${result.patternCount} patterns${retries}` };
+        } catch (error) {
+            console.error('Failed to synthesize layout:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to synthesize layout' };
+        }
+    }
+
+    /**
+     * Gets the grid cells covered by the selected elements
+     */
+    private getSelectionBounds(): GridRect | null {
+        const selected = this.editor2D.getSelectedElements();
+        if (selected.length === 0) return null;
+
+        const bounds = selected.map(element => getElementBounds(element, this.level.getElementFrame(element)));
+        const x = Math.floor(Math.min(...bounds.map(b => b.gridX)));
+        const y = Math.floor(Math.min(...bounds.map(b => b.gridY)));
+        return {
+            x,
+            y,
+            width: Math.ceil(Math.max(...bounds.map(b => b.gridX + b.width))) - x,
+            height: Math.ceil(Math.max(...bounds.map(b => b.gridY + b.depth))) - y
+        };
+    }
+
+    /**
+     * Gets the prefabs the level's instances were stamped from (saved with the level)
+     */
+    private getUsedPrefabs(): Prefab[] {
+        return this.prefabs.getUsedBy(this.level.getAllElements());
+    }
+
+    /**
+     * Saves the level to a file, with the prefabs its instances use
      */
     private saveLevel(): void {
-        LevelSerializer.downloadLevel(this.level);
+        LevelStorage.downloadLevel(this.level, undefined, this.getUsedPrefabs());
     }
 
     /**
-     * Loads a level from a file
+     * Loads a level from a file (into a new library level if the library is open)
      */
     private async loadLevel(): Promise<void> {
         try {
-            const loadedLevel = await LevelSerializer.loadLevelFromFile();
-            
-            // Clear current level
-            this.level.clear();
-
-            // Copy data from loaded level
-            const loadedData = loadedLevel.toJSON() as any;
-            
-            this.level.setGridSize(loadedData.gridWidth || 20, loadedData.gridHeight || 20);
-            this.level.setDefaultWallHeight(loadedData.defaultWallHeight || 3);
-            
-            if (loadedData.metadata) {
-                this.level.setMetadata(loadedData.metadata);
+            const { level: loadedLevel, prefabs, propertySchema, report } = await LevelStorage.loadLevelFromFile();
+
+            if (this.library) {
+                await this.flushAutoSave();
+                const id = await this.library.create(loadedLevel, prefabs);
+                await this.showLibraryLevel(id, loadedLevel, prefabs);
+            } else {
+                this.showLevel(loadedLevel, prefabs);
             }
 
-            const elements = loadedData.elements || [];
-            elements.forEach((element: any) => {
-                this.level.addElement(element);
-            });
+            // Files saved from another project may bring their own schema
+            if (propertySchema && JSON.stringify(propertySchema) !== JSON.stringify(this.level.getPropertySchema())
+                && confirm('The level file has a different property schema. Use it for this project?')) {
+                this.history.execute(new SetPropertySchemaCommand(propertySchema, 'Use property schema from file'));
+            }
 
-            // Reset 3D preview camera
-            this.preview3D.resetCamera();
+            report.migrations.forEach(migration => console.log(`Level file migrated ${migration}`));
+            const changes = LevelSerializer.describeReport(report);
+            if (changes) {
+                alert(`The level file was repaired while loading:\n${changes}`);
+            }
 
             console.log('Level loaded successfully');
         } catch (error) {
             console.error('Failed to load level:', error);
-            alert('Failed to load level file');
+            alert(error instanceof Error ? error.message : 'Failed to load level file');
+        }
+    }
+
+    /**
+     * Replaces the current level content (elements and layers) with another level
+     */
+    private showLevel(level: Level, prefabs: Prefab[], telemetryRuns: TelemetryRun[] = []): void {
+        this.telemetryRuns = telemetryRuns;
+        this.telemetryPanel.refresh();
+        this.adoptPropertySchema(level);
+        this.level.copyFrom(level);
+
+        // Add the level's prefabs to the library so its instances stay linked
+        this.prefabs.merge(prefabs);
+
+        // A different level: previous steps no longer apply
+        this.history.clear();
+
+        // Reset 3D preview camera
+        this.preview3D.resetCamera();
+    }
+
+    /**
+     * Uses a level's property schema for the project if the project has not saved one yet, so
+     * schemas saved with levels from before the project kept its own are not lost
+     */
+    private adoptPropertySchema(level: Level): void {
+        if (this.projectSchema === null) {
+            this.level.setPropertySchema(level.getPropertySchema());
+        }
+    }
+
+    /**
+     * Saves the property schema for the project when it has changed
+     */
+    private savePropertySchema(): void {
+        const schema = this.level.getPropertySchema();
+        if (schema !== this.projectSchema) {
+            this.projectSchema = schema;
+            LevelStorage.savePropertySchema(schema);
         }
     }
 
     /**
-     * Exports the level to GLTF/GLB
+     * Shows a library level and makes it the one autosave writes to
      */
-    private async exportLevel(): Promise<void> {
-        if (!this.exporter) {
-            alert('Please wait for the 3D preview to initialize');
+    private async showLibraryLevel(id: string, level: Level, prefabs: Prefab[]): Promise<void> {
+        const snapshots = await this.library!.getSnapshots(id);
+        this.lastSnapshotTime = snapshots.length > 0 ? Date.parse(snapshots[0].createdAt) : 0;
+        const runs = await this.library!.getRuns(id);
+
+        this.currentLevelId = id;
+        localStorage.setItem(CURRENT_LEVEL_KEY, id);
+        this.showLevel(level, prefabs, runs);
+    }
+
+    /**
+     * Opens the level library dialog
+     */
+    private openLibrary(): void {
+        if (!this.libraryPanel) {
+            alert('The level library is not available in this browser');
             return;
         }
+        this.libraryPanel.show();
+    }
 
-        if (!this.exporter.canExport()) {
-            alert('Please add some elements to the level before exporting');
+    /**
+     * Saves the current level, then opens another library level
+     */
+    private async openLibraryLevel(id: string): Promise<void> {
+        if (!this.library) return;
+
+        try {
+            await this.flushAutoSave();
+            const { level, prefabs } = await this.library.load(id);
+            await this.showLibraryLevel(id, level, prefabs);
+        } catch (error) {
+            console.error('Failed to open level:', error);
+            alert(error instanceof Error ? error.message : 'Failed to open level');
+        }
+    }
+
+    /**
+     * Saves the current level, then starts an empty one in the library
+     */
+    private async newLibraryLevel(): Promise<void> {
+        if (!this.library) return;
+
+        try {
+            await this.flushAutoSave();
+            const level = new Level(20, 20, 'New Level');
+            const id = await this.library.create(level);
+            await this.showLibraryLevel(id, level, []);
+        } catch (error) {
+            console.error('Failed to create level:', error);
+            alert('Failed to create level');
+        }
+    }
+
+    /**
+     * Restores a snapshot over its level, first snapshotting the state it replaces
+     */
+    private async restoreSnapshot(snapshotId: string): Promise<void> {
+        if (!this.library) return;
+
+        try {
+            await this.flushAutoSave();
+            const { level, prefabs, levelId } = await this.library.loadSnapshot(snapshotId);
+
+            const replaced = levelId === this.currentLevelId
+                ? { level: this.level, prefabs: this.getUsedPrefabs() }
+                : await this.library.load(levelId);
+            await this.library.addSnapshot(levelId, replaced.level, replaced.prefabs);
+
+            // Restoring counts as a modification (sorts the level first)
+            level.setMetadata({});
+            await this.showLibraryLevel(levelId, level, prefabs);
+        } catch (error) {
+            console.error('Failed to restore snapshot:', error);
+            alert(error instanceof Error ? error.message : 'Failed to restore snapshot');
+        }
+    }
+
+    /**
+     * Loads a property schema file and applies it to the level
+     */
+    private async loadSchema(): Promise<void> {
+        try {
+            const schema = await LevelStorage.loadSchemaFromFile();
+            this.history.execute(new SetPropertySchemaCommand(schema));
+        } catch (error) {
+            console.error('Failed to load property schema:', error);
+            alert(error instanceof Error ? error.message : 'Failed to load property schema');
+        }
+    }
+
+    /**
+     * Exports the level (or a single layer) to GLTF/GLB
+     */
+    private exportLevel(layerId?: string): void {
+        if (!this.exporter.canExport(layerId)) {
+            alert(layerId
+                ? 'This layer has no elements to export'
+                : 'Please add some elements to the level before exporting');
             return;
         }
 
         try {
-            await this.exporter.exportAndDownload({
-                binary: true,
-                levelOnly: true
-            });
+            this.exporter.exportAndDownload({ layerId });
             console.log('Level exported successfully');
         } catch (error) {
             console.error('Failed to export level:', error);
@@ -288,11 +974,65 @@ class LevelDesignEditorApp {
     }
 
     /**
-     * Auto-saves the level to localStorage
+     * Exports the level as a Godot scene (.tscn)
+     */
+    private exportGodotScene(): void {
+        if (!this.godotExporter.canExport()) {
+            alert('Please add some elements to the level before exporting');
+            return;
+        }
+
+        try {
+            this.godotExporter.exportAndDownload();
+            console.log('Godot scene exported successfully');
+        } catch (error) {
+            console.error('Failed to export Godot scene:', error);
+            alert('Failed to export Godot scene');
+        }
+    }
+
+    /**
+     * Auto-saves the level to the library shortly after changes stop
+     * (to localStorage if the library is not open)
      */
     private autoSave(): void {
+        if (!this.library || !this.currentLevelId) {
+            try {
+                LevelStorage.saveToLocalStorage(this.level);
+            } catch (error) {
+                console.warn('Auto-save failed:', error);
+            }
+            return;
+        }
+
+        if (this.autoSaveTimer !== null) {
+            clearTimeout(this.autoSaveTimer);
+        }
+        this.autoSaveTimer = window.setTimeout(() => this.flushAutoSave(), AUTOSAVE_DELAY_MS);
+    }
+
+    /**
+     * Saves a pending auto-save now, with a fresh thumbnail
+     * Takes a snapshot if the level changed since the last one and it is old enough
+     */
+    private async flushAutoSave(): Promise<void> {
+        if (this.autoSaveTimer === null || !this.library || !this.currentLevelId) return;
+
+        clearTimeout(this.autoSaveTimer);
+        this.autoSaveTimer = null;
+
+        const id = this.currentLevelId;
+        const prefabs = this.getUsedPrefabs();
         try {
-            LevelSerializer.saveToLocalStorage(this.level);
+            await this.library.save(id, this.level, prefabs, this.editor2D.createThumbnail());
+
+            const modifiedAt = Date.parse(this.level.getMetadata().modifiedAt);
+            if (id === this.currentLevelId
+                && modifiedAt > this.lastSnapshotTime
+                && Date.now() - this.lastSnapshotTime >= SNAPSHOT_INTERVAL_MS) {
+                await this.library.addSnapshot(id, this.level, prefabs);
+                this.lastSnapshotTime = Date.now();
+            }
         } catch (error) {
             console.warn('Auto-save failed:', error);
         }
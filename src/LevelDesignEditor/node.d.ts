@@ -0,0 +1,15 @@
+/**
+ * Node typings for the command line export (cli.ts)
+ * Only the functions it uses, so the browser build does not need @types/node
+ */
+
+declare module 'fs/promises' {
+    export function readdir(path: string): Promise<string[]>;
+    export function readFile(path: string, encoding: 'utf8'): Promise<string>;
+    export function writeFile(path: string, data: string | Uint8Array): Promise<void>;
+    export function mkdir(path: string, options?: { recursive?: boolean }): Promise<string | undefined>;
+}
+
+declare module 'path' {
+    export function join(...paths: string[]): string;
+}
@@ -1,7 +1,25 @@
 /**
  * Color conversion utilities
- * Handles conversion between different color formats (HSL, RGB, HEX)
+ * Handles conversion between different color formats (HSL, RGB, HEX) and the perceptual color
+ * spaces (linear sRGB, CIE XYZ, CIELAB, OKLab, OKLCH), plus perceptual color differences
+ *
+ * All conversions use sRGB with the D65 white point. RGB is 0-255; XYZ has Y = 1 for white;
+ * CIELAB has L 0-100; OKLab and OKLCH have L 0-1 and OKLCH hue in degrees (0-360).
  */
+
+/**
+ * How lightness is measured by the palette rules
+ * - `hsl`: HSL lightness (fast, but a "50%" yellow is far brighter than a "50%" blue)
+ * - `perceptual`: OKLCH lightness scaled to 0-100, which tracks perceived brightness
+ */
+export type LightnessModel = 'hsl' | 'perceptual';
+
+/** D65 reference white for CIELAB */
+const D65_WHITE: [number, number, number] = [0.95047, 1.0, 1.08883];
+
+/** CIELAB's linear segment threshold (6/29) */
+const LAB_EPSILON = 6 / 29;
+
 export class ColorConverter {
     /**
      * Converts HSL color values to RGB
@@ -35,6 +53,44 @@ export class ColorConverter {
         return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
     }
 
+    /**
+     * Converts RGB color values to HSL
+     * @param r Red (0-255)
+     * @param g Green (0-255)
+     * @param b Blue (0-255)
+     * @returns HSL values as [h, s, l] where each value is 0-1
+     */
+    static rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+        r /= 255;
+        g /= 255;
+        b /= 255;
+
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        let h = 0;
+        let s = 0;
+        const l = (max + min) / 2;
+
+        if (max !== min) {
+            const d = max - min;
+            s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+            switch (max) {
+                case r:
+                    h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+                    break;
+                case g:
+                    h = ((b - r) / d + 2) / 6;
+                    break;
+                case b:
+                    h = ((r - g) / d + 4) / 6;
+                    break;
+            }
+        }
+
+        return [h, s, l];
+    }
+
     /**
      * Converts RGB color values to HEX string
      * @param r Red (0-255)
@@ -61,4 +117,301 @@ export class ColorConverter {
             parseInt(hexcode.slice(5, 7), 16)
         ];
     }
+
+    /**
+     * Removes the sRGB gamma from a channel
+     * @param c Gamma-encoded channel (0-1)
+     * @returns Linear light (0-1)
+     */
+    static srgbToLinear(c: number): number {
+        return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    }
+
+    /**
+     * Applies the sRGB gamma to a channel
+     * @param c Linear light (0-1)
+     * @returns Gamma-encoded channel (0-1)
+     */
+    static linearToSrgb(c: number): number {
+        return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    }
+
+    /**
+     * Converts RGB to CIE XYZ (D65)
+     * @returns XYZ as [x, y, z] where y is the relative luminance (0-1)
+     */
+    static rgbToXyz(r: number, g: number, b: number): [number, number, number] {
+        const [lr, lg, lb] = [r, g, b].map(c => this.srgbToLinear(c / 255));
+        return [
+            0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb,
+            0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb,
+            0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb
+        ];
+    }
+
+    /**
+     * Converts CIE XYZ (D65) to RGB, clamping colors outside the sRGB gamut
+     * @returns RGB values as [r, g, b] where each value is 0-255
+     */
+    static xyzToRgb(x: number, y: number, z: number): [number, number, number] {
+        return this.linearToRgb(
+            3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+            -0.9692660 * x + 1.8760108 * y + 0.0415560 * z,
+            0.0556434 * x - 0.2040259 * y + 1.0572252 * z
+        );
+    }
+
+    /**
+     * Converts CIE XYZ (D65) to CIELAB
+     * @returns Lab as [L, a, b] where L is 0-100
+     */
+    static xyzToLab(x: number, y: number, z: number): [number, number, number] {
+        const f = (t: number) => t > LAB_EPSILON ** 3 ? Math.cbrt(t) : t / (3 * LAB_EPSILON ** 2) + 4 / 29;
+        const fx = f(x / D65_WHITE[0]);
+        const fy = f(y / D65_WHITE[1]);
+        const fz = f(z / D65_WHITE[2]);
+        return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+    }
+
+    /**
+     * Converts CIELAB to CIE XYZ (D65)
+     */
+    static labToXyz(l: number, a: number, b: number): [number, number, number] {
+        const finv = (t: number) => t > LAB_EPSILON ? t ** 3 : 3 * LAB_EPSILON ** 2 * (t - 4 / 29);
+        const fy = (l + 16) / 116;
+        return [
+            D65_WHITE[0] * finv(fy + a / 500),
+            D65_WHITE[1] * finv(fy),
+            D65_WHITE[2] * finv(fy - b / 200)
+        ];
+    }
+
+    /**
+     * Converts RGB to CIELAB
+     * @returns Lab as [L, a, b] where L is 0-100
+     */
+    static rgbToLab(r: number, g: number, b: number): [number, number, number] {
+        const [x, y, z] = this.rgbToXyz(r, g, b);
+        return this.xyzToLab(x, y, z);
+    }
+
+    /**
+     * Converts CIELAB to RGB, clamping colors outside the sRGB gamut
+     */
+    static labToRgb(l: number, a: number, b: number): [number, number, number] {
+        const [x, y, z] = this.labToXyz(l, a, b);
+        return this.xyzToRgb(x, y, z);
+    }
+
+    /**
+     * Converts RGB to OKLab
+     * @returns OKLab as [L, a, b] where L is 0-1 (a and b are roughly -0.4 to 0.4)
+     */
+    static rgbToOklab(r: number, g: number, b: number): [number, number, number] {
+        const [lr, lg, lb] = [r, g, b].map(c => this.srgbToLinear(c / 255));
+
+        const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+        const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+        const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+        return [
+            0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+            1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+            0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+        ];
+    }
+
+    /**
+     * Converts OKLab to RGB, clamping colors outside the sRGB gamut
+     */
+    static oklabToRgb(l: number, a: number, b: number): [number, number, number] {
+        const [lr, lg, lb] = this.oklabToLinear(l, a, b);
+        return this.linearToRgb(lr, lg, lb);
+    }
+
+    /**
+     * Converts OKLab to OKLCH
+     * @returns OKLCH as [L, C, h] where h is in degrees (0 for grays)
+     */
+    static oklabToOklch(l: number, a: number, b: number): [number, number, number] {
+        const c = Math.hypot(a, b);
+        const h = c < 1e-7 ? 0 : (Math.atan2(b, a) * 180 / Math.PI + 360) % 360;
+        return [l, c, h];
+    }
+
+    /**
+     * Converts OKLCH to OKLab
+     */
+    static oklchToOklab(l: number, c: number, h: number): [number, number, number] {
+        const rad = h * Math.PI / 180;
+        return [l, c * Math.cos(rad), c * Math.sin(rad)];
+    }
+
+    /**
+     * Converts RGB to OKLCH
+     * @returns OKLCH as [L, C, h] where L is 0-1 and h is in degrees
+     */
+    static rgbToOklch(r: number, g: number, b: number): [number, number, number] {
+        const [l, a, bb] = this.rgbToOklab(r, g, b);
+        return this.oklabToOklch(l, a, bb);
+    }
+
+    /**
+     * Converts OKLCH to RGB
+     * Colors outside the sRGB gamut keep their lightness and hue and lose chroma until they fit
+     */
+    static oklchToRgb(l: number, c: number, h: number): [number, number, number] {
+        l = Math.max(0, Math.min(1, l));
+        const [, a, b] = this.oklchToOklab(l, Math.min(c, this.maxChroma(l, h)), h);
+        return this.oklabToRgb(l, a, b);
+    }
+
+    /**
+     * Finds the highest OKLCH chroma inside the sRGB gamut at a lightness and hue
+     * @param l OKLCH lightness (0-1)
+     * @param h OKLCH hue in degrees
+     */
+    static maxChroma(l: number, h: number): number {
+        const inGamut = (chroma: number) => {
+            const [, a, b] = this.oklchToOklab(l, chroma, h);
+            return this.oklabToLinear(l, a, b).every(v => v >= -1e-4 && v <= 1 + 1e-4);
+        };
+
+        // No sRGB color has a chroma above 0.4
+        let low = 0;
+        let high = 0.4;
+        for (let i = 0; i < 20; i++) {
+            const mid = (low + high) / 2;
+            if (inGamut(mid)) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+
+    /**
+     * Gets a color's lightness under a lightness model
+     * @returns Lightness (0-100)
+     */
+    static getLightness(r: number, g: number, b: number, model: LightnessModel): number {
+        return model === 'perceptual'
+            ? this.rgbToOklab(r, g, b)[0] * 100
+            : this.rgbToHsl(r, g, b)[2] * 100;
+    }
+
+    /**
+     * Changes a color's lightness under a lightness model
+     * Perceptual changes keep the OKLCH hue and how saturated the color is: its chroma relative to
+     * the most the sRGB gamut allows at the old and new lightness
+     * @param lightness Target lightness (0-100)
+     */
+    static setLightness(r: number, g: number, b: number, lightness: number, model: LightnessModel): [number, number, number] {
+        if (model === 'perceptual') {
+            const [l, c, h] = this.rgbToOklch(r, g, b);
+            const target = Math.max(0, Math.min(1, lightness / 100));
+            const available = this.maxChroma(l, h);
+            const relative = available > 0 ? Math.min(1, c / available) : 0;
+            return this.oklchToRgb(target, relative * this.maxChroma(target, h), h);
+        }
+
+        const [h, s] = this.rgbToHsl(r, g, b);
+        return this.hslToRgb(h, s, Math.max(0, Math.min(100, lightness)) / 100);
+    }
+
+    /**
+     * Euclidean distance in OKLab (ΔEOK)
+     * About 0.02 is a just noticeable difference; black to white is 1
+     */
+    static oklabDistance(lab1: [number, number, number], lab2: [number, number, number]): number {
+        return Math.hypot(lab1[0] - lab2[0], lab1[1] - lab2[1], lab1[2] - lab2[2]);
+    }
+
+    /**
+     * CIEDE2000 color difference between two CIELAB colors
+     * About 1 is a just noticeable difference; above 10 colors read as clearly different
+     */
+    static deltaE2000(lab1: [number, number, number], lab2: [number, number, number]): number {
+        const [l1, a1, b1] = lab1;
+        const [l2, a2, b2] = lab2;
+        const rad = (deg: number) => deg * Math.PI / 180;
+        const pow25 = 25 ** 7;
+
+        // Adjust a* so neutral colors stay neutral
+        const cBar = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+        const g = 0.5 * (1 - Math.sqrt(cBar ** 7 / (cBar ** 7 + pow25)));
+        const a1p = (1 + g) * a1;
+        const a2p = (1 + g) * a2;
+        const c1p = Math.hypot(a1p, b1);
+        const c2p = Math.hypot(a2p, b2);
+        const hue = (b: number, a: number) => a === 0 && b === 0 ? 0 : (Math.atan2(b, a) * 180 / Math.PI + 360) % 360;
+        const h1p = hue(b1, a1p);
+        const h2p = hue(b2, a2p);
+
+        // Differences
+        const dLp = l2 - l1;
+        const dCp = c2p - c1p;
+        let dhp = 0;
+        if (c1p * c2p !== 0) {
+            dhp = h2p - h1p;
+            if (dhp > 180) dhp -= 360;
+            else if (dhp < -180) dhp += 360;
+        }
+        const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(rad(dhp / 2));
+
+        // Means
+        const lBarp = (l1 + l2) / 2;
+        const cBarp = (c1p + c2p) / 2;
+        let hBarp = h1p + h2p;
+        if (c1p * c2p !== 0) {
+            if (Math.abs(h1p - h2p) <= 180) hBarp = (h1p + h2p) / 2;
+            else if (h1p + h2p < 360) hBarp = (h1p + h2p + 360) / 2;
+            else hBarp = (h1p + h2p - 360) / 2;
+        }
+
+        // Weighting functions
+        const t = 1
+            - 0.17 * Math.cos(rad(hBarp - 30))
+            + 0.24 * Math.cos(rad(2 * hBarp))
+            + 0.32 * Math.cos(rad(3 * hBarp + 6))
+            - 0.20 * Math.cos(rad(4 * hBarp - 63));
+        const dTheta = 30 * Math.exp(-(((hBarp - 275) / 25) ** 2));
+        const rc = 2 * Math.sqrt(cBarp ** 7 / (cBarp ** 7 + pow25));
+        const sl = 1 + (0.015 * (lBarp - 50) ** 2) / Math.sqrt(20 + (lBarp - 50) ** 2);
+        const sc = 1 + 0.045 * cBarp;
+        const sh = 1 + 0.015 * cBarp * t;
+        const rt = -Math.sin(rad(2 * dTheta)) * rc;
+
+        return Math.sqrt(
+            (dLp / sl) ** 2 +
+            (dCp / sc) ** 2 +
+            (dHp / sh) ** 2 +
+            rt * (dCp / sc) * (dHp / sh)
+        );
+    }
+
+    /**
+     * Converts OKLab to linear sRGB without clamping (for gamut checks)
+     */
+    private static oklabToLinear(l: number, a: number, b: number): [number, number, number] {
+        const lp = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+        const mp = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+        const sp = (l - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+
+        return [
+            4.0767416621 * lp - 3.3077115913 * mp + 0.2309699292 * sp,
+            -1.2684380046 * lp + 2.6097574011 * mp - 0.3413193965 * sp,
+            -0.0041960863 * lp - 0.7034186147 * mp + 1.7076147010 * sp
+        ];
+    }
+
+    /**
+     * Converts linear sRGB to clamped, rounded RGB (0-255)
+     */
+    private static linearToRgb(r: number, g: number, b: number): [number, number, number] {
+        return [r, g, b].map(c =>
+            Math.round(this.linearToSrgb(Math.max(0, Math.min(1, c))) * 255)
+        ) as [number, number, number];
+    }
 }
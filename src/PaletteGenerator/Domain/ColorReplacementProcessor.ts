@@ -1,4 +1,22 @@
 import { ImageProcessor } from './ImageProcessor.js';
+import { ColorConverter } from './ColorConverter.js';
+
+/**
+ * How pixels are compared with a replacement's source color
+ * - `hsl`: weighted HSL distance (hue counts less for grayish colors)
+ * - `oklab`: Euclidean OKLab distance (perceptually uniform, fast)
+ * - `ciede2000`: CIEDE2000 on CIELAB (closest to perceived difference, slowest)
+ */
+export type ColorMatchMetric = 'hsl' | 'oklab' | 'ciede2000';
+
+/**
+ * Distance allowed per tolerance point, so tolerance 100 covers most colors in every metric
+ */
+const TOLERANCE_SCALE: Record<ColorMatchMetric, number> = {
+    hsl: 1.5,
+    oklab: 0.006,
+    ciede2000: 0.6
+};
 
 /**
  * A color replacement definition
@@ -26,17 +44,18 @@ export class ColorReplacementProcessor {
     static generateSelectionMask(
         imageData: ImageData,
         sourceColorHex: string,
-        tolerance: number
+        tolerance: number,
+        metric: ColorMatchMetric = 'hsl'
     ): Float32Array {
         const data = imageData.data;
         const pixelCount = data.length / 4;
         const mask = new Float32Array(pixelCount);
         
         const sourceRgb = this.hexToRgb(sourceColorHex);
-        const [sourceH, sourceS, sourceL] = ImageProcessor.rgbToHsl(sourceRgb[0], sourceRgb[1], sourceRgb[2]);
+        const source = this.toMatchSpace(sourceRgb[0], sourceRgb[1], sourceRgb[2], metric);
         
         // Tolerance maps to max distance (0 = exact match only, 100 = everything)
-        const maxDistance = tolerance * 1.5; // Scale so 100% tolerance covers most colors
+        const maxDistance = tolerance * TOLERANCE_SCALE[metric];
         
         for (let i = 0; i < pixelCount; i++) {
             const idx = i * 4;
@@ -50,8 +69,7 @@ export class ColorReplacementProcessor {
                 continue;
             }
             
-            const [h, s, l] = ImageProcessor.rgbToHsl(r, g, b);
-            const distance = this.colorDistance(h, s, l, sourceH, sourceS, sourceL);
+            const distance = this.matchDistance(this.toMatchSpace(r, g, b, metric), source, metric);
             
             if (distance <= maxDistance) {
                 // Smooth falloff at edges of selection
@@ -71,12 +89,13 @@ export class ColorReplacementProcessor {
     private static calculateAverageSourceColor(
         imageData: ImageData,
         sourceColorHex: string,
-        tolerance: number
+        tolerance: number,
+        metric: ColorMatchMetric
     ): [number, number, number] {
         const data = imageData.data;
         const sourceRgb = this.hexToRgb(sourceColorHex);
-        const [sourceH, sourceS, sourceL] = ImageProcessor.rgbToHsl(sourceRgb[0], sourceRgb[1], sourceRgb[2]);
-        const maxDistance = tolerance * 1.5;
+        const source = this.toMatchSpace(sourceRgb[0], sourceRgb[1], sourceRgb[2], metric);
+        const maxDistance = tolerance * TOLERANCE_SCALE[metric];
         
         let totalH = 0, totalS = 0, totalL = 0;
         let totalWeight = 0;
@@ -93,7 +112,7 @@ export class ColorReplacementProcessor {
             if (a < 128) continue;
             
             const [h, s, l] = ImageProcessor.rgbToHsl(r, g, b);
-            const distance = this.colorDistance(h, s, l, sourceH, sourceS, sourceL);
+            const distance = this.matchDistance(this.toMatchSpace(r, g, b, metric), source, metric);
             
             if (distance <= maxDistance) {
                 const weight = 1 - (distance / maxDistance);
@@ -110,7 +129,7 @@ export class ColorReplacementProcessor {
         }
         
         if (totalWeight === 0) {
-            return [sourceH, sourceS, sourceL];
+            return ImageProcessor.rgbToHsl(sourceRgb[0], sourceRgb[1], sourceRgb[2]);
         }
         
         // Calculate circular mean for hue
@@ -127,10 +146,12 @@ export class ColorReplacementProcessor {
      * Applies color replacements to an image.
      * Each replacement uses the same HSL shift logic as simple mode.
      * Shifts are calculated from the AVERAGE of selected pixels, not just the sampled point.
+     * @param metric How pixels are matched to the source colors
      */
     static applyReplacements(
         imageData: ImageData,
-        replacements: ColorReplacement[]
+        replacements: ColorReplacement[],
+        metric: ColorMatchMetric = 'hsl'
     ): ImageData {
         const activeReplacements = replacements.filter(r => r.enabled && r.targetColor);
         
@@ -144,7 +165,7 @@ export class ColorReplacementProcessor {
         // Use the AVERAGE color of selected pixels as the source for shift calculation
         const replacementData = activeReplacements.map(r => {
             const [avgSourceH, avgSourceS, avgSourceL] = this.calculateAverageSourceColor(
-                imageData, r.sourceColor, r.tolerance
+                imageData, r.sourceColor, r.tolerance, metric
             );
             
             const targetRgb = this.hexToRgb(r.targetColor);
@@ -152,17 +173,16 @@ export class ColorReplacementProcessor {
             
             // For matching pixels, use the original sampled source color
             const sourceRgb = this.hexToRgb(r.sourceColor);
-            const [sourceH, sourceS, sourceL] = ImageProcessor.rgbToHsl(sourceRgb[0], sourceRgb[1], sourceRgb[2]);
             
             return {
                 replacement: r,
-                sourceH, sourceS, sourceL,  // For distance calculation
+                source: this.toMatchSpace(sourceRgb[0], sourceRgb[1], sourceRgb[2], metric),  // For distance calculation
                 targetH, targetS, targetL,
                 // Shifts calculated from average, so "center" of selection becomes target
                 hueShift: targetH - avgSourceH,
                 satRatio: avgSourceS > 0 ? targetS / avgSourceS : 1,
                 lightShift: targetL - avgSourceL,
-                maxDistance: r.tolerance * 1.5
+                maxDistance: r.tolerance * TOLERANCE_SCALE[metric]
             };
         });
         
@@ -186,6 +206,7 @@ export class ColorReplacementProcessor {
             }
             
             const [h, s, l] = ImageProcessor.rgbToHsl(r, g, b);
+            const pixel = metric === 'hsl' ? [h, s, l] as [number, number, number] : this.toMatchSpace(r, g, b, metric);
             
             // Find the best matching replacement (closest source color within tolerance)
             let bestMatch: typeof replacementData[0] | null = null;
@@ -193,7 +214,7 @@ export class ColorReplacementProcessor {
             let bestStrength = 0;
             
             for (const rd of replacementData) {
-                const distance = this.colorDistance(h, s, l, rd.sourceH, rd.sourceS, rd.sourceL);
+                const distance = this.matchDistance(pixel, rd.source, metric);
                 
                 if (distance <= rd.maxDistance && distance < bestDistance) {
                     bestDistance = distance;
@@ -272,6 +293,38 @@ export class ColorReplacementProcessor {
         return imageData;
     }
     
+    /**
+     * Converts a pixel to the color space its metric compares in (HSL, OKLab or CIELAB)
+     */
+    private static toMatchSpace(r: number, g: number, b: number, metric: ColorMatchMetric): [number, number, number] {
+        switch (metric) {
+            case 'oklab':
+                return ColorConverter.rgbToOklab(r, g, b);
+            case 'ciede2000':
+                return ColorConverter.rgbToLab(r, g, b);
+            default:
+                return ImageProcessor.rgbToHsl(r, g, b);
+        }
+    }
+
+    /**
+     * Calculates the distance between two colors from toMatchSpace
+     */
+    private static matchDistance(
+        a: [number, number, number],
+        b: [number, number, number],
+        metric: ColorMatchMetric
+    ): number {
+        switch (metric) {
+            case 'oklab':
+                return ColorConverter.oklabDistance(a, b);
+            case 'ciede2000':
+                return ColorConverter.deltaE2000(a, b);
+            default:
+                return this.colorDistance(a[0], a[1], a[2], b[0], b[1], b[2]);
+        }
+    }
+
     /**
      * Calculates color distance in HSL space
      */
@@ -0,0 +1,191 @@
+/**
+ * Color Vision Simulator - Shows palettes as players with color vision deficiencies see them
+ * Uses the Machado et al. (2009) simulation matrices for full dichromacy, applied in linear RGB,
+ * and checks slot pairs that must stay distinguishable under every simulation
+ */
+
+import { ColorConverter } from './ColorConverter.js';
+import {
+    ContrastChecker,
+    ContrastIssue,
+    ContrastPalette,
+    ContrastSeverity,
+    ContrastSuggestion
+} from './ContrastChecker.js';
+
+/**
+ * Simulated color vision deficiency
+ */
+export type ColorVisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+/**
+ * Color vision deficiency metadata for UI display
+ */
+export interface ColorVisionInfo {
+    id: ColorVisionDeficiency;
+    name: string;
+    description: string;
+}
+
+/**
+ * All simulated deficiencies with metadata
+ */
+export const COLOR_VISION_DEFINITIONS: ColorVisionInfo[] = [
+    { id: 'protanopia', name: 'Protanopia', description: 'No red cones; reds look dark and merge with greens (about 1% of men)' },
+    { id: 'deuteranopia', name: 'Deuteranopia', description: 'No green cones; reds and greens merge (about 1% of men, 5% more with the milder deuteranomaly)' },
+    { id: 'tritanopia', name: 'Tritanopia', description: 'No blue cones; blues merge with greens and yellows with pinks (rare)' }
+];
+
+/**
+ * Two slots that must stay distinguishable under every simulated deficiency
+ */
+export interface ColorVisionPair<S extends string> {
+    /** Slot that should stand out; suggestions adjust it unless it is locked */
+    foreground: S;
+    /** Slot it is seen against */
+    background: S;
+    /** Minimum CIEDE2000 difference under each simulation */
+    minDifference: number;
+    severity: ContrastSeverity;
+}
+
+/**
+ * Machado et al. simulation matrices (severity 1), applied to linear RGB
+ */
+const SIMULATION_MATRICES: Record<ColorVisionDeficiency, number[][]> = {
+    protanopia: [
+        [0.152286, 1.052583, -0.204868],
+        [0.114503, 0.786281, 0.099216],
+        [-0.003882, -0.048116, 1.051998]
+    ],
+    deuteranopia: [
+        [0.367322, 0.860646, -0.227968],
+        [0.280085, 0.672501, 0.047413],
+        [-0.011820, 0.042940, 0.968881]
+    ],
+    tritanopia: [
+        [1.255528, -0.076749, -0.178779],
+        [-0.078411, 0.930809, 0.147602],
+        [0.004733, 0.691367, 0.303900]
+    ]
+};
+
+/**
+ * Color Vision Simulator class
+ */
+export class ColorVisionSimulator {
+    /**
+     * Gets the simulation matrix of a deficiency (rows produce linear R, G and B)
+     */
+    static getMatrix(deficiency: ColorVisionDeficiency): number[][] {
+        return SIMULATION_MATRICES[deficiency].map(row => [...row]);
+    }
+
+    /**
+     * Simulates how a color looks with a deficiency
+     * @returns RGB values as [r, g, b] where each value is 0-255
+     */
+    static simulate(r: number, g: number, b: number, deficiency: ColorVisionDeficiency): [number, number, number] {
+        const linear = [r, g, b].map(c => ColorConverter.srgbToLinear(c / 255));
+        const simulated = SIMULATION_MATRICES[deficiency].map(row =>
+            row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]
+        );
+        return simulated.map(c =>
+            Math.round(ColorConverter.linearToSrgb(Math.max(0, Math.min(1, c))) * 255)
+        ) as [number, number, number];
+    }
+
+    /**
+     * Simulates how a hex color looks with a deficiency
+     */
+    static simulateHex(hex: string, deficiency: ColorVisionDeficiency): string {
+        const rgb = ColorConverter.hexToRgb(hex);
+        const simulated = this.simulate(rgb[0], rgb[1], rgb[2], deficiency);
+        return ColorConverter.rgbToHex(simulated[0], simulated[1], simulated[2]);
+    }
+
+    /**
+     * Calculates the CIEDE2000 difference between two colors, as seen with a deficiency
+     * @param deficiency Null for normal color vision
+     */
+    static difference(hex1: string, hex2: string, deficiency: ColorVisionDeficiency | null = null): number {
+        const toLab = (hex: string) => {
+            const rgb = ColorConverter.hexToRgb(deficiency ? this.simulateHex(hex, deficiency) : hex);
+            return ColorConverter.rgbToLab(rgb[0], rgb[1], rgb[2]);
+        };
+        return ColorConverter.deltaE2000(toLab(hex1), toLab(hex2));
+    }
+
+    /**
+     * Gets the deficiencies under which two colors differ less than a minimum
+     */
+    static findConfusions(hex1: string, hex2: string, minDifference: number): ColorVisionDeficiency[] {
+        return COLOR_VISION_DEFINITIONS
+            .map(info => info.id)
+            .filter(deficiency => this.difference(hex1, hex2, deficiency) < minDifference);
+    }
+
+    /**
+     * Checks whether two colors stay distinguishable enough under every simulation
+     */
+    static passes(foreground: string, background: string, pair: ColorVisionPair<string>): boolean {
+        return this.findConfusions(foreground, background, pair.minDifference).length === 0;
+    }
+
+    /**
+     * Checks slot pairs of a palette
+     * A pair is an issue if its colors are distinguishable with normal color vision but not under
+     * some simulation (pairs that look alike to everyone are left to the other rules). Each slot
+     * to adjust (the foreground, or the background if the foreground is locked) gets one
+     * suggestion: the smallest perceptual lightness change that separates it under all simulations
+     */
+    static checkPairs<S extends string>(
+        palette: ContrastPalette<S>,
+        pairs: ColorVisionPair<S>[]
+    ): { issues: ContrastIssue<S>[]; suggestions: ContrastSuggestion<S>[] } {
+        const issues: ContrastIssue<S>[] = [];
+        const suggestions: ContrastSuggestion<S>[] = [];
+        const slotsToAdjust: S[] = [];
+
+        for (const pair of pairs) {
+            const foreground = palette.getColor(pair.foreground);
+            const background = palette.getColor(pair.background);
+            if (this.difference(foreground, background) < pair.minDifference) continue;
+
+            const confusions = this.findConfusions(foreground, background, pair.minDifference);
+            if (confusions.length === 0) continue;
+
+            const names = confusions.map(id => COLOR_VISION_DEFINITIONS.find(info => info.id === id)!.name.toLowerCase());
+            const smallest = Math.min(...confusions.map(id => this.difference(foreground, background, id)));
+            issues.push({
+                slot: [pair.foreground, pair.background],
+                rule: 'color_vision',
+                message: `${pair.foreground.charAt(0).toUpperCase() + pair.foreground.slice(1)} and ${pair.background} ` +
+                    `look alike with ${names.join(' and ')} (ΔE ${smallest.toFixed(1)}, recommended: ≥${pair.minDifference})`,
+                severity: pair.severity
+            });
+
+            const slot = !palette.isLocked(pair.foreground) ? pair.foreground
+                : !palette.isLocked(pair.background) ? pair.background
+                : null;
+            if (slot !== null && !slotsToAdjust.includes(slot)) {
+                slotsToAdjust.push(slot);
+            }
+        }
+
+        for (const slot of slotsToAdjust) {
+            const suggestion = ContrastChecker.suggestLightness(
+                palette,
+                pairs,
+                slot,
+                (foreground, background, pair) => this.passes(foreground, background, pair),
+                'stay distinguishable from'
+            );
+            if (suggestion) {
+                suggestions.push(suggestion);
+            }
+        }
+
+        return { issues, suggestions };
+    }
+}
@@ -0,0 +1,286 @@
+/**
+ * Contrast Checker - Measures how well palette colors read against each other
+ * Uses WCAG 2 contrast ratios (from relative luminance) and APCA lightness contrast (the WCAG 3
+ * draft), which tracks perceived contrast better for dark and mid-tone colors
+ * Checks configurable slot pairs, e.g. an accent used for pickups against the ground they lie on
+ */
+
+import { ColorConverter } from './ColorConverter.js';
+
+/**
+ * Severity of a failing pair (same levels as the harmony analyzers)
+ */
+export type ContrastSeverity = 'error' | 'warning' | 'suggestion';
+
+/**
+ * Two slots that must contrast
+ */
+export interface ContrastPair<S extends string> {
+    /** Slot that should stand out; suggestions adjust it unless it is locked */
+    foreground: S;
+    /** Slot it is seen against */
+    background: S;
+    /** Minimum WCAG contrast ratio (1-21; 3 is the WCAG minimum for UI elements and large text) */
+    minRatio: number;
+    /** Minimum APCA lightness contrast, compared by magnitude (Lc 0-106) */
+    minLc: number;
+    severity: ContrastSeverity;
+}
+
+/**
+ * Contrast between two colors
+ */
+export interface ContrastMeasurement {
+    /** WCAG contrast ratio (1-21) */
+    ratio: number;
+    /** APCA lightness contrast; positive for dark on light, negative for light on dark */
+    lc: number;
+}
+
+/**
+ * A failing pair, shaped like a harmony issue
+ */
+export interface ContrastIssue<S extends string> {
+    slot: S[];
+    rule: string;
+    message: string;
+    severity: ContrastSeverity;
+}
+
+/**
+ * A lightness change that makes a slot pass its pairs, shaped like a harmony suggestion
+ */
+export interface ContrastSuggestion<S extends string> {
+    slot: S;
+    action: string;
+    value: number;
+    description: string;
+    newColor: string;
+}
+
+/**
+ * What the checks need from a palette (environment and interior palettes both fit)
+ */
+export interface ContrastPalette<S extends string> {
+    getColor(slotId: S): string;
+    isLocked(slotId: S): boolean;
+}
+
+// APCA-W3 0.0.98G constants
+const APCA_EXPONENTS = { normalBackground: 0.56, normalText: 0.57, reverseBackground: 0.65, reverseText: 0.62 };
+const APCA_SCALE = 1.14;
+const APCA_OFFSET = 0.027;
+const APCA_LOW_CLIP = 0.1;
+const APCA_BLACK_THRESHOLD = 0.022;
+const APCA_BLACK_CLAMP = 1.414;
+const APCA_DELTA_MIN = 0.0005;
+
+/**
+ * Contrast Checker class
+ */
+export class ContrastChecker {
+    /**
+     * Gets the WCAG relative luminance of a color
+     * @returns Luminance (0 for black, 1 for white)
+     */
+    static relativeLuminance(hex: string): number {
+        const rgb = ColorConverter.hexToRgb(hex);
+        return ColorConverter.rgbToXyz(rgb[0], rgb[1], rgb[2])[1];
+    }
+
+    /**
+     * Calculates the WCAG 2 contrast ratio between two colors (order does not matter)
+     * @returns Ratio from 1 (identical luminance) to 21 (black and white)
+     */
+    static contrastRatio(hex1: string, hex2: string): number {
+        const l1 = this.relativeLuminance(hex1);
+        const l2 = this.relativeLuminance(hex2);
+        return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+    }
+
+    /**
+     * Calculates the APCA lightness contrast of a foreground color on a background
+     * @returns Lc, about 106 for black on white and -108 for white on black; 0 below the
+     * threshold where the difference is not reliably seen
+     */
+    static apcaContrast(foreground: string, background: string): number {
+        const text = this.apcaLuminance(foreground);
+        const back = this.apcaLuminance(background);
+
+        if (Math.abs(back - text) < APCA_DELTA_MIN) {
+            return 0;
+        }
+
+        if (back > text) {
+            // Dark on light
+            const contrast = (Math.pow(back, APCA_EXPONENTS.normalBackground) - Math.pow(text, APCA_EXPONENTS.normalText)) * APCA_SCALE;
+            return contrast < APCA_LOW_CLIP ? 0 : (contrast - APCA_OFFSET) * 100;
+        }
+
+        // Light on dark
+        const contrast = (Math.pow(back, APCA_EXPONENTS.reverseBackground) - Math.pow(text, APCA_EXPONENTS.reverseText)) * APCA_SCALE;
+        return contrast > -APCA_LOW_CLIP ? 0 : (contrast + APCA_OFFSET) * 100;
+    }
+
+    /**
+     * Measures both contrasts of a foreground color on a background
+     */
+    static measure(foreground: string, background: string): ContrastMeasurement {
+        return {
+            ratio: this.contrastRatio(foreground, background),
+            lc: this.apcaContrast(foreground, background)
+        };
+    }
+
+    /**
+     * Checks whether two colors meet a pair's minimums
+     */
+    static passes(foreground: string, background: string, pair: ContrastPair<string>): boolean {
+        const { ratio, lc } = this.measure(foreground, background);
+        return ratio >= pair.minRatio && Math.abs(lc) >= pair.minLc;
+    }
+
+    /**
+     * Checks slot pairs of a palette
+     * Every failing pair becomes an issue. Each slot to adjust (the foreground, or the background
+     * if the foreground is locked) gets one suggestion: the smallest perceptual lightness change,
+     * keeping hue and chroma, that passes as many of the slot's pairs as possible
+     */
+    static checkPairs<S extends string>(
+        palette: ContrastPalette<S>,
+        pairs: ContrastPair<S>[]
+    ): { issues: ContrastIssue<S>[]; suggestions: ContrastSuggestion<S>[] } {
+        const issues: ContrastIssue<S>[] = [];
+        const suggestions: ContrastSuggestion<S>[] = [];
+        const slotsToAdjust: S[] = [];
+
+        for (const pair of pairs) {
+            const foreground = palette.getColor(pair.foreground);
+            const background = palette.getColor(pair.background);
+            if (this.passes(foreground, background, pair)) continue;
+
+            const { ratio, lc } = this.measure(foreground, background);
+            issues.push({
+                slot: [pair.foreground, pair.background],
+                rule: 'contrast',
+                message: `${this.capitalize(pair.foreground)} has low contrast with ${pair.background} ` +
+                    `(${ratio.toFixed(2)}:1, APCA Lc ${Math.round(Math.abs(lc))}; recommended: ≥${pair.minRatio}:1, Lc ≥${pair.minLc})`,
+                severity: pair.severity
+            });
+
+            const slot = !palette.isLocked(pair.foreground) ? pair.foreground
+                : !palette.isLocked(pair.background) ? pair.background
+                : null;
+            if (slot !== null && !slotsToAdjust.includes(slot)) {
+                slotsToAdjust.push(slot);
+            }
+        }
+
+        for (const slot of slotsToAdjust) {
+            const suggestion = this.suggestLightness(
+                palette, pairs, slot, (foreground, background, pair) => this.passes(foreground, background, pair), 'contrast with'
+            );
+            if (suggestion) {
+                suggestions.push(suggestion);
+            }
+        }
+
+        return { issues, suggestions };
+    }
+
+    /**
+     * Finds the smallest perceptual lightness change of a slot that passes the most of its pairs
+     * Also used by other slot pair checks (see `ColorVisionSimulator`)
+     * @param passes Tells whether a pair's foreground and background colors pass
+     * @param purpose Completes the description, e.g. "Lighten accent to contrast with grass"
+     * @returns Null if no lightness passes more pairs than the current one
+     */
+    static suggestLightness<S extends string, P extends { foreground: S; background: S }>(
+        palette: ContrastPalette<S>,
+        pairs: P[],
+        slot: S,
+        passes: (foreground: string, background: string, pair: P) => boolean,
+        purpose: string
+    ): ContrastSuggestion<S> | null {
+        const found = this.findLightness(palette.getColor(slot), this.getPairRequirements(palette, pairs, slot, passes));
+        if (!found) {
+            return null;
+        }
+
+        const others = pairs
+            .filter(pair => pair.foreground === slot || pair.background === slot)
+            .map(pair => pair.foreground === slot ? pair.background : pair.foreground);
+        const against = others.filter((other, i) => others.indexOf(other) === i).join(', ');
+        return {
+            slot,
+            action: 'adjust_lightness',
+            value: found.lightness - found.current,
+            description: `${found.lightness > found.current ? 'Lighten' : 'Darken'} ${slot} to ${purpose} ${against}`,
+            newColor: found.color
+        };
+    }
+
+    /**
+     * Turns a slot's pairs into requirements on a new color for that slot, each checked against
+     * the other slot's current color
+     * @param passes Tells whether a pair's foreground and background colors pass
+     */
+    static getPairRequirements<S extends string, P extends { foreground: S; background: S }>(
+        palette: ContrastPalette<S>,
+        pairs: P[],
+        slot: S,
+        passes: (foreground: string, background: string, pair: P) => boolean
+    ): ((hex: string) => boolean)[] {
+        return pairs
+            .filter(pair => pair.foreground === slot || pair.background === slot)
+            .map(pair => pair.foreground === slot
+                ? (hex: string) => passes(hex, palette.getColor(pair.background), pair)
+                : (hex: string) => passes(palette.getColor(pair.foreground), hex, pair));
+    }
+
+    /**
+     * Finds the smallest perceptual lightness change of a color, keeping hue and relative chroma,
+     * that meets the most requirements
+     * @returns The new lightness and color (both lightnesses 0-100, perceptual), or null if no
+     * lightness meets more requirements than the current one
+     */
+    static findLightness(
+        hex: string,
+        requirements: ((hex: string) => boolean)[]
+    ): { current: number; lightness: number; color: string } | null {
+        const countMet = (color: string) => requirements.filter(meets => meets(color)).length;
+
+        const rgb = ColorConverter.hexToRgb(hex);
+        const current = ColorConverter.getLightness(rgb[0], rgb[1], rgb[2], 'perceptual');
+        let best = { met: countMet(hex), lightness: current, color: '' };
+
+        // Steps outward from the current lightness, so the first candidate found is the closest
+        for (let step = 1; step <= 100 && best.met < requirements.length; step++) {
+            for (const lightness of [current + step, current - step]) {
+                if (lightness < 0 || lightness > 100) continue;
+
+                const adjusted = ColorConverter.setLightness(rgb[0], rgb[1], rgb[2], lightness, 'perceptual');
+                const color = ColorConverter.rgbToHex(adjusted[0], adjusted[1], adjusted[2]);
+                const met = countMet(color);
+                if (met > best.met) {
+                    best = { met, lightness, color };
+                }
+            }
+        }
+
+        return best.color ? { current, lightness: best.lightness, color: best.color } : null;
+    }
+
+    /**
+     * Gets the luminance APCA works with (simple 2.4 gamma, with a soft clamp near black)
+     */
+    private static apcaLuminance(hex: string): number {
+        const [r, g, b] = ColorConverter.hexToRgb(hex).map(c => Math.pow(c / 255, 2.4));
+        const y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+        return y < APCA_BLACK_THRESHOLD ? y + Math.pow(APCA_BLACK_THRESHOLD - y, APCA_BLACK_CLAMP) : y;
+    }
+
+    private static capitalize(text: string): string {
+        return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+}
@@ -5,8 +5,10 @@
 
 import { EnvironmentPalette, SlotId } from './EnvironmentPalette.js';
 import { ImageProcessor } from './ImageProcessor.js';
-import { ColorConverter } from './ColorConverter.js';
-import { ACCENT_LIGHTNESS, SKY_LIGHTNESS, TERRAIN_SATURATION } from "./PaletteRules.js";
+import { ColorConverter, LightnessModel } from './ColorConverter.js';
+import { ContrastChecker, ContrastPair } from './ContrastChecker.js';
+import { ColorVisionPair, ColorVisionSimulator } from './ColorVisionSimulator.js';
+import { ENVIRONMENT_CONTRAST_PAIRS, ENVIRONMENT_COLOR_VISION_PAIRS, LIGHTNESS_RULES, TERRAIN_SATURATION } from "./PaletteRules.js";
 
 /**
  * Severity levels for harmony issues
@@ -49,7 +51,9 @@ export interface HarmonyAnalysis {
 interface HSL {
     h: number;  // 0-360
     s: number;  // 0-100
-    l: number;  // 0-100
+    l: number;  // 0-100, measured with the lightness model
+    hslL: number;  // 0-100, HSL lightness (rebuilds the color when only hue or saturation change)
+    model: LightnessModel;
 }
 
 /**
@@ -64,13 +68,22 @@ export class HarmonyAnalyzer {
 
     /**
      * Analyzes a palette and returns issues and suggestions
+     * @param lightness How the lightness rules measure lightness; `perceptual` compares how bright
+     * colors look (OKLCH) and suggests lightness changes that keep their hue and chroma
+     * @param contrastPairs Slot pairs that must meet WCAG and APCA contrast minimums
+     * @param colorVisionPairs Slot pairs that must stay distinguishable with color vision deficiencies
      */
-    static analyze(palette: EnvironmentPalette): HarmonyAnalysis {
+    static analyze(
+        palette: EnvironmentPalette,
+        lightness: LightnessModel = 'hsl',
+        contrastPairs: ContrastPair<SlotId>[] = ENVIRONMENT_CONTRAST_PAIRS,
+        colorVisionPairs: ColorVisionPair<SlotId>[] = ENVIRONMENT_COLOR_VISION_PAIRS
+    ): HarmonyAnalysis {
         const issues: HarmonyIssue[] = [];
         const suggestions: HarmonySuggestion[] = [];
 
         // Get all HSL values
-        const colors = this.getAllHSL(palette);
+        const colors = this.getAllHSL(palette, lightness);
 
         // Run all checks
         this.checkVegetationHueFamily(palette, colors, issues, suggestions);
@@ -80,6 +93,20 @@ export class HarmonyAnalyzer {
         this.checkAccentContrast(palette, colors, issues, suggestions);
         this.checkSaturationBalance(palette, colors, issues, suggestions);
 
+        // Luminance contrast between slot pairs
+        const contrast = ContrastChecker.checkPairs(palette, contrastPairs);
+        issues.push(...contrast.issues);
+        suggestions.push(...contrast.suggestions);
+
+        // Pairs that color-blind players could confuse
+        const colorVision = ColorVisionSimulator.checkPairs(palette, colorVisionPairs);
+        issues.push(...colorVision.issues);
+        suggestions.push(...colorVision.suggestions);
+
+        // Several rules can suggest different lightnesses for one slot, and applying them all
+        // would keep only the last; they become one lightness that meets as many rules as possible
+        this.mergeLightnessSuggestions(palette, colors, suggestions, contrastPairs, colorVisionPairs);
+
         // Calculate score
         const score = this.calculateScore(issues);
 
@@ -89,7 +116,7 @@ export class HarmonyAnalyzer {
     /**
      * Gets HSL values for all slots
      */
-    private static getAllHSL(palette: EnvironmentPalette): Record<SlotId, HSL> {
+    private static getAllHSL(palette: EnvironmentPalette, model: LightnessModel): Record<SlotId, HSL> {
         const slotIds: SlotId[] = ['sky', 'water', 'grass', 'foliage', 'rock', 'dirt', 'bark', 'accent'];
         const result: Partial<Record<SlotId, HSL>> = {};
 
@@ -97,17 +124,21 @@ export class HarmonyAnalyzer {
             const hex = palette.getColor(id);
             const rgb = ColorConverter.hexToRgb(hex);
             const [h, s, l] = ImageProcessor.rgbToHsl(rgb[0], rgb[1], rgb[2]);
-            result[id] = { h, s, l };
+            result[id] = { h, s, l: ColorConverter.getLightness(rgb[0], rgb[1], rgb[2], model), hslL: l, model };
         }
 
         return result as Record<SlotId, HSL>;
     }
 
     /**
-     * Converts HSL back to hex
+     * Converts a color with changed hue, saturation or lightness back to hex
+     * Lightness is set with the color's lightness model
      */
-    private static hslToHex(h: number, s: number, l: number): string {
-        const rgb = ImageProcessor.hslToRgb(h, s, l);
+    private static toHex(color: HSL, changes: { h?: number; s?: number; l?: number }): string {
+        let rgb = ImageProcessor.hslToRgb(changes.h ?? color.h, changes.s ?? color.s, color.hslL);
+        if (changes.l !== undefined) {
+            rgb = ColorConverter.setLightness(rgb[0], rgb[1], rgb[2], changes.l, color.model);
+        }
         return ColorConverter.rgbToHex(rgb[0], rgb[1], rgb[2]);
     }
 
@@ -155,7 +186,7 @@ export class HarmonyAnalyzer {
                     action: 'shift_hue',
                     value: targetHue - foliage.h,
                     description: `Shift foliage hue closer to grass for cohesion`,
-                    newColor: this.hslToHex(targetHue, foliage.s, foliage.l)
+                    newColor: this.toHex(foliage, { h: targetHue })
                 });
             }
         }
@@ -210,7 +241,7 @@ export class HarmonyAnalyzer {
                     action: 'shift_hue',
                     value: targetHue - rock.h,
                     description: 'Shift rock hue closer to dirt for cohesion',
-                    newColor: this.hslToHex(targetHue, rock.s, rock.l)
+                    newColor: this.toHex(rock, { h: targetHue })
                 });
             }
             if (dirtBarkDiff > this.TERRAIN_HUE_RANGE && !palette.isLocked('bark')) {
@@ -220,7 +251,7 @@ export class HarmonyAnalyzer {
                     action: 'shift_hue',
                     value: targetHue - bark.h,
                     description: 'Shift bark hue closer to dirt for cohesion',
-                    newColor: this.hslToHex(targetHue, bark.s, bark.l)
+                    newColor: this.toHex(bark, { h: targetHue })
                 });
             }
         }
@@ -248,7 +279,7 @@ export class HarmonyAnalyzer {
                         action: 'adjust_saturation',
                         value: targetSat - color.s,
                         description: `Reduce ${id} saturation for natural look`,
-                        newColor: this.hslToHex(color.h, targetSat, color.l)
+                        newColor: this.toHex(color, { s: targetSat })
                     });
                 }
             }
@@ -285,7 +316,7 @@ export class HarmonyAnalyzer {
                     action: 'shift_hue',
                     value: targetHue - water.h,
                     description: 'Shift water hue to reflect sky',
-                    newColor: this.hslToHex(targetHue, water.s, water.l)
+                    newColor: this.toHex(water, { h: targetHue })
                 });
             }
         }
@@ -306,7 +337,7 @@ export class HarmonyAnalyzer {
                     action: 'adjust_lightness',
                     value: targetL - water.l,
                     description: 'Darken water to be below sky brightness',
-                    newColor: this.hslToHex(water.h, water.s, Math.max(20, targetL))
+                    newColor: this.toHex(water, { l: Math.max(20, targetL) })
                 });
             }
         }
@@ -322,23 +353,24 @@ export class HarmonyAnalyzer {
         suggestions: HarmonySuggestion[]
     ): void {
         const sky = colors.sky;
+        const rules = LIGHTNESS_RULES[sky.model];
 
-        if (sky.l < SKY_LIGHTNESS.min) {
+        if (sky.l < rules.sky.min) {
             issues.push({
                 slot: 'sky',
                 rule: 'sky_brightness',
-                message: `Sky lightness (${Math.round(sky.l)}%) is low (recommended: >${SKY_LIGHTNESS.min}%)`,
+                message: `Sky lightness (${Math.round(sky.l)}%) is low (recommended: >${rules.sky.min}%)`,
                 severity: 'warning'
             });
 
             if (!palette.isLocked('sky')) {
-                const targetL = 70;
+                const targetL = rules.skyTarget;
                 suggestions.push({
                     slot: 'sky',
                     action: 'adjust_lightness',
                     value: targetL - sky.l,
                     description: 'Brighten sky for natural daylight feel',
-                    newColor: this.hslToHex(sky.h, sky.s, targetL)
+                    newColor: this.toHex(sky, { l: targetL })
                 });
             }
         }
@@ -362,7 +394,7 @@ export class HarmonyAnalyzer {
                     action: 'adjust_lightness',
                     value: targetL - bark.l,
                     description: 'Darken bark for proper value hierarchy',
-                    newColor: this.hslToHex(bark.h, bark.s, Math.max(15, targetL))
+                    newColor: this.toHex(bark, { l: Math.max(15, targetL) })
                 });
             }
         }
@@ -378,22 +410,11 @@ export class HarmonyAnalyzer {
         suggestions: HarmonySuggestion[]
     ): void {
         // Evaluate accent contrast against environment value band (not average)
-        const environmentSlots: SlotId[] = ['grass', 'foliage', 'rock', 'dirt', 'bark'];
-
-        const envLightnessValues = environmentSlots.map(id => colors[id].l);
-        const minEnvL = Math.min(...envLightnessValues);
-        const maxEnvL = Math.max(...envLightnessValues);
-
+        const { min: minEnvL, max: maxEnvL } = this.getEnvironmentValueBand(colors);
         const accent = colors.accent;
+        const rules = LIGHTNESS_RULES[accent.model];
 
-        // How far the accent must escape the environment band to read clearly
-        const MIN_VALUE_ESCAPE = 15;
-
-        const escapesBand =
-            accent.l < minEnvL - MIN_VALUE_ESCAPE ||
-            accent.l > maxEnvL + MIN_VALUE_ESCAPE;
-
-        if (!escapesBand) {
+        if (!this.escapesValueBand(accent.l, colors)) {
             issues.push({
                 slot: 'accent',
                 rule: 'accent_contrast',
@@ -406,8 +427,8 @@ export class HarmonyAnalyzer {
 
                 const targetL =
                     accent.l > envMid
-                        ? minEnvL - MIN_VALUE_ESCAPE
-                        : maxEnvL + MIN_VALUE_ESCAPE;
+                        ? minEnvL - rules.accentValueEscape
+                        : maxEnvL + rules.accentValueEscape;
 
                 const clampedTargetL = Math.max(5, Math.min(95, targetL));
 
@@ -416,7 +437,7 @@ export class HarmonyAnalyzer {
                     action: 'adjust_lightness',
                     value: clampedTargetL - accent.l,
                     description: 'Adjust accent lightness to escape environment value range',
-                    newColor: this.hslToHex(accent.h, accent.s, clampedTargetL)
+                    newColor: this.toHex(accent, { l: clampedTargetL })
                 });
             }
         }
@@ -436,12 +457,12 @@ export class HarmonyAnalyzer {
                     action: 'adjust_saturation',
                     value: 50 - accent.s,
                     description: 'Increase accent saturation for more visibility',
-                    newColor: this.hslToHex(accent.h, 50, accent.l)
+                    newColor: this.toHex(accent, { s: 50 })
                 });
             }
         }
 
-        if (accent.l < ACCENT_LIGHTNESS.min) {
+        if (accent.l < rules.accent.min) {
             issues.push({
                 slot: 'accent',
                 rule: 'accent_too_dark',
@@ -450,19 +471,19 @@ export class HarmonyAnalyzer {
             });
 
             if (!palette.isLocked('accent')) {
-                const targetL = ACCENT_LIGHTNESS.min;
+                const targetL = rules.accent.min;
 
                 suggestions.push({
                     slot: 'accent',
                     action: 'adjust_lightness',
                     value: targetL - accent.l,
                     description: 'Raise accent lightness to remain readable as a highlight',
-                    newColor: this.hslToHex(accent.h, accent.s, targetL)
+                    newColor: this.toHex(accent, { l: targetL })
                 });
             }
         }
 
-        if (accent.l > ACCENT_LIGHTNESS.max) {
+        if (accent.l > rules.accent.max) {
             issues.push({
                 slot: 'accent',
                 rule: 'accent_too_bright',
@@ -471,19 +492,105 @@ export class HarmonyAnalyzer {
             });
 
             if (!palette.isLocked('accent')) {
-                const targetL = ACCENT_LIGHTNESS.max;
+                const targetL = rules.accent.max;
 
                 suggestions.push({
                     slot: 'accent',
                     action: 'adjust_lightness',
                     value: targetL - accent.l,
                     description: 'Lower accent lightness to better integrate with the palette',
-                    newColor: this.hslToHex(accent.h, accent.s, targetL)
+                    newColor: this.toHex(accent, { l: targetL })
+                });
+            }
+        }
+    }
+
+    /**
+     * Gets the lightness range of the environment slots the accent is seen against
+     */
+    private static getEnvironmentValueBand(colors: Record<SlotId, HSL>): { min: number; max: number } {
+        const environmentSlots: SlotId[] = ['grass', 'foliage', 'rock', 'dirt', 'bark'];
+        const values = environmentSlots.map(id => colors[id].l);
+        return { min: Math.min(...values), max: Math.max(...values) };
+    }
+
+    /**
+     * Checks whether an accent lightness is far enough outside the environment value band to read clearly
+     */
+    private static escapesValueBand(lightness: number, colors: Record<SlotId, HSL>): boolean {
+        const band = this.getEnvironmentValueBand(colors);
+        const escape = LIGHTNESS_RULES[colors.accent.model].accentValueEscape;
+        return lightness < band.min - escape || lightness > band.max + escape;
+    }
+
+    /**
+     * Replaces the lightness suggestions of each slot that has several with one lightness that
+     * meets the most of the slot's lightness rules, contrast pairs and color vision pairs
+     */
+    private static mergeLightnessSuggestions(
+        palette: EnvironmentPalette,
+        colors: Record<SlotId, HSL>,
+        suggestions: HarmonySuggestion[],
+        contrastPairs: ContrastPair<SlotId>[],
+        colorVisionPairs: ColorVisionPair<SlotId>[]
+    ): void {
+        const slots = suggestions.filter(s => s.action === 'adjust_lightness').map(s => s.slot);
+        const conflicting = slots.filter((slot, i) => slots.indexOf(slot) !== i && slots.indexOf(slot, i + 1) === -1);
+
+        for (const slot of conflicting) {
+            const found = ContrastChecker.findLightness(palette.getColor(slot), [
+                ...this.getLightnessRequirements(slot, colors),
+                ...ContrastChecker.getPairRequirements(palette, contrastPairs, slot, (f, b, pair) => ContrastChecker.passes(f, b, pair)),
+                ...ContrastChecker.getPairRequirements(palette, colorVisionPairs, slot, (f, b, pair) => ColorVisionSimulator.passes(f, b, pair))
+            ]);
+
+            const position = suggestions.findIndex(s => s.slot === slot && s.action === 'adjust_lightness');
+            for (let i = suggestions.length - 1; i >= 0; i--) {
+                if (suggestions[i].slot === slot && suggestions[i].action === 'adjust_lightness') {
+                    suggestions.splice(i, 1);
+                }
+            }
+
+            if (found) {
+                suggestions.splice(position, 0, {
+                    slot,
+                    action: 'adjust_lightness',
+                    value: found.lightness - found.current,
+                    description: `${found.lightness > found.current ? 'Lighten' : 'Darken'} ${slot} to meet its lightness, contrast and color vision rules`,
+                    newColor: found.color
                 });
             }
         }
     }
 
+    /**
+     * Gets the slot's own lightness rules (those of the checks above) as requirements on a new color
+     */
+    private static getLightnessRequirements(slot: SlotId, colors: Record<SlotId, HSL>): ((hex: string) => boolean)[] {
+        const lightnessOf = (hex: string) => {
+            const rgb = ColorConverter.hexToRgb(hex);
+            return ColorConverter.getLightness(rgb[0], rgb[1], rgb[2], colors[slot].model);
+        };
+        const rules = LIGHTNESS_RULES[colors[slot].model];
+
+        switch (slot) {
+            case 'sky':
+                return [hex => lightnessOf(hex) >= rules.sky.min];
+            case 'water':
+                return [hex => lightnessOf(hex) <= colors.sky.l];
+            case 'bark':
+                return [hex => lightnessOf(hex) <= colors.grass.l + 10];
+            case 'accent':
+                return [
+                    hex => this.escapesValueBand(lightnessOf(hex), colors),
+                    hex => lightnessOf(hex) >= rules.accent.min,
+                    hex => lightnessOf(hex) <= rules.accent.max
+                ];
+            default:
+                return [];
+        }
+    }
+
     /**
      * Checks overall saturation balance
      * Note: Only flags extremely high saturation, allows for stylized palettes
@@ -514,28 +621,13 @@ export class HarmonyAnalyzer {
                         action: 'adjust_saturation',
                         value: 65 - color.s,
                         description: `Reduce ${slot} saturation slightly`,
-                        newColor: this.hslToHex(color.h, 65, color.l)
+                        newColor: this.toHex(color, { s: 65 })
                     });
                 }
             }
         }
     }
 
-    /**
-     * Calculates an approximate contrast ratio from lightness values
-     * This is a simplified version - full WCAG contrast uses luminance
-     */
-    private static calculateContrastRatio(l1: number, l2: number): number {
-        // Convert lightness to approximate luminance (simplified)
-        const lum1 = l1 / 100;
-        const lum2 = l2 / 100;
-        
-        const lighter = Math.max(lum1, lum2);
-        const darker = Math.min(lum1, lum2);
-        
-        return (lighter + 0.05) / (darker + 0.05);
-    }
-
     /**
      * Calculates overall harmony score based on issues
      */
@@ -1,3 +1,5 @@
+import { ColorConverter } from './ColorConverter.js';
+
 /**
  * Image processing utilities
  * Handles image analysis and HSL transformations
@@ -51,33 +53,7 @@ export class ImageProcessor {
      * @returns HSL as [h, s, l] where h is 0-360, s and l are 0-100
      */
     static rgbToHsl(r: number, g: number, b: number): [number, number, number] {
-        r /= 255;
-        g /= 255;
-        b /= 255;
-
-        const max = Math.max(r, g, b);
-        const min = Math.min(r, g, b);
-        let h = 0;
-        let s = 0;
-        const l = (max + min) / 2;
-
-        if (max !== min) {
-            const d = max - min;
-            s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-            switch (max) {
-                case r:
-                    h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-                    break;
-                case g:
-                    h = ((b - r) / d + 2) / 6;
-                    break;
-                case b:
-                    h = ((r - g) / d + 4) / 6;
-                    break;
-            }
-        }
-
+        const [h, s, l] = ColorConverter.rgbToHsl(r, g, b);
         return [h * 360, s * 100, l * 100];
     }
 
@@ -89,32 +65,7 @@ export class ImageProcessor {
      * @returns RGB as [r, g, b] where each value is 0-255
      */
     static hslToRgb(h: number, s: number, l: number): [number, number, number] {
-        h /= 360;
-        s /= 100;
-        l /= 100;
-
-        let r: number, g: number, b: number;
-
-        if (s === 0) {
-            r = g = b = l;
-        } else {
-            const hue2rgb = (p: number, q: number, t: number): number => {
-                if (t < 0) t += 1;
-                if (t > 1) t -= 1;
-                if (t < 1/6) return p + (q - p) * 6 * t;
-                if (t < 1/2) return q;
-                if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-                return p;
-            };
-
-            const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-            const p = 2 * l - q;
-            r = hue2rgb(p, q, h + 1/3);
-            g = hue2rgb(p, q, h);
-            b = hue2rgb(p, q, h - 1/3);
-        }
-
-        return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+        return ColorConverter.hslToRgb(h / 360, s / 100, l / 100);
     }
 
     /**
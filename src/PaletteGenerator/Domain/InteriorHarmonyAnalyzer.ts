@@ -7,7 +7,9 @@
 import { InteriorPalette, InteriorSlotId } from './InteriorPalette.js';
 import { ImageProcessor } from './ImageProcessor.js';
 import { ColorConverter } from './ColorConverter.js';
-import { ACCENT_LIGHTNESS } from './PaletteRules.js';
+import { ContrastChecker, ContrastPair } from './ContrastChecker.js';
+import { ColorVisionPair, ColorVisionSimulator } from './ColorVisionSimulator.js';
+import { ACCENT_LIGHTNESS, INTERIOR_CONTRAST_PAIRS, INTERIOR_COLOR_VISION_PAIRS } from './PaletteRules.js';
 
 /**
  * Severity levels for harmony issues
@@ -66,8 +68,14 @@ export class InteriorHarmonyAnalyzer {
 
     /**
      * Analyzes a palette and returns issues and suggestions
+     * @param contrastPairs Slot pairs that must meet WCAG and APCA contrast minimums
+     * @param colorVisionPairs Slot pairs that must stay distinguishable with color vision deficiencies
      */
-    static analyze(palette: InteriorPalette): InteriorHarmonyAnalysis {
+    static analyze(
+        palette: InteriorPalette,
+        contrastPairs: ContrastPair<InteriorSlotId>[] = INTERIOR_CONTRAST_PAIRS,
+        colorVisionPairs: ColorVisionPair<InteriorSlotId>[] = INTERIOR_COLOR_VISION_PAIRS
+    ): InteriorHarmonyAnalysis {
         const issues: InteriorHarmonyIssue[] = [];
         const suggestions: InteriorHarmonySuggestion[] = [];
 
@@ -78,9 +86,23 @@ export class InteriorHarmonyAnalyzer {
         this.checkSurfaceHarmony(palette, colors, issues, suggestions);
         this.checkMaterialCohesion(palette, colors, issues, suggestions);
         this.checkWoodTrimRelationship(palette, colors, issues, suggestions);
-        this.checkAccentContrast(palette, colors, issues, suggestions);
+        this.checkAccentVisibility(palette, colors, issues, suggestions);
         this.checkFabricBalance(palette, colors, issues, suggestions);
 
+        // Luminance contrast between slot pairs (accent against wall and floor)
+        const contrast = ContrastChecker.checkPairs(palette, contrastPairs);
+        issues.push(...contrast.issues);
+        suggestions.push(...contrast.suggestions);
+
+        // Pairs that color-blind players could confuse
+        const colorVision = ColorVisionSimulator.checkPairs(palette, colorVisionPairs);
+        issues.push(...colorVision.issues);
+        suggestions.push(...colorVision.suggestions);
+
+        // Several rules can suggest different lightnesses for one slot, and applying them all
+        // would keep only the last; they become one lightness that meets as many rules as possible
+        this.mergeLightnessSuggestions(palette, colors, suggestions, contrastPairs, colorVisionPairs);
+
         const score = this.calculateScore(issues);
 
         return { score, issues, suggestions };
@@ -314,44 +336,16 @@ export class InteriorHarmonyAnalyzer {
     }
 
     /**
-     * Checks accent contrast against wall (primary background)
+     * Checks accent saturation and lightness bounds
+     * Contrast with the wall and floor is checked by the contrast pairs
      */
-    private static checkAccentContrast(
+    private static checkAccentVisibility(
         palette: InteriorPalette,
         colors: Record<InteriorSlotId, HSL>,
         issues: InteriorHarmonyIssue[],
         suggestions: InteriorHarmonySuggestion[]
     ): void {
         const accent = colors.accent;
-        const wall = colors.wall;
-
-        // Accent should have sufficient contrast with wall
-        const lightnessDiff = Math.abs(accent.l - wall.l);
-        const MIN_CONTRAST = 25;
-
-        if (lightnessDiff < MIN_CONTRAST) {
-            issues.push({
-                slot: 'accent',
-                rule: 'accent_wall_contrast',
-                message: `Accent has low contrast with wall (${Math.round(lightnessDiff)}% lightness difference, recommended: >${MIN_CONTRAST}%)`,
-                severity: 'warning'
-            });
-
-            if (!palette.isLocked('accent')) {
-                // Make accent lighter or darker than wall
-                const targetL = accent.l > wall.l 
-                    ? Math.min(85, wall.l + MIN_CONTRAST + 10)
-                    : Math.max(25, wall.l - MIN_CONTRAST - 10);
-                
-                suggestions.push({
-                    slot: 'accent',
-                    action: 'adjust_lightness',
-                    value: targetL - accent.l,
-                    description: 'Adjust accent lightness for better contrast with wall',
-                    newColor: this.hslToHex(accent.h, accent.s, targetL)
-                });
-            }
-        }
 
         // Accent should be reasonably saturated
         if (accent.s < 30) {
@@ -413,6 +407,71 @@ export class InteriorHarmonyAnalyzer {
         }
     }
 
+    /**
+     * Replaces the lightness suggestions of each slot that has several with one lightness that
+     * meets the most of the slot's lightness rules, contrast pairs and color vision pairs
+     */
+    private static mergeLightnessSuggestions(
+        palette: InteriorPalette,
+        colors: Record<InteriorSlotId, HSL>,
+        suggestions: InteriorHarmonySuggestion[],
+        contrastPairs: ContrastPair<InteriorSlotId>[],
+        colorVisionPairs: ColorVisionPair<InteriorSlotId>[]
+    ): void {
+        const slots = suggestions.filter(s => s.action === 'adjust_lightness').map(s => s.slot);
+        const conflicting = slots.filter((slot, i) => slots.indexOf(slot) !== i && slots.indexOf(slot, i + 1) === -1);
+
+        for (const slot of conflicting) {
+            const found = ContrastChecker.findLightness(palette.getColor(slot), [
+                ...this.getLightnessRequirements(slot, colors),
+                ...ContrastChecker.getPairRequirements(palette, contrastPairs, slot, (f, b, pair) => ContrastChecker.passes(f, b, pair)),
+                ...ContrastChecker.getPairRequirements(palette, colorVisionPairs, slot, (f, b, pair) => ColorVisionSimulator.passes(f, b, pair))
+            ]);
+
+            const position = suggestions.findIndex(s => s.slot === slot && s.action === 'adjust_lightness');
+            for (let i = suggestions.length - 1; i >= 0; i--) {
+                if (suggestions[i].slot === slot && suggestions[i].action === 'adjust_lightness') {
+                    suggestions.splice(i, 1);
+                }
+            }
+
+            if (found) {
+                suggestions.splice(position, 0, {
+                    slot,
+                    action: 'adjust_lightness',
+                    value: found.lightness - found.current,
+                    description: `${found.lightness > found.current ? 'Lighten' : 'Darken'} ${slot} to meet its lightness, contrast and color vision rules`,
+                    newColor: found.color
+                });
+            }
+        }
+    }
+
+    /**
+     * Gets the slot's own lightness rules (those of the checks above) as requirements on a new color
+     */
+    private static getLightnessRequirements(slot: InteriorSlotId, colors: Record<InteriorSlotId, HSL>): ((hex: string) => boolean)[] {
+        const lightnessOf = (hex: string) => {
+            const rgb = ColorConverter.hexToRgb(hex);
+            return ImageProcessor.rgbToHsl(rgb[0], rgb[1], rgb[2])[2];
+        };
+
+        switch (slot) {
+            case 'ceiling':
+                return [
+                    hex => lightnessOf(hex) >= this.CEILING_MIN_LIGHTNESS,
+                    hex => lightnessOf(hex) >= colors.wall.l
+                ];
+            case 'accent':
+                return [
+                    hex => lightnessOf(hex) >= ACCENT_LIGHTNESS.min,
+                    hex => lightnessOf(hex) <= ACCENT_LIGHTNESS.max
+                ];
+            default:
+                return [];
+        }
+    }
+
     /**
      * Checks fabric doesn't overpower the palette
      */
@@ -5,7 +5,7 @@
 
 import { EnvironmentPalette, SlotId } from './EnvironmentPalette.js';
 import { ImageProcessor } from './ImageProcessor.js';
-import { ColorConverter } from './ColorConverter.js';
+import { ColorConverter, LightnessModel } from './ColorConverter.js';
 import { ACCENT_LIGHTNESS } from "./PaletteRules.js";
 
 /**
@@ -157,12 +157,14 @@ export class PaletteGenerator {
      * @param style The art style (affects saturation levels)
      * @param respectLocked If true, won't modify locked slots
      * @param existingPalette Optional existing palette to modify
+     * @param lightness How the preset lightness values are read (`perceptual`: OKLCH lightness)
      */
     static fromPreset(
         preset: MoodPreset,
         style: ArtStyle = 'vibrant',
         respectLocked: boolean = true,
-        existingPalette?: EnvironmentPalette
+        existingPalette?: EnvironmentPalette,
+        lightness: LightnessModel = 'hsl'
     ): EnvironmentPalette {
         const palette = existingPalette?.clone() ?? new EnvironmentPalette();
         const colors = PRESET_COLORS[preset];
@@ -186,7 +188,7 @@ export class PaletteGenerator {
                 l = this.clampAccentLightness(l);
             }
 
-            const hex = this.hslToHex(h, adjustedS, l);
+            const hex = this.hslToHex(h, adjustedS, l, lightness);
             palette.setColor(slotId, hex);
 
         }
@@ -201,16 +203,19 @@ export class PaletteGenerator {
      * @param style The art style (affects saturation levels)
      * @param respectLocked If true, won't modify locked slots
      * @param existingPalette Optional existing palette to modify
+     * @param lightness How lightness is measured and derived (`perceptual`: OKLCH lightness)
      */
     static fromBaseColor(
         baseHex: string,
         style: ArtStyle = 'vibrant',
         respectLocked: boolean = true,
-        existingPalette?: EnvironmentPalette
+        existingPalette?: EnvironmentPalette,
+        lightness: LightnessModel = 'hsl'
     ): EnvironmentPalette {
         const palette = existingPalette?.clone() ?? new EnvironmentPalette();
         const rgb = ColorConverter.hexToRgb(baseHex);
-        const [baseH, baseS, baseL] = ImageProcessor.rgbToHsl(rgb[0], rgb[1], rgb[2]);
+        const [baseH, baseS] = ImageProcessor.rgbToHsl(rgb[0], rgb[1], rgb[2]);
+        const baseL = ColorConverter.getLightness(rgb[0], rgb[1], rgb[2], lightness);
         const saturationMultiplier = STYLE_SATURATION_MULTIPLIERS[style];
 
         // The base color determines the "mood" - we derive other colors from it
@@ -233,7 +238,7 @@ export class PaletteGenerator {
                 l = this.clampAccentLightness(l);
             }
 
-            const hex = this.hslToHex(h, adjustedS, l);
+            const hex = this.hslToHex(h, adjustedS, l, lightness);
             palette.setColor(slotId, hex);
         }
 
@@ -349,17 +354,26 @@ export class PaletteGenerator {
 
     /**
      * Converts HSL to hex string
+     * With perceptual lightness, `l` is the OKLCH lightness of the result
      */
-    private static hslToHex(h: number, s: number, l: number): string {
-        const rgb = ImageProcessor.hslToRgb(h, s, l);
+    private static hslToHex(h: number, s: number, l: number, lightness: LightnessModel = 'hsl'): string {
+        let rgb = ImageProcessor.hslToRgb(h, s, l);
+        if (lightness === 'perceptual') {
+            rgb = ColorConverter.setLightness(rgb[0], rgb[1], rgb[2], l, lightness);
+        }
         return ColorConverter.rgbToHex(rgb[0], rgb[1], rgb[2]);
     }
 
     /**
      * Adds slight random variation to a palette for more natural feel
      * Useful for generating multiple options from the same preset
+     * @param lightness How lightness is varied (`perceptual`: OKLCH lightness)
      */
-    static addVariation(palette: EnvironmentPalette, amount: number = 10): EnvironmentPalette {
+    static addVariation(
+        palette: EnvironmentPalette,
+        amount: number = 10,
+        lightness: LightnessModel = 'hsl'
+    ): EnvironmentPalette {
         const varied = palette.clone();
         const slotIds: SlotId[] = ['sky', 'water', 'grass', 'foliage', 'rock', 'dirt', 'bark', 'accent'];
 
@@ -370,14 +384,15 @@ export class PaletteGenerator {
 
             const hex = varied.getColor(slotId);
             const rgb = ColorConverter.hexToRgb(hex);
-            const [h, s, l] = ImageProcessor.rgbToHsl(rgb[0], rgb[1], rgb[2]);
+            const [h, s] = ImageProcessor.rgbToHsl(rgb[0], rgb[1], rgb[2]);
+            const l = ColorConverter.getLightness(rgb[0], rgb[1], rgb[2], lightness);
 
             // Add random variation
             const newH = (h + (Math.random() - 0.5) * amount * 2 + 360) % 360;
             const newS = Math.max(0, Math.min(100, s + (Math.random() - 0.5) * amount));
             const newL = Math.max(0, Math.min(100, l + (Math.random() - 0.5) * amount * 0.5));
 
-            const newHex = this.hslToHex(newH, newS, newL);
+            const newHex = this.hslToHex(newH, newS, newL, lightness);
             varied.setColor(slotId, newHex);
         }
 
@@ -1,3 +1,9 @@
+import { ContrastPair } from './ContrastChecker.js';
+import { LightnessModel } from './ColorConverter.js';
+import { ColorVisionPair } from './ColorVisionSimulator.js';
+import { SlotId } from './EnvironmentPalette.js';
+import { InteriorSlotId } from './InteriorPalette.js';
+
 export const ACCENT_LIGHTNESS = {
     min: 25,
     max: 85
@@ -10,3 +16,66 @@ export const SKY_LIGHTNESS = {
 export const TERRAIN_SATURATION = {
     max: 60
 };
+
+/**
+ * Lightness thresholds of the environment harmony rules, in one lightness model's units
+ */
+export interface LightnessRules {
+    accent: { min: number; max: number };
+    sky: { min: number };
+    /** Lightness suggested for a sky that is too dark */
+    skyTarget: number;
+    /** How far the accent must escape the environment value band */
+    accentValueEscape: number;
+}
+
+/**
+ * Lightness thresholds per lightness model
+ * OKLab L reads higher than HSL lightness for most colors, so the perceptual values are fitted
+ * to flag the same colors as the HSL ones as often as possible (about 95% of accents, 93% of sky
+ * blues and 85% of accent and environment combinations over random colors)
+ */
+export const LIGHTNESS_RULES: Record<LightnessModel, LightnessRules> = {
+    hsl: { accent: ACCENT_LIGHTNESS, sky: SKY_LIGHTNESS, skyTarget: 70, accentValueEscape: 15 },
+    perceptual: { accent: { min: 38, max: 91 }, sky: { min: 50 }, skyTarget: 77, accentValueEscape: 14 }
+};
+
+/**
+ * Slot pairs the environment harmony check requires to contrast
+ * Pickups use the accent on the ground, so it must read at the WCAG minimum for UI elements;
+ * water only needs to separate from the sky at the horizon
+ */
+export const ENVIRONMENT_CONTRAST_PAIRS: ContrastPair<SlotId>[] = [
+    { foreground: 'accent', background: 'grass', minRatio: 3, minLc: 45, severity: 'warning' },
+    { foreground: 'accent', background: 'dirt', minRatio: 3, minLc: 45, severity: 'warning' },
+    { foreground: 'water', background: 'sky', minRatio: 1.3, minLc: 15, severity: 'suggestion' }
+];
+
+/**
+ * Slot pairs the interior harmony check requires to contrast
+ * Interactables use the accent against walls and floors; trim should outline the walls
+ */
+export const INTERIOR_CONTRAST_PAIRS: ContrastPair<InteriorSlotId>[] = [
+    { foreground: 'accent', background: 'wall', minRatio: 3, minLc: 45, severity: 'warning' },
+    { foreground: 'accent', background: 'floor', minRatio: 3, minLc: 45, severity: 'warning' },
+    { foreground: 'trim', background: 'wall', minRatio: 1.3, minLc: 15, severity: 'suggestion' }
+];
+
+/**
+ * Slot pairs the environment harmony check requires to stay distinguishable for color-blind
+ * players (red or orange pickups tend to vanish into greens)
+ */
+export const ENVIRONMENT_COLOR_VISION_PAIRS: ColorVisionPair<SlotId>[] = [
+    { foreground: 'accent', background: 'grass', minDifference: 10, severity: 'warning' },
+    { foreground: 'accent', background: 'foliage', minDifference: 10, severity: 'warning' },
+    { foreground: 'accent', background: 'dirt', minDifference: 10, severity: 'warning' }
+];
+
+/**
+ * Slot pairs the interior harmony check requires to stay distinguishable for color-blind players
+ */
+export const INTERIOR_COLOR_VISION_PAIRS: ColorVisionPair<InteriorSlotId>[] = [
+    { foreground: 'accent', background: 'wall', minDifference: 10, severity: 'warning' },
+    { foreground: 'accent', background: 'floor', minDifference: 10, severity: 'warning' },
+    { foreground: 'accent', background: 'fabric', minDifference: 10, severity: 'warning' }
+];
@@ -0,0 +1,214 @@
+/**
+ * Palette Slot Mapper - Assigns the colors of an imported palette to environment or interior slots
+ * Swatches named after a slot (e.g. "grass" or "vegetation/grass") go to that slot; the other
+ * slots get the remaining colors that best fit what each slot usually looks like, judged by hue,
+ * saturation and lightness like the generators' base color derivation
+ */
+
+import { SLOT_DEFINITIONS, SlotId } from './EnvironmentPalette.js';
+import { INTERIOR_SLOT_DEFINITIONS, InteriorSlotId } from './InteriorPalette.js';
+import { ImageProcessor } from './ImageProcessor.js';
+import { ColorConverter } from './ColorConverter.js';
+
+/**
+ * A color of an imported palette
+ */
+export interface PaletteColor {
+    /** Swatch name from the file (empty if it had none) */
+    name: string;
+    /** Lowercase hex color */
+    color: string;
+}
+
+/**
+ * Index into the imported colors for each slot; -1 keeps the slot's current color
+ */
+export type SlotMapping<S extends string> = Record<S, number>;
+
+/**
+ * What a slot's color usually looks like
+ */
+interface SlotProfile {
+    /** Typical hue (0-360), or null if any hue fits */
+    hue: number | null;
+    saturation: number;
+    lightness: number;
+}
+
+/**
+ * Environment slot profiles, after the targets PaletteGenerator derives from a base color
+ */
+const ENVIRONMENT_SLOT_PROFILES: Record<SlotId, SlotProfile> = {
+    sky: { hue: 205, saturation: 55, lightness: 75 },
+    water: { hue: 205, saturation: 55, lightness: 48 },
+    grass: { hue: 95, saturation: 50, lightness: 45 },
+    foliage: { hue: 110, saturation: 45, lightness: 33 },
+    rock: { hue: null, saturation: 10, lightness: 55 },
+    dirt: { hue: 30, saturation: 35, lightness: 38 },
+    bark: { hue: 25, saturation: 35, lightness: 24 },
+    accent: { hue: null, saturation: 85, lightness: 55 }
+};
+
+/**
+ * Interior slot profiles, after the targets InteriorPaletteGenerator derives from a base color
+ */
+const INTERIOR_SLOT_PROFILES: Record<InteriorSlotId, SlotProfile> = {
+    wall: { hue: null, saturation: 12, lightness: 86 },
+    floor: { hue: 30, saturation: 30, lightness: 40 },
+    ceiling: { hue: null, saturation: 5, lightness: 96 },
+    wood: { hue: 28, saturation: 45, lightness: 35 },
+    fabric: { hue: null, saturation: 30, lightness: 55 },
+    metal: { hue: null, saturation: 6, lightness: 45 },
+    trim: { hue: null, saturation: 8, lightness: 92 },
+    accent: { hue: null, saturation: 75, lightness: 50 }
+};
+
+/**
+ * Palette Slot Mapper class
+ */
+export class PaletteSlotMapper {
+    // How many degrees, saturation and lightness points count as one unit of mismatch
+    private static readonly HUE_SCALE = 40;
+    private static readonly SATURATION_SCALE = 30;
+    private static readonly LIGHTNESS_SCALE = 15;
+    // Below this saturation, hue is too unstable to judge by
+    private static readonly HUE_RELIABLE_SATURATION = 25;
+
+    /**
+     * Maps imported colors onto environment slots
+     */
+    static mapEnvironmentSlots(colors: PaletteColor[]): SlotMapping<SlotId> {
+        return this.mapSlots(colors, SLOT_DEFINITIONS, ENVIRONMENT_SLOT_PROFILES);
+    }
+
+    /**
+     * Maps imported colors onto interior slots
+     */
+    static mapInteriorSlots(colors: PaletteColor[]): SlotMapping<InteriorSlotId> {
+        return this.mapSlots(colors, INTERIOR_SLOT_DEFINITIONS, INTERIOR_SLOT_PROFILES);
+    }
+
+    /**
+     * Maps colors onto slots: by swatch name first, then by the lowest total mismatch
+     * Each color is used once while there are enough; with fewer colors than slots, colors are
+     * shared and each remaining slot takes its best fit
+     */
+    private static mapSlots<S extends string>(
+        colors: PaletteColor[],
+        slots: { id: S; name: string }[],
+        profiles: Record<S, SlotProfile>
+    ): SlotMapping<S> {
+        const mapping = {} as SlotMapping<S>;
+        const used = new Set<number>();
+
+        for (const slot of slots) {
+            const index = colors.findIndex((color, i) => !used.has(i) && this.matchesName(color.name, slot));
+            mapping[slot.id] = index;
+            if (index !== -1) {
+                used.add(index);
+            }
+        }
+
+        const openSlots = slots.filter(slot => mapping[slot.id] === -1).map(slot => slot.id);
+        const freeColors = colors.map((_, i) => i).filter(i => !used.has(i));
+        if (openSlots.length === 0 || colors.length === 0) {
+            return mapping;
+        }
+
+        const hsl = colors.map(color => {
+            const rgb = ColorConverter.hexToRgb(color.color);
+            return ImageProcessor.rgbToHsl(rgb[0], rgb[1], rgb[2]);
+        });
+        const cost = (slot: S, colorIndex: number) => this.mismatch(hsl[colorIndex], profiles[slot]);
+
+        if (freeColors.length >= openSlots.length) {
+            const assignment = this.assignUnique(openSlots.length, freeColors.length, (s, c) => cost(openSlots[s], freeColors[c]));
+            openSlots.forEach((slot, s) => {
+                mapping[slot] = freeColors[assignment[s]];
+            });
+        } else {
+            // Not enough colors left: every color may serve several slots
+            for (const slot of openSlots) {
+                const candidates = colors.map((_, i) => i);
+                mapping[slot] = candidates.reduce((best, i) => cost(slot, i) < cost(slot, best) ? i : best, candidates[0]);
+            }
+        }
+
+        return mapping;
+    }
+
+    /**
+     * Checks whether a swatch name refers to a slot ("Grass", "vegetation/grass", "grass_1"...)
+     */
+    private static matchesName(name: string, slot: { id: string; name: string }): boolean {
+        const lastPart = name.toLowerCase().split(/[/.:]/).pop() ?? '';
+        const word = lastPart.replace(/[^a-z]/g, '');
+        return word !== '' && (word === slot.id || word === slot.name.toLowerCase());
+    }
+
+    /**
+     * Measures how far a color is from a slot profile
+     */
+    private static mismatch(hsl: [number, number, number], profile: SlotProfile): number {
+        const [h, s, l] = hsl;
+        let cost = Math.pow((s - profile.saturation) / this.SATURATION_SCALE, 2)
+            + Math.pow((l - profile.lightness) / this.LIGHTNESS_SCALE, 2);
+
+        if (profile.hue !== null) {
+            const hueDiff = Math.min(Math.abs(h - profile.hue), 360 - Math.abs(h - profile.hue));
+            const reliability = Math.min(1, s / this.HUE_RELIABLE_SATURATION);
+            cost += reliability * Math.pow(hueDiff / this.HUE_SCALE, 2);
+        }
+
+        return cost;
+    }
+
+    /**
+     * Finds the assignment of distinct colors to slots with the lowest total cost
+     * Dynamic programming over the colors and the set of slots filled so far
+     * @returns The chosen color index for each slot
+     */
+    private static assignUnique(
+        slotCount: number,
+        colorCount: number,
+        cost: (slot: number, color: number) => number
+    ): number[] {
+        const states = 1 << slotCount;
+        // best[c][mask]: lowest cost using colors before c to fill the slots in mask
+        const best: number[][] = [new Array(states).fill(Infinity)];
+        const choice: number[][] = [];
+        best[0][0] = 0;
+
+        for (let c = 0; c < colorCount; c++) {
+            const next = [...best[c]];
+            const nextChoice = new Array(states).fill(-1);
+
+            for (let mask = 0; mask < states; mask++) {
+                if (best[c][mask] === Infinity) continue;
+                for (let s = 0; s < slotCount; s++) {
+                    if (mask & (1 << s)) continue;
+                    const total = best[c][mask] + cost(s, c);
+                    if (total < next[mask | (1 << s)]) {
+                        next[mask | (1 << s)] = total;
+                        nextChoice[mask | (1 << s)] = s;
+                    }
+                }
+            }
+
+            best.push(next);
+            choice.push(nextChoice);
+        }
+
+        // Walk back from the full set to see which color filled which slot
+        const assignment = new Array(slotCount).fill(-1);
+        let mask = states - 1;
+        for (let c = colorCount - 1; c >= 0 && mask !== 0; c--) {
+            const slot = choice[c][mask];
+            if (slot !== -1) {
+                assignment[slot] = c;
+                mask &= ~(1 << slot);
+            }
+        }
+        return assignment;
+    }
+}
@@ -0,0 +1,378 @@
+/**
+ * Palette Exporter
+ * Writes environment and interior palettes as swatch files for painting and design tools:
+ * GIMP/Krita palettes (.gpl), Adobe swatch exchange (.ase) and Photoshop color swatches (.aco),
+ * CSS custom properties, JSON design tokens and a PNG swatch strip
+ *
+ * Pure (no DOM), so it also runs in Node; browser downloads are in PaletteStorage. Swatches are
+ * named after their slot group and id (e.g. "vegetation/grass") so they keep their meaning
+ * outside the editor
+ */
+
+import { EnvironmentPalette, SLOT_DEFINITIONS } from '../Domain/EnvironmentPalette.js';
+import { InteriorPalette, INTERIOR_SLOT_DEFINITIONS } from '../Domain/InteriorPalette.js';
+import { ColorConverter } from '../Domain/ColorConverter.js';
+import { PngWriter } from './PngWriter.js';
+
+/**
+ * Supported export formats
+ */
+export type PaletteExportFormat = 'gpl' | 'ase' | 'aco' | 'css' | 'json' | 'png';
+
+/**
+ * Export format metadata for UI display
+ */
+export interface PaletteFormatInfo {
+    id: PaletteExportFormat;
+    name: string;
+    extension: string;
+    mimeType: string;
+    description: string;
+}
+
+/**
+ * All export formats with metadata
+ */
+export const PALETTE_EXPORT_FORMATS: PaletteFormatInfo[] = [
+    { id: 'gpl', name: 'GIMP Palette (.gpl)', extension: 'gpl', mimeType: 'text/plain', description: 'GIMP, Krita and Inkscape' },
+    { id: 'ase', name: 'Adobe Swatch Exchange (.ase)', extension: 'ase', mimeType: 'application/octet-stream', description: 'Photoshop, Illustrator and Krita; slot groups become swatch groups' },
+    { id: 'aco', name: 'Photoshop Swatches (.aco)', extension: 'aco', mimeType: 'application/octet-stream', description: 'Photoshop swatches panel' },
+    { id: 'css', name: 'CSS Custom Properties (.css)', extension: 'css', mimeType: 'text/css', description: 'Variables like --environment-vegetation-grass' },
+    { id: 'json', name: 'JSON Design Tokens (.json)', extension: 'json', mimeType: 'application/json', description: 'Design Tokens Community Group format, grouped by slot group' },
+    { id: 'png', name: 'PNG Swatch Strip (.png)', extension: 'png', mimeType: 'image/png', description: 'One square per slot, left to right' }
+];
+
+/**
+ * A palette color with the slot it comes from
+ */
+export interface PaletteSwatch {
+    id: string;
+    group: string;
+    /** Slot name for display (e.g. "Grass") */
+    name: string;
+    description: string;
+    /** Lowercase hex color */
+    color: string;
+}
+
+/**
+ * A palette ready to export
+ */
+export interface PaletteExportData {
+    kind: 'environment' | 'interior';
+    title: string;
+    swatches: PaletteSwatch[];
+}
+
+/**
+ * An exported file
+ */
+export interface PaletteExportFile {
+    fileName: string;
+    mimeType: string;
+    content: string | Uint8Array;
+}
+
+/**
+ * Adobe swatch exchange block types
+ */
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+const ASE_COLOR_TYPE_GLOBAL = 0;
+
+/**
+ * Photoshop color swatch color space
+ */
+const ACO_RGB = 0;
+
+/**
+ * Collects big-endian binary data
+ */
+class BinaryWriter {
+    private bytes: number[] = [];
+
+    uint16(value: number): this {
+        this.bytes.push((value >>> 8) & 0xff, value & 0xff);
+        return this;
+    }
+
+    uint32(value: number): this {
+        this.bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+        return this;
+    }
+
+    float32(value: number): this {
+        const view = new DataView(new ArrayBuffer(4));
+        view.setFloat32(0, value);
+        for (let i = 0; i < 4; i++) {
+            this.bytes.push(view.getUint8(i));
+        }
+        return this;
+    }
+
+    ascii(text: string): this {
+        for (let i = 0; i < text.length; i++) {
+            this.bytes.push(text.charCodeAt(i) & 0x7f);
+        }
+        return this;
+    }
+
+    /**
+     * UTF-16 code units followed by a zero terminator
+     */
+    utf16(text: string): this {
+        for (let i = 0; i < text.length; i++) {
+            this.uint16(text.charCodeAt(i));
+        }
+        return this.uint16(0);
+    }
+
+    append(other: BinaryWriter): this {
+        this.bytes.push(...other.bytes);
+        return this;
+    }
+
+    get length(): number {
+        return this.bytes.length;
+    }
+
+    toBytes(): Uint8Array {
+        return new Uint8Array(this.bytes);
+    }
+}
+
+/**
+ * Palette Exporter class
+ */
+export class PaletteExporter {
+    /**
+     * Collects an environment palette's swatches in slot order
+     */
+    static fromEnvironmentPalette(palette: EnvironmentPalette, title: string = 'Environment Palette'): PaletteExportData {
+        return {
+            kind: 'environment',
+            title,
+            swatches: SLOT_DEFINITIONS.map(slot => ({
+                id: slot.id,
+                group: slot.group,
+                name: slot.name,
+                description: slot.description,
+                color: this.normalizeHex(palette.getColor(slot.id))
+            }))
+        };
+    }
+
+    /**
+     * Collects an interior palette's swatches in slot order
+     */
+    static fromInteriorPalette(palette: InteriorPalette, title: string = 'Interior Palette'): PaletteExportData {
+        return {
+            kind: 'interior',
+            title,
+            swatches: INTERIOR_SLOT_DEFINITIONS.map(slot => ({
+                id: slot.id,
+                group: slot.group,
+                name: slot.name,
+                description: slot.description,
+                color: this.normalizeHex(palette.getColor(slot.id))
+            }))
+        };
+    }
+
+    /**
+     * Gets the name a swatch is exported under ("group/id")
+     */
+    static getSwatchName(swatch: PaletteSwatch): string {
+        return `${swatch.group}/${swatch.id}`;
+    }
+
+    /**
+     * Exports a palette in a format
+     * @param baseName File name without extension (defaults to e.g. "environment_palette")
+     */
+    static export(data: PaletteExportData, format: PaletteExportFormat, baseName?: string): PaletteExportFile {
+        const info = PALETTE_EXPORT_FORMATS.find(f => f.id === format);
+        if (!info) {
+            throw new Error(`Unknown palette export format: ${format}`);
+        }
+
+        const writers: Record<PaletteExportFormat, (data: PaletteExportData) => string | Uint8Array> = {
+            gpl: d => this.toGpl(d),
+            ase: d => this.toAse(d),
+            aco: d => this.toAco(d),
+            css: d => this.toCss(d),
+            json: d => this.toJson(d),
+            png: d => this.toPng(d)
+        };
+
+        return {
+            fileName: `${baseName || `${data.kind}_palette`}.${info.extension}`,
+            mimeType: info.mimeType,
+            content: writers[format](data)
+        };
+    }
+
+    /**
+     * Writes a GIMP palette (also read by Krita and Inkscape)
+     */
+    static toGpl(data: PaletteExportData): string {
+        const lines = [
+            'GIMP Palette',
+            `Name: ${data.title}`,
+            `Columns: ${data.swatches.length}`,
+            '#'
+        ];
+
+        for (const swatch of data.swatches) {
+            const [r, g, b] = ColorConverter.hexToRgb(swatch.color);
+            const channels = [r, g, b].map(c => String(c).padStart(3, ' ')).join(' ');
+            lines.push(`${channels}\t${this.getSwatchName(swatch)}`);
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Writes an Adobe swatch exchange file (version 1.0), one swatch group per slot group
+     */
+    static toAse(data: PaletteExportData): Uint8Array {
+        const blocks: { type: number; body: BinaryWriter }[] = [];
+
+        for (const group of this.getGroups(data)) {
+            blocks.push({ type: ASE_GROUP_START, body: this.aseName(`${data.title}/${group}`) });
+
+            for (const swatch of data.swatches.filter(s => s.group === group)) {
+                const [r, g, b] = ColorConverter.hexToRgb(swatch.color);
+                const body = this.aseName(this.getSwatchName(swatch))
+                    .ascii('RGB ')
+                    .float32(r / 255)
+                    .float32(g / 255)
+                    .float32(b / 255)
+                    .uint16(ASE_COLOR_TYPE_GLOBAL);
+                blocks.push({ type: ASE_COLOR, body });
+            }
+
+            blocks.push({ type: ASE_GROUP_END, body: new BinaryWriter() });
+        }
+
+        const file = new BinaryWriter()
+            .ascii('ASEF')
+            .uint16(1)
+            .uint16(0)
+            .uint32(blocks.length);
+        for (const block of blocks) {
+            file.uint16(block.type).uint32(block.body.length).append(block.body);
+        }
+        return file.toBytes();
+    }
+
+    /**
+     * Writes a Photoshop color swatch file: a version 1 section (colors only) followed by a
+     * version 2 section (colors with names), as Photoshop writes them
+     */
+    static toAco(data: PaletteExportData): Uint8Array {
+        const file = new BinaryWriter();
+
+        for (const version of [1, 2]) {
+            file.uint16(version).uint16(data.swatches.length);
+
+            for (const swatch of data.swatches) {
+                const [r, g, b] = ColorConverter.hexToRgb(swatch.color);
+                // 16-bit channels; the fourth value is unused for RGB
+                file.uint16(ACO_RGB).uint16(r * 257).uint16(g * 257).uint16(b * 257).uint16(0);
+
+                if (version === 2) {
+                    const name = this.getSwatchName(swatch);
+                    file.uint32(name.length + 1).utf16(name);
+                }
+            }
+        }
+
+        return file.toBytes();
+    }
+
+    /**
+     * Writes CSS custom properties on :root (e.g. --environment-vegetation-grass)
+     */
+    static toCss(data: PaletteExportData): string {
+        const lines = [`/* ${data.title} */`, ':root {'];
+
+        for (const swatch of data.swatches) {
+            lines.push(`    --${data.kind}-${swatch.group}-${swatch.id}: ${swatch.color};`);
+        }
+
+        lines.push('}');
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Writes design tokens in the Design Tokens Community Group format,
+     * nested as palette kind > slot group > slot
+     */
+    static toJson(data: PaletteExportData): string {
+        const groups: Record<string, Record<string, object>> = {};
+
+        for (const swatch of data.swatches) {
+            groups[swatch.group] = groups[swatch.group] || {};
+            groups[swatch.group][swatch.id] = {
+                $type: 'color',
+                $value: swatch.color,
+                $description: `${swatch.name}: ${swatch.description}`
+            };
+        }
+
+        return JSON.stringify({
+            [data.kind]: {
+                $description: data.title,
+                ...groups
+            }
+        }, null, 2) + '\n';
+    }
+
+    /**
+     * Writes a PNG strip with one square per swatch, in slot order
+     * @param swatchSize Width and height of each square in pixels
+     */
+    static toPng(data: PaletteExportData, swatchSize: number = 64): Uint8Array {
+        const width = swatchSize * data.swatches.length;
+        const pixels = new Uint8Array(width * swatchSize * 3);
+
+        data.swatches.forEach((swatch, i) => {
+            const rgb = ColorConverter.hexToRgb(swatch.color);
+            for (let y = 0; y < swatchSize; y++) {
+                for (let x = i * swatchSize; x < (i + 1) * swatchSize; x++) {
+                    pixels.set(rgb, (y * width + x) * 3);
+                }
+            }
+        });
+
+        return PngWriter.writeRgb(width, swatchSize, pixels);
+    }
+
+    /**
+     * Gets the slot groups in the order they first appear
+     */
+    private static getGroups(data: PaletteExportData): string[] {
+        const groups = data.swatches.map(swatch => swatch.group);
+        return groups.filter((group, i) => groups.indexOf(group) === i);
+    }
+
+    /**
+     * Writes an ASE name: length in UTF-16 units (with terminator) and the terminated name
+     */
+    private static aseName(name: string): BinaryWriter {
+        return new BinaryWriter().uint16(name.length + 1).utf16(name);
+    }
+
+    /**
+     * Lowercases a hex color and expands #rgb shorthand
+     */
+    private static normalizeHex(hex: string): string {
+        const value = hex.trim().toLowerCase();
+        if (/^#[0-9a-f]{3}$/.test(value)) {
+            return '#' + value.slice(1).split('').map(c => c + c).join('');
+        }
+        return value;
+    }
+}
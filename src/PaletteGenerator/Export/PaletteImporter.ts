@@ -0,0 +1,280 @@
+/**
+ * Palette Importer
+ * Reads swatch files from painting and design tools into a list of named colors, ready to be
+ * mapped onto palette slots (see PaletteSlotMapper):
+ * - GIMP/Krita palettes (.gpl) and JASC/Paint Shop Pro palettes (.pal)
+ * - Adobe swatch exchange (.ase) with RGB, CMYK, gray and LAB colors; groups are flattened
+ * - Hex lists (.hex, .txt) as downloaded from Lospec or saved by Paint.NET: one color per line,
+ *   with or without `#`, `;` comment lines, and 8-digit colors read as AARRGGBB
+ *
+ * Pure (no DOM) like PaletteExporter; reading the file is in PaletteStorage
+ */
+
+import { ColorConverter } from '../Domain/ColorConverter.js';
+import { PaletteColor } from '../Domain/PaletteSlotMapper.js';
+
+/**
+ * A palette read from a file
+ */
+export interface ImportedPalette {
+    /** Palette name from the file, or the file name without extension */
+    name: string;
+    colors: PaletteColor[];
+}
+
+/**
+ * File extensions the importer reads, for file pickers
+ */
+export const PALETTE_IMPORT_EXTENSIONS = ['.gpl', '.ase', '.hex', '.txt', '.pal'];
+
+/**
+ * Adobe swatch exchange block types
+ */
+const ASE_GROUP_START = 0xc001;
+const ASE_COLOR = 0x0001;
+
+/**
+ * Palette Importer class
+ */
+export class PaletteImporter {
+    /**
+     * Parses a palette file
+     * Throws with the line (text formats) or block (ASE) of the first invalid entry
+     * @param content File bytes, or text for the text formats
+     * @param fileName Used to tell the file's format and as fallback palette name
+     */
+    static parse(content: string | Uint8Array, fileName: string): ImportedPalette {
+        const bytes = typeof content === 'string' ? null : content;
+        const isAse = /\.ase$/i.test(fileName)
+            || (bytes !== null && bytes.length >= 4 && String.fromCharCode(...bytes.subarray(0, 4)) === 'ASEF');
+
+        let palette: ImportedPalette;
+        if (isAse) {
+            if (bytes === null) {
+                throw new Error(`${fileName}: ASE files must be read as binary`);
+            }
+            palette = this.parseAse(bytes, fileName);
+        } else {
+            const text = (bytes === null ? content as string : new TextDecoder().decode(bytes)).replace(/^\uFEFF/, '');
+            if (text.trim() === '') {
+                throw new Error(`${fileName} is empty`);
+            }
+
+            const firstLine = text.trimStart().split(/\r?\n/, 1)[0].trim();
+            if (firstLine === 'GIMP Palette') {
+                palette = this.parseGpl(text, fileName);
+            } else if (firstLine === 'JASC-PAL') {
+                palette = this.parseJascPal(text, fileName);
+            } else {
+                palette = this.parseHexList(text, fileName);
+            }
+        }
+
+        if (palette.colors.length === 0) {
+            throw new Error(`${fileName} contains no colors`);
+        }
+        return palette;
+    }
+
+    /**
+     * Parses a GIMP palette: header, optional Name/Columns lines, then "r g b name" lines
+     */
+    static parseGpl(text: string, fileName: string): ImportedPalette {
+        const palette: ImportedPalette = { name: this.getBaseName(fileName), colors: [] };
+        const lines = text.split(/\r?\n/);
+
+        lines.forEach((rawLine, i) => {
+            const line = rawLine.trim();
+            if (i === 0 || line === '' || line.startsWith('#') || /^Columns:/i.test(line)) {
+                return;
+            }
+
+            const nameMatch = /^Name:\s*(.*)$/i.exec(line);
+            if (nameMatch) {
+                palette.name = nameMatch[1].trim() || palette.name;
+                return;
+            }
+
+            const match = /^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(line);
+            if (!match) {
+                throw new Error(`${fileName}: line ${i + 1} is not a color ("${line}")`);
+            }
+            const name = match[4].trim();
+            palette.colors.push({
+                // GIMP writes "Untitled" for swatches without a name
+                name: name === 'Untitled' ? '' : name,
+                color: this.toHex([Number(match[1]), Number(match[2]), Number(match[3])], fileName, i + 1)
+            });
+        });
+
+        return palette;
+    }
+
+    /**
+     * Parses a JASC palette: header, version, color count, then "r g b" lines
+     */
+    static parseJascPal(text: string, fileName: string): ImportedPalette {
+        const lines = text.trim().split(/\r?\n/).map(line => line.trim());
+        const colors: PaletteColor[] = [];
+
+        for (let i = 3; i < lines.length; i++) {
+            if (lines[i] === '') continue;
+            const match = /^(\d+)\s+(\d+)\s+(\d+)$/.exec(lines[i]);
+            if (!match) {
+                throw new Error(`${fileName}: line ${i + 1} is not a color ("${lines[i]}")`);
+            }
+            colors.push({ name: '', color: this.toHex([Number(match[1]), Number(match[2]), Number(match[3])], fileName, i + 1) });
+        }
+
+        return { name: this.getBaseName(fileName), colors };
+    }
+
+    /**
+     * Parses a hex list: "RRGGBB", "#RRGGBB" or "AARRGGBB" per line, optionally followed by a name
+     */
+    static parseHexList(text: string, fileName: string): ImportedPalette {
+        const colors: PaletteColor[] = [];
+
+        text.split(/\r?\n/).forEach((rawLine, i) => {
+            const line = rawLine.trim();
+            if (line === '' || line.startsWith(';') || line.startsWith('//')) {
+                return;
+            }
+
+            const match = /^#?([0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3})\b\s*(.*)$/i.exec(line);
+            if (!match) {
+                throw new Error(`${fileName}: line ${i + 1} is not a hex color ("${line}")`);
+            }
+
+            let hex = match[1].toLowerCase();
+            if (hex.length === 8) {
+                hex = hex.slice(2);
+            } else if (hex.length === 3) {
+                hex = hex.split('').map(c => c + c).join('');
+            }
+            colors.push({ name: match[2].trim(), color: `#${hex}` });
+        });
+
+        return { name: this.getBaseName(fileName), colors };
+    }
+
+    /**
+     * Parses an Adobe swatch exchange file; the first group name becomes the palette name
+     */
+    static parseAse(bytes: Uint8Array, fileName: string): ImportedPalette {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 4)) !== 'ASEF') {
+            throw new Error(`${fileName}: not an Adobe swatch exchange file`);
+        }
+
+        const palette: ImportedPalette = { name: this.getBaseName(fileName), colors: [] };
+        const blockCount = view.getUint32(8);
+        let offset = 12;
+        let namedFromGroup = false;
+
+        for (let block = 0; block < blockCount; block++) {
+            if (offset + 6 > bytes.length) {
+                throw new Error(`${fileName}: block ${block + 1} is cut off`);
+            }
+            const type = view.getUint16(offset);
+            const length = view.getUint32(offset + 2);
+            const start = offset + 6;
+            offset = start + length;
+            if (offset > bytes.length) {
+                throw new Error(`${fileName}: block ${block + 1} is cut off`);
+            }
+
+            if (type === ASE_GROUP_START && !namedFromGroup) {
+                const { name } = this.readAseName(view, start, offset, fileName, block);
+                // Our own exports name groups "Title/group"
+                palette.name = name.split('/')[0] || palette.name;
+                namedFromGroup = true;
+            } else if (type === ASE_COLOR) {
+                const { name, end } = this.readAseName(view, start, offset, fileName, block);
+                const model = String.fromCharCode(...bytes.subarray(end, end + 4));
+                const values = (count: number) => {
+                    if (end + 4 + count * 4 > offset) {
+                        throw new Error(`${fileName}: block ${block + 1} is cut off`);
+                    }
+                    return Array.from({ length: count }, (_, i) => view.getFloat32(end + 4 + i * 4));
+                };
+
+                let rgb: [number, number, number];
+                switch (model) {
+                    case 'RGB ': {
+                        const [r, g, b] = values(3);
+                        rgb = [r * 255, g * 255, b * 255];
+                        break;
+                    }
+                    case 'CMYK': {
+                        const [c, m, y, k] = values(4);
+                        rgb = [c, m, y].map(v => 255 * (1 - v) * (1 - k)) as [number, number, number];
+                        break;
+                    }
+                    case 'Gray': {
+                        const [gray] = values(1);
+                        rgb = [gray * 255, gray * 255, gray * 255];
+                        break;
+                    }
+                    case 'LAB ': {
+                        // Lightness is stored as 0-1
+                        const [l, a, b] = values(3);
+                        rgb = ColorConverter.labToRgb(l * 100, a, b);
+                        break;
+                    }
+                    default:
+                        throw new Error(`${fileName}: block ${block + 1} has unknown color model "${model.trim()}"`);
+                }
+
+                palette.colors.push({ name, color: this.toHex(rgb) });
+            }
+        }
+
+        return palette;
+    }
+
+    /**
+     * Reads an ASE name (length in UTF-16 units including terminator, then the units)
+     * @param blockEnd Offset after the block the name is in
+     * @returns The name and the offset after it
+     */
+    private static readAseName(
+        view: DataView,
+        offset: number,
+        blockEnd: number,
+        fileName: string,
+        block: number
+    ): { name: string; end: number } {
+        if (offset + 2 > blockEnd) {
+            throw new Error(`${fileName}: block ${block + 1} is cut off`);
+        }
+        const length = view.getUint16(offset);
+        if (offset + 2 + length * 2 > blockEnd) {
+            throw new Error(`${fileName}: block ${block + 1} is cut off`);
+        }
+        let name = '';
+        for (let i = 0; i < length - 1; i++) {
+            name += String.fromCharCode(view.getUint16(offset + 2 + i * 2));
+        }
+        return { name, end: offset + 2 + length * 2 };
+    }
+
+    /**
+     * Converts RGB channels to hex, rounding and clamping converted colors
+     * Channels out of range throw when a line is given (values read from text)
+     */
+    private static toHex(rgb: number[], fileName?: string, line?: number): string {
+        if (line !== undefined && rgb.some(c => c > 255)) {
+            throw new Error(`${fileName}: line ${line} has a channel above 255`);
+        }
+        const [r, g, b] = rgb.map(c => Math.round(Math.max(0, Math.min(255, c))));
+        return ColorConverter.rgbToHex(r, g, b);
+    }
+
+    /**
+     * Gets the file name without directory or extension
+     */
+    private static getBaseName(fileName: string): string {
+        return fileName.split(/[\\/]/).pop()!.replace(/\.[^.]+$/, '');
+    }
+}
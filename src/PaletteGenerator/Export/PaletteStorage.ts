@@ -0,0 +1,68 @@
+/**
+ * Palette Storage
+ * Browser-side palette file downloads and uploads (the formats themselves are written by
+ * PaletteExporter and read by PaletteImporter)
+ */
+
+import { PaletteExportData, PaletteExportFormat, PaletteExporter } from './PaletteExporter.js';
+import { ImportedPalette, PaletteImporter, PALETTE_IMPORT_EXTENSIONS } from './PaletteImporter.js';
+
+export class PaletteStorage {
+    /**
+     * Exports a palette and downloads the file
+     * @param baseName File name without extension (defaults to e.g. "environment_palette")
+     */
+    static downloadPalette(data: PaletteExportData, format: PaletteExportFormat, baseName?: string): void {
+        const file = PaletteExporter.export(data, format, baseName);
+        // Binary content is copied into a plain ArrayBuffer-backed array, as Blob requires
+        const content = typeof file.content === 'string' ? file.content : new Uint8Array(file.content);
+        const blob = new Blob([content], { type: file.mimeType });
+        const url = URL.createObjectURL(blob);
+
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = file.fileName;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Lets the user pick a palette file and reads it
+     */
+    static loadPaletteFromFile(): Promise<ImportedPalette> {
+        return new Promise((resolve, reject) => {
+            const input = document.createElement('input');
+            input.type = 'file';
+            input.accept = PALETTE_IMPORT_EXTENSIONS.join(',');
+
+            input.onchange = (e) => {
+                const file = (e.target as HTMLInputElement).files?.[0];
+                if (!file) {
+                    reject(new Error('No file selected'));
+                    return;
+                }
+
+                // Read as bytes: ASE is binary, the text formats are decoded by the importer
+                const reader = new FileReader();
+                reader.onload = (event) => {
+                    try {
+                        const bytes = new Uint8Array(event.target?.result as ArrayBuffer);
+                        resolve(PaletteImporter.parse(bytes, file.name));
+                    } catch (error) {
+                        reject(error);
+                    }
+                };
+
+                reader.onerror = () => {
+                    reject(new Error('Failed to read file'));
+                };
+
+                reader.readAsArrayBuffer(file);
+            };
+
+            input.click();
+        });
+    }
+}
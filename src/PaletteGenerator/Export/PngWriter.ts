@@ -0,0 +1,135 @@
+/**
+ * PNG Writer
+ * Writes 8-bit RGB images as PNG files
+ *
+ * Pure (no canvas or DOM), so it runs in Node as well as the browser. Image data is stored with
+ * uncompressed deflate blocks, which keeps the writer small; palette images are tiny anyway
+ */
+
+/** PNG file signature */
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Largest uncompressed deflate block */
+const MAX_STORED_BLOCK = 0xffff;
+
+/** CRC-32 lookup table (polynomial 0xEDB88320) */
+const CRC_TABLE: number[] = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+/**
+ * PNG Writer class
+ */
+export class PngWriter {
+    /**
+     * Writes an RGB image
+     * @param pixels Row by row, 3 bytes (r, g, b) per pixel
+     */
+    static writeRgb(width: number, height: number, pixels: Uint8Array): Uint8Array {
+        if (pixels.length !== width * height * 3) {
+            throw new Error(`Expected ${width * height * 3} bytes of pixel data, got ${pixels.length}`);
+        }
+
+        // Each row starts with its filter type (0: none)
+        const rowLength = width * 3;
+        const raw = new Uint8Array((rowLength + 1) * height);
+        for (let y = 0; y < height; y++) {
+            raw.set(pixels.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+        }
+
+        const header = [
+            ...this.uint32(width),
+            ...this.uint32(height),
+            8,  // bit depth
+            2,  // color type: RGB
+            0,  // compression
+            0,  // filter
+            0   // interlace
+        ];
+
+        const parts = [
+            new Uint8Array(SIGNATURE),
+            this.chunk('IHDR', new Uint8Array(header)),
+            this.chunk('IDAT', this.zlibStored(raw)),
+            this.chunk('IEND', new Uint8Array(0))
+        ];
+
+        const file = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+        let offset = 0;
+        for (const part of parts) {
+            file.set(part, offset);
+            offset += part.length;
+        }
+        return file;
+    }
+
+    /**
+     * Builds a chunk: length, type, data and CRC of type and data
+     */
+    private static chunk(type: string, data: Uint8Array): Uint8Array {
+        const chunk = new Uint8Array(12 + data.length);
+        chunk.set(this.uint32(data.length), 0);
+        for (let i = 0; i < 4; i++) {
+            chunk[4 + i] = type.charCodeAt(i);
+        }
+        chunk.set(data, 8);
+        chunk.set(this.uint32(this.crc32(chunk.subarray(4, 8 + data.length))), 8 + data.length);
+        return chunk;
+    }
+
+    /**
+     * Wraps data in a zlib stream of uncompressed deflate blocks
+     */
+    private static zlibStored(data: Uint8Array): Uint8Array {
+        const blockCount = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+        const stream = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+        stream[0] = 0x78;  // deflate, 32K window
+        stream[1] = 0x01;  // no preset dictionary; header checksum
+
+        let offset = 2;
+        for (let block = 0; block < blockCount; block++) {
+            const start = block * MAX_STORED_BLOCK;
+            const length = Math.min(MAX_STORED_BLOCK, data.length - start);
+
+            stream[offset] = block === blockCount - 1 ? 1 : 0;  // final block flag, type 0 (stored)
+            stream[offset + 1] = length & 0xff;
+            stream[offset + 2] = length >>> 8;
+            stream[offset + 3] = ~length & 0xff;
+            stream[offset + 4] = (~length >>> 8) & 0xff;
+            stream.set(data.subarray(start, start + length), offset + 5);
+            offset += 5 + length;
+        }
+
+        stream.set(this.uint32(this.adler32(data)), offset);
+        return stream;
+    }
+
+    private static crc32(data: Uint8Array): number {
+        let crc = 0xffffffff;
+        for (let i = 0; i < data.length; i++) {
+            crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    private static adler32(data: Uint8Array): number {
+        let a = 1;
+        let b = 0;
+        for (let i = 0; i < data.length; i++) {
+            a = (a + data[i]) % 65521;
+            b = (b + a) % 65521;
+        }
+        return ((b << 16) | a) >>> 0;
+    }
+
+    /**
+     * Encodes a big-endian 32-bit unsigned integer
+     */
+    private static uint32(value: number): number[] {
+        return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    }
+}
@@ -1,4 +1,4 @@
-import { ColorReplacementProcessor, ColorReplacement } from '../Domain/ColorReplacementProcessor.js';
+import { ColorReplacementProcessor, ColorReplacement, ColorMatchMetric } from '../Domain/ColorReplacementProcessor.js';
 import { ImageProcessor } from '../Domain/ImageProcessor.js';
 
 /**
@@ -24,6 +24,7 @@ export class ColorReplacementAdjuster {
     private replacements: ColorReplacement[] = [];
     private activeReplacementId: string | null = null;
     private nextId: number = 1;
+    private matchMetric: ColorMatchMetric = 'hsl';
     
     private onTextureUpdated: ((canvas: HTMLCanvasElement) => void) | null = null;
     private debounceTimer: number | null = null;
@@ -76,6 +77,14 @@ export class ColorReplacementAdjuster {
                     <p class="cr-help-text">
                         Click "Add Color", then click on the image to sample a color you want to adjust.
                     </p>
+                    <label class="cr-metric">
+                        Match similar colors by
+                        <select id="crMetricSelect" class="cr-metric-select">
+                            <option value="hsl">HSL distance</option>
+                            <option value="oklab">OKLab (perceptual)</option>
+                            <option value="ciede2000">CIEDE2000 (perceptual, slower)</option>
+                        </select>
+                    </label>
                     <div id="crReplacementsList" class="cr-replacements-list"></div>
                 </div>
                 
@@ -104,6 +113,14 @@ export class ColorReplacementAdjuster {
         const addBtn = document.getElementById('crAddBtn');
         addBtn?.addEventListener('click', () => this.addReplacement());
         
+        // Color matching metric
+        const metricSelect = document.getElementById('crMetricSelect') as HTMLSelectElement;
+        metricSelect?.addEventListener('change', () => {
+            this.matchMetric = metricSelect.value as ColorMatchMetric;
+            this.updatePreview();
+            this.scheduleApply();
+        });
+        
         // Canvas click for color sampling
         this.originalCanvas.addEventListener('click', (e) => this.handleCanvasClick(e));
         
@@ -369,7 +386,8 @@ export class ColorReplacementAdjuster {
         const mask = ColorReplacementProcessor.generateSelectionMask(
             imageData,
             replacement.sourceColor,
-            replacement.tolerance
+            replacement.tolerance,
+            this.matchMetric
         );
         
         // Parse source color for overlay
@@ -406,7 +424,7 @@ export class ColorReplacementAdjuster {
         }
         
         const imageData = this.originalCtx.getImageData(0, 0, this.originalCanvas.width, this.originalCanvas.height);
-        const resultData = ColorReplacementProcessor.applyReplacements(imageData, this.replacements);
+        const resultData = ColorReplacementProcessor.applyReplacements(imageData, this.replacements, this.matchMetric);
         
         this.resultCtx.putImageData(resultData, 0, 0);
         
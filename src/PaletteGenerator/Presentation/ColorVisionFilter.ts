@@ -0,0 +1,74 @@
+/**
+ * Color Vision Filter - CSS filters that simulate color vision deficiencies on any element
+ * Adds SVG color matrix filters built from the simulator's matrices to the page (once); the
+ * filters work in linear RGB like the simulation, so scene previews update live at no cost
+ */
+
+import { COLOR_VISION_DEFINITIONS, ColorVisionDeficiency, ColorVisionSimulator } from '../Domain/ColorVisionSimulator.js';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const FILTER_CONTAINER_ID = 'colorVisionFilters';
+
+/**
+ * Color Vision Filter class
+ */
+export class ColorVisionFilter {
+    /**
+     * Gets the CSS `filter` value that simulates a deficiency
+     * @param deficiency Null for normal color vision (no filter)
+     */
+    static getCssFilter(deficiency: ColorVisionDeficiency | null): string {
+        if (!deficiency) {
+            return 'none';
+        }
+
+        this.ensureFilters();
+        return `url(#${this.getFilterId(deficiency)})`;
+    }
+
+    /**
+     * Applies a deficiency filter to an element
+     * @param deficiency Null to remove the filter
+     */
+    static apply(element: HTMLElement, deficiency: ColorVisionDeficiency | null): void {
+        element.style.filter = deficiency ? this.getCssFilter(deficiency) : '';
+    }
+
+    private static getFilterId(deficiency: ColorVisionDeficiency): string {
+        return `color-vision-${deficiency}`;
+    }
+
+    /**
+     * Adds the SVG filter definitions to the page if they are missing
+     */
+    private static ensureFilters(): void {
+        if (document.getElementById(FILTER_CONTAINER_ID)) {
+            return;
+        }
+
+        const svg = document.createElementNS(SVG_NS, 'svg');
+        svg.id = FILTER_CONTAINER_ID;
+        svg.setAttribute('aria-hidden', 'true');
+        svg.style.position = 'absolute';
+        svg.style.width = '0';
+        svg.style.height = '0';
+
+        for (const info of COLOR_VISION_DEFINITIONS) {
+            const filter = document.createElementNS(SVG_NS, 'filter');
+            filter.id = this.getFilterId(info.id);
+            filter.setAttribute('color-interpolation-filters', 'linearRGB');
+
+            // 4x5 matrix: the 3x3 simulation with alpha passed through
+            const matrix = ColorVisionSimulator.getMatrix(info.id);
+            const values = [...matrix.map(row => [...row, 0, 0]), [0, 0, 0, 1, 0]];
+
+            const colorMatrix = document.createElementNS(SVG_NS, 'feColorMatrix');
+            colorMatrix.setAttribute('type', 'matrix');
+            colorMatrix.setAttribute('values', values.map(row => row.join(' ')).join(' '));
+            filter.appendChild(colorMatrix);
+            svg.appendChild(filter);
+        }
+
+        document.body.appendChild(svg);
+    }
+}
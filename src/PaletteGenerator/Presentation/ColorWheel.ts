@@ -380,12 +380,12 @@ export class ColorWheel {
         const [r, g, b] = ColorConverter.hexToRgb(hexColor);
 
         // Convert RGB to HSL
-        const hsl = this.rgbToHsl(r, g, b);
+        const [h, s] = ColorConverter.rgbToHsl(r, g, b);
         
         // Calculate position on the color wheel
         // The wheel uses lightness of 50, so we calculate based on hue and saturation
-        const angle = hsl.h * 360;
-        const distance = hsl.s * this.radius;
+        const angle = h * 360;
+        const distance = s * this.radius;
 
         const x = this.center + distance * Math.cos(angle * Math.PI / 180);
         const y = this.center + distance * Math.sin(angle * Math.PI / 180);
@@ -404,40 +404,6 @@ export class ColorWheel {
         }
     }
 
-    /**
-     * Converts RGB to HSL
-     */
-    private rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
-        r /= 255;
-        g /= 255;
-        b /= 255;
-
-        const max = Math.max(r, g, b);
-        const min = Math.min(r, g, b);
-        let h = 0;
-        let s = 0;
-        const l = (max + min) / 2;
-
-        if (max !== min) {
-            const d = max - min;
-            s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-            switch (max) {
-                case r:
-                    h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-                    break;
-                case g:
-                    h = ((b - r) / d + 2) / 6;
-                    break;
-                case b:
-                    h = ((r - g) / d + 4) / 6;
-                    break;
-            }
-        }
-
-        return { h, s, l };
-    }
-
     /**
      * Updates the color display element with the selected color
      * @param hexColor HEX color string
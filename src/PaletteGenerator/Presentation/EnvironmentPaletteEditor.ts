@@ -6,6 +6,12 @@
 import { EnvironmentPalette, SlotId, SLOT_DEFINITIONS, SlotGroup } from '../Domain/EnvironmentPalette.js';
 import { HarmonyAnalyzer, HarmonyAnalysis, HarmonySuggestion } from '../Domain/HarmonyAnalyzer.js';
 import { PaletteGenerator, MoodPreset, ArtStyle, PRESET_DEFINITIONS, STYLE_DEFINITIONS } from '../Domain/PaletteGenerator.js';
+import { LightnessModel } from '../Domain/ColorConverter.js';
+import { COLOR_VISION_DEFINITIONS, ColorVisionSimulator } from '../Domain/ColorVisionSimulator.js';
+import { PALETTE_EXPORT_FORMATS, PaletteExportFormat, PaletteExporter } from '../Export/PaletteExporter.js';
+import { PaletteStorage } from '../Export/PaletteStorage.js';
+import { ImportedPalette } from '../Export/PaletteImporter.js';
+import { PaletteSlotMapper, SlotMapping } from '../Domain/PaletteSlotMapper.js';
 
 /**
  * Callback when a color is selected for use in texture adjuster
@@ -24,8 +30,12 @@ export class EnvironmentPaletteEditor {
     // UI elements
     private slotsContainer: HTMLElement | null = null;
     private analysisContainer: HTMLElement | null = null;
+    private visionContainer: HTMLElement | null = null;
+    private importContainer: HTMLElement | null = null;
+    private importedPalette: ImportedPalette | null = null;
     private presetSelect: HTMLSelectElement | null = null;
     private styleSelect: HTMLSelectElement | null = null;
+    private lightnessSelect: HTMLSelectElement | null = null;
     private baseColorInput: HTMLInputElement | null = null;
 
     constructor(containerId: string) {
@@ -84,6 +94,15 @@ export class EnvironmentPaletteEditor {
                         </select>
                     </div>
 
+                    <div class="env-palette-gen-group env-palette-style-group">
+                        <label>Lightness</label>
+                        <select id="envLightnessSelect" class="env-palette-select"
+                            title="How lightness is measured by generation and the harmony rules">
+                            <option value="hsl" title="HSL lightness (a 50% yellow looks much brighter than a 50% blue)">HSL</option>
+                            <option value="perceptual" title="OKLCH lightness, which follows how bright colors look">Perceptual</option>
+                        </select>
+                    </div>
+
                     <div class="env-palette-gen-group">
                         <label>Generate from Mood</label>
                         <div class="env-palette-gen-row">
@@ -115,10 +134,18 @@ export class EnvironmentPaletteEditor {
                     ${this.renderSlotGroups()}
                 </div>
 
+                <div class="env-palette-vision" id="envPaletteVision">
+                    ${this.renderColorVision()}
+                </div>
+
                 <div class="env-palette-analysis" id="envPaletteAnalysis">
                     <!-- Analysis will be rendered here -->
                 </div>
 
+                <div class="env-palette-import" id="envPaletteImport" hidden>
+                    <!-- Slot mapping of an imported palette will be rendered here -->
+                </div>
+
                 <div class="env-palette-actions">
                     <button id="envResetBtn" class="env-palette-btn env-palette-btn-secondary">
                         Reset to Defaults
@@ -126,6 +153,19 @@ export class EnvironmentPaletteEditor {
                     <button id="envUnlockAllBtn" class="env-palette-btn env-palette-btn-secondary">
                         Unlock All
                     </button>
+                    <button id="envImportBtn" class="env-palette-btn env-palette-btn-secondary" title="Load a .gpl, .ase, .hex or .pal palette file">
+                        Import Palette…
+                    </button>
+                    <div class="env-palette-export">
+                        <select id="envExportFormatSelect" class="env-palette-select">
+                            ${PALETTE_EXPORT_FORMATS.map(f =>
+                                `<option value="${f.id}" title="${f.description}">${f.name}</option>`
+                            ).join('')}
+                        </select>
+                        <button id="envExportBtn" class="env-palette-btn env-palette-btn-primary">
+                            Export Palette
+                        </button>
+                    </div>
                 </div>
             </div>
         `;
@@ -186,14 +226,46 @@ export class EnvironmentPaletteEditor {
         `;
     }
 
+    /**
+     * Renders the palette as seen with normal color vision and each simulated deficiency
+     */
+    private renderColorVision(): string {
+        const rows = [
+            { name: 'Normal', description: 'Normal color vision', simulate: (hex: string) => hex },
+            ...COLOR_VISION_DEFINITIONS.map(info => ({
+                name: info.name,
+                description: info.description,
+                simulate: (hex: string) => ColorVisionSimulator.simulateHex(hex, info.id)
+            }))
+        ];
+
+        return `
+            <h3 class="env-palette-group-title">Color Vision Preview</h3>
+            ${rows.map(row => `
+                <div class="env-palette-vision-row">
+                    <span class="env-palette-vision-label" title="${row.description}">${row.name}</span>
+                    <div class="env-palette-vision-swatches">
+                        ${SLOT_DEFINITIONS.map(slotDef => {
+                            const color = row.simulate(this.palette.getColor(slotDef.id));
+                            return `<span class="env-palette-vision-swatch" style="background-color: ${color}" title="${slotDef.name} ${color}"></span>`;
+                        }).join('')}
+                    </div>
+                </div>
+            `).join('')}
+        `;
+    }
+
     /**
      * Caches DOM element references
      */
     private cacheElements(): void {
         this.slotsContainer = document.getElementById('envPaletteSlots');
         this.analysisContainer = document.getElementById('envPaletteAnalysis');
+        this.visionContainer = document.getElementById('envPaletteVision');
+        this.importContainer = document.getElementById('envPaletteImport');
         this.presetSelect = document.getElementById('envPresetSelect') as HTMLSelectElement;
         this.styleSelect = document.getElementById('envStyleSelect') as HTMLSelectElement;
+        this.lightnessSelect = document.getElementById('envLightnessSelect') as HTMLSelectElement;
         this.baseColorInput = document.getElementById('envBaseColorInput') as HTMLInputElement;
     }
 
@@ -209,6 +281,9 @@ export class EnvironmentPaletteEditor {
         const deriveBtn = document.getElementById('envDeriveBtn');
         deriveBtn?.addEventListener('click', () => this.deriveFromBase());
 
+        // Lightness model (re-checks the palette)
+        this.lightnessSelect?.addEventListener('change', () => this.updateAnalysis());
+
         // Reset button
         const resetBtn = document.getElementById('envResetBtn');
         resetBtn?.addEventListener('click', () => this.resetPalette());
@@ -217,6 +292,14 @@ export class EnvironmentPaletteEditor {
         const unlockBtn = document.getElementById('envUnlockAllBtn');
         unlockBtn?.addEventListener('click', () => this.unlockAll());
 
+        // Palette import
+        const importBtn = document.getElementById('envImportBtn');
+        importBtn?.addEventListener('click', () => this.importPalette());
+
+        // Palette export
+        const exportBtn = document.getElementById('envExportBtn');
+        exportBtn?.addEventListener('click', () => this.exportPalette());
+
         // Color inputs
         this.container.querySelectorAll('.env-palette-slot-color').forEach(input => {
             input.addEventListener('input', (e) => this.handleColorChange(e));
@@ -319,6 +402,13 @@ export class EnvironmentPaletteEditor {
         return (this.styleSelect?.value as ArtStyle) || 'vibrant';
     }
 
+    /**
+     * Gets the currently selected lightness model
+     */
+    private getSelectedLightness(): LightnessModel {
+        return (this.lightnessSelect?.value as LightnessModel) || 'hsl';
+    }
+
     /**
      * Generates palette from selected preset
      */
@@ -327,7 +417,7 @@ export class EnvironmentPaletteEditor {
 
         const preset = this.presetSelect.value as MoodPreset;
         const style = this.getSelectedStyle();
-        const newPalette = PaletteGenerator.fromPreset(preset, style, true, this.palette);
+        const newPalette = PaletteGenerator.fromPreset(preset, style, true, this.palette, this.getSelectedLightness());
 
         // Copy colors from new palette to current (respecting locks handled by generator)
         const slotIds: SlotId[] = ['sky', 'water', 'grass', 'foliage', 'rock', 'dirt', 'bark', 'accent'];
@@ -346,7 +436,7 @@ export class EnvironmentPaletteEditor {
 
         const baseColor = this.baseColorInput.value;
         const style = this.getSelectedStyle();
-        const newPalette = PaletteGenerator.fromBaseColor(baseColor, style, true, this.palette);
+        const newPalette = PaletteGenerator.fromBaseColor(baseColor, style, true, this.palette, this.getSelectedLightness());
 
         // Copy colors from new palette
         const slotIds: SlotId[] = ['sky', 'water', 'grass', 'foliage', 'rock', 'dirt', 'bark', 'accent'];
@@ -379,6 +469,134 @@ export class EnvironmentPaletteEditor {
         });
     }
 
+    /**
+     * Downloads the palette in the selected format
+     */
+    private exportPalette(): void {
+        const select = document.getElementById('envExportFormatSelect') as HTMLSelectElement | null;
+        const format = (select?.value as PaletteExportFormat) || 'gpl';
+        PaletteStorage.downloadPalette(PaletteExporter.fromEnvironmentPalette(this.palette), format);
+    }
+
+    /**
+     * Loads a palette file and shows its colors mapped onto the slots for review
+     */
+    private async importPalette(): Promise<void> {
+        try {
+            this.importedPalette = await PaletteStorage.loadPaletteFromFile();
+            this.renderImport(PaletteSlotMapper.mapEnvironmentSlots(this.importedPalette.colors));
+        } catch (error) {
+            console.error('Failed to import palette:', error);
+            alert(error instanceof Error ? error.message : 'Failed to import palette');
+        }
+    }
+
+    /**
+     * Renders the imported colors and a color choice per slot
+     * Locked slots keep their color unless one is picked for them
+     */
+    private renderImport(mapping: SlotMapping<SlotId>): void {
+        if (!this.importContainer || !this.importedPalette) return;
+        const colors = this.importedPalette.colors;
+
+        this.importContainer.innerHTML = `
+            <h3 class="env-palette-group-title">
+                Import: ${this.escapeHtml(this.importedPalette.name)} (${colors.length} colors)
+            </h3>
+            <div class="env-palette-import-colors">
+                ${colors.map((c, i) => `
+                    <span class="env-palette-import-color" style="background-color: ${c.color}"
+                        title="${i + 1}. ${this.escapeHtml(c.name || c.color)}"></span>
+                `).join('')}
+            </div>
+            <div class="env-palette-import-slots">
+                ${SLOT_DEFINITIONS.map(slotDef => {
+                    const selected = this.palette.isLocked(slotDef.id) ? -1 : mapping[slotDef.id];
+                    const preview = selected === -1 ? this.palette.getColor(slotDef.id) : colors[selected].color;
+                    return `
+                        <label class="env-palette-import-slot">
+                            <span class="env-palette-import-slot-name">${slotDef.name}${this.palette.isLocked(slotDef.id) ? ' 🔒' : ''}</span>
+                            <span class="env-palette-import-preview" data-slot="${slotDef.id}" style="background-color: ${preview}"></span>
+                            <select class="env-palette-select env-palette-import-select" data-slot="${slotDef.id}">
+                                <option value="-1" ${selected === -1 ? 'selected' : ''}>(keep current)</option>
+                                ${colors.map((c, i) => `
+                                    <option value="${i}" ${selected === i ? 'selected' : ''}>
+                                        ${i + 1}. ${c.color}${c.name ? ` ${this.escapeHtml(c.name)}` : ''}
+                                    </option>
+                                `).join('')}
+                            </select>
+                        </label>
+                    `;
+                }).join('')}
+            </div>
+            <div class="env-palette-import-actions">
+                <button id="envImportAutoBtn" class="env-palette-btn env-palette-btn-secondary" title="Map colors to slots by name, hue and lightness">
+                    Auto-Map
+                </button>
+                <button id="envImportCancelBtn" class="env-palette-btn env-palette-btn-secondary">
+                    Cancel
+                </button>
+                <button id="envImportApplyBtn" class="env-palette-btn env-palette-btn-primary">
+                    Apply to Palette
+                </button>
+            </div>
+        `;
+        this.importContainer.hidden = false;
+
+        this.importContainer.querySelectorAll('.env-palette-import-select').forEach(select => {
+            select.addEventListener('change', (e) => {
+                const target = e.target as HTMLSelectElement;
+                const slotId = target.dataset.slot as SlotId;
+                const index = parseInt(target.value, 10);
+                const preview = this.importContainer?.querySelector(`.env-palette-import-preview[data-slot="${slotId}"]`) as HTMLElement | null;
+                if (preview) {
+                    preview.style.backgroundColor = index === -1 ? this.palette.getColor(slotId) : colors[index].color;
+                }
+            });
+        });
+        document.getElementById('envImportAutoBtn')?.addEventListener('click', () => {
+            this.renderImport(PaletteSlotMapper.mapEnvironmentSlots(colors));
+        });
+        document.getElementById('envImportCancelBtn')?.addEventListener('click', () => this.closeImport());
+        document.getElementById('envImportApplyBtn')?.addEventListener('click', () => this.applyImport());
+    }
+
+    /**
+     * Copies the chosen imported colors into the palette (the analysis updates on change)
+     */
+    private applyImport(): void {
+        if (!this.importContainer || !this.importedPalette) return;
+        const colors = this.importedPalette.colors;
+
+        this.importContainer.querySelectorAll('.env-palette-import-select').forEach(select => {
+            const target = select as HTMLSelectElement;
+            const index = parseInt(target.value, 10);
+            if (index !== -1) {
+                this.palette.setColor(target.dataset.slot as SlotId, colors[index].color);
+            }
+        });
+
+        console.log(`Imported palette: ${this.importedPalette.name}`);
+        this.closeImport();
+    }
+
+    /**
+     * Hides the import mapping
+     */
+    private closeImport(): void {
+        this.importedPalette = null;
+        if (this.importContainer) {
+            this.importContainer.hidden = true;
+            this.importContainer.innerHTML = '';
+        }
+    }
+
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+
     /**
      * Updates slot color displays after palette change
      */
@@ -398,13 +616,17 @@ export class EnvironmentPaletteEditor {
                 hexInput.value = color;
             }
         }
+
+        if (this.visionContainer) {
+            this.visionContainer.innerHTML = this.renderColorVision();
+        }
     }
 
     /**
      * Updates harmony analysis display
      */
     private updateAnalysis(): void {
-        this.analysis = HarmonyAnalyzer.analyze(this.palette);
+        this.analysis = HarmonyAnalyzer.analyze(this.palette, this.getSelectedLightness());
 
         // Refresh container reference to ensure it's valid
         this.analysisContainer = document.getElementById('envPaletteAnalysis');
@@ -4,6 +4,8 @@
  */
 
 import { InteriorPalette, InteriorSlotId } from '../Domain/InteriorPalette.js';
+import { ColorVisionDeficiency } from '../Domain/ColorVisionSimulator.js';
+import { ColorVisionFilter } from './ColorVisionFilter.js';
 
 /**
  * Indoor Scene Preview component
@@ -20,6 +22,7 @@ export class IndoorScenePreview {
     private OrbitControls: any;
     private GLTFExporter: any;
     private palette: InteriorPalette;
+    private colorVision: ColorVisionDeficiency | null = null;
     
     // Scene objects mapped to palette slots
     private materials: Map<InteriorSlotId, any> = new Map();
@@ -88,6 +91,7 @@ export class IndoorScenePreview {
         this.renderer.shadowMap.enabled = true;
         this.renderer.shadowMap.type = this.THREE.PCFSoftShadowMap;
         this.container.appendChild(this.renderer.domElement);
+        ColorVisionFilter.apply(this.renderer.domElement, this.colorVision);
 
         // Lighting - interior style
         // Ambient light (general room brightness) - higher for visibility
@@ -698,6 +702,17 @@ export class IndoorScenePreview {
         animate();
     }
 
+    /**
+     * Simulates a color vision deficiency on the rendered scene
+     * @param deficiency Null for normal color vision
+     */
+    setColorVision(deficiency: ColorVisionDeficiency | null): void {
+        this.colorVision = deficiency;
+        if (this.renderer) {
+            ColorVisionFilter.apply(this.renderer.domElement, deficiency);
+        }
+    }
+
     /**
      * Resets camera to default position
      */
@@ -6,6 +6,11 @@
 import { InteriorPalette, InteriorSlotId, INTERIOR_SLOT_DEFINITIONS, InteriorSlotGroup } from '../Domain/InteriorPalette.js';
 import { InteriorHarmonyAnalyzer, InteriorHarmonyAnalysis, InteriorHarmonySuggestion } from '../Domain/InteriorHarmonyAnalyzer.js';
 import { InteriorPaletteGenerator, InteriorMoodPreset, ArtStyle, INTERIOR_PRESET_DEFINITIONS, INTERIOR_STYLE_DEFINITIONS } from '../Domain/InteriorPaletteGenerator.js';
+import { COLOR_VISION_DEFINITIONS, ColorVisionSimulator } from '../Domain/ColorVisionSimulator.js';
+import { PALETTE_EXPORT_FORMATS, PaletteExportFormat, PaletteExporter } from '../Export/PaletteExporter.js';
+import { PaletteStorage } from '../Export/PaletteStorage.js';
+import { ImportedPalette } from '../Export/PaletteImporter.js';
+import { PaletteSlotMapper, SlotMapping } from '../Domain/PaletteSlotMapper.js';
 
 /**
  * Callback when a color is selected for use in texture adjuster
@@ -24,6 +29,9 @@ export class InteriorPaletteEditor {
     // UI elements
     private slotsContainer: HTMLElement | null = null;
     private analysisContainer: HTMLElement | null = null;
+    private visionContainer: HTMLElement | null = null;
+    private importContainer: HTMLElement | null = null;
+    private importedPalette: ImportedPalette | null = null;
     private presetSelect: HTMLSelectElement | null = null;
     private styleSelect: HTMLSelectElement | null = null;
     private baseColorInput: HTMLInputElement | null = null;
@@ -115,10 +123,18 @@ export class InteriorPaletteEditor {
                     ${this.renderSlotGroups()}
                 </div>
 
+                <div class="int-palette-vision" id="intPaletteVision">
+                    ${this.renderColorVision()}
+                </div>
+
                 <div class="int-palette-analysis" id="intPaletteAnalysis">
                     <!-- Analysis will be rendered here -->
                 </div>
 
+                <div class="int-palette-import" id="intPaletteImport" hidden>
+                    <!-- Slot mapping of an imported palette will be rendered here -->
+                </div>
+
                 <div class="int-palette-actions">
                     <button id="intResetBtn" class="int-palette-btn int-palette-btn-secondary">
                         Reset to Defaults
@@ -126,6 +142,19 @@ export class InteriorPaletteEditor {
                     <button id="intUnlockAllBtn" class="int-palette-btn int-palette-btn-secondary">
                         Unlock All
                     </button>
+                    <button id="intImportBtn" class="int-palette-btn int-palette-btn-secondary" title="Load a .gpl, .ase, .hex or .pal palette file">
+                        Import Palette…
+                    </button>
+                    <div class="int-palette-export">
+                        <select id="intExportFormatSelect" class="int-palette-select">
+                            ${PALETTE_EXPORT_FORMATS.map(f =>
+                                `<option value="${f.id}" title="${f.description}">${f.name}</option>`
+                            ).join('')}
+                        </select>
+                        <button id="intExportBtn" class="int-palette-btn int-palette-btn-primary">
+                            Export Palette
+                        </button>
+                    </div>
                 </div>
             </div>
         `;
@@ -185,12 +214,43 @@ export class InteriorPaletteEditor {
         `;
     }
 
+    /**
+     * Renders the palette as seen with normal color vision and each simulated deficiency
+     */
+    private renderColorVision(): string {
+        const rows = [
+            { name: 'Normal', description: 'Normal color vision', simulate: (hex: string) => hex },
+            ...COLOR_VISION_DEFINITIONS.map(info => ({
+                name: info.name,
+                description: info.description,
+                simulate: (hex: string) => ColorVisionSimulator.simulateHex(hex, info.id)
+            }))
+        ];
+
+        return `
+            <h3 class="int-palette-group-title">Color Vision Preview</h3>
+            ${rows.map(row => `
+                <div class="int-palette-vision-row">
+                    <span class="int-palette-vision-label" title="${row.description}">${row.name}</span>
+                    <div class="int-palette-vision-swatches">
+                        ${INTERIOR_SLOT_DEFINITIONS.map(slotDef => {
+                            const color = row.simulate(this.palette.getColor(slotDef.id));
+                            return `<span class="int-palette-vision-swatch" style="background-color: ${color}" title="${slotDef.name} ${color}"></span>`;
+                        }).join('')}
+                    </div>
+                </div>
+            `).join('')}
+        `;
+    }
+
     /**
      * Caches DOM element references
      */
     private cacheElements(): void {
         this.slotsContainer = document.getElementById('intPaletteSlots');
         this.analysisContainer = document.getElementById('intPaletteAnalysis');
+        this.visionContainer = document.getElementById('intPaletteVision');
+        this.importContainer = document.getElementById('intPaletteImport');
         this.presetSelect = document.getElementById('intPresetSelect') as HTMLSelectElement;
         this.styleSelect = document.getElementById('intStyleSelect') as HTMLSelectElement;
         this.baseColorInput = document.getElementById('intBaseColorInput') as HTMLInputElement;
@@ -216,6 +276,14 @@ export class InteriorPaletteEditor {
         const unlockBtn = document.getElementById('intUnlockAllBtn');
         unlockBtn?.addEventListener('click', () => this.unlockAll());
 
+        // Palette import
+        const importBtn = document.getElementById('intImportBtn');
+        importBtn?.addEventListener('click', () => this.importPalette());
+
+        // Palette export
+        const exportBtn = document.getElementById('intExportBtn');
+        exportBtn?.addEventListener('click', () => this.exportPalette());
+
         // Color inputs
         this.container.querySelectorAll('.int-palette-slot-color').forEach(input => {
             input.addEventListener('input', (e) => this.handleColorChange(e));
@@ -371,6 +439,134 @@ export class InteriorPaletteEditor {
         });
     }
 
+    /**
+     * Downloads the palette in the selected format
+     */
+    private exportPalette(): void {
+        const select = document.getElementById('intExportFormatSelect') as HTMLSelectElement | null;
+        const format = (select?.value as PaletteExportFormat) || 'gpl';
+        PaletteStorage.downloadPalette(PaletteExporter.fromInteriorPalette(this.palette), format);
+    }
+
+    /**
+     * Loads a palette file and shows its colors mapped onto the slots for review
+     */
+    private async importPalette(): Promise<void> {
+        try {
+            this.importedPalette = await PaletteStorage.loadPaletteFromFile();
+            this.renderImport(PaletteSlotMapper.mapInteriorSlots(this.importedPalette.colors));
+        } catch (error) {
+            console.error('Failed to import palette:', error);
+            alert(error instanceof Error ? error.message : 'Failed to import palette');
+        }
+    }
+
+    /**
+     * Renders the imported colors and a color choice per slot
+     * Locked slots keep their color unless one is picked for them
+     */
+    private renderImport(mapping: SlotMapping<InteriorSlotId>): void {
+        if (!this.importContainer || !this.importedPalette) return;
+        const colors = this.importedPalette.colors;
+
+        this.importContainer.innerHTML = `
+            <h3 class="int-palette-group-title">
+                Import: ${this.escapeHtml(this.importedPalette.name)} (${colors.length} colors)
+            </h3>
+            <div class="int-palette-import-colors">
+                ${colors.map((c, i) => `
+                    <span class="int-palette-import-color" style="background-color: ${c.color}"
+                        title="${i + 1}. ${this.escapeHtml(c.name || c.color)}"></span>
+                `).join('')}
+            </div>
+            <div class="int-palette-import-slots">
+                ${INTERIOR_SLOT_DEFINITIONS.map(slotDef => {
+                    const selected = this.palette.isLocked(slotDef.id) ? -1 : mapping[slotDef.id];
+                    const preview = selected === -1 ? this.palette.getColor(slotDef.id) : colors[selected].color;
+                    return `
+                        <label class="int-palette-import-slot">
+                            <span class="int-palette-import-slot-name">${slotDef.name}${this.palette.isLocked(slotDef.id) ? ' 🔒' : ''}</span>
+                            <span class="int-palette-import-preview" data-slot="${slotDef.id}" style="background-color: ${preview}"></span>
+                            <select class="int-palette-select int-palette-import-select" data-slot="${slotDef.id}">
+                                <option value="-1" ${selected === -1 ? 'selected' : ''}>(keep current)</option>
+                                ${colors.map((c, i) => `
+                                    <option value="${i}" ${selected === i ? 'selected' : ''}>
+                                        ${i + 1}. ${c.color}${c.name ? ` ${this.escapeHtml(c.name)}` : ''}
+                                    </option>
+                                `).join('')}
+                            </select>
+                        </label>
+                    `;
+                }).join('')}
+            </div>
+            <div class="int-palette-import-actions">
+                <button id="intImportAutoBtn" class="int-palette-btn int-palette-btn-secondary" title="Map colors to slots by name, hue and lightness">
+                    Auto-Map
+                </button>
+                <button id="intImportCancelBtn" class="int-palette-btn int-palette-btn-secondary">
+                    Cancel
+                </button>
+                <button id="intImportApplyBtn" class="int-palette-btn int-palette-btn-primary">
+                    Apply to Palette
+                </button>
+            </div>
+        `;
+        this.importContainer.hidden = false;
+
+        this.importContainer.querySelectorAll('.int-palette-import-select').forEach(select => {
+            select.addEventListener('change', (e) => {
+                const target = e.target as HTMLSelectElement;
+                const slotId = target.dataset.slot as InteriorSlotId;
+                const index = parseInt(target.value, 10);
+                const preview = this.importContainer?.querySelector(`.int-palette-import-preview[data-slot="${slotId}"]`) as HTMLElement | null;
+                if (preview) {
+                    preview.style.backgroundColor = index === -1 ? this.palette.getColor(slotId) : colors[index].color;
+                }
+            });
+        });
+        document.getElementById('intImportAutoBtn')?.addEventListener('click', () => {
+            this.renderImport(PaletteSlotMapper.mapInteriorSlots(colors));
+        });
+        document.getElementById('intImportCancelBtn')?.addEventListener('click', () => this.closeImport());
+        document.getElementById('intImportApplyBtn')?.addEventListener('click', () => this.applyImport());
+    }
+
+    /**
+     * Copies the chosen imported colors into the palette (the analysis updates on change)
+     */
+    private applyImport(): void {
+        if (!this.importContainer || !this.importedPalette) return;
+        const colors = this.importedPalette.colors;
+
+        this.importContainer.querySelectorAll('.int-palette-import-select').forEach(select => {
+            const target = select as HTMLSelectElement;
+            const index = parseInt(target.value, 10);
+            if (index !== -1) {
+                this.palette.setColor(target.dataset.slot as InteriorSlotId, colors[index].color);
+            }
+        });
+
+        console.log(`Imported palette: ${this.importedPalette.name}`);
+        this.closeImport();
+    }
+
+    /**
+     * Hides the import mapping
+     */
+    private closeImport(): void {
+        this.importedPalette = null;
+        if (this.importContainer) {
+            this.importContainer.hidden = true;
+            this.importContainer.innerHTML = '';
+        }
+    }
+
+    private escapeHtml(text: string): string {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+
     /**
      * Updates slot color displays after palette change
      */
@@ -390,6 +586,10 @@ export class InteriorPaletteEditor {
                 hexInput.value = color;
             }
         }
+
+        if (this.visionContainer) {
+            this.visionContainer.innerHTML = this.renderColorVision();
+        }
     }
 
     /**
@@ -1,4 +1,5 @@
 import { MultiRegionImageProcessor, ColorRegion } from '../Domain/MultiRegionImageProcessor.js';
+import { ImageProcessor } from '../Domain/ImageProcessor.js';
 
 /**
  * Multi-region texture adjuster component.
@@ -453,7 +454,7 @@ export class MultiRegionTextureAdjuster {
         const [r, g, b] = imageData.data;
         
         // Convert to HSL for the centroid
-        const hsl = this.rgbToHsl(r, g, b);
+        const hsl = ImageProcessor.rgbToHsl(r, g, b);
         
         // Update the region's centroid
         const region = this.regions.find(r => r.id === this.pickingSourceForRegion);
@@ -479,40 +480,6 @@ export class MultiRegionTextureAdjuster {
         }
     }
 
-    /**
-     * RGB to HSL conversion
-     */
-    private rgbToHsl(r: number, g: number, b: number): [number, number, number] {
-        r /= 255;
-        g /= 255;
-        b /= 255;
-
-        const max = Math.max(r, g, b);
-        const min = Math.min(r, g, b);
-        let h = 0;
-        let s = 0;
-        const l = (max + min) / 2;
-
-        if (max !== min) {
-            const d = max - min;
-            s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-            switch (max) {
-                case r:
-                    h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-                    break;
-                case g:
-                    h = ((b - r) / d + 2) / 6;
-                    break;
-                case b:
-                    h = ((r - g) / d + 4) / 6;
-                    break;
-            }
-        }
-
-        return [h * 360, s * 100, l * 100];
-    }
-
     /**
      * Generates a region name based on HSL values
      */
@@ -4,6 +4,8 @@
  */
 
 import { EnvironmentPalette, SlotId } from '../Domain/EnvironmentPalette.js';
+import { ColorVisionDeficiency } from '../Domain/ColorVisionSimulator.js';
+import { ColorVisionFilter } from './ColorVisionFilter.js';
 
 /**
  * Outdoor Scene Preview component
@@ -20,6 +22,7 @@ export class OutdoorScenePreview {
     private OrbitControls: any;
     private GLTFExporter: any;
     private palette: EnvironmentPalette;
+    private colorVision: ColorVisionDeficiency | null = null;
     
     // Scene objects mapped to palette slots
     private materials: Map<SlotId, any> = new Map();
@@ -89,6 +92,7 @@ export class OutdoorScenePreview {
         this.renderer.shadowMap.enabled = true;
         this.renderer.shadowMap.type = this.THREE.PCFSoftShadowMap;
         this.container.appendChild(this.renderer.domElement);
+        ColorVisionFilter.apply(this.renderer.domElement, this.colorVision);
 
         // Lighting - outdoor style
         // Ambient light (sky contribution)
@@ -488,6 +492,17 @@ export class OutdoorScenePreview {
         animate();
     }
 
+    /**
+     * Simulates a color vision deficiency on the rendered scene
+     * @param deficiency Null for normal color vision
+     */
+    setColorVision(deficiency: ColorVisionDeficiency | null): void {
+        this.colorVision = deficiency;
+        if (this.renderer) {
+            ColorVisionFilter.apply(this.renderer.domElement, deficiency);
+        }
+    }
+
     /**
      * Resets camera to default position
      */
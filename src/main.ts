@@ -8,6 +8,7 @@ import { EnvironmentPaletteEditor } from './PaletteGenerator/Presentation/Enviro
 import { OutdoorScenePreview } from './PaletteGenerator/Presentation/OutdoorScenePreview.js';
 import { InteriorPaletteEditor } from './PaletteGenerator/Presentation/InteriorPaletteEditor.js';
 import { IndoorScenePreview } from './PaletteGenerator/Presentation/IndoorScenePreview.js';
+import { COLOR_VISION_DEFINITIONS, ColorVisionDeficiency } from './PaletteGenerator/Domain/ColorVisionSimulator.js';
 
 /**
  * Application entry point
@@ -109,6 +110,11 @@ function init(): void {
             });
         }
 
+        // Color vision simulation on the outdoor scene
+        setupColorVisionSelect('outdoorVisionSelect', (deficiency) => {
+            outdoorScenePreview.setColorVision(deficiency);
+        });
+
         // Initialize Interior Palette Editor
         const interiorPaletteEditor = new InteriorPaletteEditor('interiorPaletteEditor');
         
@@ -130,6 +136,7 @@ function init(): void {
         // Indoor Scene Preview - lazy initialization (container is hidden initially)
         let indoorScenePreview: IndoorScenePreview | null = null;
         let indoorSceneInitialized = false;
+        let indoorColorVision: ColorVisionDeficiency | null = null;
 
         const initIndoorScene = () => {
             if (!indoorSceneInitialized) {
@@ -137,6 +144,7 @@ function init(): void {
                     'indoorSceneContainer',
                     interiorPaletteEditor.getPalette()
                 );
+                indoorScenePreview.setColorVision(indoorColorVision);
                 indoorSceneInitialized = true;
             }
         };
@@ -161,6 +169,14 @@ function init(): void {
             });
         }
 
+        // Color vision simulation on the indoor scene (kept until the scene is created)
+        setupColorVisionSelect('indoorVisionSelect', (deficiency) => {
+            indoorColorVision = deficiency;
+            if (indoorScenePreview) {
+                indoorScenePreview.setColorVision(deficiency);
+            }
+        });
+
         // Tab switching logic for Outdoor/Indoor
         const sceneTabs = document.querySelectorAll('.scene-tab');
         const outdoorSection = document.getElementById('outdoorSection');
@@ -310,6 +326,30 @@ function init(): void {
     }
 }
 
+/**
+ * Fills a color vision select with the simulated deficiencies and reports changes
+ * The select's first option (empty value) stands for normal color vision
+ */
+function setupColorVisionSelect(
+    selectId: string,
+    onChange: (deficiency: ColorVisionDeficiency | null) => void
+): void {
+    const select = document.getElementById(selectId) as HTMLSelectElement | null;
+    if (!select) return;
+
+    COLOR_VISION_DEFINITIONS.forEach(info => {
+        const option = document.createElement('option');
+        option.value = info.id;
+        option.textContent = info.name;
+        option.title = info.description;
+        select.appendChild(option);
+    });
+
+    select.addEventListener('change', () => {
+        onChange((select.value as ColorVisionDeficiency) || null);
+    });
+}
+
 // Initialize when DOM is ready
 if (document.readyState === 'loading') {
     document.addEventListener('DOMContentLoaded', init);
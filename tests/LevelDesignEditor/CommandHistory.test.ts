@@ -0,0 +1,215 @@
+/**
+ * Tests for the command history and level commands (undo/redo)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Level, DEFAULT_LAYER_ID } from '../../src/LevelDesignEditor/Domain/Level.js';
+import { CommandHistory } from '../../src/LevelDesignEditor/Domain/CommandHistory.js';
+import {
+    AddElementCommand,
+    AddLayerCommand,
+    ClearLevelCommand,
+    RemoveElementCommand,
+    RemoveLayerCommand,
+    RenameLevelCommand,
+    ReplaceLayerElementsCommand,
+    UpdateElementCommand
+} from '../../src/LevelDesignEditor/Domain/LevelCommands.js';
+import { createFloorElement, createWallElement } from '../../src/LevelDesignEditor/Domain/LevelElement.js';
+
+/**
+ * Creates a level with a history
+ */
+function setup(maxSize?: number): { level: Level; history: CommandHistory } {
+    const level = new Level(20, 20, 'Test');
+    return { level, history: new CommandHistory(level, maxSize) };
+}
+
+/**
+ * Lists the level's element IDs, sorted
+ */
+function elementIds(level: Level): string[] {
+    return level.getAllElements().map(element => element.id).sort();
+}
+
+describe('CommandHistory', () => {
+    it('undoes and redoes an added element', () => {
+        const { level, history } = setup();
+        const wall = createWallElement(1, 1, 4, 1);
+
+        history.execute(new AddElementCommand(wall));
+        assert.deepEqual(elementIds(level), [wall.id]);
+
+        assert.equal(history.undo(), true);
+        assert.equal(level.getElementCount(), 0);
+        assert.equal(history.canRedo(), true);
+
+        assert.equal(history.redo(), true);
+        assert.deepEqual(elementIds(level), [wall.id]);
+        assert.equal(history.undo() && history.undo(), false);
+    });
+
+    it('restores the previous values of an update', () => {
+        const { level, history } = setup();
+        const wall = createWallElement(1, 1, 4, 1, 3);
+        history.execute(new AddElementCommand(wall));
+
+        history.execute(new UpdateElementCommand(wall.id, { gridX: 5, wallHeight: 2 }));
+        assert.equal(level.getElement(wall.id)?.gridX, 5);
+
+        history.undo();
+        const restored = level.getElement(wall.id);
+        assert.equal(restored?.gridX, 1);
+        assert.equal(restored?.type === 'wall' && restored.wallHeight, 3);
+    });
+
+    it('restores a removed element with its fields', () => {
+        const { level, history } = setup();
+        const floor = createFloorElement(2, 3, 4, 5, 1.5);
+        history.execute(new AddElementCommand(floor));
+        history.execute(new RemoveElementCommand(floor.id));
+        assert.equal(level.getElement(floor.id), undefined);
+
+        history.undo();
+        assert.deepEqual(level.getElement(floor.id), floor);
+    });
+
+    it('records a group as one step and undoes it in reverse order', () => {
+        const { level, history } = setup();
+        const wall = createWallElement(0, 0, 2, 1);
+
+        history.group('Build', () => {
+            history.execute(new AddElementCommand(wall));
+            history.execute(new UpdateElementCommand(wall.id, { gridY: 4 }));
+        });
+        assert.deepEqual(history.getEntries().map(entry => entry.label), ['Build']);
+
+        history.undo();
+        assert.equal(level.getElementCount(), 0);
+        history.redo();
+        assert.equal(level.getElement(wall.id)?.gridY, 4);
+    });
+
+    it('keeps only the outer label of nested groups and skips empty ones', () => {
+        const { history } = setup();
+
+        history.beginGroup('Outer');
+        history.beginGroup('Inner');
+        history.execute(new AddElementCommand(createWallElement(0, 0, 1, 1)));
+        history.endGroup();
+        assert.equal(history.canUndo(), false);
+        history.endGroup();
+
+        history.group('Empty', () => {});
+        assert.deepEqual(history.getEntries().map(entry => entry.label), ['Outer']);
+    });
+
+    it('discards the redo branch when a new step is executed', () => {
+        const { level, history } = setup();
+        const first = createWallElement(0, 0, 1, 1);
+        const second = createWallElement(2, 2, 1, 1);
+
+        history.execute(new AddElementCommand(first));
+        history.undo();
+        history.execute(new AddElementCommand(second));
+
+        assert.equal(history.canRedo(), false);
+        assert.deepEqual(elementIds(level), [second.id]);
+    });
+
+    it('drops the oldest steps beyond the size limit', () => {
+        const { level, history } = setup(2);
+        const walls = [0, 1, 2].map(i => createWallElement(i, 0, 1, 1));
+        walls.forEach(wall => history.execute(new AddElementCommand(wall)));
+
+        assert.equal(history.getAppliedCount(), 2);
+        while (history.undo()) { /* undo everything */ }
+        assert.deepEqual(elementIds(level), [walls[0].id]);
+    });
+
+    it('jumps to a step in the timeline', () => {
+        const { level, history } = setup();
+        [0, 1, 2].forEach(i => history.execute(new AddElementCommand(createWallElement(i, 0, 1, 1))));
+
+        history.jumpTo(1);
+        assert.equal(level.getElementCount(), 1);
+        assert.deepEqual(history.getEntries().map(entry => entry.applied), [true, false, false]);
+
+        history.jumpTo(3);
+        assert.equal(level.getElementCount(), 3);
+    });
+
+    it('notifies listeners of changes', () => {
+        const { history } = setup();
+        let calls = 0;
+        history.onChange(() => calls++);
+
+        history.execute(new AddElementCommand(createWallElement(0, 0, 1, 1)));
+        history.undo();
+        history.redo();
+        assert.equal(calls, 3);
+    });
+});
+
+describe('LevelCommands', () => {
+    it('clears the level and restores every element', () => {
+        const { level, history } = setup();
+        const elements = [createWallElement(0, 0, 1, 1), createFloorElement(0, 0, 4, 4)];
+        level.addElements(elements);
+
+        history.execute(new ClearLevelCommand());
+        assert.equal(level.getElementCount(), 0);
+        history.undo();
+        assert.deepEqual(elementIds(level), elements.map(element => element.id).sort());
+    });
+
+    it('renames the level and restores the old name', () => {
+        const { level, history } = setup();
+        history.execute(new RenameLevelCommand('Renamed'));
+        assert.equal(level.getName(), 'Renamed');
+        history.undo();
+        assert.equal(level.getName(), 'Test');
+    });
+
+    it('removes a layer with its elements and restores both', () => {
+        const { level, history } = setup();
+        const layer = { id: 'upper', name: 'Upper', baseElevation: 3, visible: true, locked: false };
+        history.execute(new AddLayerCommand(layer));
+        const wall = { ...createWallElement(0, 0, 1, 1), layerId: 'upper' };
+        level.addElement(wall);
+
+        history.execute(new RemoveLayerCommand('upper'));
+        assert.equal(level.getLayer('upper'), undefined);
+        assert.equal(level.getElement(wall.id), undefined);
+
+        history.undo();
+        assert.deepEqual(level.getLayer('upper'), layer);
+        assert.equal(level.getElement(wall.id)?.layerId, 'upper');
+    });
+
+    it('replaces only the elements centered in an area, raised to the layer', () => {
+        const { level, history } = setup();
+        const layer = { id: 'upper', name: 'Upper', baseElevation: 3, visible: true, locked: false };
+        level.addLayer(layer);
+        const inside = { ...createFloorElement(0, 0, 2, 2), layerId: 'upper' };
+        const outside = { ...createFloorElement(10, 10, 2, 2), layerId: 'upper' };
+        const ground = createFloorElement(0, 0, 2, 2);
+        level.addElements([inside, outside, ground]);
+
+        const replacement = createFloorElement(1, 1, 2, 2, 0.5);
+        const area = { gridX: 0, gridY: 0, width: 5, depth: 5 };
+        history.execute(new ReplaceLayerElementsCommand('upper', [replacement], 'Generate', area));
+
+        assert.deepEqual(elementIds(level), [outside.id, ground.id, replacement.id].sort());
+        const added = level.getElement(replacement.id);
+        assert.equal(added?.layerId, 'upper');
+        assert.equal(added?.type === 'floor' && added.elevation, 3.5);
+        assert.equal(level.getElementLayerId(ground), DEFAULT_LAYER_ID);
+
+        history.undo();
+        assert.deepEqual(elementIds(level), [inside.id, outside.id, ground.id].sort());
+        history.redo();
+        assert.equal(level.getElement(replacement.id)?.layerId, 'upper');
+    });
+});
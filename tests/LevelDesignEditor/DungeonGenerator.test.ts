@@ -0,0 +1,63 @@
+/**
+ * Tests for the seeded dungeon generator
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Level } from '../../src/LevelDesignEditor/Domain/Level.js';
+import { DungeonAlgorithm, DungeonGenerator, DungeonOptions } from '../../src/LevelDesignEditor/Domain/DungeonGenerator.js';
+import { ReachabilityAnalyzer } from '../../src/LevelDesignEditor/Domain/ReachabilityAnalyzer.js';
+import { AnyLevelElement, isSpawnElement } from '../../src/LevelDesignEditor/Domain/LevelElement.js';
+
+const ALGORITHMS: DungeonAlgorithm[] = ['bsp', 'caves', 'drunkard'];
+
+/**
+ * Generates a dungeon on an empty level
+ */
+function generate(options: Partial<DungeonOptions>, size: number = 40): AnyLevelElement[] {
+    return DungeonGenerator.generate(new Level(size, size, 'Test'), options);
+}
+
+/**
+ * Strips element IDs, which differ between runs
+ */
+function layout(elements: AnyLevelElement[]): string {
+    return JSON.stringify(elements.map(({ id, ...element }) => element));
+}
+
+describe('DungeonGenerator', () => {
+    ALGORITHMS.forEach(algorithm => {
+        it(`gives the same ${algorithm} layout for the same seed`, () => {
+            const first = generate({ algorithm, seed: 42 });
+            const second = generate({ algorithm, seed: 42 });
+
+            assert.ok(first.length > 0);
+            assert.equal(layout(second), layout(first));
+            assert.notEqual(layout(generate({ algorithm, seed: 43 })), layout(first));
+        });
+
+        it(`places reachable spawns in a ${algorithm} layout`, () => {
+            const elements = generate({ algorithm, seed: 7, enemyCount: 3, itemCount: 2 });
+            const spawns = elements.filter(isSpawnElement);
+            assert.deepEqual(
+                spawns.map(spawn => spawn.spawnType).sort(),
+                ['enemy', 'enemy', 'enemy', 'item', 'item', 'player']
+            );
+
+            const level = new Level(40, 40, 'Test');
+            level.addElements(elements);
+            const report = ReachabilityAnalyzer.analyze(level);
+            assert.deepEqual(report.results.filter(result => !result.reachable), []);
+        });
+    });
+
+    it('does not change the level', () => {
+        const level = new Level(30, 30, 'Test');
+        DungeonGenerator.generate(level, { seed: 1 });
+        assert.equal(level.getElementCount(), 0);
+    });
+
+    it('rejects grids too small to hold a dungeon', () => {
+        assert.throws(() => generate({}, 4), /at least 5 x 5/);
+    });
+});
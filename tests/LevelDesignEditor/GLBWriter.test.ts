@@ -0,0 +1,152 @@
+/**
+ * Tests for the GLB writer and the level geometry it writes
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Level } from '../../src/LevelDesignEditor/Domain/Level.js';
+import { createDoorElement, createWallElement } from '../../src/LevelDesignEditor/Domain/LevelElement.js';
+import { GLBWriter } from '../../src/LevelDesignEditor/Export/GLBWriter.js';
+import { GeometryNode, LevelGeometryBuilder } from '../../src/LevelDesignEditor/Export/LevelGeometryBuilder.js';
+
+/**
+ * A parsed GLB file
+ */
+interface ParsedGLB {
+    json: any;
+    bin: Uint8Array<ArrayBuffer> | null;
+}
+
+/**
+ * Splits a GLB file into its JSON and binary chunks, checking the container layout
+ */
+function parseGLB(bytes: Uint8Array): ParsedGLB {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    assert.equal(view.getUint32(0, true), 0x46546c67, 'magic');
+    assert.equal(view.getUint32(4, true), 2, 'container version');
+    assert.equal(view.getUint32(8, true), bytes.length, 'total length');
+
+    const jsonLength = view.getUint32(12, true);
+    assert.equal(view.getUint32(16, true), 0x4e4f534a, 'JSON chunk type');
+    assert.equal(jsonLength % 4, 0, 'JSON chunk alignment');
+    const json = JSON.parse(new TextDecoder().decode(bytes.subarray(20, 20 + jsonLength)));
+
+    const binStart = 20 + jsonLength;
+    if (binStart === bytes.length) {
+        return { json, bin: null };
+    }
+    const binLength = view.getUint32(binStart, true);
+    assert.equal(view.getUint32(binStart + 4, true), 0x004e4942, 'BIN chunk type');
+    assert.equal(binLength % 4, 0, 'BIN chunk alignment');
+    assert.equal(binStart + 8 + binLength, bytes.length);
+    return { json, bin: bytes.slice(binStart + 8, binStart + 8 + binLength) };
+}
+
+/**
+ * Reads the values of an accessor from the binary chunk
+ */
+function readAccessor(glb: ParsedGLB, index: number): number[] {
+    const accessor = glb.json.accessors[index];
+    const bufferView = glb.json.bufferViews[accessor.bufferView];
+    const buffer = glb.bin!.buffer.slice(bufferView.byteOffset, bufferView.byteOffset + bufferView.byteLength);
+    const arrays: Record<number, new (buffer: ArrayBuffer) => ArrayLike<number>> = {
+        5126: Float32Array,
+        5123: Uint16Array,
+        5125: Uint32Array
+    };
+    return Array.from(new arrays[accessor.componentType](buffer));
+}
+
+/**
+ * A node holding one triangle
+ */
+function triangleNode(): GeometryNode {
+    return {
+        name: 'Triangle',
+        translation: [1, 2, 3],
+        rotation: [0, 0.7071067811865476, 0, 0.7071067811865476],
+        mesh: {
+            material: 'wall',
+            positions: [0, 0, 0, 1, 0, 0, 0, 0.1, 1],
+            normals: [0, 1, 0, 0, 1, 0, 0, 1, 0],
+            indices: [0, 2, 1]
+        },
+        extras: { elementId: 't1' },
+        children: []
+    };
+}
+
+describe('GLBWriter', () => {
+    it('writes a scene without meshes as a JSON-only GLB', () => {
+        const glb = parseGLB(GLBWriter.write({ name: 'Empty', translation: [0, 0, 0], rotation: [0, 0, 0, 1], children: [] }));
+
+        assert.equal(glb.bin, null);
+        assert.deepEqual(glb.json.nodes, [{ name: 'Empty' }]);
+        assert.deepEqual(glb.json.scenes, [{ nodes: [0] }]);
+        assert.equal(glb.json.buffers, undefined);
+        assert.equal(glb.json.meshes, undefined);
+    });
+
+    it('writes node transforms, extras and children', () => {
+        const root: GeometryNode = {
+            name: 'Root', translation: [0, 0, 0], rotation: [0, 0, 0, 1], children: [triangleNode()]
+        };
+        const glb = parseGLB(GLBWriter.write(root));
+
+        assert.deepEqual(glb.json.nodes[0], { name: 'Root', children: [1] });
+        assert.deepEqual(glb.json.nodes[1].translation, [1, 2, 3]);
+        assert.deepEqual(glb.json.nodes[1].rotation, [0, 0.7071067811865476, 0, 0.7071067811865476]);
+        assert.deepEqual(glb.json.nodes[1].extras, { elementId: 't1' });
+        assert.equal(glb.json.nodes[1].mesh, 0);
+    });
+
+    it('stores positions, normals and indices with exact bounds', () => {
+        const glb = parseGLB(GLBWriter.write(triangleNode()));
+        const primitive = glb.json.meshes[0].primitives[0];
+
+        const position = glb.json.accessors[primitive.attributes.POSITION];
+        assert.deepEqual(position.min, [0, 0, 0]);
+        assert.deepEqual(position.max, [1, Math.fround(0.1), 1]);
+        assert.deepEqual(readAccessor(glb, primitive.attributes.POSITION), [0, 0, 0, 1, 0, 0, 0, Math.fround(0.1), 1]);
+        assert.deepEqual(readAccessor(glb, primitive.attributes.NORMAL), [0, 1, 0, 0, 1, 0, 0, 1, 0]);
+        assert.deepEqual(readAccessor(glb, primitive.indices), [0, 2, 1]);
+        assert.equal(glb.json.accessors[primitive.indices].componentType, 5123);
+
+        glb.json.bufferViews.forEach((bufferView: { byteOffset: number }) => assert.equal(bufferView.byteOffset % 4, 0));
+    });
+
+    it('converts material colors to linear and shares materials', () => {
+        const root: GeometryNode = {
+            name: 'Root', translation: [0, 0, 0], rotation: [0, 0, 0, 1], children: [triangleNode(), triangleNode()]
+        };
+        const glb = parseGLB(GLBWriter.write(root));
+
+        assert.equal(glb.json.materials.length, 1);
+        const [r, g, b, a] = glb.json.materials[0].pbrMetallicRoughness.baseColorFactor;
+        // Wall color 0x718096 in linear space
+        assert.ok(Math.abs(r - 0.1651) < 1e-3);
+        assert.ok(Math.abs(g - 0.2159) < 1e-3);
+        assert.ok(Math.abs(b - 0.3049) < 1e-3);
+        assert.equal(a, 1);
+        assert.equal(glb.json.meshes[0].primitives[0].material, glb.json.meshes[1].primitives[0].material);
+    });
+
+    it('writes a level with layer and element nodes', () => {
+        const level = new Level(10, 10, 'Export');
+        const wall = createWallElement(2, 4, 4, 1, 3);
+        const door = createDoorElement(wall, 3, 4);
+        level.addElements([wall, door]);
+
+        const glb = parseGLB(GLBWriter.write(new LevelGeometryBuilder(level).build()));
+        const byName = new Map(glb.json.nodes.map((node: any) => [node.name, node]));
+
+        assert.deepEqual(glb.json.nodes[0].extras, { levelName: 'Export' });
+        assert.ok(byName.has('Layer_Ground_Floor'));
+        const wallNode: any = byName.get(`Wall_${wall.id}`);
+        assert.deepEqual(wallNode.translation, [4, 0, 4.5]);
+        assert.equal(wallNode.extras.elementType, 'wall');
+        const doorNode: any = byName.get(`Door_${door.id}`);
+        assert.equal(doorNode.extras.wallId, wall.id);
+        assert.equal(doorNode.extras.openingType, 'door');
+    });
+});
@@ -0,0 +1,204 @@
+/**
+ * Tests for the Godot scene exporter, checking node transforms against the 2D footprints
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Level } from '../../src/LevelDesignEditor/Domain/Level.js';
+import {
+    AnyLevelElement,
+    createDoorElement,
+    createFloorElement,
+    createSpawnElement,
+    createStairElement,
+    createWallBetween,
+    createWallElement,
+    getElementCorners
+} from '../../src/LevelDesignEditor/Domain/LevelElement.js';
+import { GodotSceneExporter } from '../../src/LevelDesignEditor/Export/GodotSceneExporter.js';
+
+type Vector3 = [number, number, number];
+
+/**
+ * A [node] or [sub_resource] section of a .tscn file
+ */
+interface SceneSection {
+    header: string;
+    properties: Map<string, string>;
+}
+
+/**
+ * A parsed .tscn file
+ */
+interface ParsedScene {
+    /** Node sections by path relative to the root */
+    nodes: Map<string, SceneSection>;
+    /** Sub resource sections by ID */
+    resources: Map<string, SceneSection>;
+}
+
+/**
+ * Splits .tscn text into its node and sub resource sections
+ */
+function parseScene(text: string): ParsedScene {
+    const scene: ParsedScene = { nodes: new Map(), resources: new Map() };
+    text.split('\n\n').forEach(block => {
+        const [header, ...lines] = block.trim().split('\n');
+        const properties = new Map(lines.map(line => {
+            const separator = line.indexOf(' = ');
+            return [line.slice(0, separator), line.slice(separator + 3)] as [string, string];
+        }));
+        const section = { header, properties };
+
+        const node = header.match(/^\[node name="([^"]+)"/);
+        if (node) {
+            const parent = header.match(/ parent="([^"]+)"/)?.[1];
+            const path = parent === undefined ? '' : parent === '.' ? node[1] : `${parent}/${node[1]}`;
+            scene.nodes.set(path, section);
+        }
+        const resource = header.match(/^\[sub_resource type="[^"]+" id="([^"]+)"\]/);
+        if (resource) {
+            scene.resources.set(resource[1], section);
+        }
+    });
+    return scene;
+}
+
+/**
+ * Reads the numbers of a value like `Transform3D(...)` or `Vector3(...)`
+ */
+function numbers(value: string | undefined): number[] {
+    assert.ok(value, 'missing value');
+    return value.slice(value.indexOf('(') + 1, value.lastIndexOf(')')).split(',').map(Number);
+}
+
+/**
+ * Applies a Transform3D (basis rows, then origin) to a point
+ */
+function apply(transform: number[], [x, y, z]: Vector3): Vector3 {
+    const [xx, xy, xz, yx, yy, yz, zx, zy, zz, ox, oy, oz] = transform;
+    return [xx * x + xy * y + xz * z + ox, yx * x + yy * y + yz * z + oy, zx * x + zy * y + zz * z + oz];
+}
+
+/**
+ * Gets the world-space corners of a body's collision box, on its base, as grid (x, z) points
+ */
+function boxFootprint(scene: ParsedScene, bodyPath: string, shapeName: string = 'CollisionShape3D'): Array<[number, number]> {
+    const body = numbers(scene.nodes.get(bodyPath)?.properties.get('transform'));
+    const shapeNode = scene.nodes.get(`${bodyPath}/${shapeName}`);
+    const offset = numbers(shapeNode?.properties.get('transform'));
+    const shapeId = shapeNode?.properties.get('shape')?.match(/SubResource\("([^"]+)"\)/)?.[1];
+    const [sizeX, , sizeZ] = numbers(scene.resources.get(shapeId ?? '')?.properties.get('size'));
+
+    // Clockwise from top-left, like getElementCorners
+    const corners: Array<[number, number]> = [[-1, -1], [1, -1], [1, 1], [-1, 1]];
+    return corners.map(([sx, sz]) => {
+        const local = apply(offset, [sx * sizeX / 2, 0, sz * sizeZ / 2]);
+        const [x, , z] = apply(body, local);
+        return [x, z];
+    });
+}
+
+/**
+ * Checks that two lists of points match to the precision of the exported numbers
+ */
+function assertPointsClose(actual: number[][], expected: number[][]): void {
+    assert.equal(actual.length, expected.length);
+    actual.forEach((point, i) => {
+        point.forEach((value, j) => {
+            assert.ok(Math.abs(value - expected[i][j]) < 1e-5, `point ${i}: ${point} is not ${expected[i]}`);
+        });
+    });
+}
+
+/**
+ * Exports a level made of the given elements
+ */
+function exportScene(elements: AnyLevelElement[], includeMeshes: boolean = false): ParsedScene {
+    const level = new Level(20, 20, 'Test');
+    level.addElements(elements);
+    return parseScene(new GodotSceneExporter(level).export({ includeMeshes }));
+}
+
+describe('GodotSceneExporter', () => {
+    [0, 30, 90, 200].forEach(rotation => {
+        it(`places the collision box of a floor turned ${rotation} degrees over its footprint`, () => {
+            const floor = { ...createFloorElement(2, 3, 4, 2, 1), rotation };
+            const scene = exportScene([floor]);
+
+            assertPointsClose(boxFootprint(scene, `Layer_Ground_Floor/Floor_${floor.id}`), getElementCorners(floor));
+            const body = numbers(scene.nodes.get(`Layer_Ground_Floor/Floor_${floor.id}`)?.properties.get('transform'));
+            assert.equal(body[10], 1);
+        });
+    });
+
+    it('places a diagonal wall between its end points', () => {
+        const wall = createWallBetween(1, 1, 7, 5, 0.5);
+        const scene = exportScene([wall]);
+
+        assertPointsClose(boxFootprint(scene, `Layer_Ground_Floor/Wall_${wall.id}`), getElementCorners(wall));
+    });
+
+    it('splits walls around doors and places the door relative to its wall', () => {
+        const wall = createWallElement(2, 4, 4, 1, 3);
+        const door = createDoorElement(wall, 3, 4);
+        const scene = exportScene([wall, door]);
+        const path = `Layer_Ground_Floor/Wall_${wall.id}`;
+
+        assert.deepEqual(numbers(scene.nodes.get(path)?.properties.get('transform')), [1, 0, 0, 0, 1, 0, 0, 0, 1, 4, 0, 4.5]);
+        // Left of the door, right of the door and above it
+        assert.ok(scene.nodes.has(`${path}/CollisionShape3D3`));
+        assert.ok(!scene.nodes.has(`${path}/CollisionShape3D4`));
+
+        const doorNode = scene.nodes.get(`${path}/Door_${door.id}`);
+        const [, , , , , , , , , x, y, z] = numbers(doorNode?.properties.get('transform'));
+        assert.deepEqual([x, y, z], [door.gridX + door.width / 2 - 4, door.height / 2, 0]);
+        assert.equal(doorNode?.properties.get('metadata/wall_id'), `"${wall.id}"`);
+    });
+
+    it('gives stairs a box per step on their base elevation', () => {
+        const stair = createStairElement(0, 0, 2, 4, 'north', 1, 2, 4);
+        const scene = exportScene([stair]);
+        const path = `Layer_Ground_Floor/Stair_${stair.id}`;
+
+        assert.equal(numbers(scene.nodes.get(path)?.properties.get('transform'))[10], 1);
+        const tops = ['', '2', '3', '4'].map(suffix => {
+            const shapeNode = scene.nodes.get(`${path}/CollisionShape3D${suffix}`);
+            const [, offsetY, offsetZ] = numbers(shapeNode?.properties.get('transform')).slice(9);
+            const shapeId = shapeNode?.properties.get('shape')?.match(/SubResource\("([^"]+)"\)/)?.[1];
+            const [, sizeY] = numbers(scene.resources.get(shapeId ?? '')?.properties.get('size'));
+            return [offsetY + sizeY / 2, offsetZ];
+        });
+        // Climbing north: each step is higher and further towards -Z
+        assert.deepEqual(tops, [[0.25, 1.5], [0.5, 0.5], [0.75, -0.5], [1, -1.5]]);
+    });
+
+    it('writes spawns as markers grouped by spawn type', () => {
+        const spawn = { ...createSpawnElement(5, 5, 'enemy'), tags: ['boss'] };
+        const scene = exportScene([spawn]);
+        const marker = scene.nodes.get(`Layer_Ground_Floor/Spawn_${spawn.id}`);
+
+        assert.match(marker?.header ?? '', /type="Marker3D".* groups=\["enemy", "boss"\]\]$/);
+        assert.deepEqual(numbers(marker?.properties.get('transform')), [1, 0, 0, 0, 1, 0, 0, 0, 1, 5.5, 0, 5.5]);
+        assert.equal(marker?.properties.get('metadata/spawn_type'), '"enemy"');
+    });
+
+    it('adds meshes next to collision shapes only when asked', () => {
+        const floor = createFloorElement(0, 0, 2, 2);
+        const path = `Layer_Ground_Floor/Floor_${floor.id}`;
+
+        assert.ok(!exportScene([floor]).nodes.has(`${path}/MeshInstance3D`));
+        assert.ok(exportScene([floor], true).nodes.has(`${path}/MeshInstance3D`));
+    });
+
+    it('exports a single layer', () => {
+        const level = new Level(10, 10, 'Layers');
+        level.addLayer({ id: 'upper', name: 'Upper', baseElevation: 3, visible: true, locked: false });
+        const roof = { ...createFloorElement(0, 0, 2, 2, 3), layerId: 'upper' };
+        level.addElements([createFloorElement(0, 0, 2, 2), roof]);
+
+        const scene = parseScene(new GodotSceneExporter(level).export({ layerId: 'upper' }));
+        const paths = Array.from(scene.nodes.keys()).filter(path => path.split('/').length <= 2);
+        assert.deepEqual(paths, ['', 'Layer_Upper', `Layer_Upper/Floor_${roof.id}`]);
+    });
+});
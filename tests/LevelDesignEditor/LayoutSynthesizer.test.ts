@@ -0,0 +1,125 @@
+/**
+ * Tests for WFC layout synthesis
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LayoutSynthesizer, LayoutTile, TileMap } from '../../src/LevelDesignEditor/Domain/LayoutSynthesizer.js';
+
+/**
+ * Builds a tile map from rows of characters (. empty, f floor, w wall, e enemy, i item)
+ */
+function tileMap(rows: string[]): TileMap {
+    const names: Record<string, LayoutTile> = { '.': 'empty', f: 'floor', w: 'wall', e: 'enemy', i: 'item' };
+    return {
+        width: rows[0].length,
+        height: rows.length,
+        tiles: rows.flatMap(row => row.split('').map(char => names[char]))
+    };
+}
+
+/**
+ * A room: walls around a floor with an enemy and an item
+ */
+const ROOM = tileMap([
+    'wwwwwww',
+    'wfffffw',
+    'wfefffw',
+    'wfffifw',
+    'wfffffw',
+    'wwwwwww'
+]);
+
+describe('LayoutSynthesizer', () => {
+    it('fills the output with the only pattern of a uniform example', () => {
+        const result = LayoutSynthesizer.synthesize(tileMap(['ffff', 'ffff', 'ffff']), { width: 6, height: 5 });
+
+        assert.ok(result.success);
+        assert.deepEqual(result.map, { width: 6, height: 5, tiles: new Array(30).fill('floor') });
+    });
+
+    it('gives the same layout for the same seed', () => {
+        const options = { width: 16, height: 12, patternSize: 3, seed: 5 };
+        const first = LayoutSynthesizer.synthesize(ROOM, options);
+        const second = LayoutSynthesizer.synthesize(ROOM, options);
+
+        assert.ok(first.success && second.success);
+        assert.deepEqual(second.map, first.map);
+    });
+
+    it('only uses tiles from the example', () => {
+        const result = LayoutSynthesizer.synthesize(ROOM, { width: 12, height: 12, seed: 3 });
+
+        assert.ok(result.success);
+        assert.ok(result.map.tiles.every(tile => ROOM.tiles.includes(tile)));
+    });
+
+    it('keeps locked cells', () => {
+        const locked: Array<LayoutTile | null> = new Array(100).fill(null);
+        locked[0] = 'wall';
+        locked[55] = 'floor';
+        const result = LayoutSynthesizer.synthesize(ROOM, { width: 10, height: 10, patternSize: 2, locked });
+
+        assert.ok(result.success);
+        assert.equal(result.map.tiles[0], 'wall');
+        assert.equal(result.map.tiles[55], 'floor');
+    });
+
+    it('reports the cell of the last contradiction when every attempt fails', () => {
+        // Irregular enough that both seeds run into a cell no pattern fits
+        const sample = tileMap(['wwfww', 'fffff', 'wwwww', 'ffwww', 'wfffw']);
+        const result = LayoutSynthesizer.synthesize(sample, {
+            width: 10, height: 10, patternSize: 2, symmetry: false, seed: 1, maxAttempts: 2
+        });
+
+        assert.ok(!result.success);
+        assert.equal(result.attempts, 2);
+        assert.deepEqual(result.cell, { x: 2, y: 4 });
+        assert.match(result.error, /^No layout found in 2 attempts: the last one reached a contradiction at cell \(2, 4\)/);
+    });
+
+    it('reports examples whose patterns cannot be placed next to each other', () => {
+        // The only pattern cannot sit next to itself
+        const result = LayoutSynthesizer.synthesize(tileMap(['fw', 'ww']), {
+            width: 4, height: 4, patternSize: 2, symmetry: false
+        });
+
+        assert.ok(!result.success);
+        assert.equal(result.attempts, 1);
+        assert.deepEqual(result.cell, { x: 0, y: 0 });
+        assert.match(result.error, /^No pattern in the example fits at cell \(0, 0\)/);
+    });
+
+    it('reports locked cells the example cannot produce', () => {
+        const locked: Array<LayoutTile | null> = new Array(36).fill(null);
+        locked[8] = 'item';
+        const result = LayoutSynthesizer.synthesize(tileMap(['fff', 'fww', 'fww']), { width: 6, height: 6, locked });
+
+        assert.ok(!result.success);
+        assert.deepEqual(result.cell, { x: 2, y: 1 });
+        assert.equal(result.error, 'Locked cell (2, 1) is item, which the example does not contain');
+        assert.equal(result.attempts, 0);
+    });
+
+    it('reports locked cells that no pattern combines', () => {
+        const locked: Array<LayoutTile | null> = new Array(36).fill(null);
+        locked[14] = 'wall';
+        locked[15] = 'wall';
+        const checkerboard = tileMap(['fwfw', 'wfwf', 'fwfw', 'wfwf']);
+        const result = LayoutSynthesizer.synthesize(checkerboard, { width: 6, height: 6, patternSize: 2, locked });
+
+        assert.ok(!result.success);
+        assert.ok(result.cell);
+        assert.match(result.error, /^The locked cells around \(\d+, \d+\) cannot be combined/);
+    });
+
+    it('rejects unusable options', () => {
+        assert.throws(() => LayoutSynthesizer.synthesize(ROOM, { patternSize: 5 }), /between 2 and 4/);
+        assert.throws(() => LayoutSynthesizer.synthesize(ROOM, { width: 2, height: 2 }), /output must be at least 3 x 3/);
+        assert.throws(() => LayoutSynthesizer.synthesize(ROOM, { width: 200, height: 200 }), /at most 16384 cells/);
+        assert.throws(
+            () => LayoutSynthesizer.synthesize(ROOM, { width: 4, height: 4, locked: [null] }),
+            /must match the output size/
+        );
+    });
+});
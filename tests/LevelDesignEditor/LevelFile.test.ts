@@ -0,0 +1,177 @@
+/**
+ * Tests for level file migrations, validation and loading
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Level, DEFAULT_LAYER_ID } from '../../src/LevelDesignEditor/Domain/Level.js';
+import { createDoorElement, createWallElement } from '../../src/LevelDesignEditor/Domain/LevelElement.js';
+import { compareFileVersions, migrateLevelFile } from '../../src/LevelDesignEditor/Export/LevelFileMigrations.js';
+import { validateLevelFile } from '../../src/LevelDesignEditor/Export/LevelFileValidator.js';
+import {
+    ELEMENT_CLIPBOARD_FORMAT,
+    LEVEL_FORMAT_VERSION,
+    LevelSerializer
+} from '../../src/LevelDesignEditor/Export/LevelSerializer.js';
+
+/**
+ * A level file as saved before versioning, layers and rotation existed
+ */
+function legacyFile(): Record<string, any> {
+    return {
+        level: {
+            metadata: { name: 'Old' },
+            elements: [
+                { id: 'w1', type: 'wall', gridX: 0, gridY: 0, width: 4, depth: 1, wallHeight: 3, elevation: 0 },
+                { id: 's1', type: 'spawn', gridX: 1, gridY: 2, width: 1, depth: 1, spawnType: 'player', elevation: 0, rotation: 90 },
+                { id: 'x1', type: 'pillar', gridX: 0, gridY: 0, width: 1, depth: 1 },
+                { id: 'w1', type: 'floor', gridX: 0, gridY: 0, width: 4, depth: 4, elevation: 0, thickness: 0.1 },
+                { id: 'd1', type: 'door', wallId: 'gone', gridX: 1, gridY: 0, width: 1, depth: 1, height: 2.1, sillHeight: 0 }
+            ]
+        }
+    };
+}
+
+describe('LevelFileMigrations', () => {
+    it('compares versions numerically', () => {
+        assert.ok(compareFileVersions('1.2', '1.10') < 0);
+        assert.ok(compareFileVersions('2.0', '1.9') > 0);
+        assert.equal(compareFileVersions('1.1', '1.1'), 0);
+    });
+
+    it('upgrades an unversioned file to the current version', () => {
+        const file = legacyFile();
+        const report = migrateLevelFile(file, LEVEL_FORMAT_VERSION);
+
+        assert.equal(report.sourceVersion, '1.0');
+        assert.equal(report.migrations.length, 2);
+        assert.equal(file.version, LEVEL_FORMAT_VERSION);
+        assert.deepEqual(file.level.layers.map((layer: { id: string }) => layer.id), [DEFAULT_LAYER_ID]);
+        assert.equal(file.level.gridWidth, 20);
+        assert.deepEqual(validateLevelFile(file), []);
+    });
+
+    it('reports what it repaired and dropped', () => {
+        const file = legacyFile();
+        const report = migrateLevelFile(file, LEVEL_FORMAT_VERSION);
+
+        assert.ok(report.repaired.includes('version: missing, assumed 1.0'));
+        assert.ok(report.repaired.includes('elements[1].rotation: spawn elements do not rotate, removed'));
+        assert.deepEqual(report.dropped, [
+            'elements[2]: unknown element type "pillar"',
+            'elements[3]: duplicate element ID "w1"',
+            'door "d1": its wall "gone" is missing'
+        ]);
+        assert.deepEqual(file.level.elements.map((element: { id: string }) => element.id), ['w1', 's1']);
+    });
+
+    it('moves the property schema out of 1.1 levels', () => {
+        const schema = { elementTypes: {}, tags: ['boss'] };
+        const file: Record<string, any> = { version: '1.1', level: { propertySchema: schema } };
+        migrateLevelFile(file, '1.2');
+
+        assert.deepEqual(file.propertySchema, schema);
+        assert.equal(file.level.propertySchema, undefined);
+    });
+
+    it('rejects files from a newer editor and malformed versions', () => {
+        assert.throws(() => migrateLevelFile({ version: '9.0', level: {} }, LEVEL_FORMAT_VERSION), /newer than this editor/);
+        assert.throws(() => migrateLevelFile({ version: 'v1', level: {} }, LEVEL_FORMAT_VERSION), /must be a string like/);
+        assert.throws(() => migrateLevelFile([], LEVEL_FORMAT_VERSION), /must be a JSON object/);
+    });
+});
+
+describe('LevelFileValidator', () => {
+    /**
+     * A valid file in the current format
+     */
+    function currentFile(): Record<string, any> {
+        const level = new Level(10, 10, 'Valid');
+        const wall = createWallElement(0, 0, 4, 1);
+        level.addElements([wall, createDoorElement(wall, 1, 0)]);
+        return JSON.parse(LevelSerializer.serialize(level));
+    }
+
+    it('accepts a saved level', () => {
+        assert.deepEqual(validateLevelFile(currentFile()), []);
+    });
+
+    it('names the exact path of each invalid value', () => {
+        const file = currentFile();
+        file.level.gridWidth = 0;
+        file.level.elements[0].wallHeight = -1;
+        file.level.elements[1].wallId = 'missing';
+        file.level.elements.push({ ...file.level.elements[0], layerId: 'nowhere' });
+
+        assert.deepEqual(validateLevelFile(file), [
+            'gridWidth must be a positive integer',
+            'elements[0].wallHeight must be positive',
+            'elements[1].wallId refers to missing wall "missing"',
+            `elements[2].id "${file.level.elements[0].id}" is also used by elements[0]`,
+            'elements[2].wallHeight must be positive',
+            'elements[2].layerId refers to missing layer "nowhere"'
+        ]);
+    });
+
+    it('checks embedded prefabs and property schemas', () => {
+        const file = currentFile();
+        file.prefabs = [{ id: 'p', name: '', modifiedAt: '', elements: 'none' }];
+        file.propertySchema = { tags: [] };
+
+        assert.deepEqual(validateLevelFile(file), [
+            'prefabs[0].name must not be empty',
+            'prefabs[0].modifiedAt must not be empty',
+            'prefabs[0].elements must be an array',
+            'propertySchema: Invalid property schema: missing "elementTypes"'
+        ]);
+    });
+});
+
+describe('LevelSerializer', () => {
+    it('round-trips a level through a file', () => {
+        const level = new Level(12, 8, 'Round trip');
+        const wall = createWallElement(1, 1, 6, 1, 2.5);
+        level.addElements([wall, createDoorElement(wall, 3, 1)]);
+
+        const { level: loaded, report } = LevelSerializer.deserializeFile(LevelSerializer.serialize(level));
+        assert.deepEqual(loaded.toJSON(), level.toJSON());
+        assert.equal(LevelSerializer.describeReport(report), '');
+    });
+
+    it('loads legacy files and lists what changed', () => {
+        const { level, report } = LevelSerializer.deserializeFile(JSON.stringify(legacyFile()));
+
+        assert.equal(level.getElementCount(), 2);
+        assert.match(LevelSerializer.describeReport(report), /^Repaired version: missing, assumed 1.0$/m);
+        assert.match(LevelSerializer.describeReport(report), /^Dropped elements\[2\]: unknown element type "pillar"$/m);
+    });
+
+    it('rejects invalid files with their errors', () => {
+        const file = legacyFile();
+        file.level.elements[0].wallHeight = 'tall';
+        assert.throws(() => LevelSerializer.deserializeFile(JSON.stringify(file)), /elements\[0\]\.wallHeight must be a number/);
+        assert.throws(() => LevelSerializer.deserializeFile('{'), /Failed to parse level file/);
+    });
+
+    it('migrates pasted elements and ignores other clipboard text', () => {
+        assert.equal(LevelSerializer.deserializeElements('hello'), null);
+        assert.equal(LevelSerializer.deserializeElements('{"format":"other","elements":[]}'), null);
+
+        const clipboard = JSON.stringify({
+            format: ELEMENT_CLIPBOARD_FORMAT,
+            elements: [{ id: 's1', type: 'spawn', gridX: 1, gridY: 2, width: 1, depth: 1, spawnType: 'item', elevation: 0, rotation: 90 }]
+        });
+        const elements = LevelSerializer.deserializeElements(clipboard);
+        assert.equal(elements?.length, 1);
+        assert.equal(elements?.[0].rotation, undefined);
+    });
+
+    it('rejects pasted elements it cannot use', () => {
+        const clipboard = JSON.stringify({
+            format: ELEMENT_CLIPBOARD_FORMAT,
+            version: LEVEL_FORMAT_VERSION,
+            elements: [{ id: 'x', type: 'pillar' }]
+        });
+        assert.throws(() => LevelSerializer.deserializeElements(clipboard), /elements\[0\]\.type must be one of/);
+    });
+});
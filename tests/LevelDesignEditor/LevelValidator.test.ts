@@ -0,0 +1,121 @@
+/**
+ * Tests for the player-metrics level validator
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Level } from '../../src/LevelDesignEditor/Domain/Level.js';
+import { LevelValidator, ValidationIssue } from '../../src/LevelDesignEditor/Domain/LevelValidator.js';
+import {
+    AnyLevelElement,
+    createDoorElement,
+    createFloorElement,
+    createRampElement,
+    createSpawnElement,
+    createStairElement,
+    createWallBetween,
+    createWallElement
+} from '../../src/LevelDesignEditor/Domain/LevelElement.js';
+
+/**
+ * Validates a level made of the given elements
+ */
+function validate(elements: AnyLevelElement[]): ValidationIssue[] {
+    const level = new Level(30, 30, 'Test');
+    level.addElements(elements);
+    return LevelValidator.validate(level);
+}
+
+/**
+ * Lists the rules and severities of the issues found
+ */
+function findings(elements: AnyLevelElement[]): string[] {
+    return validate(elements).map(issue => `${issue.rule}:${issue.severity}`);
+}
+
+describe('LevelValidator', () => {
+    it('rates walls by how the player gets over them', () => {
+        assert.deepEqual(findings([createWallElement(0, 0, 4, 1, 0.2)]), ['wall-walkable:warning']);
+        assert.deepEqual(findings([createWallElement(0, 0, 4, 1, 0.8)]), ['wall-jumpable:warning']);
+        assert.deepEqual(findings([createWallElement(0, 0, 4, 1, 1.5)]), ['wall-low:info']);
+        assert.deepEqual(findings([createWallElement(0, 0, 4, 1, 3)]), []);
+    });
+
+    it('flags elevation changes between touching floors', () => {
+        const low = createFloorElement(0, 0, 4, 4, 0);
+        assert.deepEqual(findings([low, createFloorElement(4, 0, 4, 4, 0.2)]), []);
+        assert.deepEqual(findings([low, createFloorElement(4, 0, 4, 4, 0.5)]), ['step-too-high:warning']);
+        assert.deepEqual(findings([low, createFloorElement(4, 0, 4, 4, 2)]), ['ledge-too-high:error']);
+    });
+
+    it('flags gaps between raised floors wider than the jump distance', () => {
+        const left = createFloorElement(0, 0, 4, 4, 2);
+        assert.deepEqual(findings([left, createFloorElement(7, 0, 4, 4, 2)]), []);
+
+        const issues = validate([left, createFloorElement(10, 0, 4, 4, 2)]);
+        assert.deepEqual(issues.map(issue => `${issue.rule}:${issue.severity}`), ['gap-too-wide:error']);
+        assert.deepEqual(issues[0].bounds, { gridX: 4, gridY: 0, width: 6, depth: 4 });
+    });
+
+    it('ignores gaps bridged by another floor or walkable from the ground', () => {
+        const left = createFloorElement(0, 0, 4, 4, 2);
+        const right = createFloorElement(10, 0, 4, 4, 2);
+        const bridge = createFloorElement(4, 1, 6, 2, 2);
+        assert.deepEqual(findings([left, right, bridge]), []);
+
+        const lowLeft = createFloorElement(0, 0, 4, 4, 0.2);
+        const lowRight = createFloorElement(10, 0, 4, 4, 0.2);
+        assert.deepEqual(findings([lowLeft, lowRight]), []);
+    });
+
+    it('flags steep ramps and high stair steps', () => {
+        assert.deepEqual(findings([createRampElement(0, 0, 2, 1, 'north', 0, 3)]), ['slope-too-steep:warning']);
+        assert.deepEqual(findings([createRampElement(0, 0, 2, 6, 'north', 0, 3)]), []);
+        assert.deepEqual(findings([createStairElement(0, 0, 2, 4, 'north', 0, 1, 2)]), ['slope-too-steep:warning']);
+        assert.deepEqual(findings([createStairElement(0, 0, 2, 4, 'north', 0, 1, 5)]), []);
+    });
+
+    it('flags corridors narrower than the player', () => {
+        const wall = createWallElement(0, 0, 6, 1);
+        assert.deepEqual(findings([wall, createWallElement(0, 1.5, 6, 1)]), ['corridor-too-narrow:error']);
+        assert.deepEqual(findings([wall, createWallElement(0, 2, 6, 1)]), []);
+    });
+
+    it('measures corridors between angled walls across their footprints', () => {
+        const a = createWallBetween(0, 0, 6, 6, 0.5);
+        const b = createWallBetween(0, 1, 6, 7, 0.5);
+        assert.deepEqual(findings([a, b]), ['corridor-too-narrow:error']);
+    });
+
+    it('flags orphaned openings and doors the player cannot fit through', () => {
+        const wall = createWallElement(0, 0, 6, 1);
+        const orphan = { ...createDoorElement(wall, 2, 0), wallId: 'missing' };
+        assert.deepEqual(findings([wall, orphan]), ['opening-orphaned:error']);
+
+        assert.deepEqual(findings([wall, createDoorElement(wall, 2, 0, 1, 2.1)]), []);
+        assert.deepEqual(findings([wall, createDoorElement(wall, 2, 0, 1, 1.5)]), ['door-too-small:warning']);
+        assert.deepEqual(findings([wall, createDoorElement(wall, 2, 0, 1, 0.5)]), ['door-too-small:error']);
+    });
+
+    it('flags spawns inside walls or above nothing', () => {
+        const wall = createWallElement(0, 0, 6, 1);
+        assert.deepEqual(findings([wall, createSpawnElement(2, 0, 'player')]), ['spawn-embedded:error']);
+        assert.deepEqual(findings([createSpawnElement(2, 2, 'enemy', 2)]), ['spawn-floating:error']);
+        assert.deepEqual(findings([createSpawnElement(2, 2, 'item', 2)]), ['spawn-floating:warning']);
+        assert.deepEqual(findings([createFloorElement(0, 0, 4, 4, 1.9), createSpawnElement(2, 2, 'item', 2)]), []);
+    });
+
+    it('flags properties the schema does not allow', () => {
+        const spawn = { ...createSpawnElement(2, 2, 'enemy'), properties: { wave: 1.5, color: 'red' } };
+        const issues = validate([spawn]);
+
+        assert.deepEqual(issues.map(issue => issue.rule), ['property-invalid', 'property-invalid']);
+        assert.match(issues[0].message, /wave/);
+        assert.match(issues[1].message, /color/);
+    });
+
+    it('counts issues by severity', () => {
+        const issues = validate([createWallElement(0, 0, 4, 1, 0.2), createSpawnElement(8, 8, 'enemy', 2)]);
+        assert.deepEqual(LevelValidator.summarize(issues), { error: 1, warning: 1, info: 0 });
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the navigation grid and spawn reachability analysis
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Level } from '../../src/LevelDesignEditor/Domain/Level.js';
+import { NavigationGrid } from '../../src/LevelDesignEditor/Domain/NavigationGrid.js';
+import { ReachabilityAnalyzer, SpawnReachability } from '../../src/LevelDesignEditor/Domain/ReachabilityAnalyzer.js';
+import {
+    AnyLevelElement,
+    createDoorElement,
+    createFloorElement,
+    createRampElement,
+    createSpawnElement,
+    createWallElement
+} from '../../src/LevelDesignEditor/Domain/LevelElement.js';
+import { MOVE_SPEED } from '../../src/LevelDesignEditor/Domain/PlayerMetrics.js';
+
+/**
+ * Creates a level from elements
+ */
+function createLevel(width: number, height: number, elements: AnyLevelElement[]): Level {
+    const level = new Level(width, height, 'Test');
+    level.addElements(elements);
+    return level;
+}
+
+/**
+ * Analyzes a level and returns the result for its single target spawn
+ */
+function analyzeTarget(level: Level): SpawnReachability {
+    const report = ReachabilityAnalyzer.analyze(level);
+    assert.equal(report.results.length, 1);
+    return report.results[0];
+}
+
+describe('NavigationGrid', () => {
+    it('stacks a surface on a floor above the walkable ground', () => {
+        const level = createLevel(4, 4, [createFloorElement(1, 1, 2, 2, 2.9)]);
+        const grid = NavigationGrid.build(level);
+
+        assert.deepEqual(grid.getNodesAt(1, 1).map(node => node.height), [0, 3]);
+        assert.deepEqual(grid.getNodesAt(0, 0).map(node => node.height), [0]);
+        assert.equal(grid.findNode(1, 1, 2.95)?.height, 3);
+        assert.equal(grid.findNode(1, 1, 1.5), null);
+    });
+
+    it('leaves no surface where a floor is too low to stand under', () => {
+        const level = createLevel(4, 4, [createFloorElement(1, 1, 2, 2, 1)]);
+        const grid = NavigationGrid.build(level);
+
+        assert.deepEqual(grid.getNodesAt(1, 1).map(node => node.height), [1.1]);
+    });
+
+    it('finds the straight path across open ground', () => {
+        const grid = NavigationGrid.build(createLevel(10, 10, []));
+        const start = grid.findNode(1, 5, 0)!;
+        const goal = grid.findNode(8, 5, 0)!;
+
+        const path = grid.findPath(start.index, goal.index);
+        assert.ok(path);
+        assert.equal(path.length, 7);
+        assert.equal(path.jumps, 0);
+        assert.deepEqual(path.points.map(point => point.gridX), [1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    it('drops the ground when it is not walkable', () => {
+        const grid = NavigationGrid.build(createLevel(4, 4, []), undefined, { groundIsWalkable: false });
+        assert.equal(grid.getNodes().length, 0);
+    });
+});
+
+describe('ReachabilityAnalyzer', () => {
+    const player = () => createSpawnElement(1, 5, 'player');
+
+    it('reports the path length and time to a spawn on open ground', () => {
+        const result = analyzeTarget(createLevel(10, 10, [player(), createSpawnElement(8, 5, 'item')]));
+
+        assert.equal(result.reachable, true);
+        assert.equal(result.length, 7);
+        assert.equal(result.time, 7 / MOVE_SPEED);
+    });
+
+    it('reports a spawn behind a full-height wall as unreachable', () => {
+        const wall = createWallElement(4, 0, 1, 10, 3);
+        const result = analyzeTarget(createLevel(10, 10, [wall, player(), createSpawnElement(8, 5, 'enemy')]));
+
+        assert.equal(result.reachable, false);
+        assert.equal(result.reason, 'No path from the player spawn');
+        assert.deepEqual(result.path, []);
+    });
+
+    it('walks through a door in the wall', () => {
+        const wall = createWallElement(4, 0, 1, 10, 3);
+        const door = createDoorElement(wall, 4, 2);
+        const result = analyzeTarget(createLevel(10, 10, [wall, door, player(), createSpawnElement(8, 5, 'enemy')]));
+
+        assert.equal(result.reachable, true);
+        assert.ok(result.path.some(point => point.gridX === 4 && point.gridY === 2));
+        assert.ok(result.length > 7);
+    });
+
+    it('jumps onto a platform within the jump height', () => {
+        const platform = createFloorElement(6, 0, 4, 10, 0.7);
+        const target = createSpawnElement(8, 5, 'item', 0.8);
+        const result = analyzeTarget(createLevel(10, 10, [platform, player(), target]));
+
+        assert.equal(result.reachable, true);
+        assert.equal(result.jumps, 1);
+        assert.ok(result.time > result.length / MOVE_SPEED);
+    });
+
+    it('needs a ramp to reach a platform above the jump height', () => {
+        const platform = createFloorElement(14, 0, 10, 10, 2.9);
+        const target = createSpawnElement(20, 4, 'item', 3);
+        const elements = [platform, createSpawnElement(0, 4, 'player'), target];
+
+        const withoutRamp = analyzeTarget(createLevel(24, 10, elements));
+        assert.equal(withoutRamp.reachable, false);
+
+        const ramp = createRampElement(2, 3, 12, 3, 'east', 0, 3);
+        const withRamp = analyzeTarget(createLevel(24, 10, [...elements, ramp]));
+        assert.equal(withRamp.reachable, true);
+        assert.equal(withRamp.jumps, 0);
+        assert.equal(withRamp.path[withRamp.path.length - 1].height, 3);
+    });
+
+    it('reports every spawn as unreachable without a player spawn', () => {
+        const report = ReachabilityAnalyzer.analyze(createLevel(10, 10, [createSpawnElement(8, 5, 'item')]));
+
+        assert.equal(report.playerSpawnId, null);
+        assert.equal(report.results[0].reachable, false);
+        assert.equal(report.results[0].reason, 'No player spawn in level');
+    });
+
+    it('reports a spawn floating above any surface', () => {
+        const result = analyzeTarget(createLevel(10, 10, [player(), createSpawnElement(8, 5, 'item', 2)]));
+
+        assert.equal(result.reachable, false);
+        assert.equal(result.reason, 'Spawn is not on a walkable surface');
+    });
+});
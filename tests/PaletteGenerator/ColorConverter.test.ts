@@ -0,0 +1,106 @@
+/**
+ * Tests for color conversions and perceptual color differences
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ColorConverter } from '../../src/PaletteGenerator/Domain/ColorConverter.js';
+
+type Triple = [number, number, number];
+
+/**
+ * Checks that each component of two colors matches within a tolerance
+ */
+function assertClose(actual: number[], expected: number[], tolerance: number): void {
+    actual.forEach((value, i) => {
+        assert.ok(Math.abs(value - expected[i]) <= tolerance, `${actual} is not ${expected}`);
+    });
+}
+
+/**
+ * CIEDE2000 test data from Sharma, Wu and Dalal (2005): two Lab colors and their difference
+ * Includes the pairs that catch mistakes in the mean hue and hue difference near 180 degrees
+ */
+const CIEDE2000_PAIRS: Array<[Triple, Triple, number]> = [
+    [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+    [[50, 3.1571, -77.2803], [50, 0, -82.7485], 2.8615],
+    [[50, 2.8361, -74.02], [50, 0, -82.7485], 3.4412],
+    [[50, 0, 0], [50, -1, 2], 2.3669],
+    [[50, -1, 2], [50, 0, 0], 2.3669],
+    [[50, 2.49, -0.001], [50, -2.49, 0.0009], 7.1792],
+    [[50, 2.49, -0.001], [50, -2.49, 0.001], 7.1792],
+    [[50, 2.49, -0.001], [50, -2.49, 0.0011], 7.2195],
+    [[50, 2.49, -0.001], [50, -2.49, 0.0012], 7.2195],
+    [[50, -0.001, 2.49], [50, 0.0009, -2.49], 4.8045],
+    [[50, 2.5, 0], [73, 25, -18], 27.1492],
+    [[50, 2.5, 0], [61, -5, 29], 22.8977],
+    [[50, 2.5, 0], [56, -27, -3], 31.903],
+    [[50, 2.5, 0], [58, 24, 15], 19.4535],
+    [[50, 2.5, 0], [50, 3.1736, 0.5854], 1],
+    [[50, 2.5, 0], [50, 3.2972, 0], 1],
+    [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+    [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+    [[63.0109, -31.0961, -5.8663], [62.8187, -29.7946, -4.0864], 1.263]
+];
+
+describe('ColorConverter', () => {
+    it('converts between hex, RGB and HSL', () => {
+        assert.deepEqual(ColorConverter.hexToRgb('#ff8000'), [255, 128, 0]);
+        assert.equal(ColorConverter.rgbToHex(255, 128, 0), '#ff8000');
+        assert.equal(ColorConverter.rgbToHex(0, 5, 10), '#00050a');
+        assertClose(ColorConverter.rgbToHsl(255, 0, 0), [0, 1, 0.5], 1e-12);
+        assert.deepEqual(ColorConverter.hslToRgb(2 / 3, 1, 0.5), [0, 0, 255]);
+        assert.deepEqual(ColorConverter.hslToRgb(0, 0, 0.5), [128, 128, 128]);
+    });
+
+    it('converts sRGB to CIELAB with the D65 white point', () => {
+        assertClose(ColorConverter.rgbToLab(255, 255, 255), [100, 0, 0], 1e-3);
+        assertClose(ColorConverter.rgbToLab(255, 0, 0), [53.2408, 80.0925, 67.2032], 1e-3);
+        assertClose(ColorConverter.rgbToLab(0, 0, 255), [32.2970, 79.1875, -107.8602], 1e-3);
+        assertClose(ColorConverter.rgbToXyz(255, 255, 255), [0.95047, 1, 1.08883], 1e-4);
+    });
+
+    it('converts sRGB to OKLab and OKLCH', () => {
+        assertClose(ColorConverter.rgbToOklab(255, 255, 255), [1, 0, 0], 1e-4);
+        assertClose(ColorConverter.rgbToOklab(255, 0, 0), [0.62796, 0.22486, 0.12585], 1e-4);
+        assertClose(ColorConverter.rgbToOklch(255, 0, 0), [0.62796, 0.25768, 29.2339], 1e-3);
+        assert.equal(ColorConverter.rgbToOklch(128, 128, 128)[2], 0);
+    });
+
+    it('round-trips every channel level through CIELAB and OKLab', () => {
+        for (let c = 0; c <= 255; c += 15) {
+            const rgb: Triple = [c, 255 - c, (c * 7) % 256];
+            assert.deepEqual(ColorConverter.labToRgb(...ColorConverter.rgbToLab(...rgb)), rgb);
+            assert.deepEqual(ColorConverter.oklabToRgb(...ColorConverter.rgbToOklab(...rgb)), rgb);
+            assert.deepEqual(ColorConverter.oklchToRgb(...ColorConverter.rgbToOklch(...rgb)), rgb);
+        }
+    });
+
+    it('keeps out-of-gamut OKLCH colors inside sRGB', () => {
+        const rgb = ColorConverter.oklchToRgb(0.7, 0.4, 140);
+        rgb.forEach(channel => assert.ok(channel >= 0 && channel <= 255));
+        const hue = ColorConverter.rgbToOklch(...rgb)[2];
+        assert.ok(Math.abs(hue - 140) < 2, `hue ${hue}`);
+    });
+
+    it('changes perceptual lightness while keeping the hue', () => {
+        const [r, g, b] = ColorConverter.setLightness(40, 120, 200, 80, 'perceptual');
+        assert.ok(Math.abs(ColorConverter.getLightness(r, g, b, 'perceptual') - 80) < 1);
+        assert.ok(Math.abs(ColorConverter.rgbToOklch(r, g, b)[2] - ColorConverter.rgbToOklch(40, 120, 200)[2]) < 2);
+        assert.ok(Math.abs(ColorConverter.getLightness(...ColorConverter.setLightness(40, 120, 200, 30, 'hsl'), 'hsl') - 30) < 1);
+    });
+
+    CIEDE2000_PAIRS.forEach(([lab1, lab2, expected], i) => {
+        it(`matches CIEDE2000 reference pair ${i + 1} (${expected})`, () => {
+            assert.ok(Math.abs(ColorConverter.deltaE2000(lab1, lab2) - expected) < 1e-4);
+            assert.ok(Math.abs(ColorConverter.deltaE2000(lab2, lab1) - expected) < 1e-4);
+        });
+    });
+
+    it('measures OKLab distance with black to white as 1', () => {
+        const black = ColorConverter.rgbToOklab(0, 0, 0);
+        const white = ColorConverter.rgbToOklab(255, 255, 255);
+        assert.ok(Math.abs(ColorConverter.oklabDistance(black, white) - 1) < 1e-4);
+        assert.equal(ColorConverter.oklabDistance(white, white), 0);
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for WCAG and APCA contrast checks
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContrastChecker, ContrastPair, ContrastPalette } from '../../src/PaletteGenerator/Domain/ContrastChecker.js';
+
+type Slot = 'ground' | 'accent' | 'sky';
+
+/**
+ * A palette of fixed colors with some slots locked
+ */
+function palette(colors: Record<Slot, string>, locked: Slot[] = []): ContrastPalette<Slot> {
+    return {
+        getColor: slot => colors[slot],
+        isLocked: slot => locked.includes(slot)
+    };
+}
+
+/**
+ * A pair needing the WCAG minimum for UI elements
+ */
+function pair(foreground: Slot, background: Slot, minLc: number = 0): ContrastPair<Slot> {
+    return { foreground, background, minRatio: 3, minLc, severity: 'warning' };
+}
+
+/**
+ * Checks that a value matches a reference to the given number of decimals
+ */
+function assertRounded(actual: number, expected: number, decimals: number): void {
+    assert.equal(Number(actual.toFixed(decimals)), expected);
+}
+
+describe('ContrastChecker', () => {
+    it('calculates WCAG contrast ratios in either order', () => {
+        assertRounded(ContrastChecker.contrastRatio('#000000', '#ffffff'), 21, 4);
+        assertRounded(ContrastChecker.contrastRatio('#ffffff', '#000000'), 21, 4);
+        assert.equal(ContrastChecker.contrastRatio('#336699', '#336699'), 1);
+        // The darkest grays that pass AA for normal text and for large text on white
+        assertRounded(ContrastChecker.contrastRatio('#767676', '#ffffff'), 4.54, 2);
+        assertRounded(ContrastChecker.contrastRatio('#949494', '#ffffff'), 3.03, 2);
+    });
+
+    it('calculates APCA lightness contrast with polarity', () => {
+        assertRounded(ContrastChecker.apcaContrast('#000000', '#ffffff'), 106.04, 2);
+        assertRounded(ContrastChecker.apcaContrast('#ffffff', '#000000'), -107.88, 2);
+        assertRounded(ContrastChecker.apcaContrast('#888888', '#ffffff'), 63.06, 2);
+        assertRounded(ContrastChecker.apcaContrast('#ffffff', '#888888'), -68.54, 2);
+        assert.equal(ContrastChecker.apcaContrast('#777777', '#777777'), 0);
+    });
+
+    it('compares APCA contrast by magnitude', () => {
+        const light: ContrastPair<string> = { foreground: 'a', background: 'b', minRatio: 3, minLc: 60, severity: 'error' };
+        assert.ok(ContrastChecker.passes('#ffffff', '#000000', light));
+        assert.ok(ContrastChecker.passes('#000000', '#ffffff', light));
+        assert.ok(!ContrastChecker.passes('#ffffff', '#888888', { ...light, minLc: 75 }));
+        assert.ok(!ContrastChecker.passes('#888888', '#999999', light));
+    });
+
+    it('reports failing pairs and suggests a lightness that passes them', () => {
+        const colors = palette({ ground: '#4a6b3a', accent: '#5a7040', sky: '#87ceeb' });
+        const pairs = [pair('accent', 'ground', 45), pair('sky', 'ground')];
+        const { issues, suggestions } = ContrastChecker.checkPairs(colors, pairs);
+
+        assert.equal(issues.length, 1);
+        assert.deepEqual(issues[0].slot, ['accent', 'ground']);
+        assert.match(issues[0].message, /^Accent has low contrast with ground \(1\.\d\d:1, APCA Lc \d+; recommended: ≥3:1, Lc ≥45\)$/);
+
+        assert.equal(suggestions.length, 1);
+        assert.equal(suggestions[0].slot, 'accent');
+        assert.equal(suggestions[0].action, 'adjust_lightness');
+        assert.ok(ContrastChecker.passes(suggestions[0].newColor, '#4a6b3a', pairs[0]));
+        assert.equal(suggestions[0].description, `${suggestions[0].value > 0 ? 'Lighten' : 'Darken'} accent to contrast with ground`);
+    });
+
+    it('adjusts the background when the foreground is locked', () => {
+        const pairs = [pair('accent', 'ground')];
+        const background = ContrastChecker.checkPairs(palette({ ground: '#4a6b3a', accent: '#5a7040', sky: '#87ceeb' }, ['accent']), pairs);
+        assert.equal(background.suggestions[0].slot, 'ground');
+        assert.ok(ContrastChecker.passes('#5a7040', background.suggestions[0].newColor, pairs[0]));
+
+        const none = ContrastChecker.checkPairs(palette({ ground: '#4a6b3a', accent: '#5a7040', sky: '#87ceeb' }, ['accent', 'ground']), pairs);
+        assert.equal(none.issues.length, 1);
+        assert.deepEqual(none.suggestions, []);
+    });
+
+    it('suggests a lightness that keeps the slot\'s other pairs passing', () => {
+        // The accent sits on both a dark ground and a light sky, so it cannot simply turn white
+        const colors = palette({ ground: '#202020', accent: '#404040', sky: '#e0e0e0' });
+        const pairs = [pair('accent', 'ground'), pair('accent', 'sky')];
+        const { issues, suggestions } = ContrastChecker.checkPairs(colors, pairs);
+
+        assert.deepEqual(issues.map(issue => issue.slot), [['accent', 'ground']]);
+        assert.equal(suggestions.length, 1);
+        assert.match(suggestions[0].description, /to contrast with ground, sky$/);
+        assert.ok(pairs.every(p => ContrastChecker.passes(suggestions[0].newColor, colors.getColor(p.background), p)));
+    });
+
+    it('finds no lightness when none meets more requirements', () => {
+        assert.equal(ContrastChecker.findLightness('#808080', [() => true]), null);
+        assert.equal(ContrastChecker.findLightness('#808080', [() => false]), null);
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for palette import, and for exported palettes reading back through the importer
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EnvironmentPalette, SLOT_DEFINITIONS } from '../../src/PaletteGenerator/Domain/EnvironmentPalette.js';
+import { PaletteSlotMapper } from '../../src/PaletteGenerator/Domain/PaletteSlotMapper.js';
+import { PaletteExportData, PaletteExporter } from '../../src/PaletteGenerator/Export/PaletteExporter.js';
+import { PaletteImporter } from '../../src/PaletteGenerator/Export/PaletteImporter.js';
+
+/**
+ * An environment palette with a color in every slot that differs from the defaults
+ */
+function exportData(): PaletteExportData {
+    const palette = new EnvironmentPalette();
+    const colors = ['#87ceeb', '#1e6091', '#4a7c2f', '#2d5016', '#7a7a7a', '#8b5a2b', '#5c4033', '#ff4500'];
+    SLOT_DEFINITIONS.forEach((slot, i) => palette.setColor(slot.id, colors[i]));
+    return PaletteExporter.fromEnvironmentPalette(palette, 'Forest');
+}
+
+/**
+ * Lists the exported swatches as the importer should read them back
+ */
+function expectedColors(data: PaletteExportData): { name: string; color: string }[] {
+    return data.swatches.map(swatch => ({ name: PaletteExporter.getSwatchName(swatch), color: swatch.color }));
+}
+
+/**
+ * Encodes text as file bytes
+ */
+function bytes(text: string): Uint8Array {
+    return new TextEncoder().encode(text);
+}
+
+describe('Palette export and import round trips', () => {
+    it('reads back a GIMP palette', () => {
+        const data = exportData();
+        const palette = PaletteImporter.parse(PaletteExporter.toGpl(data), 'forest.gpl');
+
+        assert.equal(palette.name, 'Forest');
+        assert.deepEqual(palette.colors, expectedColors(data));
+    });
+
+    it('reads back an Adobe swatch exchange file', () => {
+        const data = exportData();
+        const file = PaletteExporter.export(data, 'ase', 'forest');
+        const palette = PaletteImporter.parse(file.content, file.fileName);
+
+        assert.equal(palette.name, 'Forest');
+        assert.deepEqual(palette.colors, expectedColors(data));
+    });
+
+    it('reads back a hex list of the exported colors', () => {
+        const data = exportData();
+        const text = data.swatches.map(swatch => `${swatch.color.slice(1).toUpperCase()} ${swatch.name}`).join('\r\n');
+        const palette = PaletteImporter.parse(bytes(text), 'forest.hex');
+
+        assert.equal(palette.name, 'forest');
+        assert.deepEqual(palette.colors, data.swatches.map(swatch => ({ name: swatch.name, color: swatch.color })));
+    });
+
+    it('maps every swatch back to the slot it was exported from', () => {
+        const data = exportData();
+        const { colors } = PaletteImporter.parse(PaletteExporter.toAse(data), 'forest.ase');
+        const mapping = PaletteSlotMapper.mapEnvironmentSlots(colors);
+
+        SLOT_DEFINITIONS.forEach(slot => {
+            assert.equal(colors[mapping[slot.id]].color, data.swatches.find(swatch => swatch.id === slot.id)?.color);
+        });
+    });
+});
+
+describe('PaletteImporter', () => {
+    it('reads hex lists with comments, short colors and alpha', () => {
+        const palette = PaletteImporter.parse('; Lospec palette\n#FFF\nff000080 Red\n\n// end\n12ab34', 'lospec.txt');
+
+        assert.deepEqual(palette.colors, [
+            { name: '', color: '#ffffff' },
+            { name: 'Red', color: '#000080' },
+            { name: '', color: '#12ab34' }
+        ]);
+    });
+
+    it('reads GIMP and JASC palettes', () => {
+        const gpl = PaletteImporter.parse('GIMP Palette\nName: Dusk\nColumns: 2\n#\n255 128   0\tUntitled\n  0   0 255 Blue\n', 'a.gpl');
+        assert.deepEqual(gpl, { name: 'Dusk', colors: [{ name: '', color: '#ff8000' }, { name: 'Blue', color: '#0000ff' }] });
+
+        const pal = PaletteImporter.parse('JASC-PAL\n0100\n2\n255 0 0\n0 255 0\n', 'b.pal');
+        assert.deepEqual(pal, { name: 'b', colors: [{ name: '', color: '#ff0000' }, { name: '', color: '#00ff00' }] });
+    });
+
+    it('recognizes ASE files by their header whatever the extension', () => {
+        const palette = PaletteImporter.parse(PaletteExporter.toAse(exportData()), 'download.bin');
+        assert.equal(palette.colors.length, SLOT_DEFINITIONS.length);
+    });
+
+    it('names the line or block of the first invalid entry', () => {
+        assert.throws(() => PaletteImporter.parse('#112233\nnot a color', 'x.hex'), /^Error: x\.hex: line 2 is not a hex color \("not a color"\)$/);
+        assert.throws(() => PaletteImporter.parse('GIMP Palette\n300 0 0 Hot', 'x.gpl'), /^Error: x\.gpl: line 2 has a channel above 255$/);
+        assert.throws(() => PaletteImporter.parse(PaletteExporter.toAse(exportData()).slice(0, 60), 'x.ase'), /^Error: x\.ase: block 2 is cut off$/);
+        assert.throws(() => PaletteImporter.parse('  \n', 'x.txt'), /^Error: x\.txt is empty$/);
+        assert.throws(() => PaletteImporter.parse('; only comments', 'x.txt'), /^Error: x\.txt contains no colors$/);
+    });
+});
@@ -0,0 +1,23 @@
+/**
+ * Node typings for the tests
+ * Only the test runner and assertions they use, so the build does not need @types/node
+ */
+
+declare module 'node:test' {
+    export function describe(name: string, fn: () => void): void;
+    export function it(name: string, fn: () => void | Promise<void>): void;
+}
+
+declare module 'node:assert/strict' {
+    function assert(value: unknown, message?: string): asserts value;
+    namespace assert {
+        function ok(value: unknown, message?: string): asserts value;
+        function equal<T>(actual: unknown, expected: T, message?: string): asserts actual is T;
+        function notEqual(actual: unknown, expected: unknown, message?: string): void;
+        function deepEqual<T>(actual: unknown, expected: T, message?: string): asserts actual is T;
+        function notDeepEqual(actual: unknown, expected: unknown, message?: string): void;
+        function match(value: string, pattern: RegExp, message?: string): void;
+        function throws(fn: () => unknown, expected?: RegExp, message?: string): void;
+    }
+    export default assert;
+}